@@ -138,7 +138,19 @@ export default function ChatMessage({
           )}
         >
           {isUser ? (
-            <p>{message.content}</p>
+            <>
+              {message.attachments
+                ?.filter((a) => a.contentType === "image")
+                .map((a) => (
+                  <img
+                    key={a.url}
+                    src={a.url}
+                    alt={a.title || "Attached photo"}
+                    className="mb-2 rounded-xl max-h-48 object-cover"
+                  />
+                ))}
+              {message.content && <p>{message.content}</p>}
+            </>
           ) : (
             <>
               {renderedContent ? (
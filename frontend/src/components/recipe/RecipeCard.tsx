@@ -8,7 +8,7 @@ import {
   Check,
   UtensilsCrossed,
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, RECIPE_PLACEHOLDER_IMAGE } from "@/lib/utils";
 import type { ParsedRecipe } from "@/lib/utils";
 import Card from "@/components/ui/Card";
 import Button from "@/components/ui/Button";
@@ -40,6 +40,9 @@ export default function RecipeCard({
     });
   };
 
+  // Checkbox indexes run across groups, matching recipe.ingredients
+  let index = 0;
+
   const allChecked =
     recipe.ingredients.length > 0 &&
     checkedIngredients.size === recipe.ingredients.length;
@@ -50,6 +53,19 @@ export default function RecipeCard({
       padding="none"
       className="overflow-hidden border border-warm-200"
     >
+      {/* Photo, or the Kitchly image when the recipe has none (or it fails to load) */}
+      <img
+        src={recipe.imageUrl || RECIPE_PLACEHOLDER_IMAGE}
+        alt={recipe.title}
+        loading="lazy"
+        className="w-full h-44 object-cover bg-cream-200"
+        onError={(e) => {
+          if (e.currentTarget.src !== RECIPE_PLACEHOLDER_IMAGE) {
+            e.currentTarget.src = RECIPE_PLACEHOLDER_IMAGE;
+          }
+        }}
+      />
+
       {/* Header */}
       <div className="bg-gradient-to-r from-kitchly-orange/5 to-cream-200 px-5 py-4 border-b border-warm-100">
         <div className="flex items-start justify-between gap-3">
@@ -105,36 +121,58 @@ export default function RecipeCard({
           <h4 className="text-sm font-semibold text-warm-700 uppercase tracking-wide mb-3">
             Ingredients
           </h4>
-          <ul className="space-y-2">
-            {recipe.ingredients.map((ingredient, i) => (
-              <li key={i} className="flex items-start gap-2.5">
-                <button
-                  onClick={() => toggleIngredient(i)}
-                  className={cn(
-                    "flex-shrink-0 w-5 h-5 rounded-md border-2 mt-0.5",
-                    "flex items-center justify-center",
-                    "transition-all duration-200",
-                    checkedIngredients.has(i)
-                      ? "bg-kitchly-emerald border-kitchly-emerald"
-                      : "border-warm-300 hover:border-kitchly-orange",
-                  )}
-                >
-                  {checkedIngredients.has(i) && (
-                    <Check className="w-3 h-3 text-white" />
-                  )}
-                </button>
-                <span
-                  className={cn(
-                    "text-sm text-warm-600 leading-relaxed transition-all duration-200",
-                    checkedIngredients.has(i) &&
-                      "line-through text-warm-400",
-                  )}
-                >
-                  {ingredient}
-                </span>
-              </li>
+          <div className="space-y-4">
+            {recipe.ingredientGroups.map((group, g) => (
+              <div key={g}>
+                {group.name && (
+                  <h5 className="text-xs font-semibold text-warm-500 mb-2">
+                    {group.name}
+                  </h5>
+                )}
+                <ul className="space-y-2">
+                  {group.ingredients.map((ingredient) => {
+                    const i = index++;
+                    return (
+                      <li key={i} className="flex items-start gap-2.5">
+                        <button
+                          onClick={() => toggleIngredient(i)}
+                          className={cn(
+                            "flex-shrink-0 w-5 h-5 rounded-md border-2 mt-0.5",
+                            "flex items-center justify-center",
+                            "transition-all duration-200",
+                            checkedIngredients.has(i)
+                              ? "bg-kitchly-emerald border-kitchly-emerald"
+                              : "border-warm-300 hover:border-kitchly-orange",
+                          )}
+                        >
+                          {checkedIngredients.has(i) && (
+                            <Check className="w-3 h-3 text-white" />
+                          )}
+                        </button>
+                        <span
+                          className={cn(
+                            "text-sm text-warm-600 leading-relaxed transition-all duration-200",
+                            checkedIngredients.has(i) &&
+                              "line-through text-warm-400",
+                          )}
+                        >
+                          {ingredient.text.replace(
+                            /\s*\((?:optional|for garnish|optional, for garnish)\)$/i,
+                            "",
+                          )}
+                          {(ingredient.optional || ingredient.garnish) && (
+                            <span className="ml-2 inline-block px-1.5 py-0.5 bg-warm-100 text-warm-500 text-[10px] font-medium uppercase tracking-wide rounded">
+                              {ingredient.garnish ? "Garnish" : "Optional"}
+                            </span>
+                          )}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
             ))}
-          </ul>
+          </div>
           {allChecked && (
             <p className="mt-3 text-xs text-kitchly-emerald font-medium flex items-center gap-1">
               <Check className="w-3.5 h-3.5" />
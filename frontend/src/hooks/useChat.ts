@@ -1,9 +1,16 @@
 import { useState, useCallback, useRef } from "react";
-import { sendMessageStream, sendMessage, type AgentResponse } from "@/lib/api";
+import {
+  sendMessageStream,
+  sendMessage,
+  uploadMedia,
+  type AgentResponse,
+  type MessageAttachment,
+} from "@/lib/api";
 import {
   generateMessageId,
   parseRecipeFromText,
   extractInstacartLinks,
+  extractImageUrl,
   type ParsedRecipe,
 } from "@/lib/utils";
 
@@ -73,6 +80,18 @@ export function useChat({ agentId }: UseChatOptions): UseChatReturn {
       setIsLoading(true);
 
       try {
+        // Upload an attached file first so the agent gets it as a URL
+        let attachments: MessageAttachment[] | undefined;
+        if (file) {
+          const attachment = await uploadMedia(agentId, file);
+          attachments = [attachment];
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === userMessage.id ? { ...msg, attachments } : msg,
+            ),
+          );
+        }
+
         let streamedText = "";
 
         const responses = await sendMessageStream(
@@ -90,11 +109,18 @@ export function useChat({ agentId }: UseChatOptions): UseChatReturn {
             );
           },
           abortController.signal,
+          attachments,
         );
 
         // Finalize: replace streaming message with final parsed version
         const finalText = responses[0]?.text || streamedText || "";
         const recipe = parseRecipeFromText(finalText);
+        // The recipe's photo can arrive in a follow-up message
+        if (recipe && !recipe.imageUrl) {
+          recipe.imageUrl = responses
+            .map((r) => extractImageUrl(r.text))
+            .find(Boolean);
+        }
         const instacartLinks = extractInstacartLinks(finalText);
 
         setMessages((prev) =>
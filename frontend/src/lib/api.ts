@@ -57,6 +57,41 @@ function getChannelId(agentId: string): string {
   return channelId;
 }
 
+export type MessageAttachment = NonNullable<AgentResponse["attachments"]>[number];
+
+/**
+ * Upload a file (e.g. a photo of a finished dish) to the agent's media
+ * store and return it as a message attachment with an absolute URL.
+ */
+export async function uploadMedia(
+  agentId: string,
+  file: File,
+): Promise<MessageAttachment> {
+  const formData = new FormData();
+  formData.append("file", file, file.name);
+
+  const response = await fetch(
+    `${BASE_URL}/api/media/agents/${agentId}/upload-media`,
+    {
+      method: "POST",
+      body: formData,
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error(`Upload failed: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const url: string | undefined = data.data?.url || data.url;
+  if (!url) throw new Error("Upload failed: no file URL returned");
+  return {
+    url: new URL(url, BASE_URL || window.location.origin).href,
+    title: file.name,
+    contentType: file.type.startsWith("image/") ? "image" : "document",
+  };
+}
+
 /**
  * Send a message via SSE transport for streaming responses.
  * The POST response itself is an event stream.
@@ -66,6 +101,7 @@ export async function sendMessageStream(
   text: string,
   onChunk: (chunk: string) => void,
   signal?: AbortSignal,
+  attachments?: MessageAttachment[],
 ): Promise<AgentResponse[]> {
   const userId = getUserId();
   const channelId = getChannelId(agentId);
@@ -84,6 +120,7 @@ export async function sendMessageStream(
         metadata: {
           isDm: true,
           targetUserId: agentId,
+          ...(attachments?.length ? { attachments } : {}),
         },
       }),
       signal,
@@ -201,10 +238,11 @@ export async function sendMessageStream(
 export async function sendMessage(
   agentId: string,
   text: string,
-  _file?: File,
+  file?: File,
 ): Promise<AgentResponse[]> {
   const userId = getUserId();
   const channelId = getChannelId(agentId);
+  const attachments = file ? [await uploadMedia(agentId, file)] : undefined;
 
   // Send the user message
   const sendResponse = await fetch(
@@ -220,6 +258,7 @@ export async function sendMessage(
         metadata: {
           isDm: true,
           targetUserId: agentId,
+          ...(attachments?.length ? { attachments } : {}),
         },
       }),
     },
@@ -23,6 +23,18 @@ export function generateMessageId(): string {
   return `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+export interface ParsedIngredient {
+  text: string;
+  optional?: boolean;
+  garnish?: boolean;
+}
+
+export interface ParsedIngredientGroup {
+  /** Heading such as "For the sauce"; unset for ingredients outside any group. */
+  name?: string;
+  ingredients: ParsedIngredient[];
+}
+
 export interface ParsedRecipe {
   title: string;
   cuisine?: string;
@@ -31,11 +43,34 @@ export interface ParsedRecipe {
   cookTime?: string;
   totalTime?: string;
   ingredients: string[];
+  /** The same ingredients laid out by group, in order. */
+  ingredientGroups: ParsedIngredientGroup[];
   instructions: string[];
   instacartUrl?: string;
+  /** Photo of the dish; the card falls back to RECIPE_PLACEHOLDER_IMAGE. */
+  imageUrl?: string;
   notes?: string;
 }
 
+/** Shown on recipe cards that have no photo of their own. */
+export const RECIPE_PLACEHOLDER_IMAGE =
+  "https://www.kitchly.app/images/instakitchly.png";
+
+const MARKDOWN_IMAGE = /!\[([^\]]*)\]\(([^)\s]+)\)/;
+
+/** The URL of the first markdown image (`![alt](url)`) in a message. */
+export function extractImageUrl(text: string): string | undefined {
+  return text.match(MARKDOWN_IMAGE)?.[2];
+}
+
+function parseIngredient(text: string): ParsedIngredient {
+  return {
+    text,
+    optional: /\(.*\boptional\b.*\)|,\s*optional$/i.test(text) || undefined,
+    garnish: /\(.*\bgarnish.*\)|\bfor garnish\b/i.test(text) || undefined,
+  };
+}
+
 export function parseRecipeFromText(text: string): ParsedRecipe | null {
   // Look for structured recipe patterns
   const hasTitle =
@@ -93,17 +128,35 @@ export function parseRecipeFromText(text: string): ParsedRecipe | null {
   );
   if (totalMatch) totalTime = totalMatch[1].trim();
 
-  // Extract ingredients
+  // Extract ingredients, grouped under "### For the sauce" or "For the sauce:" headings
   const ingredients: string[] = [];
+  const ingredientGroups: ParsedIngredientGroup[] = [];
   const ingredientSection = text.match(
-    /ingredients[:\s]*\n([\s\S]*?)(?=\n(?:instructions|directions|steps|method|notes|\*\*)|$)/i,
+    /ingredients[:\s]*\n([\s\S]*?)(?=\n(?:#+\s*)?(?:instructions|directions|steps|method|notes|\*\*)|$)/i,
   );
   if (ingredientSection) {
     const lines = ingredientSection[1].split("\n");
     for (const line of lines) {
-      const cleaned = line.replace(/^[\s\-\*\d.]+/, "").trim();
-      if (cleaned && cleaned.length > 1 && !cleaned.match(/^#+/)) {
+      const heading =
+        line.match(/^\s*#+\s*(.+)/) ||
+        line.match(/^\s*([A-Za-z][^:]{1,40}):\s*$/);
+      if (heading) {
+        ingredientGroups.push({
+          name: heading[1].replace(/[*:]+/g, "").trim(),
+          ingredients: [],
+        });
+        continue;
+      }
+      // Strip the list marker only, so "1 cup flour" keeps its amount
+      const cleaned = line.replace(/^\s*(?:(?:[-*•]|\d+[.)])\s+)?/, "").trim();
+      if (cleaned && cleaned.length > 1) {
         ingredients.push(cleaned);
+        if (ingredientGroups.length === 0) {
+          ingredientGroups.push({ ingredients: [] });
+        }
+        ingredientGroups[ingredientGroups.length - 1].ingredients.push(
+          parseIngredient(cleaned),
+        );
       }
     }
   }
@@ -130,6 +183,8 @@ export function parseRecipeFromText(text: string): ParsedRecipe | null {
   );
   if (instacartMatch) instacartUrl = instacartMatch[0];
 
+  const imageUrl = extractImageUrl(text);
+
   // Only return if we got meaningful content
   if (ingredients.length === 0 && instructions.length === 0) return null;
 
@@ -141,8 +196,10 @@ export function parseRecipeFromText(text: string): ParsedRecipe | null {
     cookTime,
     totalTime,
     ingredients,
+    ingredientGroups: ingredientGroups.filter((g) => g.ingredients.length > 0),
     instructions,
     instacartUrl,
+    imageUrl,
   };
 }
 
@@ -162,6 +219,12 @@ export function renderSimpleMarkdown(text: string): string {
   // Italic
   html = html.replace(/\*(.+?)\*/g, "<em>$1</em>");
 
+  // Images, before links so the alt text isn't read as a link
+  html = html.replace(
+    new RegExp(MARKDOWN_IMAGE.source, "g"),
+    '<img src="$2" alt="$1" loading="lazy" class="my-2 rounded-xl max-h-64 w-full object-cover" />',
+  );
+
   // Links (but not already HTML)
   html = html.replace(
     /\[([^\]]+)\]\(([^)]+)\)/g,
@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { findRestrictionViolations } from '../utils/allergenGuard.js';
+
+const flagged = (names: string[], allergies: string[], dietaryRestrictions: string[] = []) =>
+  findRestrictionViolations(names, { allergies, dietaryRestrictions }).map((v) => v.ingredient);
+
+describe('findRestrictionViolations', () => {
+  test('maps an allergen to its derivatives', () => {
+    expect(flagged(['whey protein', 'tahini', 'fish sauce'], ['dairy', 'sesame', 'fish'])).toEqual([
+      'whey protein',
+      'tahini',
+      'fish sauce',
+    ]);
+  });
+
+  test('catches allergens hidden in prepared ingredients', () => {
+    expect(flagged(['basil pesto', 'sun-dried tomato pesto'], ['tree nuts'])).toEqual([
+      'basil pesto',
+      'sun-dried tomato pesto',
+    ]);
+    expect(flagged(['2 tbsp Dijon', 'wholegrain mustard'], ['mustard'])).toEqual([
+      '2 tbsp Dijon',
+      'wholegrain mustard',
+    ]);
+    expect(flagged(['salt cod', 'codfish fillets', 'bacalao'], ['fish'])).toEqual([
+      'salt cod',
+      'codfish fillets',
+      'bacalao',
+    ]);
+  });
+
+  test('normalizes how the allergy is named', () => {
+    expect(flagged(['tahini', 'toasted sesame oil'], ['sesame seeds'])).toEqual([
+      'tahini',
+      'toasted sesame oil',
+    ]);
+    expect(flagged(['butter'], ['dairy products'])).toEqual(['butter']);
+    expect(flagged(['peanut oil'], ['peanut allergy'])).toEqual(['peanut oil']);
+    expect(flagged(['walnuts'], ['tree nuts'])).toEqual(['walnuts']);
+  });
+
+  test('matches allergies and ingredients in the singular or plural', () => {
+    expect(flagged(['strawberry', 'fresh strawberries'], ['strawberries'])).toEqual([
+      'strawberry',
+      'fresh strawberries',
+    ]);
+    expect(flagged(['tomato paste', 'cherry tomatoes'], ['tomatoes'])).toEqual([
+      'tomato paste',
+      'cherry tomatoes',
+    ]);
+    expect(flagged(['peaches'], ['peach'])).toEqual(['peaches']);
+  });
+
+  test('matches whole words only', () => {
+    expect(flagged(['eggplant', 'buttermilk biscuits'], ['egg'])).toEqual([]);
+    expect(flagged(['pineapple'], ['apples'])).toEqual([]);
+  });
+
+  test('accepts safe variants', () => {
+    expect(flagged(['coconut milk', 'peanut butter', 'vegan butter'], ['dairy'])).toEqual([]);
+    expect(flagged(['dairy-free cream cheese'], ['dairy'])).toEqual([]);
+    expect(flagged(['almond flour'], ['wheat'])).toEqual([]);
+  });
+
+  test('rejects a safe variant named alongside an unsafe one', () => {
+    expect(
+      flagged(
+        ['butter (or peanut butter)', "coconut milk and cow's milk", 'vegan butter or parmesan'],
+        ['dairy'],
+      ),
+    ).toEqual([
+      'butter (or peanut butter)',
+      "coconut milk and cow's milk",
+      'vegan butter or parmesan',
+    ]);
+  });
+
+  test('applies safe variants to diets', () => {
+    expect(flagged(['vegetable broth', 'meatless crumbles'], [], ['vegetarian'])).toEqual([]);
+    expect(flagged(['vegetable broth and chicken'], [], ['vegetarian'])).toEqual([
+      'vegetable broth and chicken',
+    ]);
+    expect(flagged(['vegan butter', 'honey'], [], ['vegan'])).toEqual(['honey']);
+  });
+});
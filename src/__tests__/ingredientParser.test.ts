@@ -0,0 +1,139 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  ingredientFromLine,
+  measurementsFromDisplayText,
+  parseIngredientLine,
+} from '../utils/ingredientParser.js';
+
+describe('parseIngredientLine', () => {
+  test('splits amount, unit, name and preparation', () => {
+    expect(parseIngredientLine('2 cups all-purpose flour, sifted')).toMatchObject({
+      name: 'all-purpose flour',
+      quantity: 2,
+      unit: 'cup',
+      preparation: 'sifted',
+      optional: false,
+    });
+    expect(parseIngredientLine('3 cloves garlic, minced')).toMatchObject({
+      name: 'garlic',
+      quantity: 3,
+      unit: 'clove',
+      preparation: 'minced',
+    });
+  });
+
+  test('reads mixed and unicode fractions and metric units without a space', () => {
+    expect(parseIngredientLine('1 1/2 cups whole milk')).toMatchObject({
+      quantity: 1.5,
+      unit: 'cup',
+    });
+    expect(parseIngredientLine('1½ tbsp olive oil')).toMatchObject({
+      name: 'olive oil',
+      quantity: 1.5,
+      unit: 'tablespoon',
+    });
+    expect(parseIngredientLine('200g butter')).toMatchObject({
+      name: 'butter',
+      quantity: 200,
+      unit: 'gram',
+    });
+  });
+
+  test('keeps both ends of a range', () => {
+    expect(parseIngredientLine('2-3 large eggs')).toMatchObject({ quantity: 2, quantityMax: 3 });
+  });
+
+  test('multiplies out package sizes and keeps alternate measurements', () => {
+    expect(parseIngredientLine('2 (14 oz) cans chickpeas, drained').measurements).toEqual([
+      { quantity: 2, unit: 'can' },
+      { quantity: 28, unit: 'ounce' },
+    ]);
+    expect(parseIngredientLine('1 cup (240 ml) milk').measurements).toEqual([
+      { quantity: 1, unit: 'cup' },
+      { quantity: 240, unit: 'milliliter' },
+    ]);
+  });
+
+  test('flags optional ingredients', () => {
+    expect(parseIngredientLine('1 tsp chili flakes (optional)')).toMatchObject({
+      name: 'chili flakes',
+      optional: true,
+    });
+  });
+
+  test('adds a second amount joined with "plus"', () => {
+    const parsed = parseIngredientLine('1 cup plus 2 tbsp milk');
+    expect(parsed).toMatchObject({ name: 'milk', unit: 'cup' });
+    expect(parsed.quantity).toBeCloseTo(1.125);
+  });
+
+  test('reads "2 x 400g" as a pack count and size', () => {
+    expect(parseIngredientLine('2 x 400g tins chickpeas')).toMatchObject({
+      name: 'chickpeas',
+      measurements: [
+        { quantity: 2, unit: 'can' },
+        { quantity: 800, unit: 'gram' },
+      ],
+    });
+  });
+
+  test('drops the article after an amount', () => {
+    expect(parseIngredientLine('1/2 an onion')).toMatchObject({
+      name: 'onion',
+      quantity: 0.5,
+      unit: 'each',
+    });
+  });
+
+  test('shops for the whole fruit behind "juice of" and "zest of"', () => {
+    expect(parseIngredientLine('juice of 1 lemon')).toMatchObject({
+      name: 'lemon',
+      quantity: 1,
+      unit: 'each',
+      preparation: 'juice',
+    });
+    expect(parseIngredientLine('Zest and juice of 2 limes')).toMatchObject({
+      name: 'limes',
+      quantity: 2,
+      preparation: 'zest and juice',
+    });
+  });
+
+  test('leaves lines without an amount unmeasured', () => {
+    expect(parseIngredientLine('salt and pepper to taste')).toMatchObject({
+      name: 'salt and pepper',
+      measurements: [],
+      preparation: 'to taste',
+    });
+  });
+});
+
+describe('ingredientFromLine', () => {
+  test('builds an ingredient with canonical measurements', () => {
+    expect(ingredientFromLine('3 cloves garlic, minced')).toEqual({
+      name: 'garlic',
+      display_text: '3 cloves garlic, minced',
+      measurements: [{ quantity: 3, unit: 'clove' }],
+    });
+  });
+});
+
+describe('measurementsFromDisplayText', () => {
+  test('prefers the amount the display text states', () => {
+    expect(measurementsFromDisplayText('2 tbsp butter', [{ quantity: 5, unit: 'each' }])).toEqual([
+      { quantity: 2, unit: 'tablespoon' },
+    ]);
+  });
+
+  test("keeps the model's measurements when the text has an amount it cannot read", () => {
+    expect(
+      measurementsFromDisplayText('1 cup or 2 tbsp milk', [{ quantity: 1, unit: 'cup' }]),
+    ).toEqual([{ quantity: 1, unit: 'cup' }]);
+  });
+
+  test("falls back to the model's measurements", () => {
+    expect(measurementsFromDisplayText('butter', [{ quantity: 2, unit: 'Tbsp' }])).toEqual([
+      { quantity: 2, unit: 'tablespoon' },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import type { Recipe, SavedRecipe } from '../types/index.js';
+
+/** A runtime whose cache is an in-memory map, counting writes per key. */
+function fakeRuntime(initial: Record<string, unknown>) {
+  const cache = new Map(Object.entries(initial));
+  const writes = new Map<string, number>();
+  const runtime = {
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      writes.set(key, (writes.get(key) || 0) + 1);
+      return true;
+    },
+  } as unknown as IAgentRuntime;
+  return { runtime, cache, writes };
+}
+
+const roomId = 'room-1' as UUID;
+const entityId = 'user-1' as UUID;
+const roomKey = `kitchen_state_${roomId}`;
+const userKey = `kitchen_user_state_${entityId}`;
+
+const recipe: Recipe = {
+  title: 'Lentil Soup',
+  ingredients: [],
+  instructions: [],
+  servings: 4,
+};
+const saved: SavedRecipe = {
+  id: 'saved_1',
+  recipe,
+  tags: [],
+  favorite: false,
+  savedAt: 1,
+  updatedAt: 1,
+};
+
+describe('getKitchenState', () => {
+  test('moves legacy room preferences and saved recipes onto the user once', async () => {
+    const { runtime, cache, writes } = fakeRuntime({
+      [roomKey]: {
+        currentRecipe: recipe,
+        userPreferences: { allergies: ['peanuts'] },
+        savedRecipes: [saved],
+      },
+    });
+
+    const first = await getKitchenState(runtime, { roomId, entityId });
+    expect(first.userPreferences).toEqual({ allergies: ['peanuts'] });
+    expect(first.savedRecipes).toEqual([saved]);
+    expect(first.currentRecipe).toEqual(recipe);
+
+    expect(cache.get(userKey)).toEqual({
+      userPreferences: { allergies: ['peanuts'] },
+      savedRecipes: [saved],
+    });
+    expect(cache.get(roomKey)).toEqual({ currentRecipe: recipe });
+
+    const second = await getKitchenState(runtime, { roomId, entityId });
+    expect(second).toEqual(first);
+    expect(writes.get(userKey)).toBe(1);
+    expect(writes.get(roomKey)).toBe(1);
+  });
+
+  test('keeps what the user already has over legacy room fields', async () => {
+    const { runtime, cache } = fakeRuntime({
+      [roomKey]: { userPreferences: { allergies: ['peanuts'] } },
+      [userKey]: { userPreferences: { allergies: ['shellfish'] } },
+    });
+
+    const state = await getKitchenState(runtime, { roomId, entityId });
+    expect(state.userPreferences).toEqual({ allergies: ['shellfish'] });
+    expect(cache.get(roomKey)).toEqual({});
+  });
+});
+
+describe('updateKitchenState', () => {
+  test('writes user fields to the user and the rest to the room', async () => {
+    const { runtime, cache } = fakeRuntime({});
+    await updateKitchenState(
+      runtime,
+      { roomId, entityId },
+      { userPreferences: { dislikes: ['cilantro'] }, currentRecipe: recipe },
+    );
+    expect(cache.get(userKey)).toEqual({ userPreferences: { dislikes: ['cilantro'] } });
+    expect(cache.get(roomKey)).toEqual({ currentRecipe: recipe });
+  });
+});
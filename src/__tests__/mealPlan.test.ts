@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test';
+import { findPlanDay, findPlanMeal, findPlanSlot, parseMealType } from '../utils/mealPlan.js';
+import type { MealPlan, MealPlanDay } from '../types/index.js';
+
+const day = (name: string, breakfast: string, dinner: string): MealPlanDay => ({
+  day: name,
+  meals: [
+    { type: 'breakfast', recipe: breakfast },
+    { type: 'dinner', recipe: dinner },
+  ],
+});
+
+const weekPlan: MealPlan = {
+  title: 'Three-day plan',
+  days: [
+    day('Monday', 'Overnight Oats', 'Chicken Stir Fry'),
+    day('Tuesday', 'Greek Yogurt Parfait', 'Honey Garlic Salmon'),
+    day('Wednesday', 'Veggie Omelette', 'Sun-Dried Tomato Pasta'),
+  ],
+  consolidatedList: [],
+  mealPlanText: '',
+};
+
+const numberedPlan: MealPlan = {
+  ...weekPlan,
+  days: Array.from({ length: 10 }, (_, i) =>
+    day(`Day ${i + 1}`, `Oats ${i + 1}`, `Curry ${i + 1}`),
+  ),
+};
+
+// A Monday
+const monday = new Date(2026, 9, 19);
+
+describe('parseMealType', () => {
+  test('reads meal types and their synonyms', () => {
+    expect(parseMealType('swap Tuesday lunch')).toBe('lunch');
+    expect(parseMealType("what's for supper")).toBe('dinner');
+    expect(parseMealType("tonight's meal")).toBe('dinner');
+    expect(parseMealType('the salmon')).toBeUndefined();
+  });
+});
+
+describe('findPlanDay', () => {
+  test('finds weekdays by name and abbreviation', () => {
+    expect(findPlanDay(weekPlan, 'swap Wednesday')).toBe(2);
+    expect(findPlanDay(weekPlan, 'change tues dinner')).toBe(1);
+  });
+
+  test('does not read "sun-dried" as Sunday', () => {
+    expect(findPlanDay(weekPlan, 'the sun-dried tomato pasta')).toBeUndefined();
+  });
+
+  test('reads today and tomorrow against the calendar', () => {
+    expect(findPlanDay(weekPlan, 'what is for dinner tonight', monday)).toBe(0);
+    expect(findPlanDay(weekPlan, "tomorrow's breakfast", monday)).toBe(1);
+  });
+
+  test('matches numbered days exactly', () => {
+    expect(findPlanDay(numberedPlan, 'day 1')).toBe(0);
+    expect(findPlanDay(numberedPlan, 'day 10')).toBe(9);
+    expect(findPlanDay(numberedPlan, 'day 12')).toBeUndefined();
+  });
+
+  test('counts from the first day when days are not weekdays', () => {
+    expect(findPlanDay(numberedPlan, "tomorrow's dinner", monday)).toBe(1);
+  });
+});
+
+describe('findPlanSlot', () => {
+  test('picks a meal from a day and a meal type', () => {
+    expect(findPlanSlot(weekPlan, 'swap Tuesday dinner')).toEqual({ day: 1, meal: 1 });
+  });
+
+  test('picks the whole day when no meal is named', () => {
+    expect(findPlanSlot(weekPlan, 'redo Wednesday')).toEqual({ day: 2 });
+  });
+
+  test('picks a meal by its recipe name', () => {
+    expect(findPlanSlot(weekPlan, 'swap the salmon')).toEqual({ day: 1, meal: 1 });
+  });
+
+  test('gives up on a meal type found on several days', () => {
+    expect(findPlanSlot(weekPlan, 'swap dinner')).toBeUndefined();
+  });
+});
+
+describe('findPlanMeal', () => {
+  test('accepts a day and meal type', () => {
+    expect(findPlanMeal(weekPlan, "let's cook Monday's dinner")).toEqual({ day: 0, meal: 1 });
+  });
+
+  test('accepts the whole recipe name', () => {
+    expect(findPlanMeal(weekPlan, 'cook the honey garlic salmon')).toEqual({ day: 1, meal: 1 });
+  });
+
+  test('does not take a different dish for a plan meal', () => {
+    expect(findPlanMeal(weekPlan, 'cook chicken parmesan')).toBeUndefined();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'bun:test';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import { preferenceEvaluator } from '../evaluators/preferenceEvaluator.js';
+import type { PendingPreferenceUpdate, UserPreferences } from '../types/index.js';
+
+const entityId = 'user-1' as UUID;
+const userKey = `kitchen_user_state_${entityId}`;
+
+/** Run the evaluator on `text` with a model that always fails, returning the user state. */
+async function learnWithoutModel(text: string) {
+  const cache = new Map<string, any>();
+  const runtime = {
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+    useModel: async () => {
+      throw new Error('model unavailable');
+    },
+  } as unknown as IAgentRuntime;
+  const message = { roomId: 'room-1' as UUID, entityId, content: { text } } as Memory;
+
+  await preferenceEvaluator.handler(runtime, message);
+  return (cache.get(userKey) ?? {}) as {
+    userPreferences?: UserPreferences;
+    pendingPreferenceUpdates?: PendingPreferenceUpdate[];
+  };
+}
+
+describe('preferenceEvaluator fallback', () => {
+  test('ignores one-off requests', async () => {
+    const state = await learnWithoutModel('Make a dairy-free dinner for 2 tonight');
+    expect(state.userPreferences).toBeUndefined();
+    expect(state.pendingPreferenceUpdates).toBeUndefined();
+  });
+
+  test('asks before saving an explicit statement', async () => {
+    const state = await learnWithoutModel("I'm allergic to peanuts");
+    expect(state.userPreferences).toBeUndefined();
+    expect(state.pendingPreferenceUpdates?.[0].changes.add.allergies).toEqual(['peanuts']);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  applyPreferenceChanges,
+  isSafetyRelaxing,
+  parsePreferenceStatement,
+  splitSafetyRelaxing,
+  withPendingUpdate,
+} from '../utils/preferences.js';
+import type { UserPreferences } from '../types/index.js';
+
+describe('parsePreferenceStatement', () => {
+  test('adds diets and allergies that are stated', () => {
+    const changes = parsePreferenceStatement("I'm vegetarian and allergic to peanuts");
+    expect(changes.add.dietaryRestrictions).toEqual(['vegetarian']);
+    expect(changes.add.allergies).toEqual(['peanuts']);
+  });
+
+  test('takes a denied diet off instead of adding it', () => {
+    const changes = parsePreferenceStatement("I'm not vegetarian");
+    expect(changes.add.dietaryRestrictions).toBeUndefined();
+    expect(changes.remove.dietaryRestrictions).toEqual(['vegetarian']);
+  });
+
+  test('takes a denied allergy off instead of adding it', () => {
+    const changes = parsePreferenceStatement("I'm not allergic to shellfish");
+    expect(changes.add.allergies).toBeUndefined();
+    expect(changes.remove.allergies).toEqual(['shellfish']);
+  });
+
+  test('never saves "never eat" as a restriction', () => {
+    const changes = parsePreferenceStatement('I never eat pork');
+    expect(changes.add.allergies).toBeUndefined();
+    expect(changes.add.dietaryRestrictions).toBeUndefined();
+  });
+
+  test('"don\'t eat" and "don\'t like" still state a preference', () => {
+    expect(parsePreferenceStatement("I don't eat meat").add.dietaryRestrictions).toEqual([
+      'vegetarian',
+    ]);
+    expect(parsePreferenceStatement("I don't like cilantro").add.dislikes).toEqual(['cilantro']);
+    expect(parsePreferenceStatement("I'm not a big fan of mushrooms").add.dislikes).toEqual([
+      'mushrooms',
+    ]);
+  });
+
+  test('continues an allergy list across commas', () => {
+    const changes = parsePreferenceStatement("I'm allergic to peanuts, tree nuts and shellfish");
+    expect(changes.add.allergies).toEqual(['peanuts', 'tree nuts', 'shellfish']);
+  });
+
+  test('ends an allergy list at the end of its sentence', () => {
+    expect(
+      parsePreferenceStatement("I'm allergic to peanuts. Make me dinner tonight").add.allergies,
+    ).toEqual(['peanuts']);
+    expect(
+      parsePreferenceStatement("allergic to peanuts\nwhat's for dinner").add.allergies,
+    ).toEqual(['peanuts']);
+  });
+
+  test('does not continue an allergy list into a request', () => {
+    expect(
+      parsePreferenceStatement("I'm allergic to shellfish, can you find me a pasta").add.allergies,
+    ).toEqual(['shellfish']);
+  });
+
+  test('only reads "avoid" as an allergy when it names foods', () => {
+    expect(parsePreferenceStatement('I want to avoid frying today').add.allergies).toBeUndefined();
+    expect(parsePreferenceStatement('I have to avoid shellfish').add.allergies).toEqual([
+      'shellfish',
+    ]);
+  });
+
+  test('keeps every allergy named in one clause', () => {
+    expect(
+      parsePreferenceStatement('peanut allergy and my son has a dairy intolerance').add.allergies,
+    ).toEqual(['peanut', 'dairy']);
+  });
+
+  test('reads a bare "I\'m allergic" as about the foods turned down next to it', () => {
+    expect(parsePreferenceStatement("No nuts please, I'm allergic").add.allergies).toEqual([
+      'nuts',
+    ]);
+    expect(parsePreferenceStatement("I'm allergic, so no shrimp").add.allergies).toEqual([
+      'shrimp',
+    ]);
+    expect(
+      parsePreferenceStatement("I'm allergic. No shrimp tonight").add.allergies,
+    ).toBeUndefined();
+  });
+
+  test('only saves serving size from a statement about the household', () => {
+    expect(parsePreferenceStatement('make me dinner for 2').set.servingSize).toBeUndefined();
+    expect(parsePreferenceStatement("I'm cooking for 4 on a budget").set.servingSize).toBe(4);
+    expect(parsePreferenceStatement("we're a family of five").set.servingSize).toBe(5);
+  });
+});
+
+describe('applyPreferenceChanges', () => {
+  const current: UserPreferences = {
+    allergies: ['peanuts', 'tree nuts'],
+    dislikes: ['mushrooms'],
+  };
+
+  test('removes a restriction named in the singular or plural', () => {
+    const changes = parsePreferenceStatement('I can eat peanut now');
+    expect(applyPreferenceChanges(current, changes).allergies).toEqual(['tree nuts']);
+  });
+
+  test('does not remove restrictions that only contain the named word', () => {
+    const changes = parsePreferenceStatement('I can eat nuts now');
+    expect(applyPreferenceChanges(current, changes).allergies).toEqual(['peanuts', 'tree nuts']);
+  });
+});
+
+describe('splitSafetyRelaxing', () => {
+  const current: UserPreferences = {
+    allergies: ['peanuts'],
+    dietaryRestrictions: ['vegetarian'],
+    dislikes: ['mushrooms'],
+  };
+
+  test('holds back removals of allergies and diets', () => {
+    const changes = parsePreferenceStatement("I'm not vegetarian anymore but I love thai food");
+    const { safe, relaxing } = splitSafetyRelaxing(current, changes);
+    expect(relaxing.remove.dietaryRestrictions).toEqual(['vegetarian']);
+    expect(safe.remove.dietaryRestrictions).toBeUndefined();
+    expect(safe.add.cuisinePreferences).toEqual(['thai']);
+  });
+
+  test('holds back a loose removal only when it names a saved allergy', () => {
+    expect(isSafetyRelaxing(current, parsePreferenceStatement('I can eat peanuts now'))).toBe(true);
+    expect(isSafetyRelaxing(current, parsePreferenceStatement('I can eat nuts now'))).toBe(false);
+    expect(isSafetyRelaxing(current, parsePreferenceStatement('remove mushrooms'))).toBe(false);
+  });
+});
+
+describe('withPendingUpdate', () => {
+  test('asks about each message once', () => {
+    const changes = parsePreferenceStatement("I'm not vegetarian");
+    const once = withPendingUpdate(undefined, changes, 1, "I'm not vegetarian");
+    const twice = withPendingUpdate(once, changes, 0.9, "I'm not vegetarian");
+    expect(twice).toHaveLength(1);
+    expect(twice[0].confidence).toBe(1);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import { exportRecipeAction } from '../actions/exportRecipe.js';
+import { createExportToken, exportRecipe, verifyExportToken } from '../utils/recipeExport.js';
+import { EXPORT_RECIPE_SCHEMA, validate } from '../utils/schema.js';
+import type { Recipe } from '../types/index.js';
+
+const recipe: Recipe = {
+  title: 'Lentil Soup',
+  ingredients: [{ name: 'lentils', display_text: '1 cup lentils' }],
+  instructions: ['Simmer the lentils.'],
+};
+
+describe('export tokens', () => {
+  const claims = { roomId: 'room-1' as UUID, entityId: 'user-1' as UUID, savedRecipeId: 'saved_1' };
+
+  test('round-trips the claims it was issued for', () => {
+    const token = createExportToken(claims, 'secret', 1_000);
+    expect(verifyExportToken(token, 'secret', 2_000)).toMatchObject(claims);
+  });
+
+  test('rejects forged, tampered and expired tokens', () => {
+    const token = createExportToken(claims, 'secret', 1_000);
+    expect(verifyExportToken(token, 'other secret', 2_000)).toBeNull();
+
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...claims, entityId: 'user-2', expiresAt: 9e15 }));
+    expect(verifyExportToken(`${forged.toString('base64url')}.${signature}`, 'secret')).toBeNull();
+
+    expect(verifyExportToken(token, 'secret', 1_000 + 25 * 60 * 60 * 1000)).toBeNull();
+    expect(verifyExportToken('not-a-token', 'secret')).toBeNull();
+  });
+});
+
+describe('source links', () => {
+  test('only exports http(s) source URLs', () => {
+    const unsafe = { ...recipe, sourceUrl: 'javascript:alert(1)' };
+    expect(exportRecipe(unsafe, 'html').content).not.toContain('javascript:');
+    expect(exportRecipe(unsafe, 'jsonld').content).not.toContain('javascript:');
+
+    const safe = { ...recipe, sourceUrl: 'https://example.com/lentil-soup' };
+    expect(exportRecipe(safe, 'html').content).toContain('href="https://example.com/lentil-soup"');
+  });
+
+  test('the export schema refuses other source URLs', () => {
+    expect(validate(EXPORT_RECIPE_SCHEMA, { ...recipe, sourceUrl: 'javascript:alert(1)' }).ok).toBe(
+      false,
+    );
+    expect(
+      validate(EXPORT_RECIPE_SCHEMA, { ...recipe, sourceUrl: 'https://example.com/' }).ok,
+    ).toBe(true);
+  });
+});
+
+describe('EXPORT_RECIPE', () => {
+  const message = {
+    roomId: 'room-1' as UUID,
+    entityId: 'user-1' as UUID,
+    content: { text: 'export this recipe as markdown' },
+  } as Memory;
+
+  const runtimeWith = (secret?: string) =>
+    ({
+      getCache: async (key: string) =>
+        key === 'kitchen_state_room-1' ? { currentRecipe: recipe } : undefined,
+      setCache: async () => true,
+      getSetting: (key: string) => (key === 'KITCHLY_EXPORT_SECRET' ? (secret ?? null) : null),
+    }) as unknown as IAgentRuntime;
+
+  const reply = async (runtime: IAgentRuntime) => {
+    let text = '';
+    await exportRecipeAction.handler(runtime, message, undefined, undefined, async (content) => {
+      text = content.text ?? '';
+      return [];
+    });
+    return text;
+  };
+
+  test('links a signed download in the reply when exports are enabled', async () => {
+    const previous = process.env.KITCHLY_EXPORT_SECRET;
+    delete process.env.KITCHLY_EXPORT_SECRET;
+    try {
+      const text = await reply(runtimeWith('secret'));
+      const link = text.match(/\]\((\/kitchly\/recipes\/export\?token=([^&)]+)&format=markdown)\)/);
+      expect(link).not.toBeNull();
+      expect(verifyExportToken(decodeURIComponent(link![2]), 'secret')).toMatchObject({
+        roomId: 'room-1',
+        entityId: 'user-1',
+      });
+      expect(text).toContain('24 hours');
+
+      expect(await reply(runtimeWith())).not.toContain('/kitchly/recipes/export');
+    } finally {
+      if (previous !== undefined) process.env.KITCHLY_EXPORT_SECRET = previous;
+    }
+  });
+});
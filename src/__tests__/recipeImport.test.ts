@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import { fetchRecipePage, isPrivateAddress } from '../utils/recipeImport.js';
+
+describe('isPrivateAddress', () => {
+  test('flags loopback, private and link-local addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      'fe80::1',
+      'fd00::1',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  test('passes public addresses', () => {
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::1111']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('fetchRecipePage', () => {
+  test('refuses non-http URLs and private hosts', async () => {
+    await expect(fetchRecipePage('file:///etc/passwd')).rejects.toThrow();
+    await expect(fetchRecipePage('http://169.254.169.254/latest/meta-data/')).rejects.toThrow();
+    await expect(fetchRecipePage('http://[::1]:8080/')).rejects.toThrow();
+    await expect(fetchRecipePage('http://[::ffff:127.0.0.1]/')).rejects.toThrow('private');
+    await expect(fetchRecipePage('http://localhost/')).rejects.toThrow();
+  });
+});
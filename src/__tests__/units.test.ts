@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  convertMeasurement,
+  convertToSystem,
+  formatMeasurement,
+  formatQuantity,
+  parseQuantity,
+  scaleIngredient,
+  scaleMeasurement,
+} from '../utils/units.js';
+
+describe('parseQuantity', () => {
+  test('reads whole numbers, fractions, decimals and unicode fractions', () => {
+    expect(parseQuantity('2')).toBe(2);
+    expect(parseQuantity('1 1/2')).toBe(1.5);
+    expect(parseQuantity('1/2')).toBe(0.5);
+    expect(parseQuantity('1,5')).toBe(1.5);
+    expect(parseQuantity('½')).toBe(0.5);
+    expect(parseQuantity('1½')).toBe(1.5);
+  });
+
+  test('reads a range as its lower bound', () => {
+    expect(parseQuantity('2-3')).toBe(2);
+  });
+
+  test('returns undefined for text without an amount', () => {
+    expect(parseQuantity('a pinch')).toBeUndefined();
+  });
+});
+
+describe('formatQuantity', () => {
+  test('prints kitchen fractions', () => {
+    expect(formatQuantity(1.5)).toBe('1 1/2');
+    expect(formatQuantity(0.333)).toBe('1/3');
+    expect(formatMeasurement({ quantity: 2, unit: 'cup' })).toBe('2 cups');
+  });
+});
+
+describe('convertMeasurement', () => {
+  test('converts within a kind', () => {
+    const ml = convertMeasurement({ quantity: 1, unit: 'cup' }, 'ml');
+    expect(ml?.unit).toBe('milliliter');
+    expect(ml?.quantity).toBeCloseTo(236.588, 3);
+  });
+
+  test('converts volume to weight only with a known density', () => {
+    expect(convertMeasurement({ quantity: 1, unit: 'cup' }, 'g', 'all-purpose flour')).toEqual({
+      quantity: 125,
+      unit: 'gram',
+    });
+    expect(convertMeasurement({ quantity: 1, unit: 'cup' }, 'g', 'mystery powder')).toBeNull();
+  });
+
+  test('does not convert counts', () => {
+    expect(convertMeasurement({ quantity: 3, unit: 'each' }, 'g', 'egg')).toBeNull();
+  });
+});
+
+describe('convertToSystem', () => {
+  test('picks the most natural unit in the other system', () => {
+    expect(convertToSystem({ quantity: 250, unit: 'ml' }, 'us')).toEqual({
+      quantity: 1,
+      unit: 'cup',
+    });
+    expect(convertToSystem({ quantity: 1.5, unit: 'lb' }, 'metric')).toEqual({
+      quantity: 680,
+      unit: 'gram',
+    });
+  });
+
+  test('leaves counts alone', () => {
+    expect(convertToSystem({ quantity: 2, unit: 'clove' }, 'metric')).toEqual({
+      quantity: 2,
+      unit: 'clove',
+    });
+  });
+});
+
+describe('scaleMeasurement', () => {
+  test('moves up to a larger unit or down to a smaller one', () => {
+    expect(scaleMeasurement({ quantity: 2, unit: 'tbsp' }, 3)).toEqual({
+      quantity: 6,
+      unit: 'tablespoon',
+    });
+    expect(scaleMeasurement({ quantity: 1, unit: 'tsp' }, 0.25)).toEqual({
+      quantity: 0.25,
+      unit: 'teaspoon',
+    });
+    expect(scaleMeasurement({ quantity: 500, unit: 'g' }, 2.5)).toEqual({
+      quantity: 1.3,
+      unit: 'kilogram',
+    });
+  });
+
+  test('keeps whole items whole and never below one', () => {
+    expect(scaleMeasurement({ quantity: 3, unit: 'each' }, 0.5)).toEqual({
+      quantity: 2,
+      unit: 'each',
+    });
+    expect(scaleMeasurement({ quantity: 1, unit: 'each' }, 0.25)).toEqual({
+      quantity: 1,
+      unit: 'each',
+    });
+  });
+
+  test('leaves quarts and gallons as they are bought', () => {
+    expect(scaleMeasurement({ quantity: 1, unit: 'quart' }, 2)).toEqual({
+      quantity: 2,
+      unit: 'quart',
+    });
+  });
+});
+
+describe('scaleIngredient', () => {
+  test('rewrites the amount and keeps the rest of the wording', () => {
+    const scaled = scaleIngredient(
+      {
+        name: 'flour',
+        display_text: '2 cups all-purpose flour, sifted',
+        measurements: [{ quantity: 2, unit: 'cup' }],
+      },
+      0.5,
+    );
+    expect(scaled.display_text).toBe('1 cup all-purpose flour, sifted');
+    expect(scaled.measurements).toEqual([{ quantity: 1, unit: 'cup' }]);
+  });
+
+  test('inflects counted items', () => {
+    const egg = (display_text: string, unit: string) =>
+      scaleIngredient({ name: 'egg', display_text, measurements: [{ quantity: 1, unit }] }, 3)
+        .display_text;
+    expect(egg('1 egg', 'each')).toBe('3 eggs');
+    expect(egg('1 large egg', 'large')).toBe('3 large eggs');
+  });
+});
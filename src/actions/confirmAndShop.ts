@@ -28,7 +28,7 @@ export const confirmAndShopAction: Action = {
     _state?: State,
   ): Promise<boolean> => {
     // Only valid when there's already an active recipe/meal plan with an Instacart link
-    const kitchenState = await getKitchenState(runtime, message.roomId);
+    const kitchenState = await getKitchenState(runtime, message);
     return !!kitchenState.productsLinkUrl;
   },
 
@@ -39,7 +39,7 @@ export const confirmAndShopAction: Action = {
     _options: Record<string, unknown> | undefined,
     callback?: HandlerCallback,
   ): Promise<{ success: boolean; text?: string; data?: Record<string, any> }> => {
-    const kitchenState = await getKitchenState(runtime, message.roomId);
+    const kitchenState = await getKitchenState(runtime, message);
     const url = kitchenState.productsLinkUrl;
 
     if (!url) {
@@ -10,7 +10,39 @@ import {
   getKitchenState,
   updateKitchenState,
 } from '../providers/kitchenProvider.js';
-import type { Recipe, CookingSession, InstacartIngredient } from '../types/index.js';
+import { formatPreferencesForPrompt } from '../utils/preferences.js';
+import { preferencesForMeal } from '../utils/household.js';
+import { formatLocaleForPrompt, localizeRecipe } from '../utils/locale.js';
+import { formatMeasurement } from '../utils/units.js';
+import { groupedIngredientLines, withIngredientFlags } from '../utils/ingredientGroups.js';
+import { measurementsFromDisplayText } from '../utils/ingredientParser.js';
+import { generateStructured } from '../utils/llm.js';
+import { RECIPE_SCHEMA } from '../utils/schema.js';
+import { formatConsistencyFixes, isConsistent, reconcileRecipe } from '../utils/recipeConsistency.js';
+import {
+  buildEquipmentFeedback,
+  checkRecipeEquipment,
+  formatEquipmentIssues,
+  formatEquipmentNames,
+  withEquipment,
+} from '../utils/equipment.js';
+import type { EquipmentIssue } from '../utils/equipment.js';
+import { findMenuCourse, formatClock, menuSessionRecipe, refersToMenu } from '../utils/menu.js';
+import { findPlanMeal, formatPlanSlot, withPlanRecipe } from '../utils/mealPlan.js';
+import { planMealRecipe } from '../utils/planRecipes.js';
+import {
+  buildViolationFeedback,
+  checkRecipeRestrictions,
+  formatViolations,
+  MAX_RESTRICTION_ATTEMPTS,
+} from '../utils/allergenGuard.js';
+import type {
+  Recipe,
+  CookingSession,
+  InstacartIngredient,
+  RestrictionViolation,
+  UserPreferences,
+} from '../types/index.js';
 
 // ---------------------------------------------------------------------------
 // Navigation command detection
@@ -40,8 +72,9 @@ const QUICK_RECIPE_PROMPT = `You are a professional chef. Generate a simple, eas
 
 RULES:
 - Instructions should be clear, short steps ideal for voice reading.
-- Include ALL ingredients with quantities > 0 using standard US measurements.
+- Include ALL ingredients with quantities > 0, using the measurement conventions given under "Measurements" below.
 - Keep each instruction step to 1-2 sentences maximum.
+- If the user preferences list kitchen equipment, use ONLY that equipment, and list the appliances the steps use under "equipment".
 
 Respond with ONLY valid JSON (no markdown fencing):
 
@@ -50,6 +83,7 @@ Respond with ONLY valid JSON (no markdown fencing):
   "servings": number,
   "prepTime": "string",
   "cookTime": "string",
+  "equipment": ["string"],
   "ingredients": [
     { "name": "string", "display_text": "string", "measurements": [{ "quantity": number, "unit": "string" }] }
   ],
@@ -63,22 +97,34 @@ Respond with ONLY valid JSON (no markdown fencing):
 function formatStepForVoice(
   recipe: Recipe,
   stepIndex: number,
+  preferences?: UserPreferences,
 ): string {
   const total = recipe.instructions.length;
   const stepNum = stepIndex + 1;
-  const instruction = recipe.instructions[stepIndex];
+  // Temperatures are read out for the user's locale and oven
+  const instruction = localizeRecipe(recipe, preferences).instructions[stepIndex];
 
   return `Step ${stepNum} of ${total}: ${instruction}`;
 }
 
-function formatIngredientsForVoice(recipe: Recipe): string {
-  const lines = recipe.ingredients.map((ing: InstacartIngredient) => {
-    if (ing.display_text) return `- ${ing.display_text}`;
-    const meas = ing.measurements
-      ?.map((m) => `${m.quantity} ${m.unit}`)
-      .join(', ');
-    return meas ? `- ${meas} ${ing.name}` : `- ${ing.name}`;
-  });
+/** "Heads up: step 3 needs an oven, which you don't have." */
+function formatEquipmentForVoice(issues: EquipmentIssue[]): string {
+  const steps = issues.map((i) => `step ${i.step + 1} needs ${formatEquipmentNames(i.missing)}`);
+  return `Heads up: ${steps.join(', and ')}, which you don't have. Ask me to adapt the recipe if you'd like.`;
+}
+
+function formatIngredientsForVoice(recipe: Recipe, preferences?: UserPreferences): string {
+  const lines = groupedIngredientLines(
+    localizeRecipe(recipe, preferences).ingredients,
+    (ing: InstacartIngredient) => {
+      const meas = ing.measurements
+        ?.map(formatMeasurement)
+        .join(', ');
+      const text = ing.display_text || (meas ? `${meas} ${ing.name}` : ing.name);
+      return `- ${withIngredientFlags(text, ing)}`;
+    },
+    (name) => `${name}:`,
+  );
   return `Ingredients for ${recipe.title}:\n${lines.join('\n')}`;
 }
 
@@ -108,7 +154,7 @@ export const cookAlongAction: Action = {
     'COOKING_GUIDE',
   ],
   description:
-    'Enters voice-guided cooking mode. Walks the user through a recipe step by step. Supports navigation: next, previous, repeat, done.',
+    'Enters voice-guided cooking mode. Walks the user through a recipe step by step -- a meal from the active meal plan ("tonight\'s dinner", "Monday lunch"), a whole menu along its timeline ("let\'s cook the menu"), or one of its courses ("cook the dessert"). Supports navigation: next, previous, repeat, done.',
 
   validate: async (
     _runtime: IAgentRuntime,
@@ -128,7 +174,7 @@ export const cookAlongAction: Action = {
   ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
     try {
       const userText = message.content?.text || '';
-      const kitchenState = await getKitchenState(runtime, message.roomId);
+      const kitchenState = await getKitchenState(runtime, message);
       const navCommand = detectNavCommand(userText);
 
       // ================================================================
@@ -136,6 +182,7 @@ export const cookAlongAction: Action = {
       // ================================================================
       if (kitchenState.cookingSession) {
         const session = kitchenState.cookingSession;
+        const prefs = kitchenState.userPreferences;
         const totalSteps = session.recipe.instructions.length;
 
         switch (navCommand) {
@@ -144,7 +191,7 @@ export const cookAlongAction: Action = {
             const nextStep = session.currentStep + 1;
             if (nextStep >= totalSteps) {
               // Recipe complete!
-              await updateKitchenState(runtime, message.roomId, {
+              await updateKitchenState(runtime, message, {
                 cookingSession: undefined,
               });
               const doneText = `That was the last step! Your ${session.recipe.title} is complete. Enjoy your meal!`;
@@ -152,10 +199,10 @@ export const cookAlongAction: Action = {
               return { success: true, text: doneText, data: { finished: true } };
             }
             // Advance
-            await updateKitchenState(runtime, message.roomId, {
+            await updateKitchenState(runtime, message, {
               cookingSession: { ...session, currentStep: nextStep },
             });
-            const stepText = formatStepForVoice(session.recipe, nextStep);
+            const stepText = formatStepForVoice(session.recipe, nextStep, prefs);
             await callback?.({ text: stepText });
             return {
               success: true,
@@ -167,10 +214,10 @@ export const cookAlongAction: Action = {
           // ---- PREVIOUS ----
           case 'previous': {
             const prevStep = Math.max(0, session.currentStep - 1);
-            await updateKitchenState(runtime, message.roomId, {
+            await updateKitchenState(runtime, message, {
               cookingSession: { ...session, currentStep: prevStep },
             });
-            const stepText = formatStepForVoice(session.recipe, prevStep);
+            const stepText = formatStepForVoice(session.recipe, prevStep, prefs);
             await callback?.({ text: stepText });
             return {
               success: true,
@@ -184,6 +231,7 @@ export const cookAlongAction: Action = {
             const stepText = formatStepForVoice(
               session.recipe,
               session.currentStep,
+              prefs,
             );
             await callback?.({ text: stepText });
             return {
@@ -195,7 +243,7 @@ export const cookAlongAction: Action = {
 
           // ---- DONE ----
           case 'done': {
-            await updateKitchenState(runtime, message.roomId, {
+            await updateKitchenState(runtime, message, {
               cookingSession: undefined,
             });
             const doneText = `Cooking session ended for ${session.recipe.title}. Great job!`;
@@ -216,19 +264,19 @@ export const cookAlongAction: Action = {
 
           // ---- INGREDIENTS ----
           case 'ingredients': {
-            const ingText = formatIngredientsForVoice(session.recipe);
+            const ingText = formatIngredientsForVoice(session.recipe, prefs);
             await callback?.({ text: ingText });
             return { success: true, text: ingText };
           }
 
           // ---- START (restart from step 1) ----
           case 'start': {
-            await updateKitchenState(runtime, message.roomId, {
+            await updateKitchenState(runtime, message, {
               cookingSession: { ...session, currentStep: 0, isPaused: false },
             });
             const restartText =
               `Restarting ${session.recipe.title} from the beginning.\n\n` +
-              formatStepForVoice(session.recipe, 0);
+              formatStepForVoice(session.recipe, 0, prefs);
             await callback?.({ text: restartText });
             return {
               success: true,
@@ -262,17 +310,17 @@ If they are asking a cooking question about the current step, provide a brief, h
               // Recursively handle as next
               const nextStep = session.currentStep + 1;
               if (nextStep >= totalSteps) {
-                await updateKitchenState(runtime, message.roomId, {
+                await updateKitchenState(runtime, message, {
                   cookingSession: undefined,
                 });
                 const doneText = `That was the last step! Your ${session.recipe.title} is complete. Enjoy your meal!`;
                 await callback?.({ text: doneText });
                 return { success: true, text: doneText, data: { finished: true } };
               }
-              await updateKitchenState(runtime, message.roomId, {
+              await updateKitchenState(runtime, message, {
                 cookingSession: { ...session, currentStep: nextStep },
               });
-              const stepText = formatStepForVoice(session.recipe, nextStep);
+              const stepText = formatStepForVoice(session.recipe, nextStep, prefs);
               await callback?.({ text: stepText });
               return {
                 success: true,
@@ -281,10 +329,10 @@ If they are asking a cooking question about the current step, provide a brief, h
               };
             } else if (trimmed === 'PREVIOUS') {
               const prevStep = Math.max(0, session.currentStep - 1);
-              await updateKitchenState(runtime, message.roomId, {
+              await updateKitchenState(runtime, message, {
                 cookingSession: { ...session, currentStep: prevStep },
               });
-              const stepText = formatStepForVoice(session.recipe, prevStep);
+              const stepText = formatStepForVoice(session.recipe, prevStep, prefs);
               await callback?.({ text: stepText });
               return {
                 success: true,
@@ -292,7 +340,7 @@ If they are asking a cooking question about the current step, provide a brief, h
                 data: { currentStep: prevStep, totalSteps },
               };
             } else if (trimmed === 'REPEAT') {
-              const stepText = formatStepForVoice(session.recipe, session.currentStep);
+              const stepText = formatStepForVoice(session.recipe, session.currentStep, prefs);
               await callback?.({ text: stepText });
               return {
                 success: true,
@@ -300,7 +348,7 @@ If they are asking a cooking question about the current step, provide a brief, h
                 data: { currentStep: session.currentStep, totalSteps },
               };
             } else if (trimmed === 'DONE') {
-              await updateKitchenState(runtime, message.roomId, {
+              await updateKitchenState(runtime, message, {
                 cookingSession: undefined,
               });
               const doneText = `Cooking session ended for ${session.recipe.title}. Great job!`;
@@ -325,47 +373,127 @@ If they are asking a cooking question about the current step, provide a brief, h
 
       let recipe: Recipe | undefined = kitchenState.currentRecipe;
 
+      // A meal from the plan ("tonight's dinner", "Monday lunch") is cooked
+      // from its full recipe, written the first time it's cooked
+      const plan = kitchenState.currentMealPlan;
+      const planSlot = plan && !refersToMenu(userText) ? findPlanMeal(plan, userText) : undefined;
+      let planMeal: string | undefined;
+      if (plan && planSlot) {
+        const meal = plan.days[planSlot.day].meals[planSlot.meal];
+        planMeal = formatPlanSlot(plan, planSlot);
+        if (!meal.fullRecipe) {
+          await callback?.({
+            text: `Writing up the full recipe for ${planMeal}, ${meal.recipe}...`,
+          });
+        }
+
+        recipe = await planMealRecipe(
+          runtime,
+          meal,
+          planMeal,
+          preferencesForMeal(kitchenState.userPreferences, userText),
+        );
+        if (!recipe) {
+          const errText = `I couldn't write a recipe for ${meal.recipe} that is safe for your restrictions. Try asking me to swap ${planMeal} for something else.`;
+          await callback?.({ text: errText });
+          return { success: false, error: errText };
+        }
+        if (recipe !== meal.fullRecipe) {
+          await updateKitchenState(runtime, message, {
+            currentMealPlan: withPlanRecipe(plan, planSlot, recipe),
+          });
+        }
+      }
+
+      // A menu is cooked as one session along its timeline, or one course
+      // at a time when the user names a course
+      const menu = kitchenState.currentMenu;
+      let cookingMenu = false;
+      if (menu && !planSlot) {
+        const course = findMenuCourse(menu, userText);
+        if (refersToMenu(userText) || (course === undefined && !recipe)) {
+          recipe = menuSessionRecipe(menu);
+          cookingMenu = true;
+        } else if (course !== undefined) {
+          recipe = menu.courses[course].recipe;
+        }
+      }
+
       // If there's no active recipe, generate one from the user's message
       if (!recipe) {
         await callback?.({
           text: "I don't have a recipe loaded yet. Let me create one for you first...",
         });
 
-        const fullPrompt = `${QUICK_RECIPE_PROMPT}
+        const preferences = preferencesForMeal(kitchenState.userPreferences, userText);
+        const preferencesContext =
+          formatPreferencesForPrompt(preferences) + formatLocaleForPrompt(preferences);
+        let violations: RestrictionViolation[] = [];
+        let equipmentIssues: EquipmentIssue[] = [];
+        // A safe recipe that needs equipment the user lacks, kept in case
+        // no attempt avoids it
+        let fallback: Recipe | undefined;
+
+        // Regenerate if the recipe breaks one of the user's allergies or
+        // diets, or needs equipment they don't have
+        for (let attempt = 0; attempt < MAX_RESTRICTION_ATTEMPTS && !recipe; attempt++) {
+          const feedback =
+            (violations.length ? buildViolationFeedback(violations) : '') +
+            (equipmentIssues.length ? buildEquipmentFeedback(equipmentIssues, preferences) : '');
+          const fullPrompt = `${QUICK_RECIPE_PROMPT}${preferencesContext}${feedback}
 
 User request: "${userText}"`;
 
-        const rawResponse = (await runtime.useModel(ModelType.TEXT_LARGE, {
-          prompt: fullPrompt,
-        })) as string;
+          // Invalid shapes are sent back to the model with the exact problems
+          const parsed = await generateStructured(runtime, {
+            prompt: fullPrompt,
+            schema: RECIPE_SCHEMA,
+            label: 'quickRecipe',
+          });
+          if (!parsed) break;
+
+          // Match the ingredient list to what the steps use
+          const { recipe: reconciled, report } = reconcileRecipe<Recipe>({
+            ...parsed,
+            // Validate quantities > 0 and canonicalise units
+            ingredients: parsed.ingredients.map((ing) => ({
+              ...ing,
+              measurements: measurementsFromDisplayText(ing.display_text, ing.measurements),
+            })),
+            // The prompt asked for temperatures for the user's oven
+            ovenType: preferences?.ovenType,
+          });
+          const candidate = withEquipment(reconciled);
+          if (!isConsistent(report)) {
+            console.warn(
+              `[Kitchly] Cook-along recipe "${candidate.title}" ingredients did not match its steps: ${formatConsistencyFixes(report)}`,
+            );
+          }
 
-        let jsonStr = rawResponse.trim();
-        const fenceMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (fenceMatch) {
-          jsonStr = fenceMatch[1].trim();
+          violations = checkRecipeRestrictions(candidate, preferences);
+          equipmentIssues = checkRecipeEquipment(candidate, preferences);
+          if (violations.length === 0 && equipmentIssues.length === 0) {
+            recipe = candidate;
+          } else if (violations.length === 0) {
+            fallback ??= candidate;
+            console.warn(
+              `[Kitchly] Cook-along recipe "${candidate.title}" needs equipment the user doesn't have (attempt ${attempt + 1}):\n${formatEquipmentIssues(equipmentIssues)}`,
+            );
+          } else {
+            console.warn(
+              `[Kitchly] Cook-along recipe "${candidate.title}" violates user restrictions (attempt ${attempt + 1}):\n${formatViolations(violations)}`,
+            );
+          }
         }
 
-        try {
-          const parsed = JSON.parse(jsonStr);
-          if (
-            parsed.title &&
-            Array.isArray(parsed.ingredients) &&
-            parsed.ingredients.length > 0 &&
-            Array.isArray(parsed.instructions) &&
-            parsed.instructions.length > 0
-          ) {
-            // Validate quantities > 0
-            parsed.ingredients = parsed.ingredients.map((ing: any) => ({
-              ...ing,
-              measurements: (ing.measurements || []).map((m: any) => ({
-                ...m,
-                quantity: m.quantity > 0 ? m.quantity : 1,
-              })),
-            }));
-            recipe = parsed as Recipe;
-          }
-        } catch {
-          // parse failure handled below
+        recipe ??= fallback;
+
+        if (!recipe && violations.length) {
+          const errText = `I couldn't come up with a version of that dish that is safe for your restrictions (${violations
+            .map((v) => `${v.ingredient} -- ${v.restriction}`)
+            .join('; ')}). Try asking for something different.`;
+          await callback?.({ text: errText });
+          return { success: false, error: errText };
         }
 
         if (!recipe) {
@@ -376,11 +504,14 @@ User request: "${userText}"`;
         }
 
         // Save the generated recipe
-        await updateKitchenState(runtime, message.roomId, {
+        await updateKitchenState(runtime, message, {
           currentRecipe: recipe,
         });
       }
 
+      // Read the recipe out in the user's measurement locale and oven type
+      recipe = localizeRecipe(recipe, kitchenState.userPreferences);
+
       // Create a new cooking session starting at step 0
       const newSession: CookingSession = {
         recipe,
@@ -389,14 +520,23 @@ User request: "${userText}"`;
         isPaused: false,
       };
 
-      await updateKitchenState(runtime, message.roomId, {
+      await updateKitchenState(runtime, message, {
         cookingSession: newSession,
       });
 
       const totalSteps = recipe.instructions.length;
+      const missingEquipment = checkRecipeEquipment(
+        recipe,
+        preferencesForMeal(kitchenState.userPreferences, userText),
+      );
       const introText =
         `Let's cook ${recipe.title}! I'll guide you step by step. ` +
         `There are ${totalSteps} steps total. Say "next" to advance, "repeat" to hear a step again, "previous" to go back, or "done" to end.\n\n` +
+        (cookingMenu && menu
+          ? `Each step has the time to do it so the first course is ready at ${formatClock(menu.serveAt)}.\n\n`
+          : '') +
+        (planMeal ? `This is ${planMeal} from your meal plan.\n\n` : '') +
+        (missingEquipment.length ? `${formatEquipmentForVoice(missingEquipment)}\n\n` : '') +
         formatStepForVoice(recipe, 0);
 
       await callback?.({ text: introText });
@@ -409,6 +549,8 @@ User request: "${userText}"`;
           currentStep: 0,
           totalSteps,
           sessionStarted: true,
+          menu: cookingMenu,
+          planMeal: planMeal ?? null,
         },
       };
     } catch (error) {
@@ -436,6 +578,19 @@ User request: "${userText}"`;
         },
       },
     ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "Let's cook tonight's dinner from my meal plan" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Let's cook Sheet Pan Lemon Chicken! I'll guide you step by step. This is Tuesday dinner from your meal plan. Step 1 of 7: Preheat your oven to 425 degrees F.",
+          actions: ['COOK_ALONG'],
+        },
+      },
+    ],
     [
       {
         name: '{{user1}}',
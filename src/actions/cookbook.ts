@@ -0,0 +1,290 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import type { InstacartService } from '../services/instacartService.js';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import {
+  findSavedRecipe,
+  formatSavedRecipe,
+  parseSaveDetails,
+  saveToCookbook,
+  searchCookbook,
+  searchTerms,
+} from '../utils/cookbook.js';
+import { localizeRecipe } from '../utils/locale.js';
+
+/** Most saved recipes listed in one reply. */
+const MAX_LISTED = 20;
+
+export const saveRecipeAction: Action = {
+  name: 'SAVE_RECIPE',
+  similes: ['SAVE_TO_COOKBOOK', 'BOOKMARK_RECIPE', 'FAVORITE_RECIPE', 'KEEP_RECIPE', 'TAG_RECIPE'],
+  description:
+    'Saves the active recipe to the user\'s personal cookbook so it is not lost when a new recipe is created, with optional tags, a note and a favourite flag (e.g. "save this", "save it to my favourites, tag it weeknight", "note: less salt next time"). Saving a recipe that is already in the cookbook updates it.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!(kitchenState.currentRecipe || kitchenState.cookingSession);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const kitchenState = await getKitchenState(runtime, message);
+      const recipe = kitchenState.currentRecipe ?? kitchenState.cookingSession?.recipe;
+
+      if (!recipe) {
+        return {
+          success: false,
+          error: "There's no recipe to save yet. Ask me for a recipe first!",
+        };
+      }
+
+      const details = parseSaveDetails(message.content?.text || '');
+      const { savedRecipes, entry, isNew } = saveToCookbook(
+        kitchenState.savedRecipes,
+        recipe,
+        details,
+      );
+
+      await updateKitchenState(runtime, message, { savedRecipes });
+
+      const extras: string[] = [];
+      if (entry.favorite) extras.push('marked as a favourite');
+      if (entry.tags.length) extras.push(`tagged ${entry.tags.join(', ')}`);
+      if (details.notes) extras.push(`with your note "${details.notes}"`);
+      const text = `${isNew ? 'Saved' : 'Updated'} **${recipe.title}** in your cookbook${
+        extras.length ? ` -- ${extras.join(', ')}` : ''
+      }. Ask me to open it any time.`;
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: { savedRecipe: entry, isNew, total: savedRecipes.length },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] saveRecipe error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't save that recipe: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Save this to my favourites and tag it weeknight' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Saved **Chicken Parmesan** in your cookbook -- marked as a favourite, tagged italian, weeknight. Ask me to open it any time.',
+          actions: ['SAVE_RECIPE'],
+        },
+      },
+    ],
+  ],
+};
+
+export const listRecipesAction: Action = {
+  name: 'LIST_RECIPES',
+  similes: ['SHOW_COOKBOOK', 'MY_RECIPES', 'SEARCH_RECIPES', 'SAVED_RECIPES', 'SHOW_FAVORITES'],
+  description:
+    'Lists or searches the recipes saved in the user\'s cookbook -- all of them, favourites only, or by title, tag, cuisine, note or ingredient (e.g. "show my saved recipes", "my favourite chicken recipes", "anything tagged weeknight?").',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!kitchenState.savedRecipes?.length;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any> }> => {
+    const userText = message.content?.text || '';
+    const kitchenState = await getKitchenState(runtime, message);
+    const saved = kitchenState.savedRecipes || [];
+    const results = searchCookbook(saved, userText);
+
+    let text: string;
+    if (saved.length === 0) {
+      text = 'Your cookbook is empty so far. Say "save this" on any recipe to keep it.';
+    } else if (results.length === 0) {
+      text = `Nothing in your cookbook matches that. You have ${saved.length} saved recipe${
+        saved.length === 1 ? '' : 's'
+      } -- ask me to show them all.`;
+    } else {
+      const filtered = results.length < saved.length || searchTerms(userText).length > 0;
+      const lines = results
+        .slice(0, MAX_LISTED)
+        .map((entry, i) => `${i + 1}. ${formatSavedRecipe(entry)}`);
+      const more =
+        results.length > MAX_LISTED ? `\n\n...and ${results.length - MAX_LISTED} more.` : '';
+      text = `${filtered ? 'Matching recipes' : 'Your cookbook'} (${results.length}):\n\n${lines.join(
+        '\n',
+      )}${more}\n\nAsk me to open any of them.`;
+    }
+
+    await callback?.({ text });
+    return {
+      success: true,
+      text,
+      data: { savedRecipes: results.map((entry) => ({ id: entry.id, title: entry.recipe.title })) },
+    };
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'What recipes have I saved?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Your cookbook (2):\n\n1. ★ **Chicken Parmesan** -- italian, weeknight · saved Mar 3\n2. **Banana Bread** -- baking · saved Feb 21',
+          actions: ['LIST_RECIPES'],
+        },
+      },
+    ],
+  ],
+};
+
+export const openRecipeAction: Action = {
+  name: 'OPEN_RECIPE',
+  similes: ['LOAD_RECIPE', 'REOPEN_RECIPE', 'OPEN_SAVED_RECIPE', 'USE_SAVED_RECIPE'],
+  description:
+    'Re-opens a recipe from the user\'s cookbook as the active recipe (e.g. "open my chicken parmesan", "let\'s make that banana bread again"), ready for COOK_ALONG, scaling or substitutions, and with a fresh Instacart link.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!kitchenState.savedRecipes?.length;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const kitchenState = await getKitchenState(runtime, message);
+      const saved = kitchenState.savedRecipes || [];
+      const entry = findSavedRecipe(saved, message.content?.text || '');
+
+      if (!entry) {
+        const askText = `Which recipe should I open? Your cookbook has ${saved
+          .map((s) => s.recipe.title)
+          .slice(0, MAX_LISTED)
+          .join(', ')}.`;
+        await callback?.({ text: askText });
+        return { success: false, text: askText };
+      }
+
+      // Saved recipes may predate a change of measurement locale or oven
+      const recipe = localizeRecipe(entry.recipe, kitchenState.userPreferences);
+
+      let instacartUrl: string | undefined;
+      try {
+        const instacart = runtime.getService<InstacartService>('instacart');
+        if (instacart) {
+          const result = await instacart.createRecipe(recipe, {
+            includeOptional: kitchenState.userPreferences?.optionalInCart !== false,
+          });
+          instacartUrl = result.products_link_url;
+        }
+      } catch (err) {
+        // Instacart is optional -- log but continue
+        console.warn(
+          '[Kitchly] Failed to create Instacart recipe link:',
+          err instanceof Error ? err.message : err,
+        );
+      }
+
+      await updateKitchenState(runtime, message, {
+        currentRecipe: recipe,
+        productsLinkUrl: instacartUrl,
+        savedRecipes: saved.map((s) =>
+          s.id === entry.id ? { ...s, lastOpenedAt: Date.now() } : s,
+        ),
+      });
+
+      const ingredientLines = recipe.ingredients
+        .map((ing) => `- ${ing.display_text || ing.name}`)
+        .join('\n');
+      let text = `Here's **${recipe.title}** from your cookbook${
+        recipe.servings ? ` (serves ${recipe.servings})` : ''
+      }:\n\n${ingredientLines}`;
+      if (entry.notes) text += `\n\n_Your note: ${entry.notes}_`;
+      text += '\n\nSay "let\'s cook" when you\'re ready and I\'ll walk you through it step by step.';
+      if (instacartUrl) {
+        text += `\n\n**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`;
+      }
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: {
+          recipe,
+          savedRecipeId: entry.id,
+          instacartUrl: instacartUrl || null,
+        },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] openRecipe error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't open that recipe: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "Let's make that chicken parmesan again" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Here's **Chicken Parmesan** from your cookbook (serves 4). Say \"let's cook\" when you're ready and I'll walk you through it step by step.",
+          actions: ['OPEN_RECIPE'],
+        },
+      },
+    ],
+  ],
+};
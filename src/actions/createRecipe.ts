@@ -5,10 +5,42 @@ import type {
   State,
   HandlerCallback,
 } from '@elizaos/core';
-import { ModelType } from '@elizaos/core';
 import type { InstacartService } from '../services/instacartService.js';
-import { updateKitchenState } from '../providers/kitchenProvider.js';
-import type { Recipe, InstacartIngredient } from '../types/index.js';
+import { updateKitchenState, getKitchenState } from '../providers/kitchenProvider.js';
+import { formatPreferencesForPrompt } from '../utils/preferences.js';
+import { preferencesForMeal } from '../utils/household.js';
+import { formatLocaleForPrompt, localizeRecipe } from '../utils/locale.js';
+import { measurementsFromDisplayText } from '../utils/ingredientParser.js';
+import { generateStructured } from '../utils/llm.js';
+import { formatConsistencyFixes, isConsistent, reconcileRecipe } from '../utils/recipeConsistency.js';
+import type { ConsistencyReport } from '../utils/recipeConsistency.js';
+import { RECIPE_SCHEMA } from '../utils/schema.js';
+import { withRecipeImage } from '../utils/recipeImage.js';
+import {
+  buildEquipmentFeedback,
+  checkRecipeEquipment,
+  formatEquipmentIssues,
+  withEquipment,
+} from '../utils/equipment.js';
+import type { EquipmentIssue } from '../utils/equipment.js';
+import { formatNutrition, formatUnmatched, recipeNutrition } from '../utils/nutrition.js';
+import {
+  formatCostEstimate,
+  formatUnpriced,
+  getPriceCatalog,
+  recipeCost,
+} from '../utils/pricing.js';
+import {
+  buildViolationFeedback,
+  checkRecipeRestrictions,
+  formatViolations,
+  MAX_RESTRICTION_ATTEMPTS,
+} from '../utils/allergenGuard.js';
+import type {
+  Recipe,
+  InstacartIngredient,
+  RestrictionViolation,
+} from '../types/index.js';
 
 // ---------------------------------------------------------------------------
 // Prompt used to extract a structured recipe from the conversation
@@ -18,9 +50,12 @@ const RECIPE_GENERATION_PROMPT = `You are a professional chef and recipe writer.
 IMPORTANT RULES:
 - Include EVERY ingredient needed, including common pantry items (salt, pepper, oil, butter, water, etc.). Never assume the user has anything on hand.
 - All ingredient quantities MUST be greater than 0.
-- Use standard US measurements (cups, tablespoons, teaspoons, ounces, pounds).
+- Use the measurement conventions and oven temperatures given under "Measurements" below.
 - Instructions must be clear, numbered steps.
+- For recipes with distinct parts (a sauce, a dough, a topping), give each ingredient a "group" such as "For the sauce"; otherwise leave "group" out.
+- Set "optional": true for ingredients the dish works without, and "garnish": true for ones only used to garnish or serve.
 - Be specific about temperatures, times, and techniques.
+- If the user preferences list kitchen equipment, every step must use ONLY that equipment (no oven means no baking or roasting). List every appliance and special tool the steps use under "equipment".
 
 Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text):
 
@@ -31,11 +66,15 @@ Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra
   "cookTime": "string (e.g. 30 minutes)",
   "cuisine": "string or null",
   "dietaryTags": ["string"],
+  "equipment": ["air fryer", "mixing bowl"],
   "ingredients": [
     {
       "name": "ingredient name",
       "display_text": "2 cups all-purpose flour",
-      "measurements": [{ "quantity": number, "unit": "string" }]
+      "measurements": [{ "quantity": number, "unit": "string" }],
+      "group": "For the sauce",
+      "optional": false,
+      "garnish": false
     }
   ],
   "instructions": ["Step 1 text", "Step 2 text"]
@@ -45,77 +84,17 @@ Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Validate that every ingredient has at least one measurement with qty > 0 */
+/**
+ * Validate that every ingredient has at least one measurement with qty > 0
+ * and a canonical unit. The amount is parsed from the display text the
+ * user sees, and the model's measurements are only used when the text
+ * states none ("salt to taste").
+ */
 function validateIngredients(ingredients: InstacartIngredient[]): InstacartIngredient[] {
-  return ingredients.map((ing) => {
-    const measurements = (ing.measurements || []).map((m) => ({
-      ...m,
-      quantity: m.quantity > 0 ? m.quantity : 1,
-    }));
-    // If no measurements at all, default to "1 unit"
-    if (measurements.length === 0) {
-      measurements.push({ quantity: 1, unit: 'unit' });
-    }
-    return { ...ing, measurements };
-  });
-}
-
-/** Format a recipe into beautiful markdown for display. */
-function formatRecipe(recipe: Recipe, instacartUrl?: string): string {
-  const lines: string[] = [];
-
-  lines.push(`# ${recipe.title}`);
-  lines.push('');
-
-  // Metadata row
-  const meta: string[] = [];
-  if (recipe.servings) meta.push(`**Servings:** ${recipe.servings}`);
-  if (recipe.prepTime) meta.push(`**Prep Time:** ${recipe.prepTime}`);
-  if (recipe.cookTime) meta.push(`**Cook Time:** ${recipe.cookTime}`);
-  if (recipe.cuisine) meta.push(`**Cuisine:** ${recipe.cuisine}`);
-  if (meta.length) {
-    lines.push(meta.join(' | '));
-    lines.push('');
-  }
-
-  if (recipe.dietaryTags?.length) {
-    lines.push(`*Tags: ${recipe.dietaryTags.join(', ')}*`);
-    lines.push('');
-  }
-
-  // Ingredients
-  lines.push('## Ingredients');
-  lines.push('');
-  for (const ing of recipe.ingredients) {
-    if (ing.display_text) {
-      lines.push(`- ${ing.display_text}`);
-    } else {
-      const meas = ing.measurements
-        ?.map((m) => `${m.quantity} ${m.unit}`)
-        .join(', ');
-      lines.push(meas ? `- ${meas} ${ing.name}` : `- ${ing.name}`);
-    }
-  }
-  lines.push('');
-
-  // Instructions
-  lines.push('## Instructions');
-  lines.push('');
-  recipe.instructions.forEach((step, i) => {
-    lines.push(`${i + 1}. ${step}`);
-  });
-  lines.push('');
-
-  // Instacart link
-  if (instacartUrl) {
-    lines.push('---');
-    lines.push('');
-    lines.push(
-      `**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`,
-    );
-  }
-
-  return lines.join('\n');
+  return ingredients.map((ing) => ({
+    ...ing,
+    measurements: measurementsFromDisplayText(ing.display_text, ing.measurements),
+  }));
 }
 
 // ---------------------------------------------------------------------------
@@ -146,59 +125,93 @@ export const createRecipeAction: Action = {
   ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
     try {
       // ------------------------------------------------------------------
-      // 1. Use LLM to generate structured recipe
+      // 1. Use LLM to generate structured recipe, regenerating if the
+      //    result breaks one of the user's allergies or diets, or needs
+      //    equipment they don't have
       // ------------------------------------------------------------------
       const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const preferences = preferencesForMeal(kitchenState.userPreferences, userText);
+      const preferencesContext =
+        formatPreferencesForPrompt(preferences) + formatLocaleForPrompt(preferences);
 
-      const fullPrompt = `${RECIPE_GENERATION_PROMPT}
+      let recipe: Recipe | undefined;
+      let consistency: ConsistencyReport | undefined;
+      let violations: RestrictionViolation[] = [];
+      let equipmentIssues: EquipmentIssue[] = [];
 
-User request: "${userText}"`;
+      for (let attempt = 0; attempt < MAX_RESTRICTION_ATTEMPTS; attempt++) {
+        const feedback =
+          (violations.length ? buildViolationFeedback(violations) : '') +
+          (equipmentIssues.length ? buildEquipmentFeedback(equipmentIssues, preferences) : '');
+        const fullPrompt = `${RECIPE_GENERATION_PROMPT}${preferencesContext}${feedback}
 
-      const rawResponse = (await runtime.useModel(ModelType.TEXT_LARGE, {
-        prompt: fullPrompt,
-      })) as string;
+User request: "${userText}"`;
 
-      // Extract JSON from the response (handle potential markdown fencing)
-      let jsonStr = rawResponse.trim();
-      const fenceMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (fenceMatch) {
-        jsonStr = fenceMatch[1].trim();
-      }
+        // Invalid shapes are sent back to the model with the exact problems
+        const recipeData = await generateStructured(runtime, {
+          prompt: fullPrompt,
+          schema: RECIPE_SCHEMA,
+          label: 'recipe',
+        });
+        if (!recipeData) {
+          return {
+            success: false,
+            error: "I couldn't get a complete recipe out of that. Please try rephrasing your request.",
+          };
+        }
 
-      let recipeData: any;
-      try {
-        recipeData = JSON.parse(jsonStr);
-      } catch {
-        return {
-          success: false,
-          error: 'Failed to parse recipe from the AI response. Please try rephrasing your request.',
+        const generated: Recipe = {
+          title: recipeData.title,
+          ingredients: validateIngredients(recipeData.ingredients),
+          instructions: recipeData.instructions,
+          servings: recipeData.servings || 4,
+          prepTime: recipeData.prepTime,
+          cookTime: recipeData.cookTime,
+          cuisine: recipeData.cuisine || undefined,
+          dietaryTags: recipeData.dietaryTags ?? [],
+          equipment: recipeData.equipment,
+          // The prompt asked for temperatures for the user's oven
+          ovenType: preferences?.ovenType,
         };
+        // Match the ingredient list to what the steps use before anything
+        // (the restriction check included) relies on it
+        const { recipe: reconciled, report } = reconcileRecipe(generated);
+        const candidate = withEquipment(reconciled);
+
+        violations = checkRecipeRestrictions(candidate, preferences);
+        equipmentIssues = checkRecipeEquipment(candidate, preferences);
+        if (violations.length === 0) {
+          // A step needing missing equipment is worth another try, but the
+          // first safe recipe is kept in case no attempt avoids it
+          if (!recipe || equipmentIssues.length === 0) {
+            // Enforce the locale on whatever units the model actually used
+            recipe = localizeRecipe(candidate, preferences);
+            consistency = report;
+          }
+          if (equipmentIssues.length === 0) break;
+          console.warn(
+            `[Kitchly] Generated recipe "${candidate.title}" needs equipment the user doesn't have (attempt ${attempt + 1}):\n${formatEquipmentIssues(equipmentIssues)}`,
+          );
+          continue;
+        }
+        console.warn(
+          `[Kitchly] Generated recipe "${candidate.title}" violates user restrictions (attempt ${attempt + 1}):\n${formatViolations(violations)}`,
+        );
       }
 
-      // Validate and sanitize
-      if (
-        !recipeData.title ||
-        !Array.isArray(recipeData.ingredients) ||
-        recipeData.ingredients.length === 0 ||
-        !Array.isArray(recipeData.instructions) ||
-        recipeData.instructions.length === 0
-      ) {
+      if (!recipe) {
         return {
           success: false,
-          error: 'The generated recipe was incomplete. Please try again with more details.',
+          error: `I couldn't come up with a version of that recipe that is safe for your restrictions:\n${formatViolations(
+            violations,
+          )}\nTry asking for a different dish.`,
         };
       }
 
-      const recipe: Recipe = {
-        title: recipeData.title,
-        ingredients: validateIngredients(recipeData.ingredients),
-        instructions: recipeData.instructions,
-        servings: recipeData.servings || 4,
-        prepTime: recipeData.prepTime,
-        cookTime: recipeData.cookTime,
-        cuisine: recipeData.cuisine || undefined,
-        dietaryTags: recipeData.dietaryTags || [],
-      };
+      // A photo of the dish when an image model is configured; the
+      // Instacart page and recipe card fall back to the Kitchly image
+      recipe = await withRecipeImage(runtime, recipe);
 
       // ------------------------------------------------------------------
       // 2. Create Instacart shoppable recipe page
@@ -207,7 +220,9 @@ User request: "${userText}"`;
       try {
         const instacart = runtime.getService<InstacartService>('instacart');
         if (instacart) {
-          const result = await instacart.createRecipe(recipe);
+          const result = await instacart.createRecipe(recipe, {
+            includeOptional: kitchenState.userPreferences?.optionalInCart !== false,
+          });
           instacartUrl = result.products_link_url;
         }
       } catch (err) {
@@ -221,21 +236,50 @@ User request: "${userText}"`;
       // ------------------------------------------------------------------
       // 3. Update kitchen state
       // ------------------------------------------------------------------
-      await updateKitchenState(runtime, message.roomId, {
+      await updateKitchenState(runtime, message, {
         currentRecipe: recipe,
         productsLinkUrl: instacartUrl,
       });
 
       // ------------------------------------------------------------------
-      // 4. Send Instacart link as a short follow-up
+      // 4. Send the photo, estimates, Instacart link and any ingredient
+      //    fixes as a short follow-up
       //    (The REPLY action already sends the conversational recipe text,
-      //     so we only need to deliver the shoppable link here.)
+      //     so we only need to deliver what it cannot know here.)
       // ------------------------------------------------------------------
+      const followUp: string[] = [];
+      if (recipe.imageUrl) {
+        followUp.push(`![${recipe.title}](${recipe.imageUrl})`);
+      }
+      if (consistency && !isConsistent(consistency)) {
+        followUp.push(`_Recipe check: ${formatConsistencyFixes(consistency)}_`);
+      }
+      const missingEquipment = checkRecipeEquipment(recipe, preferences);
+      if (missingEquipment.length) {
+        followUp.push(
+          `**Equipment check:** some steps need equipment you don't have:\n${formatEquipmentIssues(
+            missingEquipment,
+          )}`,
+        );
+      }
+      const nutrition = recipeNutrition(recipe);
+      let nutritionLine = `**Nutrition per serving (estimated):** ${formatNutrition(
+        nutrition.perServing,
+      )}`;
+      if (nutrition.unmatched.length) {
+        nutritionLine += `\n\n_${formatUnmatched(nutrition.unmatched)}_`;
+      }
+      followUp.push(nutritionLine);
+      const cost = recipeCost(recipe, await getPriceCatalog(runtime));
+      let costLine = `**Estimated groceries:** ${formatCostEstimate(cost)}`;
+      if (cost.unpriced.length) costLine += `\n\n_${formatUnpriced(cost.unpriced)}_`;
+      followUp.push(costLine);
       if (instacartUrl) {
-        await callback?.({
-          text: `**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`,
-        });
+        followUp.push(
+          `**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`,
+        );
       }
+      await callback?.({ text: followUp.join('\n\n') });
 
       return {
         success: true,
@@ -245,6 +289,9 @@ User request: "${userText}"`;
         data: {
           recipe,
           instacartUrl: instacartUrl || null,
+          consistency,
+          missingEquipment,
+          cost,
         },
       };
     } catch (error) {
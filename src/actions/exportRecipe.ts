@@ -0,0 +1,145 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import { getKitchenState } from '../providers/kitchenProvider.js';
+import {
+  EXPORT_FORMATS,
+  EXPORT_TOKEN_TTL_MS,
+  createExportToken,
+  exportRecipe,
+  getExportSecret,
+  parseExportFormat,
+} from '../utils/recipeExport.js';
+import type { ExportFormat } from '../utils/recipeExport.js';
+import { localizeRecipe } from '../utils/locale.js';
+import { EXPORT_PATH } from '../routes/exportRecipe.js';
+import type { KitchenState, Recipe } from '../types/index.js';
+
+/** Code-fence language for each export format in chat. */
+const FENCE_LANGUAGE: Record<ExportFormat, string> = {
+  jsonld: 'json',
+  markdown: 'markdown',
+  text: 'text',
+  paprika: 'json',
+  html: 'html',
+};
+
+/** A saved recipe named in the message, else the recipe being cooked or the active one. */
+function recipeToExport(
+  kitchenState: KitchenState,
+  text: string,
+): { recipe: Recipe; savedRecipeId?: string } | undefined {
+  const lower = text.toLowerCase();
+  const saved = kitchenState.savedRecipes?.find((s) =>
+    lower.includes(s.recipe.title.toLowerCase()),
+  );
+  if (saved) return { recipe: saved.recipe, savedRecipeId: saved.id };
+  const active = kitchenState.cookingSession?.recipe ?? kitchenState.currentRecipe;
+  return active && { recipe: active };
+}
+
+export const exportRecipeAction: Action = {
+  name: 'EXPORT_RECIPE',
+  similes: ['DOWNLOAD_RECIPE', 'SHARE_RECIPE', 'PRINT_RECIPE', 'RECIPE_TO_MARKDOWN', 'RECIPE_TO_PAPRIKA'],
+  description:
+    'Exports the active recipe (or a saved one named by title) for use in other apps: schema.org JSON-LD, Markdown, plain text, Paprika-compatible JSON, or a printable HTML page (e.g. "export this recipe", "give me this as markdown", "export it for Paprika", "make a printable version"). Defaults to Markdown.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!(
+      kitchenState.currentRecipe ||
+      kitchenState.cookingSession ||
+      kitchenState.savedRecipes?.length
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const found = recipeToExport(kitchenState, userText);
+
+      if (!found) {
+        return {
+          success: false,
+          error: "There's no recipe to export yet. Ask me for a recipe or open one from your cookbook!",
+        };
+      }
+
+      const recipe = localizeRecipe(found.recipe, kitchenState.userPreferences);
+      const format = parseExportFormat(userText) ?? 'markdown';
+      const exported = exportRecipe(recipe, format);
+
+      // A link to download the file, signed so it opens only this user's recipe
+      const secret = getExportSecret(runtime);
+      const token =
+        secret &&
+        createExportToken(
+          { roomId: message.roomId, entityId: message.entityId, savedRecipeId: found.savedRecipeId },
+          secret,
+        );
+      const downloadPath = token
+        ? `${EXPORT_PATH}?token=${encodeURIComponent(token)}&format=${format}`
+        : undefined;
+
+      let text = `Here's **${recipe.title}** as ${EXPORT_FORMATS[format].label} (\`${
+        exported.filename
+      }\`):\n\n\`\`\`${FENCE_LANGUAGE[format]}\n${exported.content.trimEnd()}\n\`\`\``;
+      if (downloadPath) {
+        const hours = Math.round(EXPORT_TOKEN_TTL_MS / (60 * 60 * 1000));
+        text += `\n\n**[Download ${exported.filename}](${downloadPath})** -- the link works for the next ${hours} hours.`;
+      }
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: {
+          format,
+          filename: exported.filename,
+          contentType: exported.contentType,
+          content: exported.content,
+          downloadPath,
+        },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] exportRecipe error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't export that recipe: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Export this recipe as markdown' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Here's **Lemon Herb Chicken** as Markdown (`lemon-herb-chicken.md`):\n\n```markdown\n# Lemon Herb Chicken\n\n- **Servings:** 4\n\n## Ingredients\n\n- 4 chicken thighs\n- 2 tbsp olive oil\n\n## Instructions\n\n1. Heat the oven to 425°F.\n2. Roast the chicken for 35 minutes.\n```",
+          actions: ['EXPORT_RECIPE'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,115 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import { getKitchenState } from '../providers/kitchenProvider.js';
+import {
+  formatCost,
+  formatCostEstimate,
+  formatUnpriced,
+  getPriceCatalog,
+  mealPlanCost,
+  recipeCost,
+} from '../utils/pricing.js';
+import type { CostEstimate } from '../types/index.js';
+
+/** Mentions of the plan or its shopping list rather than a single recipe. */
+const PLAN_PATTERN = /\b(?:plan|week(?:ly)?|shopping list|grocery list|groceries)\b/i;
+
+/** How many of the priciest items to list. */
+const TOP_ITEMS = 5;
+
+function formatTopItems(estimate: CostEstimate): string {
+  return estimate.items
+    .slice(0, TOP_ITEMS)
+    .map((item) => `- ${item.name}: ${formatCost(item.cost, estimate.currency)}`)
+    .join('\n');
+}
+
+export const estimateCostAction: Action = {
+  name: 'ESTIMATE_COST',
+  similes: ['GROCERY_COST', 'HOW_MUCH_WILL_THIS_COST', 'PRICE_CHECK', 'COST_PER_SERVING'],
+  description:
+    'Estimates what the active recipe or meal plan costs in groceries, in total and per serving, from a catalog of typical supermarket prices (e.g. "how much will this cost?", "what does this week cost per serving?").',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!(
+      kitchenState.currentRecipe ||
+      kitchenState.cookingSession ||
+      kitchenState.currentMealPlan
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const recipe = kitchenState.cookingSession?.recipe ?? kitchenState.currentRecipe;
+      const plan = kitchenState.currentMealPlan;
+
+      if (!recipe && !plan) {
+        return {
+          success: false,
+          error: "There's no recipe or meal plan to price yet. Ask me for one first!",
+        };
+      }
+
+      const catalog = await getPriceCatalog(runtime);
+      const usePlan = !!plan && (!recipe || PLAN_PATTERN.test(userText));
+      const title = usePlan ? plan!.title : recipe!.title;
+      const estimate = usePlan ? mealPlanCost(plan!, catalog) : recipeCost(recipe!, catalog);
+
+      if (estimate.items.length === 0) {
+        const text = `I couldn't price anything in **${title}** -- none of its ingredients are in my price list.`;
+        await callback?.({ text });
+        return { success: false, text };
+      }
+
+      let text = `**${title}** -- estimated groceries: ${formatCostEstimate(
+        estimate,
+      )}\n\nBiggest costs:\n${formatTopItems(estimate)}`;
+      if (estimate.unpriced.length) text += `\n\n_${formatUnpriced(estimate.unpriced)}_`;
+      await callback?.({ text });
+
+      return { success: true, text, data: { cost: estimate, scope: usePlan ? 'mealPlan' : 'recipe' } };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] estimateCost error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't estimate the cost: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'How much will this cost to make?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: '**Chicken Parmesan** -- estimated groceries: $14.20 total · $3.55 per serving (4 servings)\n\nBiggest costs:\n- chicken breast: $6.74\n- parmesan: $2.62\n- mozzarella: $1.87',
+          actions: ['ESTIMATE_COST'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,189 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import { ModelType } from '@elizaos/core';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import {
+  applyHouseholdChange,
+  parseHouseholdStatement,
+  type HouseholdChange,
+} from '../utils/household.js';
+import { formatHousehold, formatMember, preferenceChangesFromJson } from '../utils/preferences.js';
+import { parseJsonResponse } from '../utils/llm.js';
+
+// ---------------------------------------------------------------------------
+// Prompt used when the deterministic parser cannot identify the member
+// ---------------------------------------------------------------------------
+const HOUSEHOLD_EXTRACTION_PROMPT = `You manage the list of people a user cooks for. From the user's message, work out which household member they are talking about and what changed.
+
+Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text). Omit anything not mentioned:
+
+{
+  "action": "add" | "update" | "remove",
+  "name": "the member's name, or a relationship like 'daughter' if no name is given",
+  "add": {
+    "dietaryRestrictions": ["string"],
+    "allergies": ["string"],
+    "dislikes": ["string"]
+  },
+  "remove": {
+    "dietaryRestrictions": ["string"],
+    "allergies": ["string"],
+    "dislikes": ["string"]
+  },
+  "portionSize": number (1 = a standard adult serving, 0.5 = a small child)
+}`;
+
+// ---------------------------------------------------------------------------
+// Action
+// ---------------------------------------------------------------------------
+
+export const manageHouseholdAction: Action = {
+  name: 'MANAGE_HOUSEHOLD',
+  similes: [
+    'ADD_HOUSEHOLD_MEMBER',
+    'UPDATE_HOUSEHOLD_MEMBER',
+    'REMOVE_HOUSEHOLD_MEMBER',
+    'SHOW_HOUSEHOLD',
+    'FAMILY_PROFILE',
+  ],
+  description:
+    'Adds, updates, removes, or lists the members of the user\'s household -- each with their own allergies, diets, dislikes, and portion size (e.g. "add my daughter Emma, she\'s allergic to dairy and eats half portions", "Sam is vegetarian now", "who\'s in my household?"). Recipes and meal plans then satisfy everyone who is eating.',
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    _message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    return true;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const preferences = kitchenState.userPreferences || {};
+      const household = preferences.household || [];
+
+      // ------------------------------------------------------------------
+      // 1. "Who's in my household?" -- just read it back
+      // ------------------------------------------------------------------
+      if (/\b(?:who(?:'s| is)|list|show|tell me)\b.*\b(?:household|family|members?)\b/i.test(userText)) {
+        const text = household.length
+          ? `Here's your household: ${formatHousehold(household)}.`
+          : "You haven't told me about anyone in your household yet. Try \"add my son Leo, he's allergic to eggs\".";
+        await callback?.({ text });
+        return { success: true, text, data: { household } };
+      }
+
+      // ------------------------------------------------------------------
+      // 2. Parse the change deterministically, falling back to the LLM
+      // ------------------------------------------------------------------
+      let change: HouseholdChange | null = parseHouseholdStatement(userText, household);
+
+      if (!change) {
+        const rawResponse = (await runtime.useModel(ModelType.TEXT_SMALL, {
+          prompt: `${HOUSEHOLD_EXTRACTION_PROMPT}\n\nCurrent members: ${
+            household.map((m) => m.name).join(', ') || 'none'
+          }\n\nUser message: "${userText}"`,
+        })) as string;
+        const parsed = parseJsonResponse<Record<string, any>>(rawResponse);
+        if (parsed && typeof parsed.name === 'string' && parsed.name.trim()) {
+          change = {
+            action: ['add', 'update', 'remove'].includes(parsed.action) ? parsed.action : 'add',
+            name: parsed.name.trim(),
+            changes: preferenceChangesFromJson(parsed),
+            portionSize:
+              typeof parsed.portionSize === 'number' && parsed.portionSize > 0
+                ? parsed.portionSize
+                : undefined,
+          };
+        }
+      }
+
+      if (!change) {
+        const askText =
+          'Who should I add or update? For example: "add my daughter Emma, she\'s allergic to dairy".';
+        await callback?.({ text: askText });
+        return { success: false, text: askText };
+      }
+
+      // ------------------------------------------------------------------
+      // 3. Apply and persist
+      // ------------------------------------------------------------------
+      const updatedHousehold = applyHouseholdChange(household, change);
+      const userPreferences = { ...preferences };
+      if (updatedHousehold.length) {
+        userPreferences.household = updatedHousehold;
+      } else {
+        delete userPreferences.household;
+      }
+
+      await updateKitchenState(runtime, message, { userPreferences });
+
+      const member = updatedHousehold.find(
+        (m) => m.name.toLowerCase() === change.name.toLowerCase(),
+      );
+      const text =
+        change.action === 'remove'
+          ? `Done -- ${change.name} is off the household list.`
+          : `Got it -- ${member ? formatMember(member) : change.name}. I'll cook around that whenever ${change.name} is eating.`;
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: { household: updatedHousehold, change },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] manageHousehold error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't update your household: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: "Add my daughter Emma, she's allergic to dairy and eats half portions",
+        },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Got it -- Emma (allergies: dairy; half portion). I'll cook around that whenever Emma is eating.",
+          actions: ['MANAGE_HOUSEHOLD'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "Who's in my household?" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Here's your household: 2 people -- Emma (allergies: dairy; half portion); Sam (vegetarian).",
+          actions: ['MANAGE_HOUSEHOLD'],
+        },
+      },
+    ],
+  ],
+};
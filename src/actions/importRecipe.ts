@@ -0,0 +1,178 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import type { InstacartService } from '../services/instacartService.js';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import {
+  extractRecipeFromHtml,
+  fetchRecipePage,
+  findUrl,
+  looksLikeHtml,
+} from '../utils/recipeImport.js';
+import { checkRecipeRestrictions, formatViolations } from '../utils/allergenGuard.js';
+import { localizeRecipe } from '../utils/locale.js';
+import { preferencesForMeal } from '../utils/household.js';
+
+export const importRecipeAction: Action = {
+  name: 'IMPORT_RECIPE',
+  similes: ['IMPORT_RECIPE_URL', 'LOAD_RECIPE_FROM_URL', 'PARSE_RECIPE_PAGE', 'ADD_RECIPE_FROM_WEB'],
+  description:
+    'Imports a recipe from a web page the user pastes -- either the page HTML or a URL to fetch -- by reading its schema.org Recipe markup (JSON-LD or microdata). The imported recipe becomes the active recipe with a shoppable Instacart link, ready to cook along, scale or save.',
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const text = message.content?.text || '';
+    return !!findUrl(text) || looksLikeHtml(text);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+
+      // ------------------------------------------------------------------
+      // 1. Get the page HTML: pasted directly, or fetched from the URL
+      // ------------------------------------------------------------------
+      let html: string;
+      let sourceUrl: string | undefined;
+      if (looksLikeHtml(userText)) {
+        html = userText;
+      } else {
+        sourceUrl = findUrl(userText);
+        if (!sourceUrl) {
+          return {
+            success: false,
+            error: 'Paste a recipe link or the page HTML and I will import it.',
+          };
+        }
+        try {
+          html = await fetchRecipePage(sourceUrl);
+        } catch (err) {
+          console.warn(
+            '[Kitchly] Failed to fetch recipe page:',
+            err instanceof Error ? err.message : err,
+          );
+          const text = `I couldn't load ${sourceUrl}. If the site blocks me, you can paste the page source (HTML) here instead.`;
+          await callback?.({ text });
+          return { success: false, text };
+        }
+      }
+
+      // ------------------------------------------------------------------
+      // 2. Extract the schema.org Recipe
+      // ------------------------------------------------------------------
+      const imported = extractRecipeFromHtml(html, sourceUrl);
+      if (!imported) {
+        const text =
+          "I couldn't find a recipe on that page -- it has no schema.org Recipe markup I can read. Try a different link, or tell me about the dish and I'll write it up.";
+        await callback?.({ text });
+        return { success: false, text };
+      }
+
+      const kitchenState = await getKitchenState(runtime, message);
+      const recipe = localizeRecipe(imported, kitchenState.userPreferences);
+
+      // ------------------------------------------------------------------
+      // 3. Create Instacart shoppable recipe page
+      // ------------------------------------------------------------------
+      let instacartUrl: string | undefined;
+      try {
+        const instacart = runtime.getService<InstacartService>('instacart');
+        if (instacart) {
+          const result = await instacart.createRecipe(recipe, {
+            includeOptional: kitchenState.userPreferences?.optionalInCart !== false,
+          });
+          instacartUrl = result.products_link_url;
+        }
+      } catch (err) {
+        // Instacart is optional -- log but continue
+        console.warn(
+          '[Kitchly] Failed to create Instacart recipe link:',
+          err instanceof Error ? err.message : err,
+        );
+      }
+
+      // ------------------------------------------------------------------
+      // 4. Update kitchen state
+      // ------------------------------------------------------------------
+      await updateKitchenState(runtime, message, {
+        currentRecipe: recipe,
+        productsLinkUrl: instacartUrl,
+      });
+
+      // An imported recipe is the user's choice, so restrictions are flagged
+      // rather than enforced -- including those of the household it feeds
+      const violations = checkRecipeRestrictions(
+        recipe,
+        preferencesForMeal(kitchenState.userPreferences, userText),
+      );
+
+      const meta: string[] = [];
+      if (recipe.servings) meta.push(`serves ${recipe.servings}`);
+      if (recipe.prepTime) meta.push(`${recipe.prepTime} prep`);
+      if (recipe.cookTime) meta.push(`${recipe.cookTime} cooking`);
+      let text = `Imported **${recipe.title}**${meta.length ? ` (${meta.join(', ')})` : ''} -- ${
+        recipe.ingredients.length
+      } ingredients and ${recipe.instructions.length} steps.`;
+      if (recipe.imageUrl) {
+        text = `![${recipe.title}](${recipe.imageUrl})\n\n${text}`;
+      }
+      if (violations.length) {
+        text += `\n\nHeads up -- this recipe conflicts with your restrictions:\n${formatViolations(
+          violations,
+        )}\nAsk me for substitutions before you cook it.`;
+      }
+      if (instacartUrl) {
+        text += `\n\n**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`;
+      }
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: {
+          recipe,
+          sourceUrl: sourceUrl || null,
+          violations,
+          instacartUrl: instacartUrl || null,
+        },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] importRecipe error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't import that recipe: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Can you import this? https://www.example.com/recipes/best-banana-bread' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Imported **Best Banana Bread** (serves 8, 15 minutes prep, 1 hour cooking) -- 9 ingredients and 6 steps.',
+          actions: ['IMPORT_RECIPE'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,478 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import type { InstacartService } from '../services/instacartService.js';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import { formatPreferencesForPrompt } from '../utils/preferences.js';
+import { preferencesForMeal } from '../utils/household.js';
+import { formatLocaleForPrompt, localizeRecipe } from '../utils/locale.js';
+import { measurementsFromDisplayText } from '../utils/ingredientParser.js';
+import { generateStructured } from '../utils/llm.js';
+import { object, optional, RECIPE_SCHEMA, string } from '../utils/schema.js';
+import { reconcileRecipe } from '../utils/recipeConsistency.js';
+import { checkRecipeEquipment, formatEquipmentIssues, withEquipment } from '../utils/equipment.js';
+import {
+  buildViolationFeedback,
+  checkRecipeRestrictions,
+  formatViolations,
+  MAX_RESTRICTION_ATTEMPTS,
+} from '../utils/allergenGuard.js';
+import {
+  activeRecipeVersions,
+  addRecipeVersion,
+  diffRecipes,
+  formatRecipeDiff,
+  formatVersionList,
+  ingredientsChanged,
+  isEmptyDiff,
+  parseVersionRequest,
+} from '../utils/recipeHistory.js';
+import type { RecipeDiff } from '../utils/recipeHistory.js';
+import type {
+  InstacartIngredient,
+  KitchenState,
+  Recipe,
+  RestrictionViolation,
+  UserPreferences,
+} from '../types/index.js';
+
+// ---------------------------------------------------------------------------
+// Prompt used to edit the active recipe
+// ---------------------------------------------------------------------------
+const RECIPE_MODIFICATION_PROMPT = `You are a professional chef editing an existing recipe. Apply the user's requested change to the recipe below and return the whole edited recipe in strict JSON format.
+
+IMPORTANT RULES:
+- Change ONLY what the request needs. Copy every other ingredient and step exactly as written, in the same order.
+- When an ingredient is swapped or added, update the steps that use it (cooking times, techniques, order) so the recipe still works.
+- Keep the same number of servings unless the request is about servings.
+- Keep each ingredient's "group", "optional" and "garnish" fields unless the change is about them.
+- Rename the recipe only if the dish has clearly become something else.
+- If the user preferences list kitchen equipment, every step must use ONLY that equipment. Keep "equipment" listing every appliance and special tool the edited steps use.
+- All ingredient quantities MUST be greater than 0.
+- Use the measurement conventions and oven temperatures given under "Measurements" below.
+
+Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text):
+
+{
+  "summary": "a few words describing the change, e.g. spicier with chipotle",
+  "title": "string",
+  "servings": number,
+  "prepTime": "string",
+  "cookTime": "string",
+  "cuisine": "string or null",
+  "dietaryTags": ["string"],
+  "equipment": ["string"],
+  "ingredients": [
+    {
+      "name": "ingredient name",
+      "display_text": "2 cups all-purpose flour",
+      "measurements": [{ "quantity": number, "unit": "string" }],
+      "group": "For the sauce",
+      "optional": false,
+      "garnish": false
+    }
+  ],
+  "instructions": ["Step 1 text", "Step 2 text"]
+}`;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The recipe as the model should see it: just the editable fields. */
+function recipeForPrompt(recipe: Recipe): string {
+  const {
+    title,
+    servings,
+    prepTime,
+    cookTime,
+    cuisine,
+    dietaryTags,
+    equipment,
+    ingredients,
+    instructions,
+  } = recipe;
+  return JSON.stringify(
+    { title, servings, prepTime, cookTime, cuisine, dietaryTags, equipment, ingredients, instructions },
+    null,
+    2,
+  );
+}
+
+function validateIngredients(ingredients: InstacartIngredient[]): InstacartIngredient[] {
+  return ingredients.map((ing) => ({
+    ...ing,
+    measurements: measurementsFromDisplayText(ing.display_text, ing.measurements),
+  }));
+}
+
+/** The recipe schema plus the model's one-line summary of the change. */
+const RECIPE_EDIT_SCHEMA = object({
+  ...RECIPE_SCHEMA.shape,
+  summary: optional(string()),
+});
+
+/** Ask Instacart for a fresh recipe link. Instacart is optional, so failures only log. */
+async function refreshInstacartLink(
+  runtime: IAgentRuntime,
+  recipe: Recipe,
+  preferences?: UserPreferences,
+): Promise<string | undefined> {
+  try {
+    const instacart = runtime.getService<InstacartService>('instacart');
+    if (instacart) {
+      const result = await instacart.createRecipe(recipe, {
+        includeOptional: preferences?.optionalInCart !== false,
+      });
+      return result.products_link_url;
+    }
+  } catch (err) {
+    console.warn(
+      '[Kitchly] Failed to refresh Instacart recipe link:',
+      err instanceof Error ? err.message : err,
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Swap in a new version of the active recipe, keeping a cook-along on it
+ * in step. The Instacart link is only regenerated when the shopping list
+ * changed.
+ */
+async function applyRecipeVersion(
+  runtime: IAgentRuntime,
+  message: Memory,
+  kitchenState: KitchenState,
+  previous: Recipe,
+  next: Recipe,
+  label: string,
+  diff: RecipeDiff,
+): Promise<{ instacartUrl?: string; refreshed: boolean; version: number }> {
+  const refreshed = ingredientsChanged(diff);
+  const instacartUrl = refreshed
+    ? await refreshInstacartLink(runtime, next, kitchenState.userPreferences)
+    : kitchenState.productsLinkUrl;
+
+  const recipeVersions = addRecipeVersion(kitchenState, previous, next, label);
+  const updates: Partial<KitchenState> = {
+    currentRecipe: next,
+    productsLinkUrl: instacartUrl,
+    recipeVersions,
+  };
+  const session = kitchenState.cookingSession;
+  if (session?.recipe.title === previous.title) {
+    updates.cookingSession = {
+      ...session,
+      recipe: next,
+      currentStep: Math.min(session.currentStep, next.instructions.length - 1),
+    };
+  }
+  await updateKitchenState(runtime, message, updates);
+
+  return { instacartUrl, refreshed, version: recipeVersions.length };
+}
+
+// ---------------------------------------------------------------------------
+// Actions
+// ---------------------------------------------------------------------------
+
+export const modifyRecipeAction: Action = {
+  name: 'MODIFY_RECIPE',
+  similes: ['EDIT_RECIPE', 'CHANGE_RECIPE', 'TWEAK_RECIPE', 'ADJUST_RECIPE', 'UPDATE_RECIPE'],
+  description:
+    'Edits the active recipe in place -- e.g. "make it spicier", "swap chicken for tofu", "make it one-pan", "no oven please" -- and shows what changed in the ingredients and steps. Use this instead of CREATE_RECIPE whenever the user wants a change to the recipe already in play. Each edit is kept as a version (see REVERT_RECIPE). Only rescaling servings belongs to SCALE_RECIPE, and replacing one missing ingredient to SUBSTITUTE_INGREDIENT.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!kitchenState.currentRecipe;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const current = kitchenState.currentRecipe;
+
+      if (!current) {
+        return {
+          success: false,
+          error: "There's no recipe to change yet. Ask me for a recipe first!",
+        };
+      }
+
+      // ------------------------------------------------------------------
+      // 1. Ask the model for the edited recipe, regenerating if the edit
+      //    breaks one of the user's allergies or diets
+      // ------------------------------------------------------------------
+      const preferences = preferencesForMeal(kitchenState.userPreferences, userText);
+      const preferencesContext =
+        formatPreferencesForPrompt(preferences) + formatLocaleForPrompt(preferences);
+
+      let edited: Recipe | undefined;
+      let summary = '';
+      let violations: RestrictionViolation[] = [];
+
+      for (let attempt = 0; attempt < MAX_RESTRICTION_ATTEMPTS; attempt++) {
+        const feedback = violations.length ? buildViolationFeedback(violations) : '';
+        const fullPrompt = `${RECIPE_MODIFICATION_PROMPT}${preferencesContext}${feedback}
+
+Current recipe:
+${recipeForPrompt(current)}
+
+Requested change: "${userText}"`;
+
+        // Invalid shapes are sent back to the model with the exact problems
+        const data = await generateStructured(runtime, {
+          prompt: fullPrompt,
+          schema: RECIPE_EDIT_SCHEMA,
+          label: 'recipeEdit',
+        });
+        if (!data) {
+          return {
+            success: false,
+            error: "I couldn't work out that change to the recipe. Could you rephrase it?",
+          };
+        }
+
+        const generated: Recipe = {
+          ...current,
+          title: data.title,
+          ingredients: validateIngredients(data.ingredients),
+          instructions: data.instructions,
+          servings: data.servings ?? current.servings,
+          prepTime: data.prepTime ?? current.prepTime,
+          cookTime: data.cookTime ?? current.cookTime,
+          cuisine: data.cuisine ?? current.cuisine,
+          dietaryTags: data.dietaryTags ?? current.dietaryTags,
+          equipment: data.equipment ?? current.equipment,
+          // The prompt asked for temperatures for the user's oven
+          ovenType: preferences?.ovenType ?? current.ovenType,
+        };
+        // Match the ingredient list to the edited steps; the diff shows any fixes
+        const candidate = withEquipment(reconcileRecipe(generated).recipe);
+
+        violations = checkRecipeRestrictions(candidate, preferences);
+        if (violations.length === 0) {
+          edited = localizeRecipe(candidate, preferences);
+          summary = data.summary?.trim() || userText;
+          break;
+        }
+        console.warn(
+          `[Kitchly] Modified recipe "${candidate.title}" violates user restrictions (attempt ${attempt + 1}):\n${formatViolations(violations)}`,
+        );
+      }
+
+      if (!edited) {
+        return {
+          success: false,
+          error: `I couldn't make that change safely for your restrictions:\n${formatViolations(
+            violations,
+          )}\nTry a different change.`,
+        };
+      }
+
+      // ------------------------------------------------------------------
+      // 2. Work out what changed
+      // ------------------------------------------------------------------
+      const diff = diffRecipes(current, edited);
+      if (isEmptyDiff(diff)) {
+        const text = `That doesn't change anything in **${current.title}** -- it already fits. Want me to try something different?`;
+        await callback?.({ text });
+        return { success: true, text, data: { recipe: current, changed: false } };
+      }
+
+      // ------------------------------------------------------------------
+      // 3. Save the new version and refresh Instacart if the list changed
+      // ------------------------------------------------------------------
+      const { instacartUrl, refreshed, version } = await applyRecipeVersion(
+        runtime,
+        message,
+        kitchenState,
+        current,
+        edited,
+        summary,
+        diff,
+      );
+
+      let text = `Updated **${edited.title}** (version ${version}: ${summary}):\n\n${formatRecipeDiff(diff)}`;
+      const missingEquipment = checkRecipeEquipment(edited, preferences);
+      if (missingEquipment.length) {
+        text += `\n\n**Equipment check:** some steps need equipment you don't have:\n${formatEquipmentIssues(
+          missingEquipment,
+        )}`;
+      }
+      text += `\n\nSay "go back to the original" to undo.`;
+      if (refreshed && instacartUrl) {
+        text += `\n\n**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`;
+      }
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: {
+          recipe: edited,
+          diff,
+          version,
+          instacartUrl: instacartUrl || null,
+          instacartRefreshed: refreshed,
+        },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] modifyRecipe error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't change that recipe: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Make it spicier' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Updated **Chicken Tacos** (version 2: spicier with chipotle):\n\n**Ingredients**\n- Added: 2 chipotle peppers in adobo, minced\n- Changed: 1 tsp chili powder → 2 tsp chili powder\n\n**Steps**\n- Step 2 now: Stir the chipotle into the marinade with the spices.',
+          actions: ['MODIFY_RECIPE'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Swap the chicken for tofu' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Updated **Tofu Stir-Fry** (version 2: tofu instead of chicken):\n\n**Renamed:** Chicken Stir-Fry → Tofu Stir-Fry\n\n**Ingredients**\n- Added: 14 oz extra-firm tofu, pressed and cubed\n- Removed: 1 lb chicken breast',
+          actions: ['MODIFY_RECIPE'],
+        },
+      },
+    ],
+  ],
+};
+
+export const revertRecipeAction: Action = {
+  name: 'REVERT_RECIPE',
+  similes: ['UNDO_RECIPE_CHANGE', 'RESTORE_RECIPE', 'ORIGINAL_RECIPE', 'RECIPE_VERSIONS'],
+  description:
+    'Goes back to an earlier version of the active recipe after edits -- "go back to the original", "undo that", "go back to version 2" -- and shows what changed.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    const current = kitchenState.currentRecipe;
+    return !!current && (activeRecipeVersions(kitchenState, current)?.length ?? 0) > 1;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const current = kitchenState.currentRecipe;
+      const versions = current ? activeRecipeVersions(kitchenState, current) : undefined;
+
+      if (!current || !versions || versions.length < 2) {
+        return {
+          success: false,
+          error: "This recipe hasn't been changed, so there's no earlier version to go back to.",
+        };
+      }
+
+      const index = parseVersionRequest(userText, versions);
+      if (index === undefined || index === versions.length - 1) {
+        const text = `Which version would you like? ${formatVersionList(versions)}`;
+        await callback?.({ text });
+        return { success: false, text };
+      }
+
+      const target = versions[index];
+      const diff = diffRecipes(current, target.recipe);
+      const label = index === 0 ? 'back to the original' : `back to version ${index + 1}`;
+      const { instacartUrl, refreshed, version } = await applyRecipeVersion(
+        runtime,
+        message,
+        kitchenState,
+        current,
+        target.recipe,
+        label,
+        diff,
+      );
+
+      let text = `Back to ${index === 0 ? 'the original' : `version ${index + 1} (${target.label})`} of **${target.recipe.title}**`;
+      text += isEmptyDiff(diff) ? '.' : `:\n\n${formatRecipeDiff(diff)}`;
+      if (refreshed && instacartUrl) {
+        text += `\n\n**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`;
+      }
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: {
+          recipe: target.recipe,
+          restoredVersion: index + 1,
+          version,
+          diff,
+          instacartUrl: instacartUrl || null,
+          instacartRefreshed: refreshed,
+        },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] revertRecipe error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't go back to that version: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Actually, go back to the original' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Back to the original of **Chicken Tacos**:\n\n**Ingredients**\n- Removed: 2 chipotle peppers in adobo, minced\n- Changed: 2 tsp chili powder → 1 tsp chili powder',
+          actions: ['REVERT_RECIPE'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,134 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import { getKitchenState } from '../providers/kitchenProvider.js';
+import {
+  formatMealPlanNutritionTable,
+  formatNutrition,
+  formatUnmatched,
+  mealPlanNutrition,
+  recipeNutrition,
+} from '../utils/nutrition.js';
+
+/** Mentions of the plan rather than a single recipe. */
+const PLAN_PATTERN =
+  /\b(?:plan|week(?:ly)?|daily|per day|a day|each day|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i;
+
+export const nutritionInfoAction: Action = {
+  name: 'NUTRITION_INFO',
+  similes: ['GET_NUTRITION', 'CALORIE_COUNT', 'HOW_MANY_CALORIES', 'SHOW_MACROS', 'NUTRITION_FACTS'],
+  description:
+    'Estimates calories, protein, carbs, fat, fiber and sodium for the active recipe (per serving and in total) or for the active meal plan (per person per day), from a bundled nutrient table rather than a guess (e.g. "how many calories is this?", "what are the macros?", "how much protein per day on this plan?").',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!(
+      kitchenState.currentRecipe ||
+      kitchenState.cookingSession ||
+      kitchenState.currentMealPlan
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const recipe = kitchenState.cookingSession?.recipe ?? kitchenState.currentRecipe;
+      const plan = kitchenState.currentMealPlan;
+
+      // ------------------------------------------------------------------
+      // Meal plan: per person, per day
+      // ------------------------------------------------------------------
+      if (plan && (!recipe || PLAN_PATTERN.test(userText))) {
+        const nutrition = mealPlanNutrition(plan);
+        if (!nutrition) {
+          const text = `I can't estimate **${plan.title}** -- its meals don't list their ingredients. Ask me for a fresh plan and I'll include nutrition.`;
+          await callback?.({ text });
+          return { success: false, text };
+        }
+
+        const unmatched = [...new Set(nutrition.days.flatMap((d) => d.unmatched))];
+        let text = `Estimated nutrition per person for **${plan.title}**:\n\n${formatMealPlanNutritionTable(
+          nutrition,
+        ).join('\n')}\n\n**Daily average:** ${formatNutrition(nutrition.dailyAverage)}`;
+        if (unmatched.length) text += `\n\n_${formatUnmatched(unmatched)}_`;
+        await callback?.({ text });
+
+        return { success: true, text, data: { mealPlanNutrition: nutrition } };
+      }
+
+      // ------------------------------------------------------------------
+      // Recipe: per serving and in total
+      // ------------------------------------------------------------------
+      if (!recipe) {
+        return {
+          success: false,
+          error: "There's no recipe or meal plan to estimate yet. Ask me for one first!",
+        };
+      }
+
+      const nutrition = recipeNutrition(recipe);
+      let text = `**${recipe.title}** -- estimated per serving${
+        recipe.servings ? ` (serves ${recipe.servings})` : ''
+      }:\n\n${formatNutrition(nutrition.perServing)}`;
+      if (nutrition.servings > 1) {
+        text += `\n\nWhole recipe: ${formatNutrition(nutrition.total)}`;
+      }
+      if (nutrition.unmatched.length) text += `\n\n_${formatUnmatched(nutrition.unmatched)}_`;
+      await callback?.({ text });
+
+      return { success: true, text, data: { recipeNutrition: nutrition } };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] nutritionInfo error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't estimate the nutrition: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'How many calories is this?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: '**Chicken Parmesan** -- estimated per serving (serves 4):\n\n612 kcal · 48 g protein · 38 g carbs · 29 g fat · 3.1 g fiber · 1180 mg sodium',
+          actions: ['NUTRITION_INFO'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'How much protein a day am I getting on this plan?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Estimated nutrition per person for **High-Protein Week**:\n\n| Day | Calories | Protein | Carbs | Fat | Fiber | Sodium |\n| --- | ---: | ---: | ---: | ---: | ---: | ---: |\n| Monday | 1980 | 142 g | 180 g | 71 g | 31 g | 2210 mg |',
+          actions: ['NUTRITION_INFO'],
+        },
+      },
+    ],
+  ],
+};
@@ -5,14 +5,51 @@ import type {
   State,
   HandlerCallback,
 } from '@elizaos/core';
-import { ModelType } from '@elizaos/core';
 import type { InstacartService } from '../services/instacartService.js';
 import { updateKitchenState, getKitchenState } from '../providers/kitchenProvider.js';
+import { formatPreferencesForPrompt } from '../utils/preferences.js';
+import { preferencesForMeal } from '../utils/household.js';
+import { formatLocaleForPrompt, localizeMealPlan } from '../utils/locale.js';
+import { measurementsFromDisplayText } from '../utils/ingredientParser.js';
+import { generateStructured } from '../utils/llm.js';
+import { MEAL_PLAN_SCHEMA } from '../utils/schema.js';
+import { formatMealPlanText } from '../utils/mealPlan.js';
+import { checkMealPlanEquipment, formatMealEquipmentIssues } from '../utils/equipment.js';
+import {
+  buildTargetFeedback,
+  checkNutritionTargets,
+  formatMealPlanNutritionTable,
+  formatNutritionTargetTable,
+  formatTargetsForPrompt,
+  hasNutritionTargets,
+  mealPlanNutrition,
+  MAX_TARGET_ATTEMPTS,
+} from '../utils/nutrition.js';
+import {
+  buildBudgetFeedback,
+  formatBudgetForPrompt,
+  formatCost,
+  formatCostEstimate,
+  formatUnpriced,
+  getPriceCatalog,
+  mealPlanCost,
+  MAX_BUDGET_ATTEMPTS,
+  parseBudgetLimit,
+} from '../utils/pricing.js';
+import {
+  buildViolationFeedback,
+  checkMealPlanRestrictions,
+  formatViolations,
+  MAX_RESTRICTION_ATTEMPTS,
+} from '../utils/allergenGuard.js';
 import type {
   MealPlan,
   MealPlanDay,
+  CostEstimate,
+  InstacartIngredient,
   InstacartLineItem,
-  InstacartMeasurement,
+  NutritionTargetMiss,
+  RestrictionViolation,
 } from '../types/index.js';
 
 // ---------------------------------------------------------------------------
@@ -22,11 +59,12 @@ const MEAL_PLAN_PROMPT = `You are a professional meal planner and nutritionist.
 
 IMPORTANT RULES:
 - Each day should have breakfast, lunch, and dinner at minimum. Include snacks if the user requests them.
-- Every meal must list its complete recipe name and a one-sentence description.
+- Every meal must list its complete recipe name, a one-sentence description, how many servings it makes, and its ingredients with quantities for those servings.
 - Generate a CONSOLIDATED shopping list that combines all ingredients across every meal. Merge duplicates and sum their quantities.
 - Include EVERY ingredient needed -- salt, pepper, oil, butter, water, spices, etc. Never assume the user has anything on hand.
 - All ingredient quantities MUST be greater than 0.
-- Use standard US measurements (cups, tablespoons, teaspoons, ounces, pounds).
+- Use the measurement conventions given under "Measurements" below.
+- If the user preferences list kitchen equipment, plan only meals that can be made with that equipment.
 
 Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text):
 
@@ -39,7 +77,15 @@ Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra
         {
           "type": "breakfast" | "lunch" | "dinner" | "snack",
           "recipe": "Recipe Name",
-          "description": "One-sentence description"
+          "description": "One-sentence description",
+          "servings": number,
+          "ingredients": [
+            {
+              "name": "ingredient name",
+              "display_text": "2 cups all-purpose flour",
+              "measurements": [{ "quantity": number, "unit": "string" }]
+            }
+          ]
         }
       ]
     }
@@ -57,67 +103,39 @@ Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Ensure every line item has a measurement with quantity > 0 */
+/**
+ * Ensure every line item has a measurement with quantity > 0 and a
+ * canonical unit, parsed from the display text when it states an amount
+ * and taken from the model's measurements otherwise.
+ */
 function validateLineItems(items: InstacartLineItem[]): InstacartLineItem[] {
-  return items.map((item) => {
-    const measurements: InstacartMeasurement[] = (
-      item.line_item_measurements || []
-    ).map((m) => ({
-      ...m,
-      quantity: m.quantity > 0 ? m.quantity : 1,
-    }));
-    if (measurements.length === 0) {
-      measurements.push({ quantity: 1, unit: 'unit' });
-    }
-    return { ...item, line_item_measurements: measurements };
-  });
+  return items.map((item) => ({
+    ...item,
+    line_item_measurements: measurementsFromDisplayText(
+      item.display_text,
+      item.line_item_measurements,
+    ),
+  }));
 }
 
-/** Format the meal plan into beautiful markdown. */
-function formatMealPlan(plan: MealPlan, instacartUrl?: string): string {
-  const lines: string[] = [];
-
-  lines.push(`# ${plan.title}`);
-  lines.push('');
-
-  // Day-by-day breakdown
-  for (const day of plan.days) {
-    lines.push(`## ${day.day}`);
-    lines.push('');
-    for (const meal of day.meals) {
-      const typeLabel =
-        meal.type.charAt(0).toUpperCase() + meal.type.slice(1);
-      const desc = meal.description ? ` -- ${meal.description}` : '';
-      lines.push(`- **${typeLabel}:** ${meal.recipe}${desc}`);
-    }
-    lines.push('');
-  }
-
-  // Consolidated shopping list
-  lines.push('## Consolidated Shopping List');
-  lines.push('');
-  for (const item of plan.consolidatedList) {
-    if (item.display_text) {
-      lines.push(`- ${item.display_text}`);
-    } else {
-      const meas = item.line_item_measurements
-        ?.map((m) => `${m.quantity} ${m.unit}`)
-        .join(', ');
-      lines.push(meas ? `- ${meas} ${item.name}` : `- ${item.name}`);
-    }
-  }
-  lines.push('');
+/** Clean up a meal's ingredients the same way, for nutrition estimates. */
+function validateIngredients(ingredients: InstacartIngredient[]): InstacartIngredient[] {
+  return ingredients.map((ing) => ({
+    ...ing,
+    measurements: measurementsFromDisplayText(ing.display_text, ing.measurements),
+  }));
+}
 
-  // Instacart link
-  if (instacartUrl) {
-    lines.push('---');
-    lines.push('');
-    lines.push(
-      `**[Order all ingredients on Instacart](${instacartUrl})** -- one click to get everything delivered!`,
-    );
-  }
+/** How far a safe plan falls short of the user's nutrition targets and budget. */
+interface PlanShortfall {
+  misses: NutritionTargetMiss[];
+  overBudgetBy: number;
+}
 
-  return lines.join('\n');
+/** Whether `a` is closer than `b`; going over budget counts for more than a missed target. */
+function isCloser(a: PlanShortfall, b: PlanShortfall): boolean {
+  if (a.overBudgetBy !== b.overBudgetBy) return a.overBudgetBy < b.overBudgetBy;
+  return a.misses.length < b.misses.length;
 }
 
 // ---------------------------------------------------------------------------
@@ -137,7 +155,7 @@ export const planMealsAction: Action = {
     'BUY_MEAL_PLAN_INGREDIENTS',
   ],
   description:
-    'Creates a multi-day meal plan with a consolidated shopping list and generates a shoppable Instacart link for one-click grocery ordering. Use this whenever the user asks for a meal plan OR wants to order/shop for a grocery list.',
+    'Creates a multi-day meal plan with a consolidated shopping list and generates a shoppable Instacart link for one-click grocery ordering. Use this whenever the user asks for a meal plan OR wants to order/shop for a grocery list. A spending cap in the request (e.g. "keep this week under $80") is enforced against estimated grocery prices.',
 
   validate: async (
     runtime: IAgentRuntime,
@@ -160,101 +178,132 @@ export const planMealsAction: Action = {
       // 1. Gather context (user preferences if available)
       // ------------------------------------------------------------------
       const userText = message.content?.text || '';
-      const kitchenState = await getKitchenState(runtime, message.roomId);
-
-      let preferencesContext = '';
-      if (kitchenState.userPreferences) {
-        const up = kitchenState.userPreferences;
-        const prefs: string[] = [];
-        if (up.dietaryRestrictions?.length)
-          prefs.push(`Dietary restrictions: ${up.dietaryRestrictions.join(', ')}`);
-        if (up.allergies?.length)
-          prefs.push(`Allergies (MUST avoid): ${up.allergies.join(', ')}`);
-        if (up.cuisinePreferences?.length)
-          prefs.push(`Preferred cuisines: ${up.cuisinePreferences.join(', ')}`);
-        if (up.servingSize)
-          prefs.push(`Preferred serving size: ${up.servingSize} people`);
-        if (up.budget) prefs.push(`Budget level: ${up.budget}`);
-        if (up.cookingSkill)
-          prefs.push(`Cooking skill: ${up.cookingSkill}`);
-        if (prefs.length) {
-          preferencesContext = `\n\nUser preferences:\n${prefs.join('\n')}`;
-        }
-      }
+      const kitchenState = await getKitchenState(runtime, message);
+
+      const preferences = preferencesForMeal(kitchenState.userPreferences, userText);
+      const targets = hasNutritionTargets(preferences?.nutritionTargets)
+        ? preferences.nutritionTargets
+        : undefined;
+      // "keep this week under $80"
+      const budgetLimit = parseBudgetLimit(userText);
+      const catalog = await getPriceCatalog(runtime);
+      const preferencesContext =
+        formatPreferencesForPrompt(preferences) +
+        formatLocaleForPrompt(preferences) +
+        formatTargetsForPrompt(targets) +
+        formatBudgetForPrompt(budgetLimit, catalog.currency);
 
       // ------------------------------------------------------------------
-      // 2. Use LLM to generate the meal plan
+      // 2. Use LLM to generate the meal plan, regenerating if any item
+      //    breaks one of the user's allergies or diets, if any day misses
+      //    the user's nutrition targets, or if it goes over budget
       // ------------------------------------------------------------------
-      const fullPrompt = `${MEAL_PLAN_PROMPT}${preferencesContext}
+      let mealPlan: MealPlan | undefined;
+      let violations: RestrictionViolation[] = [];
+      let misses: NutritionTargetMiss[] = [];
+      let cost: CostEstimate | undefined;
+      // The closest safe plan so far is kept if no attempt hits every goal
+      let shortfall: PlanShortfall = { misses: [], overBudgetBy: 0 };
+      let planCost: CostEstimate | undefined;
+      let attempts = 0;
+      const maxAttempts = Math.max(
+        MAX_RESTRICTION_ATTEMPTS,
+        targets ? MAX_TARGET_ATTEMPTS : 0,
+        budgetLimit ? MAX_BUDGET_ATTEMPTS : 0,
+      );
+
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        attempts = attempt + 1;
+        const feedback = violations.length
+          ? buildViolationFeedback(violations)
+          : (misses.length ? buildTargetFeedback(misses) : '') +
+            (budgetLimit && cost && cost.total > budgetLimit
+              ? buildBudgetFeedback(cost, budgetLimit)
+              : '');
+        const fullPrompt = `${MEAL_PLAN_PROMPT}${preferencesContext}${feedback}
 
 User request: "${userText}"`;
 
-      const rawResponse = (await runtime.useModel(ModelType.TEXT_LARGE, {
-        prompt: fullPrompt,
-      })) as string;
+        // Invalid shapes are sent back to the model with the exact problems
+        const planData = await generateStructured(runtime, {
+          prompt: fullPrompt,
+          schema: MEAL_PLAN_SCHEMA,
+          label: 'mealPlan',
+        });
+        if (!planData) {
+          return {
+            success: false,
+            error:
+              "I couldn't get a complete meal plan out of that. Please try again with more details about how many days and dietary preferences.",
+          };
+        }
 
-      // Extract JSON from response
-      let jsonStr = rawResponse.trim();
-      const fenceMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (fenceMatch) {
-        jsonStr = fenceMatch[1].trim();
-      }
+        const days: MealPlanDay[] = planData.days.map((d) => ({
+          day: d.day,
+          meals: d.meals.map((m) => ({
+            type: m.type,
+            recipe: m.recipe,
+            description: m.description,
+            servings: m.servings,
+            ingredients: m.ingredients ? validateIngredients(m.ingredients) : undefined,
+          })),
+        }));
+
+        const consolidatedList = validateLineItems(planData.consolidatedList);
+
+        const candidate: MealPlan = {
+          title: planData.title,
+          days,
+          consolidatedList,
+          mealPlanText: formatMealPlanText(days),
+          nutritionTargets: targets,
+        };
 
-      let planData: any;
-      try {
-        planData = JSON.parse(jsonStr);
-      } catch {
-        return {
-          success: false,
-          error:
-            'Failed to parse the meal plan from the AI response. Please try rephrasing your request.',
+        violations = checkMealPlanRestrictions(candidate, preferences);
+        if (violations.length > 0) {
+          console.warn(
+            `[Kitchly] Generated meal plan "${candidate.title}" violates user restrictions (attempt ${attempt + 1}):\n${formatViolations(violations)}`,
+          );
+          continue;
+        }
+
+        // Verify targets and budget against our own estimates, not the model's word
+        misses = targets ? checkNutritionTargets(candidate, targets) : [];
+        cost = mealPlanCost(candidate, catalog);
+        const current: PlanShortfall = {
+          misses,
+          overBudgetBy: budgetLimit ? Math.max(0, cost.total - budgetLimit) : 0,
         };
+        if (!mealPlan || isCloser(current, shortfall)) {
+          // Enforce the locale on whatever units the model actually used
+          mealPlan = localizeMealPlan(candidate, preferences);
+          shortfall = current;
+          planCost = cost;
+        }
+        if (current.misses.length === 0 && current.overBudgetBy === 0) break;
+        if (misses.length) {
+          console.warn(
+            `[Kitchly] Generated meal plan "${candidate.title}" misses nutrition targets (attempt ${attempt + 1}):\n${misses
+              .map((m) => `${m.day} ${m.nutrient}: ${m.actual} vs ${m.target}`)
+              .join('\n')}`,
+          );
+        }
+        if (current.overBudgetBy > 0) {
+          console.warn(
+            `[Kitchly] Generated meal plan "${candidate.title}" is over budget (attempt ${attempt + 1}): ${cost.total} vs ${budgetLimit}`,
+          );
+        }
       }
 
-      // Validate
-      if (
-        !planData.title ||
-        !Array.isArray(planData.days) ||
-        planData.days.length === 0 ||
-        !Array.isArray(planData.consolidatedList)
-      ) {
+      if (!mealPlan) {
         return {
           success: false,
-          error:
-            'The generated meal plan was incomplete. Please try again with more details about how many days and dietary preferences.',
+          error: `I couldn't build a meal plan that is safe for your restrictions:\n${formatViolations(
+            violations,
+          )}\nTry adjusting the request and I'll have another go.`,
         };
       }
 
-      // Validate each day has proper structure
-      const days: MealPlanDay[] = planData.days.map((d: any) => ({
-        day: d.day || 'Day',
-        meals: Array.isArray(d.meals)
-          ? d.meals.map((m: any) => ({
-              type: m.type || 'dinner',
-              recipe: m.recipe || 'Untitled Meal',
-              description: m.description,
-            }))
-          : [],
-      }));
-
-      const consolidatedList = validateLineItems(planData.consolidatedList);
-
-      // Build the full formatted text for embedding in the plan
-      const mealPlanTextParts: string[] = [];
-      for (const day of days) {
-        mealPlanTextParts.push(day.day + ':');
-        for (const meal of day.meals) {
-          mealPlanTextParts.push(`  ${meal.type}: ${meal.recipe}`);
-        }
-      }
-
-      const mealPlan: MealPlan = {
-        title: planData.title,
-        days,
-        consolidatedList,
-        mealPlanText: mealPlanTextParts.join('\n'),
-      };
-
       // ------------------------------------------------------------------
       // 3. Create Instacart shoppable shopping list
       // ------------------------------------------------------------------
@@ -278,20 +327,70 @@ User request: "${userText}"`;
       // ------------------------------------------------------------------
       // 4. Update kitchen state
       // ------------------------------------------------------------------
-      await updateKitchenState(runtime, message.roomId, {
+      await updateKitchenState(runtime, message, {
         currentMealPlan: mealPlan,
         productsLinkUrl: instacartUrl,
       });
 
       // ------------------------------------------------------------------
-      // 5. Send Instacart link as a short follow-up
+      // 5. Send the nutrition estimate, target check and Instacart link as
+      //    a short follow-up
       //    (The REPLY action already sends the conversational meal plan,
-      //     so we only need to deliver the shoppable link here.)
+      //     so we only need to deliver what it cannot know here.)
       // ------------------------------------------------------------------
+      const followUp: string[] = [];
+      const nutrition = mealPlanNutrition(mealPlan);
+      if (nutrition) {
+        followUp.push(
+          `**Daily nutrition (per person, estimated):**\n\n${formatMealPlanNutritionTable(
+            nutrition,
+          ).join('\n')}`,
+        );
+      }
+      if (targets && nutrition) {
+        followUp.push(
+          `**Daily targets vs. estimate (per person):**\n\n${formatNutritionTargetTable(
+            nutrition,
+            targets,
+          ).join('\n')}`,
+        );
+      }
+      if (shortfall.misses.length) {
+        const offDays = [...new Set(shortfall.misses.map((m) => m.day))];
+        followUp.push(
+          `_After ${attempts} ${attempts === 1 ? 'try' : 'tries'}, ${offDays.join(', ')} ${
+            offDays.length === 1 ? 'is' : 'are'
+          } still off target -- ask me to rework ${offDays.length === 1 ? 'it' : 'them'} if you'd like._`,
+        );
+      }
+      const equipmentIssues = checkMealPlanEquipment(mealPlan, preferences);
+      if (equipmentIssues.length) {
+        followUp.push(
+          `_Equipment check: ${formatMealEquipmentIssues(equipmentIssues)}, which you don't have -- ask me to swap ${
+            equipmentIssues.length === 1 ? 'it' : 'them'
+          } if you'd like._`,
+        );
+      }
+      if (planCost) {
+        let costLine = `**Estimated groceries:** ${formatCostEstimate(planCost)}`;
+        if (budgetLimit) {
+          const limit = formatCost(budgetLimit, planCost.currency);
+          costLine += shortfall.overBudgetBy
+            ? ` -- about ${formatCost(shortfall.overBudgetBy, planCost.currency)} over your ${limit} budget after ${attempts} ${
+                attempts === 1 ? 'try' : 'tries'
+              }. Ask me for cheaper swaps if you'd like.`
+            : ` -- within your ${limit} budget.`;
+        }
+        if (planCost.unpriced.length) costLine += `\n\n_${formatUnpriced(planCost.unpriced)}_`;
+        followUp.push(costLine);
+      }
       if (instacartUrl) {
-        await callback?.({
-          text: `**[Order all ingredients on Instacart](${instacartUrl})** -- one click to get everything delivered!`,
-        });
+        followUp.push(
+          `**[Order all ingredients on Instacart](${instacartUrl})** -- one click to get everything delivered!`,
+        );
+      }
+      if (followUp.length) {
+        await callback?.({ text: followUp.join('\n\n') });
       }
 
       return {
@@ -302,8 +401,11 @@ User request: "${userText}"`;
         data: {
           mealPlan,
           instacartUrl: instacartUrl || null,
-          totalDays: days.length,
-          totalItems: consolidatedList.length,
+          totalDays: mealPlan.days.length,
+          totalItems: mealPlan.consolidatedList.length,
+          nutritionTargetMisses: shortfall.misses,
+          cost: planCost,
+          budgetLimit: budgetLimit ?? null,
         },
       };
     } catch (error) {
@@ -359,6 +461,19 @@ User request: "${userText}"`;
         },
       },
     ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Plan dinners for the week for two and keep it under $80' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Here are seven dinners for two that come in under $80 for the week!',
+          actions: ['PLAN_MEALS'],
+        },
+      },
+    ],
     [
       {
         name: '{{user1}}',
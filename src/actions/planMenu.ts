@@ -0,0 +1,354 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import type { InstacartService } from '../services/instacartService.js';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import { formatPreferencesForPrompt } from '../utils/preferences.js';
+import { preferencesForMeal } from '../utils/household.js';
+import { formatLocaleForPrompt, localizeRecipe } from '../utils/locale.js';
+import { measurementsFromDisplayText } from '../utils/ingredientParser.js';
+import { generateStructured } from '../utils/llm.js';
+import { MENU_SCHEMA } from '../utils/schema.js';
+import { reconcileRecipe } from '../utils/recipeConsistency.js';
+import { checkRecipeEquipment, formatEquipmentNames, withEquipment } from '../utils/equipment.js';
+import {
+  buildViolationFeedback,
+  checkRecipeRestrictions,
+  formatViolations,
+  MAX_RESTRICTION_ATTEMPTS,
+} from '../utils/allergenGuard.js';
+import {
+  canonicalCourse,
+  combineShoppingList,
+  courseLabel,
+  DEFAULT_SERVE_AT,
+  formatClock,
+  formatMenu,
+  parseCourses,
+  parseGuestCount,
+  parseServeTime,
+  scheduleMenu,
+  sortCourses,
+} from '../utils/menu.js';
+import {
+  formatCostEstimate,
+  formatUnpriced,
+  getPriceCatalog,
+  shoppingListCost,
+} from '../utils/pricing.js';
+import type {
+  InstacartIngredient,
+  Menu,
+  Recipe,
+  RestrictionViolation,
+} from '../types/index.js';
+
+// ---------------------------------------------------------------------------
+// Prompt used to generate the courses of a menu
+// ---------------------------------------------------------------------------
+const MENU_PROMPT = `You are a professional chef planning a multi-course meal. Based on the user's request, write one complete recipe for each course listed under "Menu" below, in strict JSON format.
+
+IMPORTANT RULES:
+- Write exactly one recipe per listed course, in the order given, with "course" set to that course's name.
+- The courses must work together as one menu: a shared style or cuisine, no main ingredient repeated across courses, and a balance of rich and light dishes.
+- Every recipe makes the number of servings given under "Menu".
+- Give a realistic "prepTime" and "cookTime" for every recipe -- the cooking timeline is scheduled from them. Count chilling, resting and rising time in "cookTime".
+- Write the steps in the order they are done, with make-ahead steps (marinating, chilling) first.
+- Include EVERY ingredient needed, including common pantry items (salt, pepper, oil, butter, water, etc.). Never assume the user has anything on hand.
+- All ingredient quantities MUST be greater than 0.
+- Use the measurement conventions and oven temperatures given under "Measurements" below.
+- For recipes with distinct parts (a sauce, a dough, a topping), give each ingredient a "group" such as "For the sauce"; otherwise leave "group" out.
+- Set "optional": true for ingredients a dish works without, and "garnish": true for ones only used to garnish or serve.
+- If the user preferences list kitchen equipment, every step must use ONLY that equipment. List every appliance and special tool a recipe's steps use under its "equipment".
+
+Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text):
+
+{
+  "title": "string naming the menu, e.g. Autumn Dinner Party",
+  "courses": [
+    {
+      "course": "starter",
+      "title": "string",
+      "servings": number,
+      "prepTime": "string (e.g. 15 minutes)",
+      "cookTime": "string (e.g. 30 minutes)",
+      "cuisine": "string or null",
+      "dietaryTags": ["string"],
+      "equipment": ["string"],
+      "ingredients": [
+        {
+          "name": "ingredient name",
+          "display_text": "2 cups all-purpose flour",
+          "measurements": [{ "quantity": number, "unit": "string" }],
+          "group": "For the sauce",
+          "optional": false,
+          "garnish": false
+        }
+      ],
+      "instructions": ["Step 1 text", "Step 2 text"]
+    }
+  ]
+}`;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function validateIngredients(ingredients: InstacartIngredient[]): InstacartIngredient[] {
+  return ingredients.map((ing) => ({
+    ...ing,
+    measurements: measurementsFromDisplayText(ing.display_text, ing.measurements),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Action
+// ---------------------------------------------------------------------------
+
+export const planMenuAction: Action = {
+  name: 'PLAN_MENU',
+  similes: ['MENU', 'BUILD_MENU', 'DINNER_PARTY', 'MULTI_COURSE_MEAL', 'PLAN_DINNER_PARTY'],
+  description:
+    'Plans a multi-course menu -- e.g. "starter, main and dessert for 6 at 7pm" -- with a recipe for each course, one combined Instacart shopping list, and a cooking timeline scheduled back from the serving time. The whole menu can then be cooked along as one session (COOK_ALONG). Use this instead of CREATE_RECIPE or PLAN_MEALS when the user wants several courses for one meal.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const key = runtime.getSetting('INSTACART_API_KEY') || process.env.INSTACART_API_KEY;
+    return !!key;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      // ------------------------------------------------------------------
+      // 1. Read the courses, guest count and serving time from the request
+      // ------------------------------------------------------------------
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const preferences = preferencesForMeal(kitchenState.userPreferences, userText);
+      const courseNames = parseCourses(userText);
+      const servings = parseGuestCount(userText) ?? preferences?.servingSize ?? 4;
+      const requestedTime = parseServeTime(userText);
+      const serveAt = requestedTime ?? DEFAULT_SERVE_AT;
+      const preferencesContext =
+        formatPreferencesForPrompt(preferences) + formatLocaleForPrompt(preferences);
+      const menuContext = `\n\nMenu:\n- Courses, in order: ${courseNames.join(', ')}\n- Servings: ${servings}\n- First course served at: ${formatClock(serveAt)}`;
+
+      // ------------------------------------------------------------------
+      // 2. Use LLM to generate a recipe per course, regenerating if any
+      //    course breaks one of the user's allergies or diets
+      // ------------------------------------------------------------------
+      let title = '';
+      let courses: { course: string; recipe: Recipe }[] | undefined;
+      let violations: RestrictionViolation[] = [];
+
+      for (let attempt = 0; attempt < MAX_RESTRICTION_ATTEMPTS; attempt++) {
+        const feedback = violations.length ? buildViolationFeedback(violations) : '';
+        const fullPrompt = `${MENU_PROMPT}${preferencesContext}${menuContext}${feedback}
+
+User request: "${userText}"`;
+
+        // Invalid shapes are sent back to the model with the exact problems
+        const menuData = await generateStructured(runtime, {
+          prompt: fullPrompt,
+          schema: MENU_SCHEMA,
+          label: 'menu',
+        });
+        if (!menuData) {
+          return {
+            success: false,
+            error: "I couldn't get a complete menu out of that. Please try rephrasing your request.",
+          };
+        }
+
+        const candidates = menuData.courses.map((data) => {
+          const generated: Recipe = {
+            title: data.title,
+            ingredients: validateIngredients(data.ingredients),
+            instructions: data.instructions,
+            servings: data.servings ?? servings,
+            prepTime: data.prepTime,
+            cookTime: data.cookTime,
+            cuisine: data.cuisine || undefined,
+            dietaryTags: data.dietaryTags ?? [],
+            equipment: data.equipment,
+            // The prompt asked for temperatures for the user's oven
+            ovenType: preferences?.ovenType,
+          };
+          // Match each ingredient list to the steps that use it
+          const recipe = withEquipment(reconcileRecipe(generated).recipe);
+          return { course: canonicalCourse(data.course), recipe };
+        });
+
+        violations = candidates.flatMap(({ recipe }) =>
+          checkRecipeRestrictions(recipe, preferences),
+        );
+        if (violations.length === 0) {
+          title = menuData.title;
+          // Enforce the locale on whatever units the model actually used
+          courses = sortCourses(candidates).map((c) => ({
+            ...c,
+            recipe: localizeRecipe(c.recipe, preferences),
+          }));
+          break;
+        }
+        console.warn(
+          `[Kitchly] Generated menu "${menuData.title}" violates user restrictions (attempt ${attempt + 1}):\n${formatViolations(violations)}`,
+        );
+      }
+
+      if (!courses) {
+        return {
+          success: false,
+          error: `I couldn't come up with a menu that is safe for your restrictions:\n${formatViolations(
+            violations,
+          )}\nTry asking for different courses.`,
+        };
+      }
+
+      // ------------------------------------------------------------------
+      // 3. Schedule the timeline and combine the shopping list
+      // ------------------------------------------------------------------
+      const schedule = scheduleMenu(courses, serveAt);
+      const menu: Menu = {
+        title,
+        servings,
+        serveAt,
+        courses: schedule.courses,
+        timeline: schedule.timeline,
+        shoppingList: combineShoppingList(
+          courses.map((c) => c.recipe),
+          kitchenState.userPreferences?.optionalInCart !== false,
+        ),
+        locale: courses[0].recipe.locale,
+      };
+
+      // ------------------------------------------------------------------
+      // 4. Create one Instacart shopping list for every course
+      // ------------------------------------------------------------------
+      let instacartUrl: string | undefined;
+      try {
+        const instacart = runtime.getService<InstacartService>('instacart');
+        if (instacart) {
+          const result = await instacart.createShoppingList(menu.title, menu.shoppingList);
+          instacartUrl = result.products_link_url;
+        }
+      } catch (err) {
+        // Instacart is optional -- log but continue
+        console.warn(
+          '[Kitchly] Failed to create Instacart shopping list link:',
+          err instanceof Error ? err.message : err,
+        );
+      }
+
+      // ------------------------------------------------------------------
+      // 5. Update kitchen state
+      // ------------------------------------------------------------------
+      await updateKitchenState(runtime, message, {
+        currentMenu: menu,
+        productsLinkUrl: instacartUrl,
+      });
+
+      // ------------------------------------------------------------------
+      // 6. Send the menu, timeline and shopping link
+      //    (Only this action knows the timeline, so it sends the whole menu.)
+      // ------------------------------------------------------------------
+      const sections: string[] = [formatMenu(menu)];
+      if (requestedTime === undefined) {
+        sections.push(
+          `_I've timed everything for ${formatClock(serveAt)} -- tell me when you're eating and I'll reschedule it._`,
+        );
+      }
+      const missing = menu.courses
+        .map(({ course, recipe }) => ({
+          course,
+          names: [...new Set(checkRecipeEquipment(recipe, preferences).flatMap((i) => i.missing))],
+        }))
+        .filter((m) => m.names.length);
+      if (missing.length) {
+        sections.push(
+          `_Equipment check: ${missing
+            .map((m) => `the ${m.course} needs ${formatEquipmentNames(m.names)}`)
+            .join('; ')}, which you don't have -- ask me to adapt ${missing.length === 1 ? 'it' : 'them'} if you'd like._`,
+        );
+      }
+      const catalog = await getPriceCatalog(runtime);
+      const cost = shoppingListCost(menu.shoppingList, catalog, menu.servings);
+      let costLine = `**Estimated groceries:** ${formatCostEstimate(cost)}`;
+      if (cost.unpriced.length) costLine += `\n\n_${formatUnpriced(cost.unpriced)}_`;
+      sections.push(costLine);
+      if (instacartUrl) {
+        sections.push(
+          `**[Order everything for the menu on Instacart](${instacartUrl})** -- one click to get it all delivered!`,
+        );
+      }
+      sections.push(
+        `Say "let's cook the menu" and I'll walk you through the whole timeline, or name a course (e.g. "cook the ${
+          menu.courses[menu.courses.length - 1].course
+        }") to cook just that one.`,
+      );
+      const text = sections.join('\n\n');
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: {
+          menu,
+          instacartUrl: instacartUrl || null,
+          courses: menu.courses.map((c) => `${courseLabel(c.course)}: ${c.recipe.title}`),
+          cost,
+        },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] planMenu error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't plan that menu: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Can you do a starter, main and dessert for 6 at 7pm?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Here is your three-course menu, with a timeline that starts at 4:30 PM and one shopping list for everything.',
+          actions: ['PLAN_MENU'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "I'm hosting a four-course dinner party for eight on Saturday" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Here is your four-course menu for 8! I've timed everything for 7:00 PM.",
+          actions: ['PLAN_MENU'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,483 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import { ModelType } from '@elizaos/core';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import {
+  applyPreferenceChanges,
+  describePreferenceChanges,
+  formatPreferences,
+  hasPreferenceChanges,
+  parsePreferenceStatement,
+  preferenceChangesFromJson,
+  pruneNoopChanges,
+  splitSafetyRelaxing,
+  withPendingUpdate,
+} from '../utils/preferences.js';
+import { localizeKitchenState } from '../utils/locale.js';
+import { parseJsonResponse } from '../utils/llm.js';
+import type { PreferenceChanges, UserPreferences } from '../types/index.js';
+
+// ---------------------------------------------------------------------------
+// Prompt used when the deterministic parser finds nothing
+// ---------------------------------------------------------------------------
+const PREFERENCE_EXTRACTION_PROMPT = `You extract cooking preferences from a user's message. Identify diets, allergies, favourite cuisines, disliked ingredients, how many people they cook for, budget, cooking skill, which measurement system they use, what kind of oven they have, which cooking appliances they have or lack, any daily calorie or macro targets and whether optional or garnish ingredients should go into their Instacart cart. Distinguish between things the user wants ADDED and things they want REMOVED (e.g. "I'm not vegan anymore", "I don't have an oven"). When the user says a few appliances are ALL they have ("air fryer only"), also remove the stovetop, oven and microwave they don't mention.
+
+Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text). Omit anything the user did not mention:
+
+{
+  "add": {
+    "dietaryRestrictions": ["string"],
+    "allergies": ["string"],
+    "cuisinePreferences": ["string"],
+    "dislikes": ["string"],
+    "equipment": ["stovetop" | "oven" | "microwave" | "air fryer" | "pressure cooker" | "slow cooker" | "rice cooker" | "toaster oven" | "grill" | "blender" | "food processor"]
+  },
+  "remove": {
+    "dietaryRestrictions": ["string"],
+    "allergies": ["string"],
+    "cuisinePreferences": ["string"],
+    "dislikes": ["string"],
+    "equipment": ["stovetop" | "oven" | "microwave" | "air fryer" | "pressure cooker" | "slow cooker" | "rice cooker" | "toaster oven" | "grill" | "blender" | "food processor"]
+  },
+  "servingSize": number,
+  "budget": "budget" | "moderate" | "premium",
+  "cookingSkill": "beginner" | "intermediate" | "advanced",
+  "measurementLocale": "us" | "metric" | "uk" | "au",
+  "ovenType": "conventional" | "fan",
+  "nutritionTargets": { "calories": number, "protein": number, "carbs": number, "fat": number },
+  "optionalInCart": boolean
+}`;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Which list fields a reset request targets; empty means "everything". */
+function detectResetFields(text: string): (keyof UserPreferences)[] {
+  const t = text.toLowerCase();
+  const fields: (keyof UserPreferences)[] = [];
+  if (/\ballerg/.test(t)) fields.push('allergies');
+  if (/\b(?:diet|restriction)/.test(t)) fields.push('dietaryRestrictions');
+  if (/\bcuisine/.test(t)) fields.push('cuisinePreferences');
+  if (/\bdislike/.test(t)) fields.push('dislikes');
+  if (/\bserving|portion/.test(t)) fields.push('servingSize');
+  if (/\bbudget\b/.test(t)) fields.push('budget');
+  if (/\bskill\b/.test(t)) fields.push('cookingSkill');
+  if (/\b(?:measurement|units?|metric)\b/.test(t)) fields.push('measurementLocale');
+  if (/\boven\b/.test(t)) fields.push('ovenType');
+  if (/\b(?:calorie|macro|nutrition|targets?\b|goals?\b)/.test(t)) fields.push('nutritionTargets');
+  if (/\b(?:optional|garnish)/.test(t)) fields.push('optionalInCart');
+  if (/\b(?:equipment|appliances?|kitchen tools)\b/.test(t)) fields.push('equipment');
+  return fields;
+}
+
+/** "allergies (peanuts, shellfish) and diet (vegan)" */
+function describeRemovals(changes: PreferenceChanges): string {
+  const parts: string[] = [];
+  if (changes.remove.allergies?.length) {
+    parts.push(`allergies (${changes.remove.allergies.join(', ')})`);
+  }
+  if (changes.remove.dietaryRestrictions?.length) {
+    parts.push(`diet (${changes.remove.dietaryRestrictions.join(', ')})`);
+  }
+  return parts.join(' and ');
+}
+
+// ---------------------------------------------------------------------------
+// Actions
+// ---------------------------------------------------------------------------
+
+export const setPreferencesAction: Action = {
+  name: 'SET_PREFERENCES',
+  similes: [
+    'UPDATE_PREFERENCES',
+    'REMEMBER_PREFERENCES',
+    'SET_DIET',
+    'ADD_ALLERGY',
+    'REMOVE_ALLERGY',
+    'SET_SERVINGS',
+    'SET_MACRO_TARGETS',
+  ],
+  description:
+    'Saves or updates the user\'s cooking preferences -- diets, allergies, favourite cuisines, disliked ingredients, how many people they cook for, budget, skill level, measurement system (US, metric, UK, Australian), oven type (conventional or fan), kitchen equipment (e.g. no oven, air fryer only, an Instant Pot), daily calorie and macro targets for meal plans, and whether optional and garnish ingredients go into Instacart carts. Use this when the user tells Kit about themselves (e.g. "I\'m vegetarian", "I\'m allergic to peanuts", "I\'m not vegan anymore", "we\'re a family of four").',
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    _message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    return true;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+
+      // ------------------------------------------------------------------
+      // 1. Parse deterministically, falling back to the LLM
+      // ------------------------------------------------------------------
+      let changes = parsePreferenceStatement(userText);
+
+      if (!hasPreferenceChanges(changes)) {
+        const rawResponse = (await runtime.useModel(ModelType.TEXT_SMALL, {
+          prompt: `${PREFERENCE_EXTRACTION_PROMPT}\n\nUser message: "${userText}"`,
+        })) as string;
+        changes = preferenceChangesFromJson(parseJsonResponse(rawResponse));
+      }
+
+      if (!hasPreferenceChanges(changes)) {
+        const askText =
+          "I didn't catch a preference in that. You can tell me things like \"I'm vegetarian\", \"I'm allergic to shellfish\", or \"I cook for four on a budget\".";
+        await callback?.({ text: askText });
+        return { success: false, text: askText };
+      }
+
+      // ------------------------------------------------------------------
+      // 2. Apply and persist -- dropping an allergy or diet waits for a
+      //    "yes" (CONFIRM_PREFERENCES)
+      // ------------------------------------------------------------------
+      const kitchenState = await getKitchenState(runtime, message);
+      const { safe, relaxing: unconfirmed } = splitSafetyRelaxing(
+        kitchenState.userPreferences,
+        changes,
+      );
+      const relaxing = pruneNoopChanges(kitchenState.userPreferences, unconfirmed);
+      const userPreferences = hasPreferenceChanges(safe)
+        ? applyPreferenceChanges(kitchenState.userPreferences, safe)
+        : kitchenState.userPreferences;
+
+      // A new locale or oven type converts the recipes already in play
+      await updateKitchenState(runtime, message, {
+        userPreferences,
+        ...localizeKitchenState(kitchenState, userPreferences),
+        ...(hasPreferenceChanges(relaxing) && {
+          pendingPreferenceUpdates: withPendingUpdate(
+            kitchenState.pendingPreferenceUpdates,
+            relaxing,
+            1,
+            userText,
+          ),
+        }),
+      });
+
+      const lines: string[] = [];
+      if (hasPreferenceChanges(safe)) {
+        lines.push(
+          `Got it -- I ${describePreferenceChanges(safe)}. I'll keep that in mind for every recipe and meal plan.`,
+        );
+      }
+      if (hasPreferenceChanges(relaxing)) {
+        lines.push(
+          `Just to be safe, should I go ahead? Say yes and I'll have ${describePreferenceChanges(relaxing)}, so recipes will stop avoiding it.`,
+        );
+      }
+      const text = lines.length ? lines.join(' ') : "That's already how I have it saved.";
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: { userPreferences, changes: safe, pendingChanges: relaxing },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] setPreferences error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't update your preferences: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "I'm vegetarian, allergic to peanuts, cooking for 4 on a budget" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Got it -- vegetarian, no peanuts, four servings, and budget-friendly. I'll remember that.",
+          actions: ['SET_PREFERENCES'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "I'm not vegetarian anymore" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Just to be safe, should I go ahead? Say yes and I'll have removed vegetarian from your diet, so recipes will stop avoiding it.",
+          actions: ['SET_PREFERENCES'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Add sesame to my allergies' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Done -- sesame is on your allergy list and I'll keep it out of everything.",
+          actions: ['SET_PREFERENCES'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "I'm aiming for 2,000 calories a day with 150g protein" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Got it -- I set your daily targets to 2000 kcal, 150 g protein. I'll build your meal plans to hit them.",
+          actions: ['SET_PREFERENCES'],
+        },
+      },
+    ],
+  ],
+};
+
+export const showPreferencesAction: Action = {
+  name: 'SHOW_PREFERENCES',
+  similes: ['LIST_PREFERENCES', 'MY_PREFERENCES', 'WHAT_DO_YOU_KNOW_ABOUT_ME', 'SHOW_ALLERGIES'],
+  description:
+    'Reads back the cooking preferences Kit has saved for the user (diets, allergies, cuisines, servings, budget, skill level). Use this when the user asks what Kit remembers about them.',
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    _message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    return true;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any> }> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    const prefs = kitchenState.userPreferences;
+    const lines = prefs ? formatPreferences(prefs) : [];
+
+    const text = lines.length
+      ? `Here's what I have saved for you:\n${lines.map((l) => `- ${l}`).join('\n')}`
+      : "I don't have any preferences saved for you yet. Tell me about your diet, allergies, or how many people you cook for.";
+
+    await callback?.({ text });
+    return { success: true, text, data: { userPreferences: prefs || {} } };
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'What allergies do you have saved for me?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Here's what I have saved for you: allergies -- peanuts, shellfish.",
+          actions: ['SHOW_PREFERENCES'],
+        },
+      },
+    ],
+  ],
+};
+
+export const resetPreferencesAction: Action = {
+  name: 'RESET_PREFERENCES',
+  similes: ['CLEAR_PREFERENCES', 'FORGET_PREFERENCES', 'CLEAR_ALLERGIES'],
+  description:
+    'Clears the user\'s saved cooking preferences -- either everything, or a single category such as allergies or cuisines (e.g. "clear my allergies", "reset my preferences").',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!kitchenState.userPreferences;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any> }> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    const userText = message.content?.text || '';
+    const fields = detectResetFields(userText);
+    const current = kitchenState.userPreferences || {};
+
+    // Allergies and diets stay until the user confirms dropping them
+    const relaxing: PreferenceChanges = { add: {}, remove: {}, removeAnywhere: [], set: {} };
+    for (const field of ['allergies', 'dietaryRestrictions'] as const) {
+      if ((fields.length === 0 || fields.includes(field)) && current[field]?.length) {
+        relaxing.remove[field] = current[field];
+      }
+    }
+    const cleared = fields.filter((f) => !(f in relaxing.remove));
+
+    let userPreferences: UserPreferences | undefined;
+    let text: string;
+    if (fields.length === 0) {
+      userPreferences = hasPreferenceChanges(relaxing)
+        ? { allergies: current.allergies, dietaryRestrictions: current.dietaryRestrictions }
+        : undefined;
+      text = "All cleared -- I've forgotten your saved preferences. We're starting fresh.";
+    } else {
+      userPreferences = { ...current };
+      for (const field of cleared) delete userPreferences[field];
+      text = cleared.length
+        ? `Cleared your ${cleared
+            .map((f) => f.replace(/([A-Z])/g, ' $1').toLowerCase())
+            .join(', ')}.`
+        : '';
+    }
+    if (hasPreferenceChanges(relaxing)) {
+      text = `${text} Just to be safe, should I also forget your ${describeRemovals(relaxing)}? Say yes and recipes will stop avoiding them.`.trim();
+    }
+
+    await updateKitchenState(runtime, message, {
+      userPreferences,
+      ...localizeKitchenState(kitchenState, userPreferences),
+      ...(hasPreferenceChanges(relaxing) && {
+        pendingPreferenceUpdates: withPendingUpdate(
+          kitchenState.pendingPreferenceUpdates,
+          relaxing,
+          1,
+          userText,
+        ),
+      }),
+    });
+    await callback?.({ text });
+    return { success: true, text, data: { userPreferences: userPreferences || {} } };
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Forget all my preferences' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "All cleared -- I've forgotten your saved preferences.",
+          actions: ['RESET_PREFERENCES'],
+        },
+      },
+    ],
+  ],
+};
+
+export const confirmPreferencesAction: Action = {
+  name: 'CONFIRM_PREFERENCES',
+  similes: ['CONFIRM_PREFERENCE_UPDATE', 'REMEMBER_THAT', 'DISCARD_PREFERENCE_UPDATE'],
+  description:
+    'Confirms or discards preference updates Kit picked up in passing and is holding for confirmation (listed under [Pending Preference Updates]). Use this when the user answers "yes, remember that" or "no, that was just for tonight".',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!kitchenState.pendingPreferenceUpdates?.length;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any> }> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    const pending = kitchenState.pendingPreferenceUpdates || [];
+
+    if (pending.length === 0) {
+      return { success: false, text: 'There are no preference updates waiting for confirmation.' };
+    }
+
+    const t = (message.content?.text || '').toLowerCase();
+    const rejected = /\b(?:no|nope|don'?t|do not|discard|forget it|never ?mind|just (?:for )?(?:tonight|today|this once))\b/.test(
+      t,
+    );
+
+    if (rejected) {
+      await updateKitchenState(runtime, message, { pendingPreferenceUpdates: undefined });
+      const text = "No problem -- I won't save that.";
+      await callback?.({ text });
+      return { success: true, text, data: { discarded: pending.length } };
+    }
+
+    let userPreferences = kitchenState.userPreferences;
+    const summaries: string[] = [];
+    for (const update of pending) {
+      userPreferences = applyPreferenceChanges(userPreferences, update.changes);
+      summaries.push(describePreferenceChanges(update.changes));
+    }
+
+    await updateKitchenState(runtime, message, {
+      userPreferences,
+      pendingPreferenceUpdates: undefined,
+      ...localizeKitchenState(kitchenState, userPreferences),
+    });
+
+    const text = `Saved -- I ${summaries.join('; ')}.`;
+    await callback?.({ text });
+    return { success: true, text, data: { userPreferences, applied: pending.length } };
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "Ugh, my son can't have dairy so that's out" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Noted. Want me to remember dairy as an allergy for every recipe from now on?',
+        },
+      },
+      {
+        name: '{{user1}}',
+        content: { text: 'Yes, remember that' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Saved -- I added dairy to your allergies.',
+          actions: ['CONFIRM_PREFERENCES'],
+        },
+      },
+    ],
+  ],
+};
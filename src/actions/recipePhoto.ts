@@ -0,0 +1,140 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import { ContentType } from '@elizaos/core';
+import type { InstacartService } from '../services/instacartService.js';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import { activeRecipeVersions } from '../utils/recipeHistory.js';
+import { imageAttachmentUrl, isPublicImageUrl } from '../utils/recipeImage.js';
+import type { KitchenState, Recipe } from '../types/index.js';
+
+export const setRecipePhotoAction: Action = {
+  name: 'SET_RECIPE_PHOTO',
+  similes: ['ADD_RECIPE_PHOTO', 'UPLOAD_RECIPE_PHOTO', 'SET_RECIPE_IMAGE', 'RECIPE_PICTURE'],
+  description:
+    'Uses a photo the user sends (e.g. of the dish they just cooked) as the picture for the active recipe. The photo shows on the recipe card, in exports and on the Instacart recipe page. Only applies when the message has an image attached.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    if (!imageAttachmentUrl(message)) return false;
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!(kitchenState.currentRecipe || kitchenState.cookingSession);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const imageUrl = imageAttachmentUrl(message);
+      const kitchenState = await getKitchenState(runtime, message);
+      const current = kitchenState.currentRecipe ?? kitchenState.cookingSession?.recipe;
+
+      if (!imageUrl || !current) {
+        return {
+          success: false,
+          error: 'Send me a photo while a recipe is open and I will add it to the recipe.',
+        };
+      }
+
+      const recipe: Recipe = { ...current, imageUrl };
+
+      // ------------------------------------------------------------------
+      // 1. Regenerate the Instacart page so it shows the photo -- only
+      //    possible when the photo is hosted somewhere Instacart can load
+      // ------------------------------------------------------------------
+      let instacartUrl = kitchenState.productsLinkUrl;
+      if (isPublicImageUrl(imageUrl)) {
+        try {
+          const instacart = runtime.getService<InstacartService>('instacart');
+          if (instacart) {
+            const result = await instacart.createRecipe(recipe, {
+              includeOptional: kitchenState.userPreferences?.optionalInCart !== false,
+            });
+            instacartUrl = result.products_link_url;
+          }
+        } catch (err) {
+          // Instacart is optional -- log but continue
+          console.warn(
+            '[Kitchly] Failed to refresh Instacart recipe link:',
+            err instanceof Error ? err.message : err,
+          );
+        }
+      }
+
+      // ------------------------------------------------------------------
+      // 2. Update kitchen state. A photo isn't an edit, so it goes onto the
+      //    current version rather than starting a new one.
+      // ------------------------------------------------------------------
+      const updates: Partial<KitchenState> = { productsLinkUrl: instacartUrl };
+      if (kitchenState.currentRecipe?.title === current.title) {
+        updates.currentRecipe = recipe;
+        const versions = activeRecipeVersions(kitchenState, kitchenState.currentRecipe);
+        if (versions) {
+          const latest = versions[versions.length - 1];
+          updates.recipeVersions = [...versions.slice(0, -1), { ...latest, recipe }];
+        }
+      }
+      const session = kitchenState.cookingSession;
+      if (session?.recipe.title === current.title) {
+        updates.cookingSession = { ...session, recipe: { ...session.recipe, imageUrl } };
+      }
+      await updateKitchenState(runtime, message, updates);
+
+      let text = `Nice! That photo is now the picture for **${recipe.title}**.`;
+      if (instacartUrl && instacartUrl !== kitchenState.productsLinkUrl) {
+        text += `\n\n**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`;
+      }
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: { recipe, imageUrl, instacartUrl: instacartUrl || null },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] setRecipePhoto error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't add that photo: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: {
+          text: 'Here is how mine turned out!',
+          attachments: [
+            {
+              id: 'photo-1',
+              url: 'https://example.com/uploads/lemon-pasta.jpg',
+              contentType: ContentType.IMAGE,
+            },
+          ],
+        },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Nice! That photo is now the picture for **Lemon Garlic Pasta**.',
+          actions: ['SET_RECIPE_PHOTO'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,217 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import type { InstacartService } from '../services/instacartService.js';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import { parseServingSize } from '../utils/preferences.js';
+import { scaleIngredient } from '../utils/units.js';
+import { addRecipeVersion } from '../utils/recipeHistory.js';
+import type { KitchenState, Recipe } from '../types/index.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Servings assumed when a recipe does not say how many it makes. */
+const DEFAULT_SERVINGS = 4;
+
+const MAX_SERVINGS = 100;
+
+/**
+ * Work out the serving count the user wants from their message: an
+ * explicit count ("make this for 10", "12 servings") or a multiplier
+ * ("double it", "half the recipe", "x1.5").
+ */
+function parseTargetServings(text: string, currentServings: number): number | undefined {
+  const t = text.toLowerCase();
+
+  const count =
+    t.match(/\b(\d+)\s*(?:servings?|portions?|people|persons|guests|adults)\b/)?.[1] ??
+    t.match(/\b(?:to|make it|make this)\s+(\d+)\b/)?.[1];
+  const servings = count ? parseInt(count, 10) : parseServingSize(t);
+  if (servings && servings > 0 && servings <= MAX_SERVINGS) return servings;
+
+  let factor: number | undefined;
+  const multiplier = t.match(/\b(?:x\s*(\d+(?:\.\d+)?)|(\d+(?:\.\d+)?)\s*(?:x|times)\b)/);
+  if (multiplier) factor = parseFloat(multiplier[1] ?? multiplier[2]);
+  else if (/\b(?:double|twice)\b/.test(t)) factor = 2;
+  else if (/\btriple\b/.test(t)) factor = 3;
+  else if (/\bquadruple\b/.test(t)) factor = 4;
+  else if (/\b(?:half|halve)\b/.test(t)) factor = 0.5;
+
+  if (!factor || factor <= 0) return undefined;
+  return Math.min(MAX_SERVINGS, Math.max(1, Math.round(currentServings * factor)));
+}
+
+/** Scale every ingredient of a recipe to a new serving count. */
+function scaleRecipe(recipe: Recipe, servings: number): Recipe {
+  const factor = servings / (recipe.servings || DEFAULT_SERVINGS);
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map((ing) => scaleIngredient(ing, factor)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Action
+// ---------------------------------------------------------------------------
+
+export const scaleRecipeAction: Action = {
+  name: 'SCALE_RECIPE',
+  similes: ['RESCALE_RECIPE', 'CHANGE_SERVINGS', 'DOUBLE_RECIPE', 'HALVE_RECIPE', 'ADJUST_SERVINGS'],
+  description:
+    'Rescales the active recipe to a new number of servings (e.g. "make this for 10", "double it", "halve the recipe") by multiplying every ingredient quantity and converting units sensibly. Only the quantities change -- the dish itself stays the same. Refreshes the Instacart link.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!kitchenState.currentRecipe;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const current = kitchenState.currentRecipe;
+
+      if (!current) {
+        return {
+          success: false,
+          error: "There's no recipe to scale yet. Ask me for a recipe first!",
+        };
+      }
+
+      // ------------------------------------------------------------------
+      // 1. Work out the new serving count
+      // ------------------------------------------------------------------
+      const fromServings = current.servings || DEFAULT_SERVINGS;
+      const servings = parseTargetServings(userText, fromServings);
+
+      if (!servings) {
+        const askText = `How many servings would you like? ${current.title} currently makes ${fromServings}.`;
+        await callback?.({ text: askText });
+        return { success: false, text: askText };
+      }
+
+      if (servings === fromServings) {
+        const sameText = `${current.title} already makes ${servings} servings.`;
+        await callback?.({ text: sameText });
+        return { success: true, text: sameText, data: { recipe: current } };
+      }
+
+      // ------------------------------------------------------------------
+      // 2. Scale quantities deterministically
+      // ------------------------------------------------------------------
+      const recipe = scaleRecipe(current, servings);
+
+      // ------------------------------------------------------------------
+      // 3. Regenerate the Instacart link for the new quantities
+      // ------------------------------------------------------------------
+      let instacartUrl: string | undefined;
+      try {
+        const instacart = runtime.getService<InstacartService>('instacart');
+        if (instacart) {
+          const result = await instacart.createRecipe(recipe, {
+            includeOptional: kitchenState.userPreferences?.optionalInCart !== false,
+          });
+          instacartUrl = result.products_link_url;
+        }
+      } catch (err) {
+        // Instacart is optional -- log but continue
+        console.warn(
+          '[Kitchly] Failed to refresh Instacart recipe link:',
+          err instanceof Error ? err.message : err,
+        );
+      }
+
+      // ------------------------------------------------------------------
+      // 4. Update kitchen state (including a cook-along on this recipe)
+      // ------------------------------------------------------------------
+      const updates: Partial<KitchenState> = {
+        currentRecipe: recipe,
+        productsLinkUrl: instacartUrl,
+        recipeVersions: addRecipeVersion(
+          kitchenState,
+          current,
+          recipe,
+          `scaled to ${servings} servings`,
+        ),
+      };
+      if (kitchenState.cookingSession?.recipe.title === current.title) {
+        updates.cookingSession = { ...kitchenState.cookingSession, recipe };
+      }
+      await updateKitchenState(runtime, message, updates);
+
+      const ingredientLines = recipe.ingredients
+        .map((ing) => `- ${ing.display_text || ing.name}`)
+        .join('\n');
+      let text = `Scaled **${recipe.title}** from ${fromServings} to ${servings} servings:\n\n${ingredientLines}`;
+      if (instacartUrl) {
+        text += `\n\n**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`;
+      }
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: {
+          recipe,
+          fromServings,
+          servings,
+          instacartUrl: instacartUrl || null,
+        },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] scaleRecipe error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't scale that recipe: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Make this for 10' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Scaled Chicken Parmesan from 4 to 10 servings.',
+          actions: ['SCALE_RECIPE'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Can you halve that recipe?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Scaled Banana Bread from 8 to 4 servings.',
+          actions: ['SCALE_RECIPE'],
+        },
+      },
+    ],
+  ],
+};
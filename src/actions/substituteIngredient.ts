@@ -0,0 +1,341 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import { ModelType } from '@elizaos/core';
+import type { InstacartService } from '../services/instacartService.js';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import { formatPreferencesForPrompt } from '../utils/preferences.js';
+import { preferencesForMeal } from '../utils/household.js';
+import { findRestrictionViolations, formatViolations } from '../utils/allergenGuard.js';
+import {
+  applySubstitution,
+  chooseOption,
+  describeOption,
+  filterSafeOptions,
+  findRecipeIngredient,
+  formatOption,
+  lookupSubstitutions,
+  parseDirectSwap,
+} from '../utils/substitutions.js';
+import { parseJsonResponse } from '../utils/llm.js';
+import { addRecipeVersion } from '../utils/recipeHistory.js';
+import type {
+  InstacartIngredient,
+  KitchenState,
+  Recipe,
+  SubstitutionOption,
+  UserPreferences,
+} from '../types/index.js';
+
+// ---------------------------------------------------------------------------
+// Prompt used when the substitution table has nothing for an ingredient
+// ---------------------------------------------------------------------------
+const SUBSTITUTION_PROMPT = `You are a professional chef. Suggest up to three practical substitutes for an ingredient the cook does not have, using things most home kitchens keep on hand.
+
+Each substitute lists the ingredient(s) to use and a ratio relative to the original amount (1 = the same amount, 0.5 = half as much). Add a short note only when the cook needs to do something differently.
+
+Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text):
+
+{
+  "options": [
+    {
+      "components": [{ "name": "string", "ratio": number }],
+      "note": "string or null"
+    }
+  ]
+}`;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const MAX_OPTIONS = 3;
+
+/** Sanitize substitution options from a model response. */
+function optionsFromJson(parsed: Record<string, any> | null): SubstitutionOption[] {
+  if (!parsed || !Array.isArray(parsed.options)) return [];
+  return parsed.options
+    .map((o: any): SubstitutionOption => ({
+      components: (Array.isArray(o?.components) ? o.components : [])
+        .filter((c: any) => typeof c?.name === 'string' && c.name.trim())
+        .map((c: any) => ({
+          name: c.name.trim(),
+          ratio: typeof c.ratio === 'number' && c.ratio > 0 ? c.ratio : 1,
+        })),
+      note: typeof o?.note === 'string' && o.note.trim() ? o.note.trim() : undefined,
+    }))
+    .filter((o: SubstitutionOption) => o.components.length > 0)
+    .slice(0, MAX_OPTIONS);
+}
+
+/** Match the user's "use X" against the offered options, or make X an option of its own. */
+function optionForReplacement(
+  replacement: string,
+  options: SubstitutionOption[],
+): SubstitutionOption {
+  const index = chooseOption(replacement, options);
+  return index !== undefined
+    ? options[index]
+    : { components: [{ name: replacement, ratio: 1 }] };
+}
+
+/** A user-facing rejection for a substitution that breaks a restriction, or `null`. */
+function restrictionProblem(
+  option: SubstitutionOption,
+  preferences: UserPreferences | undefined,
+): string | null {
+  const violations = findRestrictionViolations(
+    option.components.map((c) => c.name),
+    preferences,
+  );
+  if (violations.length === 0) return null;
+  return `I can't swap in ${describeOption(option)} -- it conflicts with your restrictions:\n${formatViolations(
+    violations,
+  )}`;
+}
+
+// ---------------------------------------------------------------------------
+// Action
+// ---------------------------------------------------------------------------
+
+export const substituteIngredientAction: Action = {
+  name: 'SUBSTITUTE_INGREDIENT',
+  similes: [
+    'INGREDIENT_SUBSTITUTION',
+    'REPLACE_INGREDIENT',
+    'SWAP_INGREDIENT',
+    'MISSING_INGREDIENT',
+  ],
+  description:
+    'Suggests substitutes for an ingredient of the active recipe or cook-along that the user does not have (e.g. "I don\'t have buttermilk, what can I use?"), with quantities worked out from the original amount and filtered against their allergies and diets. When the user picks one ("use the yogurt", "the second one") or names a swap directly ("use olive oil instead of butter"), patches the ingredient list, the steps and the Instacart link.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!(kitchenState.currentRecipe || kitchenState.cookingSession);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      // Mid cook-along, the recipe being cooked is the one to patch
+      const recipe = kitchenState.cookingSession?.recipe ?? kitchenState.currentRecipe;
+
+      if (!recipe) {
+        return {
+          success: false,
+          error: "There's no recipe to substitute in yet. Ask me for a recipe first!",
+        };
+      }
+
+      // Household members named in the message share the meal, so their
+      // restrictions count too
+      const preferences = preferencesForMeal(kitchenState.userPreferences, userText);
+
+      const pending =
+        kitchenState.pendingSubstitution?.recipeTitle === recipe.title
+          ? kitchenState.pendingSubstitution
+          : undefined;
+
+      // ------------------------------------------------------------------
+      // 1. Work out whether the user is choosing a swap or asking for ideas
+      // ------------------------------------------------------------------
+      let ingredient: InstacartIngredient | undefined;
+      let chosen: SubstitutionOption | undefined;
+
+      const direct = parseDirectSwap(userText, recipe);
+      if (direct) {
+        ingredient = direct.ingredient;
+        const known = filterSafeOptions(lookupSubstitutions(ingredient.name), preferences);
+        chosen = optionForReplacement(direct.replacement, known);
+      } else if (pending) {
+        const index = chooseOption(userText, pending.options);
+        if (index !== undefined) {
+          ingredient = recipe.ingredients.find((ing) => ing.name === pending.ingredient);
+          chosen = pending.options[index];
+        } else if (
+          /\b(?:no|nope|never ?mind|forget it|i found|i have it)\b/i.test(userText) &&
+          !findRecipeIngredient(recipe, userText)
+        ) {
+          await updateKitchenState(runtime, message, { pendingSubstitution: undefined });
+          const text = 'No problem -- the recipe stays as it is.';
+          await callback?.({ text });
+          return { success: true, text };
+        }
+      }
+
+      // ------------------------------------------------------------------
+      // 2a. Apply the chosen substitution
+      // ------------------------------------------------------------------
+      if (ingredient && chosen) {
+        const problem = restrictionProblem(chosen, preferences);
+        if (problem) {
+          await callback?.({ text: problem });
+          return { success: false, text: problem };
+        }
+
+        const patched: Recipe = applySubstitution(recipe, ingredient.name, chosen);
+
+        let instacartUrl: string | undefined;
+        try {
+          const instacart = runtime.getService<InstacartService>('instacart');
+          if (instacart) {
+            const result = await instacart.createRecipe(patched, {
+              includeOptional: kitchenState.userPreferences?.optionalInCart !== false,
+            });
+            instacartUrl = result.products_link_url;
+          }
+        } catch (err) {
+          // Instacart is optional -- log but continue
+          console.warn(
+            '[Kitchly] Failed to refresh Instacart recipe link:',
+            err instanceof Error ? err.message : err,
+          );
+        }
+
+        const updates: Partial<KitchenState> = { pendingSubstitution: undefined };
+        // The shopping link belongs to the current recipe, so it only
+        // changes when that is the recipe swapped in
+        if (!kitchenState.currentRecipe || kitchenState.currentRecipe.title === recipe.title) {
+          updates.currentRecipe = patched;
+          updates.productsLinkUrl = instacartUrl;
+          if (kitchenState.currentRecipe) {
+            updates.recipeVersions = addRecipeVersion(
+              kitchenState,
+              kitchenState.currentRecipe,
+              patched,
+              `swapped ${ingredient.name} for ${formatOption(ingredient, chosen)}`,
+            );
+          }
+        }
+        if (kitchenState.cookingSession?.recipe.title === recipe.title) {
+          updates.cookingSession = { ...kitchenState.cookingSession, recipe: patched };
+        }
+        await updateKitchenState(runtime, message, updates);
+
+        let text = `Swapped the ${ingredient.name} for ${formatOption(ingredient, chosen)}. I've updated the ingredient list and the steps.`;
+        if (instacartUrl) {
+          text += `\n\n**[Order ingredients on Instacart](${instacartUrl})** -- get everything delivered to your door!`;
+        }
+        await callback?.({ text });
+
+        return {
+          success: true,
+          text,
+          data: {
+            recipe: patched,
+            ingredient: ingredient.name,
+            substitution: chosen,
+            instacartUrl: instacartUrl || null,
+          },
+        };
+      }
+
+      // ------------------------------------------------------------------
+      // 2b. Offer substitutions: the local table first, then the LLM
+      // ------------------------------------------------------------------
+      const missing = findRecipeIngredient(recipe, userText);
+      if (!missing) {
+        const askText = `Which ingredient do you need to replace? ${recipe.title} uses ${recipe.ingredients
+          .map((ing) => ing.name)
+          .join(', ')}.`;
+        await callback?.({ text: askText });
+        return { success: false, text: askText };
+      }
+
+      let options = filterSafeOptions(lookupSubstitutions(missing.name), preferences);
+
+      if (options.length === 0) {
+        const rawResponse = (await runtime.useModel(ModelType.TEXT_SMALL, {
+          prompt: `${SUBSTITUTION_PROMPT}${formatPreferencesForPrompt(
+            preferences,
+          )}\n\nRecipe: ${recipe.title}\nIngredient to replace: ${
+            missing.display_text || missing.name
+          }`,
+        })) as string;
+        options = filterSafeOptions(
+          optionsFromJson(parseJsonResponse<Record<string, any>>(rawResponse)),
+          preferences,
+        );
+      }
+
+      if (options.length === 0) {
+        const text = `I don't have a good substitute for ${missing.name} in ${recipe.title} that fits your restrictions. It may be worth picking some up, or I can suggest a different recipe.`;
+        await callback?.({ text });
+        return { success: false, text };
+      }
+
+      await updateKitchenState(runtime, message, {
+        pendingSubstitution: {
+          recipeTitle: recipe.title,
+          ingredient: missing.name,
+          options,
+          proposedAt: Date.now(),
+        },
+      });
+
+      const optionLines = options
+        .map((option, i) => `${i + 1}. ${formatOption(missing, option)}`)
+        .join('\n');
+      const text = `No ${missing.name}? Here's what you can use instead:\n\n${optionLines}\n\nTell me which one and I'll update the recipe.`;
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: { ingredient: missing.name, options },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] substituteIngredient error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't work out a substitution: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "I don't have buttermilk, what can I use?" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "No buttermilk? Here's what you can use instead:\n\n1. 1 cup milk + 1 tbsp lemon juice (stir the lemon juice into the milk and let it stand 5 minutes)\n2. 3/4 cup plain yogurt + 1/4 cup milk (whisk until smooth)",
+          actions: ['SUBSTITUTE_INGREDIENT'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Use olive oil instead of the butter' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: "Swapped the unsalted butter for 6 tbsp olive oil (best for sautéing and savoury dishes). I've updated the ingredient list and the steps.",
+          actions: ['SUBSTITUTE_INGREDIENT'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,424 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+} from '@elizaos/core';
+import type { InstacartService } from '../services/instacartService.js';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import { formatPreferencesForPrompt } from '../utils/preferences.js';
+import { preferencesForMeal } from '../utils/household.js';
+import { formatLocaleForPrompt, localizeMealPlan } from '../utils/locale.js';
+import { measurementsFromDisplayText } from '../utils/ingredientParser.js';
+import { generateStructured } from '../utils/llm.js';
+import { MEAL_SWAP_SCHEMA } from '../utils/schema.js';
+import { cartIngredients } from '../utils/ingredientGroups.js';
+import { checkMealPlanEquipment, formatMealEquipmentIssues } from '../utils/equipment.js';
+import { checkNutritionTargets, formatTargetsForPrompt } from '../utils/nutrition.js';
+import {
+  findPlanSlot,
+  formatMealPlanText,
+  formatPlanSlot,
+  type PlannedMeal,
+} from '../utils/mealPlan.js';
+import {
+  addToShoppingList,
+  diffShoppingLists,
+  removeFromShoppingList,
+} from '../utils/shoppingList.js';
+import {
+  formatCost,
+  formatCostEstimate,
+  getPriceCatalog,
+  mealPlanCost,
+} from '../utils/pricing.js';
+import {
+  buildViolationFeedback,
+  checkMealPlanRestrictions,
+  formatViolations,
+  MAX_RESTRICTION_ATTEMPTS,
+} from '../utils/allergenGuard.js';
+import type {
+  InstacartIngredient,
+  RestrictionViolation,
+} from '../types/index.js';
+
+// ---------------------------------------------------------------------------
+// Prompt used to replace one meal or one day of an existing meal plan
+// ---------------------------------------------------------------------------
+const SWAP_MEAL_PROMPT = `You are a professional meal planner. The user wants to replace part of their meal plan. Based on their request, generate the replacement meals in strict JSON format.
+
+IMPORTANT RULES:
+- Replace ONLY what is listed under "Replace" below, with exactly one meal per listed meal type.
+- Every replacement must be a different recipe from the one it replaces and from the rest of the plan, and must take the user's reason for the swap into account.
+- Keep each meal's servings the same as the meal it replaces.
+- Every meal must list its complete recipe name, a one-sentence description, how many servings it makes, and its ingredients with quantities for those servings.
+- Include EVERY ingredient needed -- salt, pepper, oil, butter, water, spices, etc. Never assume the user has anything on hand.
+- All ingredient quantities MUST be greater than 0.
+- Use the measurement conventions given under "Measurements" below.
+- If the user preferences list kitchen equipment, plan only meals that can be made with that equipment.
+
+Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text):
+
+{
+  "meals": [
+    {
+      "type": "breakfast" | "lunch" | "dinner" | "snack",
+      "recipe": "Recipe Name",
+      "description": "One-sentence description",
+      "servings": number,
+      "ingredients": [
+        {
+          "name": "ingredient name",
+          "display_text": "2 cups all-purpose flour",
+          "measurements": [{ "quantity": number, "unit": "string" }]
+        }
+      ]
+    }
+  ]
+}`;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function validateIngredients(ingredients: InstacartIngredient[]): InstacartIngredient[] {
+  return ingredients.map((ing) => ({
+    ...ing,
+    measurements: measurementsFromDisplayText(ing.display_text, ing.measurements),
+  }));
+}
+
+function describeMeal(meal: PlannedMeal): string {
+  return `${meal.type}: ${meal.recipe}${meal.servings ? ` (${meal.servings} servings)` : ''}`;
+}
+
+/** "- Dinner: ~~Honey Garlic Salmon~~ -> **Chicken Tikka Masala** -- ..." */
+function formatMealChange(before: PlannedMeal | undefined, after: PlannedMeal): string {
+  const typeLabel = after.type.charAt(0).toUpperCase() + after.type.slice(1);
+  const desc = after.description ? ` -- ${after.description}` : '';
+  return before
+    ? `- **${typeLabel}:** ~~${before.recipe}~~ -> **${after.recipe}**${desc}`
+    : `- **${typeLabel}:** **${after.recipe}**${desc}`;
+}
+
+// ---------------------------------------------------------------------------
+// Action
+// ---------------------------------------------------------------------------
+
+export const swapMealAction: Action = {
+  name: 'SWAP_MEAL',
+  similes: ['REPLACE_MEAL', 'CHANGE_MEAL', 'SWAP_DAY', 'REDO_MEAL', 'REGENERATE_MEAL'],
+  description:
+    'Replaces one meal ("swap Wednesday dinner") or a whole day ("redo Friday") of the active meal plan with new recipes, keeping the rest of the plan. Updates the consolidated shopping list and Instacart link and shows what changed. Use this instead of PLAN_MEALS when the user wants to change part of an existing plan.',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    const key = runtime.getSetting('INSTACART_API_KEY') || process.env.INSTACART_API_KEY;
+    if (!key) return false;
+    const kitchenState = await getKitchenState(runtime, message);
+    return !!kitchenState.currentMealPlan;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback,
+  ): Promise<{ success: boolean; text?: string; data?: Record<string, any>; error?: string }> => {
+    try {
+      // ------------------------------------------------------------------
+      // 1. Find the meal or day to replace
+      // ------------------------------------------------------------------
+      const userText = message.content?.text || '';
+      const kitchenState = await getKitchenState(runtime, message);
+      const plan = kitchenState.currentMealPlan;
+
+      if (!plan) {
+        return {
+          success: false,
+          error: 'There is no meal plan to change yet. Ask me to plan your meals first!',
+        };
+      }
+
+      const slot = findPlanSlot(plan, userText);
+      if (!slot) {
+        return {
+          success: false,
+          error: `Which meal should I swap? Name a day and meal, like "swap ${plan.days[0].day} dinner", or a whole day, like "redo ${plan.days[0].day}".`,
+        };
+      }
+
+      const slotName = formatPlanSlot(plan, slot);
+      const day = plan.days[slot.day];
+      const replaced = slot.meal === undefined ? day.meals : [day.meals[slot.meal]];
+      const preferences = preferencesForMeal(kitchenState.userPreferences, userText);
+      const preferencesContext =
+        formatPreferencesForPrompt(preferences) +
+        formatLocaleForPrompt(preferences) +
+        formatTargetsForPrompt(plan.nutritionTargets);
+      const swapContext = `\n\nCurrent meal plan:\n${plan.mealPlanText}\n\nReplace (${slotName}):\n${replaced
+        .map((m) => `- ${describeMeal(m)}`)
+        .join('\n')}`;
+
+      // ------------------------------------------------------------------
+      // 2. Use LLM to generate the replacements, regenerating if any
+      //    breaks one of the user's allergies or diets
+      // ------------------------------------------------------------------
+      let meals: PlannedMeal[] | undefined;
+      let violations: RestrictionViolation[] = [];
+
+      for (let attempt = 0; attempt < MAX_RESTRICTION_ATTEMPTS; attempt++) {
+        const feedback = violations.length ? buildViolationFeedback(violations) : '';
+        const fullPrompt = `${SWAP_MEAL_PROMPT}${preferencesContext}${swapContext}${feedback}
+
+User request: "${userText}"`;
+
+        const swapData = await generateStructured(runtime, {
+          prompt: fullPrompt,
+          schema: MEAL_SWAP_SCHEMA,
+          label: 'mealSwap',
+        });
+        if (!swapData) {
+          return {
+            success: false,
+            error: `I couldn't come up with a replacement for ${slotName}. Please try again.`,
+          };
+        }
+
+        // A single swapped meal keeps its slot's type whatever the model said
+        const generated = (slot.meal === undefined ? swapData.meals : swapData.meals.slice(0, 1)).map(
+          (m): PlannedMeal => ({
+            type: slot.meal === undefined ? m.type : replaced[0].type,
+            recipe: m.recipe,
+            description: m.description,
+            servings: m.servings,
+            ingredients: m.ingredients ? validateIngredients(m.ingredients) : undefined,
+          }),
+        );
+
+        violations = checkMealPlanRestrictions(
+          { ...plan, days: [{ day: day.day, meals: generated }], consolidatedList: [] },
+          preferences,
+        );
+        if (violations.length === 0) {
+          meals = generated;
+          break;
+        }
+        console.warn(
+          `[Kitchly] Replacement for ${slotName} violates user restrictions (attempt ${attempt + 1}):\n${formatViolations(violations)}`,
+        );
+      }
+
+      if (!meals) {
+        return {
+          success: false,
+          error: `I couldn't find a replacement for ${slotName} that is safe for your restrictions:\n${formatViolations(
+            violations,
+          )}\nTry telling me what you'd like instead.`,
+        };
+      }
+
+      // ------------------------------------------------------------------
+      // 3. Put the new meals into the plan and move the shopping list
+      //    from the old meals' ingredients to the new ones'
+      // ------------------------------------------------------------------
+      const days = plan.days.map((d, i) => {
+        if (i !== slot.day) return d;
+        if (slot.meal === undefined) return { ...d, meals };
+        return { ...d, meals: d.meals.map((m, j) => (j === slot.meal ? meals[0] : m)) };
+      });
+
+      const includeOptional = preferences?.optionalInCart !== false;
+      const ingredientsOf = (list: PlannedMeal[]) =>
+        cartIngredients(
+          list.flatMap((m) => m.ingredients ?? []),
+          includeOptional,
+        );
+      const kept = days.flatMap((d) => d.meals).filter((m) => !meals.includes(m));
+      const consolidatedList = addToShoppingList(
+        removeFromShoppingList(plan.consolidatedList, ingredientsOf(replaced), ingredientsOf(kept)),
+        ingredientsOf(meals),
+      );
+
+      // Enforce the locale on whatever units the model actually used
+      const mealPlan = localizeMealPlan(
+        { ...plan, days, consolidatedList, mealPlanText: formatMealPlanText(days) },
+        preferences,
+      );
+      const listChanges = diffShoppingLists(plan.consolidatedList, mealPlan.consolidatedList);
+
+      // ------------------------------------------------------------------
+      // 4. Refresh the Instacart shopping list
+      // ------------------------------------------------------------------
+      let instacartUrl = kitchenState.productsLinkUrl;
+      try {
+        const instacart = runtime.getService<InstacartService>('instacart');
+        if (instacart) {
+          const result = await instacart.createShoppingList(
+            mealPlan.title,
+            mealPlan.consolidatedList,
+          );
+          instacartUrl = result.products_link_url;
+        }
+      } catch (err) {
+        // Instacart is optional -- log but continue
+        console.warn(
+          '[Kitchly] Failed to refresh Instacart shopping list link:',
+          err instanceof Error ? err.message : err,
+        );
+      }
+
+      // ------------------------------------------------------------------
+      // 5. Update kitchen state
+      // ------------------------------------------------------------------
+      await updateKitchenState(runtime, message, {
+        currentMealPlan: mealPlan,
+        productsLinkUrl: instacartUrl,
+      });
+
+      // ------------------------------------------------------------------
+      // 6. Show what changed
+      // ------------------------------------------------------------------
+      const newDay = mealPlan.days[slot.day];
+      const newMeals =
+        slot.meal === undefined ? newDay.meals : [newDay.meals[slot.meal]];
+      const sections: string[] = [
+        `Swapped **${slotName}**:\n\n${newMeals
+          .map((m, i) =>
+            formatMealChange(
+              slot.meal === undefined ? replaced.find((r) => r.type === m.type) : replaced[i],
+              m,
+            ),
+          )
+          .join('\n')}`,
+      ];
+
+      const listLines: string[] = [
+        ...listChanges.added.map((item) => `- Added: ${item.display_text || item.name}`),
+        ...listChanges.changed.map(
+          ({ before, after }) =>
+            `- Changed: ${before.display_text || before.name} -> ${after.display_text || after.name}`,
+        ),
+        ...listChanges.removed.map((item) => `- Removed: ${item.display_text || item.name}`),
+      ];
+      if (listLines.length) {
+        sections.push(`**Shopping list changes:**\n\n${listLines.join('\n')}`);
+      }
+      if (replaced.some((m) => !m.ingredients?.length)) {
+        sections.push(
+          `_The plan didn't record the ingredients for ${replaced
+            .filter((m) => !m.ingredients?.length)
+            .map((m) => m.recipe)
+            .join(', ')}, so anything only it used is still on the list._`,
+        );
+      }
+
+      if (plan.nutritionTargets) {
+        const offTarget = checkNutritionTargets(mealPlan, plan.nutritionTargets).filter(
+          (m) => m.day === newDay.day,
+        );
+        if (offTarget.length) {
+          sections.push(
+            `_${newDay.day} is now off target for ${[...new Set(offTarget.map((m) => m.nutrient))].join(
+              ', ',
+            )} -- ask me to rework it if you'd like._`,
+          );
+        }
+      }
+      const equipmentIssues = checkMealPlanEquipment({ days: [{ ...newDay, meals: newMeals }] }, preferences);
+      if (equipmentIssues.length) {
+        sections.push(
+          `_Equipment check: ${formatMealEquipmentIssues(equipmentIssues)}, which you don't have._`,
+        );
+      }
+
+      const catalog = await getPriceCatalog(runtime);
+      const before = mealPlanCost(plan, catalog);
+      const cost = mealPlanCost(mealPlan, catalog);
+      sections.push(
+        `**Estimated groceries:** ${formatCostEstimate(cost)}${
+          before.total !== cost.total ? ` (was ${formatCost(before.total, before.currency)})` : ''
+        }`,
+      );
+
+      if (instacartUrl) {
+        sections.push(
+          `**[Order all ingredients on Instacart](${instacartUrl})** -- one click to get everything delivered!`,
+        );
+      }
+
+      const text = sections.join('\n\n');
+      await callback?.({ text });
+
+      return {
+        success: true,
+        text,
+        data: {
+          mealPlan,
+          day: newDay.day,
+          replaced: replaced.map((m) => m.recipe),
+          meals: newMeals,
+          shoppingListChanges: listChanges,
+          instacartUrl: instacartUrl || null,
+          cost,
+        },
+      };
+    } catch (error) {
+      const errMsg =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] swapMeal error:', errMsg);
+      return {
+        success: false,
+        error: `Sorry, I couldn't swap that meal: ${errMsg}`,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: "I don't like Wednesday's dinner, can you swap it?" },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Swapped **Wednesday dinner** -- here is the new meal and what changed on your shopping list.',
+          actions: ['SWAP_MEAL'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Redo Friday, something lighter please' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Here is a lighter Friday, with your shopping list and Instacart link updated.',
+          actions: ['SWAP_MEAL'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Replace the salmon with something vegetarian' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Swapped the salmon for a vegetarian dinner and updated the shopping list.',
+          actions: ['SWAP_MEAL'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,185 @@
+import type {
+  Evaluator,
+  IAgentRuntime,
+  Memory,
+  State,
+} from '@elizaos/core';
+import { ModelType } from '@elizaos/core';
+import { getKitchenState, updateKitchenState } from '../providers/kitchenProvider.js';
+import {
+  applyPreferenceChanges,
+  hasPreferenceChanges,
+  isSafetyRelaxing,
+  parsePreferenceStatement,
+  preferenceChangesFromJson,
+  pruneNoopChanges,
+  withPendingUpdate,
+} from '../utils/preferences.js';
+import { localizeKitchenState } from '../utils/locale.js';
+import { parseJsonResponse } from '../utils/llm.js';
+import type { PreferenceChanges } from '../types/index.js';
+
+/** Changes at or above this confidence are applied without asking. */
+const AUTO_APPLY_CONFIDENCE = 0.8;
+
+/** Phrases that suggest the user is mentioning a restriction or taste in passing. */
+const PREFERENCE_CUES =
+  /\b(?:allerg\w*|intoleran\w*|celiac|coeliac|hate|dislike|can'?t (?:have|eat|stand)|cannot (?:have|eat)|don'?t (?:eat|like)|not a (?:big )?fan|vegan|vegetarian|pesc[ae]tarian|keto|paleo|gluten|dairy|lactose|kosher|halal|no longer|anymore|cook(?:ing)? for \w+|family of \w+|metric|imperial|celsius|fahrenheit|fan oven|fan-forced|convection|no oven|air fryer|instant pot|slow cooker|dorm)\b/i;
+
+/**
+ * A first-person statement of a lasting restriction or household fact, the
+ * only kind of message the deterministic fallback is trusted with.
+ */
+const EXPLICIT_STATEMENT =
+  /\b(?:i'?m|i am|i have|i've got|we'?re|we are|we have|(?:my|our) \w+(?: is| has| can'?t| cannot))\b.*\b(?:allerg\w*|intoleran\w*|celiac|coeliac|vegan|vegetarian|pesc[ae]tarian|keto|paleo|kosher|halal)\b|\b(?:i|we) (?:hate|can'?t stand|never eat|don'?t eat)\b|\b(?:cook(?:ing)? for|family of)\b/i;
+
+const PREFERENCE_LEARNING_PROMPT = `You watch a conversation with a kitchen assistant and notice when the user mentions, in passing, a lasting food preference or restriction -- for themselves or someone they cook for. Examples: "ugh, I hate cilantro", "my kid can't have dairy", "we're doing keto this month", "I'm not vegetarian anymore", "I only have a fan oven", "all I've got in my dorm is a microwave".
+
+Ignore one-off requests ("no onions in this one") and anything that is not a lasting preference.
+
+Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text). Omit anything not mentioned:
+
+{
+  "add": {
+    "dietaryRestrictions": ["string"],
+    "allergies": ["string"],
+    "cuisinePreferences": ["string"],
+    "dislikes": ["string"],
+    "equipment": ["stovetop" | "oven" | "microwave" | "air fryer" | "pressure cooker" | "slow cooker" | "rice cooker" | "toaster oven" | "grill" | "blender" | "food processor"]
+  },
+  "remove": {
+    "dietaryRestrictions": ["string"],
+    "allergies": ["string"],
+    "cuisinePreferences": ["string"],
+    "dislikes": ["string"],
+    "equipment": ["stovetop" | "oven" | "microwave" | "air fryer" | "pressure cooker" | "slow cooker" | "rice cooker" | "toaster oven" | "grill" | "blender" | "food processor"]
+  },
+  "servingSize": number,
+  "measurementLocale": "us" | "metric" | "uk" | "au",
+  "ovenType": "conventional" | "fan",
+  "confidence": number between 0 and 1 -- how sure you are this is a lasting preference the user wants remembered
+}`;
+
+/**
+ * Heuristic confidence for the deterministic fallback: first-person,
+ * explicit statements score higher than asides about other people.
+ */
+function heuristicConfidence(text: string): number {
+  const t = text.toLowerCase();
+  let confidence = 0.6;
+  if (/\b(?:i'?m|i am|i have|we'?re|we are)\b.*\b(?:allergic|vegan|vegetarian|intolerant|celiac)/.test(t)) {
+    confidence = 0.9;
+  } else if (/\b(?:i|we) (?:hate|can'?t stand|never eat)\b/.test(t)) {
+    confidence = 0.85;
+  }
+  if (/\b(?:maybe|might|sometimes|kind of|kinda|this week|tonight|today)\b/.test(t)) {
+    confidence -= 0.25;
+  }
+  return Math.max(0, Math.min(1, confidence));
+}
+
+/**
+ * preferenceEvaluator -- Listens to ordinary conversation for restrictions
+ * and tastes mentioned in passing ("ugh, I hate cilantro", "my kid can't
+ * have dairy") and proposes `UserPreferences` updates with a confidence
+ * score. Confident additions are saved straight away; anything less
+ * certain -- any change that relaxes an allergy or diet, and anything
+ * read by the deterministic fallback -- is held as a pending update until
+ * the user confirms it (CONFIRM_PREFERENCES).
+ */
+export const preferenceEvaluator: Evaluator = {
+  name: 'PREFERENCE_LEARNING',
+  description:
+    'Learns dietary restrictions, allergies and dislikes mentioned in passing and proposes preference updates',
+  alwaysRun: false,
+
+  examples: [
+    {
+      prompt: 'Ugh, I hate cilantro',
+      messages: [
+        {
+          name: '{{user1}}',
+          content: { text: 'Ugh, I hate cilantro' },
+        },
+      ],
+      outcome: 'Proposed adding "cilantro" to dislikes',
+    },
+    {
+      prompt: "My kid can't have dairy",
+      messages: [
+        {
+          name: '{{user1}}',
+          content: { text: "My kid can't have dairy" },
+        },
+      ],
+      outcome: 'Proposed adding "dairy" to allergies, pending confirmation',
+    },
+  ],
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    return PREFERENCE_CUES.test(message.content?.text || '');
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<void> => {
+    const userText = message.content?.text || '';
+    if (!userText.trim()) return;
+
+    let changes: PreferenceChanges;
+    let confidence: number;
+    let fromFallback = false;
+
+    try {
+      const response = (await runtime.useModel(ModelType.TEXT_SMALL, {
+        prompt: `${PREFERENCE_LEARNING_PROMPT}\n\nUser message: "${userText}"`,
+      })) as string;
+      const parsed = parseJsonResponse<Record<string, any>>(response);
+      if (!parsed) throw new Error('Unparseable preference extraction');
+      changes = preferenceChangesFromJson(parsed);
+      confidence =
+        typeof parsed.confidence === 'number'
+          ? Math.max(0, Math.min(1, parsed.confidence))
+          : heuristicConfidence(userText);
+    } catch {
+      // On model failure, fall back to the deterministic parser -- but only
+      // for an explicit statement, and only as a suggestion to confirm
+      if (!EXPLICIT_STATEMENT.test(userText)) return;
+      changes = parsePreferenceStatement(userText);
+      confidence = heuristicConfidence(userText);
+      fromFallback = true;
+    }
+
+    const kitchenState = await getKitchenState(runtime, message);
+    changes = pruneNoopChanges(kitchenState.userPreferences, changes);
+    if (!hasPreferenceChanges(changes)) return;
+
+    if (
+      !fromFallback &&
+      confidence >= AUTO_APPLY_CONFIDENCE &&
+      !isSafetyRelaxing(kitchenState.userPreferences, changes)
+    ) {
+      const userPreferences = applyPreferenceChanges(kitchenState.userPreferences, changes);
+      await updateKitchenState(runtime, message, {
+        userPreferences,
+        ...localizeKitchenState(kitchenState, userPreferences),
+      });
+      return;
+    }
+
+    await updateKitchenState(runtime, message, {
+      pendingPreferenceUpdates: withPendingUpdate(
+        kitchenState.pendingPreferenceUpdates,
+        changes,
+        confidence,
+        userText,
+      ),
+    });
+  },
+};
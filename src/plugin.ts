@@ -1,11 +1,32 @@
 import type { Plugin } from '@elizaos/core';
 import { createRecipeAction } from './actions/createRecipe.js';
 import { planMealsAction } from './actions/planMeals.js';
+import { planMenuAction } from './actions/planMenu.js';
+import { swapMealAction } from './actions/swapMeal.js';
 import { cookAlongAction } from './actions/cookAlong.js';
 import { confirmAndShopAction } from './actions/confirmAndShop.js';
+import {
+  setPreferencesAction,
+  showPreferencesAction,
+  resetPreferencesAction,
+  confirmPreferencesAction,
+} from './actions/preferences.js';
+import { manageHouseholdAction } from './actions/household.js';
+import { scaleRecipeAction } from './actions/scaleRecipe.js';
+import { substituteIngredientAction } from './actions/substituteIngredient.js';
+import { modifyRecipeAction, revertRecipeAction } from './actions/modifyRecipe.js';
+import { saveRecipeAction, listRecipesAction, openRecipeAction } from './actions/cookbook.js';
+import { importRecipeAction } from './actions/importRecipe.js';
+import { setRecipePhotoAction } from './actions/recipePhoto.js';
+import { exportRecipeAction } from './actions/exportRecipe.js';
+import { nutritionInfoAction } from './actions/nutrition.js';
+import { estimateCostAction } from './actions/groceryCost.js';
 import { kitchenProvider } from './providers/kitchenProvider.js';
 import { intentEvaluator } from './evaluators/intentEvaluator.js';
+import { preferenceEvaluator } from './evaluators/preferenceEvaluator.js';
 import { InstacartService } from './services/instacartService.js';
+import { exportRecipeRoute, convertRecipeRoute } from './routes/exportRecipe.js';
+import { llmMetricsRoute } from './routes/metrics.js';
 
 /**
  * Kitchly -- AI Kitchen Companion plugin for ElizaOS v1.x
@@ -13,12 +34,57 @@ import { InstacartService } from './services/instacartService.js';
  * Provides:
  *  - Recipe creation with shoppable Instacart links (CREATE_RECIPE)
  *  - Multi-day meal planning with consolidated shopping lists (PLAN_MEALS)
+ *  - Swapping one meal or day of the active plan, updating its shopping
+ *    list and Instacart link (SWAP_MEAL)
+ *  - Multi-course menus with one combined shopping list and a cooking
+ *    timeline scheduled back from the serving time, cooked along as one
+ *    session (PLAN_MENU)
  *  - Voice-guided step-by-step cook-along sessions (COOK_ALONG)
+ *  - Unit-aware rescaling of the active recipe (SCALE_RECIPE)
+ *  - Allergy-safe ingredient substitutions with quantity ratios
+ *    (SUBSTITUTE_INGREDIENT)
+ *  - Free-form edits to the active recipe with a diff of what changed and
+ *    a version history to go back to (MODIFY_RECIPE / REVERT_RECIPE)
+ *  - A personal cookbook of saved recipes with tags, notes and favourites
+ *    (SAVE_RECIPE / LIST_RECIPES / OPEN_RECIPE)
+ *  - Recipe import from web pages via schema.org markup (IMPORT_RECIPE)
+ *  - Recipe photos: imported with the recipe, sent by the user
+ *    (SET_RECIPE_PHOTO) or generated by the runtime's image model, with
+ *    the Kitchly image as a fallback
+ *  - Nutrition estimates per serving and per plan day from a bundled
+ *    nutrient table (NUTRITION_INFO)
+ *  - Grocery cost estimates from a price catalog, and meal plans held to a
+ *    spending cap (ESTIMATE_COST, PLAN_MEALS)
+ *  - Recipe export to JSON-LD, Markdown, plain text, Paprika and printable
+ *    HTML, in chat (EXPORT_RECIPE) and over HTTP (/kitchly/recipes/export)
+ *  - Saved diets, allergies and cooking preferences
+ *    (SET_PREFERENCES / SHOW_PREFERENCES / RESET_PREFERENCES)
+ *  - Household profiles with per-member restrictions (MANAGE_HOUSEHOLD)
+ *  - US / metric / UK / Australian measurements and fan-oven temperatures,
+ *    converted deterministically when the preference changes
+ *  - Generated ingredient lists reconciled with the steps that use them,
+ *    so the Instacart cart matches the recipe
+ *  - Ingredient groups ("For the sauce") and optional / garnish items,
+ *    which the user can keep out of their Instacart carts
+ *  - Equipment-aware generation: recipes, meal plans and cook-alongs use
+ *    only the appliances the user has, with steps that need anything else
+ *    flagged
+ *  - Schema-checked recipe and meal plan generation that sends malformed
+ *    model output back for repair, with repair counts at
+ *    /kitchly/metrics/llm
  *  - Kitchen state provider for context-aware conversations
  *  - Intent classification evaluator for routing kitchen-related messages
+ *  - Preference-learning evaluator that remembers restrictions mentioned in
+ *    passing, holding uncertain ones for confirmation (CONFIRM_PREFERENCES)
  *
  * Required settings:
  *  - INSTACART_API_KEY  -- Instacart Developer Platform API key
+ *
+ * Optional settings:
+ *  - KITCHLY_PRICE_CATALOG  -- JSON or CSV file of prices that override the
+ *    bundled catalog
+ *  - KITCHLY_EXPORT_SECRET  -- key that signs recipe download links for
+ *    /kitchly/recipes/export; the GET route is off without it
  */
 export const kitchenPlugin: Plugin = {
   name: 'kitchly-kitchen',
@@ -34,10 +100,35 @@ export const kitchenPlugin: Plugin = {
     }
   },
 
-  actions: [createRecipeAction, planMealsAction, cookAlongAction, confirmAndShopAction],
+  actions: [
+    createRecipeAction,
+    planMealsAction,
+    swapMealAction,
+    planMenuAction,
+    cookAlongAction,
+    confirmAndShopAction,
+    scaleRecipeAction,
+    substituteIngredientAction,
+    modifyRecipeAction,
+    revertRecipeAction,
+    saveRecipeAction,
+    listRecipesAction,
+    openRecipeAction,
+    importRecipeAction,
+    setRecipePhotoAction,
+    exportRecipeAction,
+    nutritionInfoAction,
+    estimateCostAction,
+    setPreferencesAction,
+    showPreferencesAction,
+    resetPreferencesAction,
+    confirmPreferencesAction,
+    manageHouseholdAction,
+  ],
   providers: [kitchenProvider],
-  evaluators: [intentEvaluator],
+  evaluators: [intentEvaluator, preferenceEvaluator],
   services: [InstacartService],
+  routes: [exportRecipeRoute, convertRecipeRoute, llmMetricsRoute],
 };
 
 export default kitchenPlugin;
@@ -4,15 +4,52 @@ import type {
   Memory,
   State,
 } from '@elizaos/core';
-import type { KitchenState } from '../types/index.js';
+import type {
+  KitchenState,
+  RoomKitchenState,
+  UserKitchenState,
+} from '../types/index.js';
+import {
+  describePreferenceChanges,
+  formatNutritionTargets,
+  formatPreferences,
+} from '../utils/preferences.js';
+import { formatMeasurement } from '../utils/units.js';
+import { groupedIngredientLines, withIngredientFlags } from '../utils/ingredientGroups.js';
+import {
+  checkNutritionTargets,
+  formatNutrition,
+  mealPlanNutrition,
+  recipeNutrition,
+} from '../utils/nutrition.js';
+import { formatCostEstimate, getPriceCatalog, mealPlanCost, recipeCost } from '../utils/pricing.js';
+import { activeRecipeVersions, formatVersionList } from '../utils/recipeHistory.js';
+import { courseLabel, formatClock } from '../utils/menu.js';
 
 /** Build a deterministic cache key for a room's kitchen state. */
 const getCacheKey = (roomId: string): string => `kitchen_state_${roomId}`;
 
+/** Build a deterministic cache key for a user's kitchen state. */
+const getUserCacheKey = (entityId: string): string => `kitchen_user_state_${entityId}`;
+
+/**
+ * Fields of `KitchenState` that follow the user across rooms. Everything
+ * else is scoped to the room the conversation is happening in.
+ */
+const USER_STATE_KEYS: readonly (keyof UserKitchenState)[] = [
+  'userPreferences',
+  'pendingPreferenceUpdates',
+  'savedRecipes',
+];
+
+/** Identifies whose kitchen state to read: the speaking user, in a room. */
+export type KitchenStateScope = Pick<Memory, 'roomId' | 'entityId'>;
+
 /**
  * kitchenProvider -- surfaces the current kitchen state (active recipe,
  * meal plan, cooking session, user preferences) to the LLM on every turn
- * so that it can craft contextually-aware responses.
+ * so that it can craft contextually-aware responses. The room's session
+ * and the speaking user's preferences are merged by `getKitchenState`.
  */
 export const kitchenProvider: Provider = {
   name: 'KITCHEN_STATE',
@@ -26,18 +63,8 @@ export const kitchenProvider: Provider = {
     message: Memory,
     _state?: State,
   ): Promise<{ text: string; values: Record<string, any>; data: Record<string, any> }> => {
-    const roomId = message.roomId;
-    const cacheKey = getCacheKey(roomId);
-
-    let kitchenState: KitchenState = {};
-    try {
-      const cached = await runtime.cacheManager?.get(cacheKey);
-      if (cached && typeof cached === 'object') {
-        kitchenState = cached as KitchenState;
-      }
-    } catch {
-      // Cache miss or error -- start with an empty state
-    }
+    const kitchenState = await getKitchenState(runtime, message);
+    const catalog = await getPriceCatalog(runtime);
 
     // ---- Build human-readable text for the LLM context ----
     const sections: string[] = [];
@@ -45,21 +72,27 @@ export const kitchenProvider: Provider = {
     // Active recipe
     if (kitchenState.currentRecipe) {
       const r = kitchenState.currentRecipe;
-      const ingredientList = r.ingredients
-        .map((ing) => {
-          const meas = ing.measurements
-            ?.map((m) => `${m.quantity} ${m.unit}`)
-            .join(', ');
-          return meas ? `  - ${ing.name} (${meas})` : `  - ${ing.name}`;
-        })
-        .join('\n');
+      const ingredientList = groupedIngredientLines(
+        r.ingredients,
+        (ing) => {
+          const meas = ing.measurements?.map(formatMeasurement).join(', ');
+          return withIngredientFlags(meas ? `  - ${ing.name} (${meas})` : `  - ${ing.name}`, ing);
+        },
+        (name) => `  ${name}:`,
+      ).join('\n');
+      const versions = activeRecipeVersions(kitchenState, r);
       sections.push(
         `[Active Recipe]\nTitle: ${r.title}` +
           (r.servings ? `\nServings: ${r.servings}` : '') +
           (r.prepTime ? `\nPrep time: ${r.prepTime}` : '') +
           (r.cookTime ? `\nCook time: ${r.cookTime}` : '') +
+          (r.equipment?.length ? `\nEquipment: ${r.equipment.join(', ')}` : '') +
+          (r.imageUrl ? `\nPhoto: ${r.imageUrl}` : '') +
           `\nIngredients:\n${ingredientList}` +
-          `\nSteps: ${r.instructions.length} total`,
+          `\nSteps: ${r.instructions.length} total` +
+          `\nNutrition per serving (estimated): ${formatNutrition(recipeNutrition(r).perServing)}` +
+          `\nGrocery cost (estimated): ${formatCostEstimate(recipeCost(r, catalog))}` +
+          (versions ? `\nVersions: ${formatVersionList(versions)}` : ''),
       );
     }
 
@@ -75,13 +108,40 @@ export const kitchenProvider: Provider = {
       const mp = kitchenState.currentMealPlan;
       const daysSummary = mp.days
         .map((d) => {
-          const meals = d.meals.map((m) => `${m.type}: ${m.recipe}`).join(', ');
+          const meals = d.meals
+            .map((m) => `${m.type}: ${m.recipe}${m.fullRecipe ? ' (full recipe written)' : ''}`)
+            .join(', ');
           return `  ${d.day}: ${meals}`;
         })
         .join('\n');
+      const nutrition = mealPlanNutrition(mp);
+      const offTarget = mp.nutritionTargets
+        ? [...new Set(checkNutritionTargets(mp, mp.nutritionTargets).map((m) => m.day))]
+        : [];
       sections.push(
         `[Active Meal Plan]\nTitle: ${mp.title}\n${daysSummary}` +
-          `\nConsolidated shopping list items: ${mp.consolidatedList.length}`,
+          `\nConsolidated shopping list items: ${mp.consolidatedList.length}` +
+          `\nGrocery cost (estimated): ${formatCostEstimate(mealPlanCost(mp, catalog))}` +
+          (nutrition
+            ? `\nAverage per person per day (estimated): ${formatNutrition(nutrition.dailyAverage)}`
+            : '') +
+          (mp.nutritionTargets
+            ? `\nDaily targets: ${formatNutritionTargets(mp.nutritionTargets)}` +
+              (offTarget.length ? ` (off target: ${offTarget.join(', ')})` : ' (every day on target)')
+            : ''),
+      );
+    }
+
+    // Active menu
+    if (kitchenState.currentMenu) {
+      const menu = kitchenState.currentMenu;
+      const courses = menu.courses
+        .map((c) => `  ${courseLabel(c.course)} (${formatClock(c.serveAt)}): ${c.recipe.title}`)
+        .join('\n');
+      sections.push(
+        `[Active Menu]\nTitle: ${menu.title}\nServes: ${menu.servings}\n${courses}` +
+          `\nStart cooking: ${formatClock(menu.timeline[0]?.at ?? menu.serveAt)}` +
+          `\nCombined shopping list items: ${menu.shoppingList.length}`,
       );
     }
 
@@ -96,24 +156,48 @@ export const kitchenProvider: Provider = {
       );
     }
 
+    // Substitutions offered for a missing ingredient, awaiting a choice
+    if (kitchenState.pendingSubstitution) {
+      const ps = kitchenState.pendingSubstitution;
+      const options = ps.options
+        .map((o, i) => `  ${i + 1}. ${o.components.map((c) => c.name).join(' + ')}`)
+        .join('\n');
+      sections.push(
+        `[Pending Substitution]\nOffered swaps for ${ps.ingredient} in ${ps.recipeTitle}:\n${options}`,
+      );
+    }
+
     // User preferences
     if (kitchenState.userPreferences) {
-      const up = kitchenState.userPreferences;
-      const prefs: string[] = [];
-      if (up.dietaryRestrictions?.length)
-        prefs.push(`Dietary restrictions: ${up.dietaryRestrictions.join(', ')}`);
-      if (up.allergies?.length)
-        prefs.push(`Allergies: ${up.allergies.join(', ')}`);
-      if (up.cuisinePreferences?.length)
-        prefs.push(`Cuisine preferences: ${up.cuisinePreferences.join(', ')}`);
-      if (up.servingSize) prefs.push(`Preferred servings: ${up.servingSize}`);
-      if (up.budget) prefs.push(`Budget: ${up.budget}`);
-      if (up.cookingSkill) prefs.push(`Skill level: ${up.cookingSkill}`);
+      const prefs = formatPreferences(kitchenState.userPreferences);
       if (prefs.length) {
         sections.push(`[User Preferences]\n${prefs.join('\n')}`);
       }
     }
 
+    // Personal cookbook
+    if (kitchenState.savedRecipes?.length) {
+      const titles = kitchenState.savedRecipes
+        .map((s) => `${s.favorite ? '★ ' : ''}${s.recipe.title}`)
+        .join(', ');
+      sections.push(
+        `[Cookbook]\n${kitchenState.savedRecipes.length} saved recipe(s): ${titles}`,
+      );
+    }
+
+    // Preference updates inferred from conversation, awaiting confirmation
+    if (kitchenState.pendingPreferenceUpdates?.length) {
+      const pending = kitchenState.pendingPreferenceUpdates
+        .map(
+          (p) =>
+            `  - ${describePreferenceChanges(p.changes)} (from "${p.sourceText}", confidence ${p.confidence.toFixed(2)})`,
+        )
+        .join('\n');
+      sections.push(
+        `[Pending Preference Updates]\nAsk the user whether to remember these:\n${pending}`,
+      );
+    }
+
     const text =
       sections.length > 0
         ? `Current Kitchen State:\n${sections.join('\n\n')}`
@@ -125,6 +209,8 @@ export const kitchenProvider: Provider = {
         hasActiveRecipe: !!kitchenState.currentRecipe,
         hasActiveMealPlan: !!kitchenState.currentMealPlan,
         hasCookingSession: !!kitchenState.cookingSession,
+        hasPendingPreferenceUpdates: !!kitchenState.pendingPreferenceUpdates?.length,
+        savedRecipeCount: kitchenState.savedRecipes?.length ?? 0,
         currentStep: kitchenState.cookingSession?.currentStep ?? -1,
         totalSteps:
           kitchenState.cookingSession?.recipe.instructions.length ?? 0,
@@ -138,35 +224,107 @@ export const kitchenProvider: Provider = {
 // Helpers to read / update kitchen state from cache
 // ---------------------------------------------------------------------------
 
+async function readCache<T extends object>(runtime: IAgentRuntime, key: string): Promise<T | null> {
+  try {
+    const cached = await runtime.getCache<T>(key);
+    if (cached && typeof cached === 'object') {
+      return cached;
+    }
+  } catch {
+    // ignore
+  }
+  return null;
+}
+
+async function writeCache<T extends object>(
+  runtime: IAgentRuntime,
+  key: string,
+  value: T,
+): Promise<void> {
+  await runtime.setCache<T>(key, value);
+}
+
+/** Split a (partial) kitchen state into its user-scoped and room-scoped parts. */
+function splitKitchenState(state: Partial<KitchenState>): {
+  user: Partial<UserKitchenState>;
+  room: Partial<RoomKitchenState>;
+} {
+  const user: Record<string, unknown> = {};
+  const room: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(state)) {
+    if ((USER_STATE_KEYS as readonly string[]).includes(key)) {
+      user[key] = value;
+    } else {
+      room[key] = value;
+    }
+  }
+  return { user, room } as {
+    user: Partial<UserKitchenState>;
+    room: Partial<RoomKitchenState>;
+  };
+}
+
 /**
- * Retrieve the current kitchen state for a room (returns empty object on miss).
+ * Retrieve the kitchen state for the speaking user in a room: the room's
+ * session, recipe and plan merged with the user's own preferences
+ * (returns empty object on miss).
+ *
+ * Rooms written before state was split may still hold user fields. The
+ * first read moves them onto the user, without overwriting anything the
+ * user already has.
  */
 export async function getKitchenState(
   runtime: IAgentRuntime,
-  roomId: string,
+  scope: KitchenStateScope,
 ): Promise<KitchenState> {
-  const cacheKey = getCacheKey(roomId);
-  try {
-    const cached = await runtime.cacheManager?.get(cacheKey);
-    if (cached && typeof cached === 'object') {
-      return cached as KitchenState;
+  const roomKey = getCacheKey(scope.roomId);
+  const roomCached = (await readCache<KitchenState>(runtime, roomKey)) || {};
+  const { user: legacyUser, room } = splitKitchenState(roomCached);
+
+  if (!scope.entityId) {
+    return { ...legacyUser, ...room };
+  }
+
+  const userKey = getUserCacheKey(scope.entityId);
+  let user = (await readCache<UserKitchenState>(runtime, userKey)) || {};
+
+  if (Object.keys(legacyUser).length > 0) {
+    user = { ...legacyUser, ...user };
+    try {
+      await writeCache(runtime, userKey, user);
+      await writeCache(runtime, roomKey, room);
+    } catch {
+      // Migration is retried on the next read
     }
-  } catch {
-    // ignore
   }
-  return {};
+
+  return { ...room, ...user };
 }
 
 /**
- * Merge partial updates into the cached kitchen state for a room.
+ * Merge partial updates into the cached kitchen state. User-scoped fields
+ * are written to the speaking user; everything else to the room.
  */
 export async function updateKitchenState(
   runtime: IAgentRuntime,
-  roomId: string,
+  scope: KitchenStateScope,
   updates: Partial<KitchenState>,
 ): Promise<void> {
-  const cacheKey = getCacheKey(roomId);
-  const current = await getKitchenState(runtime, roomId);
-  const merged: KitchenState = { ...current, ...updates };
-  await runtime.cacheManager?.set(cacheKey, merged);
+  const current = await getKitchenState(runtime, scope);
+  const { user: currentUser, room: currentRoom } = splitKitchenState(current);
+  const { user: userUpdates, room: roomUpdates } = splitKitchenState(updates);
+
+  if (Object.keys(roomUpdates).length > 0 || !scope.entityId) {
+    const room = scope.entityId
+      ? { ...currentRoom, ...roomUpdates }
+      : { ...current, ...updates };
+    await writeCache(runtime, getCacheKey(scope.roomId), room);
+  }
+
+  if (scope.entityId && Object.keys(userUpdates).length > 0) {
+    await writeCache(runtime, getUserCacheKey(scope.entityId), {
+      ...currentUser,
+      ...userUpdates,
+    });
+  }
 }
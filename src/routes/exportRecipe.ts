@@ -0,0 +1,112 @@
+import type { IAgentRuntime, Route, RouteRequest, RouteResponse } from '@elizaos/core';
+import { getKitchenState } from '../providers/kitchenProvider.js';
+import type { KitchenStateScope } from '../providers/kitchenProvider.js';
+import {
+  exportFormatFrom,
+  exportRecipe,
+  getExportSecret,
+  verifyExportToken,
+} from '../utils/recipeExport.js';
+import { localizeRecipe } from '../utils/locale.js';
+import { EXPORT_RECIPE_SCHEMA, validate } from '../utils/schema.js';
+import type { Recipe } from '../types/index.js';
+
+export const EXPORT_PATH = '/kitchly/recipes/export';
+
+function queryString(req: RouteRequest, key: string): string | undefined {
+  const value = req.query?.[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Send an export as a file: HTML opens in the browser, everything else downloads. */
+function sendExport(res: RouteResponse, recipe: Recipe, formatValue: unknown): void {
+  const format = formatValue === undefined ? 'jsonld' : exportFormatFrom(formatValue);
+  if (!format) {
+    res.status(400).json({
+      error: 'Unknown format. Use one of: jsonld, markdown, text, paprika, html.',
+    });
+    return;
+  }
+
+  const exported = exportRecipe(recipe, format);
+  const disposition = format === 'html' ? 'inline' : 'attachment';
+  res.setHeader?.('Content-Type', exported.contentType);
+  res.setHeader?.('Content-Disposition', `${disposition}; filename="${exported.filename}"`);
+  res.status(200).send(exported.content);
+}
+
+/**
+ * GET /kitchly/recipes/export?token=...&format=markdown
+ *
+ * Exports the recipe a signed export link (issued by EXPORT_RECIPE) was
+ * made for: the recipe active in the requester's room, or one from their
+ * cookbook. Quantities follow the user's measurement locale. `format`
+ * defaults to JSON-LD.
+ */
+export const exportRecipeRoute: Route = {
+  type: 'GET',
+  path: EXPORT_PATH,
+  handler: async (req: RouteRequest, res: RouteResponse, runtime: IAgentRuntime) => {
+    try {
+      const secret = getExportSecret(runtime);
+      if (!secret) {
+        res.status(404).json({ error: 'Recipe export links are not enabled.' });
+        return;
+      }
+      const token = queryString(req, 'token');
+      const claims = token ? verifyExportToken(token, secret) : null;
+      if (!claims) {
+        res.status(403).json({ error: 'This export link is invalid or has expired.' });
+        return;
+      }
+
+      const scope: KitchenStateScope = { roomId: claims.roomId, entityId: claims.entityId };
+      const { savedRecipeId } = claims;
+      const kitchenState = await getKitchenState(runtime, scope);
+
+      const found = savedRecipeId
+        ? kitchenState.savedRecipes?.find((s) => s.id === savedRecipeId)?.recipe
+        : (kitchenState.cookingSession?.recipe ?? kitchenState.currentRecipe);
+      if (!found) {
+        res.status(404).json({ error: 'No recipe found to export.' });
+        return;
+      }
+
+      sendExport(res, localizeRecipe(found, kitchenState.userPreferences), req.query?.format);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] exportRecipe route error:', errMsg);
+      res.status(500).json({ error: errMsg });
+    }
+  },
+};
+
+/**
+ * POST /kitchly/recipes/export  { "recipe": Recipe, "format": "paprika" }
+ *
+ * Converts a recipe the caller already has, e.g. one the web client is
+ * showing, without reading any kitchen state.
+ */
+export const convertRecipeRoute: Route = {
+  type: 'POST',
+  path: EXPORT_PATH,
+  handler: async (req: RouteRequest, res: RouteResponse) => {
+    try {
+      const body = (req.body ?? {}) as { recipe?: unknown; format?: unknown };
+      const checked = validate(EXPORT_RECIPE_SCHEMA, body.recipe);
+      if (!checked.ok) {
+        res.status(400).json({
+          error:
+            'Request body needs a "recipe" with a title, ingredients and instructions, and an http(s) "sourceUrl" if any.',
+          issues: checked.issues,
+        });
+        return;
+      }
+      sendExport(res, checked.value as Recipe, body.format ?? req.query?.format);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] convertRecipe route error:', errMsg);
+      res.status(500).json({ error: errMsg });
+    }
+  },
+};
@@ -0,0 +1,23 @@
+import type { Route, RouteRequest, RouteResponse } from '@elizaos/core';
+import { getRepairMetrics } from '../utils/llm.js';
+
+/**
+ * GET /kitchly/metrics/llm
+ *
+ * How often each kind of structured model output (recipes, meal plans,
+ * recipe edits) came back in the wrong shape and had to be repaired,
+ * since the agent started.
+ */
+export const llmMetricsRoute: Route = {
+  type: 'GET',
+  path: '/kitchly/metrics/llm',
+  handler: async (_req: RouteRequest, res: RouteResponse) => {
+    try {
+      res.status(200).json({ structuredOutput: getRepairMetrics() });
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : 'An unexpected error occurred';
+      console.error('[Kitchly] llmMetrics route error:', errMsg);
+      res.status(500).json({ error: errMsg });
+    }
+  },
+};
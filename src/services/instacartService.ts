@@ -20,6 +20,9 @@ import type {
   InstacartShoppingListRequest,
   Recipe,
 } from '../types/index.js';
+import { canonicalizeMeasurement, measurementFromText } from '../utils/units.js';
+import { cartIngredients } from '../utils/ingredientGroups.js';
+import { recipeImageUrl } from '../utils/recipeImage.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -53,8 +56,8 @@ function isNonEmptyString(value: unknown): value is string {
 }
 
 /**
- * Sanitise a single ingredient, ensuring required fields exist and
- * all measurement quantities are positive numbers.
+ * Sanitise a single ingredient, ensuring required fields exist, all
+ * measurement quantities are positive numbers, and units are canonical.
  *
  * Throws if the ingredient is invalid and cannot be salvaged.
  */
@@ -88,15 +91,21 @@ function validateIngredient(ingredient: InstacartIngredient, index: number): Ins
         }
         return true;
       })
-      .map((m) => ({ quantity: m.quantity, unit: m.unit.trim() }));
+      .map((m) => canonicalizeMeasurement({ quantity: m.quantity, unit: m.unit }));
+  }
+
+  // Read the amount from the display text rather than sending none
+  if (!sanitised.measurements?.length) {
+    const fromText = measurementFromText(sanitised.display_text);
+    if (fromText) sanitised.measurements = [fromText];
   }
 
   return sanitised;
 }
 
 /**
- * Sanitise a single line item, ensuring required fields exist and
- * all measurement quantities are positive numbers.
+ * Sanitise a single line item, ensuring required fields exist, all
+ * measurement quantities are positive numbers, and units are canonical.
  *
  * Throws if the line item is invalid and cannot be salvaged.
  */
@@ -130,7 +139,13 @@ function validateLineItem(item: InstacartLineItem, index: number): InstacartLine
         }
         return true;
       })
-      .map((m) => ({ quantity: m.quantity, unit: m.unit.trim() }));
+      .map((m) => canonicalizeMeasurement({ quantity: m.quantity, unit: m.unit }));
+  }
+
+  // Read the amount from the display text rather than sending none
+  if (!sanitised.line_item_measurements?.length) {
+    const fromText = measurementFromText(sanitised.display_text);
+    if (fromText) sanitised.line_item_measurements = [fromText];
   }
 
   return sanitised;
@@ -201,9 +216,14 @@ export class InstacartService extends Service {
    * Create a shoppable Instacart recipe page from a `Recipe` object.
    *
    * Validates all ingredients before sending the request and returns the
-   * `products_link_url` that can be shared with the user.
+   * `products_link_url` that can be shared with the user. With
+   * `includeOptional: false`, optional and garnish ingredients are left
+   * out of the cart.
    */
-  async createRecipe(recipe: Recipe): Promise<InstacartResponse> {
+  async createRecipe(
+    recipe: Recipe,
+    options: { includeOptional?: boolean } = {},
+  ): Promise<InstacartResponse> {
     // --- Validate top-level fields ---
     if (!isNonEmptyString(recipe.title)) {
       throw new Error('[InstacartService] Recipe title must be a non-empty string.');
@@ -218,7 +238,9 @@ export class InstacartService extends Service {
     }
 
     // --- Validate & sanitise ingredients ---
-    const ingredients = recipe.ingredients.map((ing, i) => validateIngredient(ing, i));
+    const ingredients = cartIngredients(recipe.ingredients, options.includeOptional).map(
+      (ing, i) => validateIngredient(ing, i),
+    );
 
     // --- Sanitise instructions (drop empty strings) ---
     const instructions = recipe.instructions
@@ -234,7 +256,7 @@ export class InstacartService extends Service {
     // --- Build request body ---
     const body: InstacartRecipeRequest = {
       title: recipe.title.trim(),
-      image_url: 'https://www.kitchly.app/images/instakitchly.png',
+      image_url: recipeImageUrl(recipe),
       link_type: 'recipe',
       ingredients,
       instructions,
@@ -32,6 +32,12 @@ export interface InstacartIngredient {
   name: string;
   display_text?: string;
   measurements?: InstacartMeasurement[];
+  /** Part of the recipe it belongs to ("For the sauce"); Kitchly only, not sent to Instacart. */
+  group?: string;
+  /** The dish works without it. */
+  optional?: boolean;
+  /** Used only to garnish or serve. */
+  garnish?: boolean;
 }
 
 /**
@@ -93,6 +99,16 @@ export interface Recipe {
   cookTime?: string;
   cuisine?: string;
   dietaryTags?: string[];
+  /** Measurement conventions the quantities and temperatures are written in. */
+  locale?: MeasurementLocale;
+  /** Oven the temperatures are written for. */
+  ovenType?: OvenType;
+  /** Page the recipe was imported from. */
+  sourceUrl?: string;
+  /** Appliances and tools the recipe needs, e.g. "air fryer", "9-inch pie dish". */
+  equipment?: string[];
+  /** Photo of the finished dish: imported, sent by the user, or generated. */
+  imageUrl?: string;
 }
 
 /**
@@ -104,6 +120,12 @@ export interface MealPlanDay {
     type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
     recipe: string;
     description?: string;
+    /** Servings the meal's ingredient amounts make. */
+    servings?: number;
+    /** Ingredients for the whole meal, used to estimate nutrition. */
+    ingredients?: InstacartIngredient[];
+    /** The meal's full recipe, written the first time it's needed (e.g. to cook along). */
+    fullRecipe?: Recipe;
   }[];
 }
 
@@ -115,6 +137,74 @@ export interface MealPlan {
   days: MealPlanDay[];
   consolidatedList: InstacartLineItem[];
   mealPlanText: string;
+  /** Measurement locale the shopping list is written in (US when unset). */
+  locale?: MeasurementLocale;
+  /** The daily targets the plan was built to hit, per person. */
+  nutritionTargets?: NutritionTargets;
+}
+
+/**
+ * One course of a multi-course menu.
+ */
+export interface MenuCourse {
+  /** "starter", "main", "dessert", ... */
+  course: string;
+  recipe: Recipe;
+  /** When the course is served, in minutes after midnight. */
+  serveAt: number;
+}
+
+/**
+ * One entry of a menu's cooking timeline: a step of one course's recipe,
+ * or serving that course when `step` is absent.
+ */
+export interface MenuTimelineEntry {
+  /** Minutes after midnight; negative means the day before. */
+  at: number;
+  /** Index into `Menu.courses`. */
+  course: number;
+  /** Index into the course recipe's instructions. */
+  step?: number;
+}
+
+/**
+ * A multi-course menu: linked recipes served in order, one combined
+ * shopping list, and a timeline scheduled back from the serving time.
+ */
+export interface Menu {
+  title: string;
+  servings: number;
+  /** When the first course is served, in minutes after midnight. */
+  serveAt: number;
+  courses: MenuCourse[];
+  shoppingList: InstacartLineItem[];
+  timeline: MenuTimelineEntry[];
+  /** Measurement locale the shopping list is written in (US when unset). */
+  locale?: MeasurementLocale;
+}
+
+/**
+ * A recipe kept in the user's personal cookbook.
+ */
+export interface SavedRecipe {
+  id: string;
+  recipe: Recipe;
+  tags: string[];
+  notes?: string;
+  favorite: boolean;
+  savedAt: number;
+  updatedAt: number;
+  lastOpenedAt?: number;
+}
+
+/**
+ * One version of the active recipe, kept so edits can be undone. The
+ * first version is the recipe as created; `label` says what changed.
+ */
+export interface RecipeVersion {
+  recipe: Recipe;
+  label: string;
+  createdAt: number;
 }
 
 /**
@@ -128,16 +218,36 @@ export interface CookingSession {
 }
 
 /**
- * Top-level kitchen state persisted across agent interactions.
+ * Kitchen state that belongs to a conversation: what is being cooked or
+ * planned right now. Persisted per room.
  */
-export interface KitchenState {
+export interface RoomKitchenState {
   currentRecipe?: Recipe;
   currentMealPlan?: MealPlan;
+  currentMenu?: Menu;
   cookingSession?: CookingSession;
   productsLinkUrl?: string;
+  pendingSubstitution?: PendingSubstitution;
+  /** Versions of `currentRecipe`, oldest first; the last is the current one. */
+  recipeVersions?: RecipeVersion[];
+}
+
+/**
+ * Kitchen state that belongs to a person and follows them across rooms
+ * and channels. Persisted per user entity.
+ */
+export interface UserKitchenState {
   userPreferences?: UserPreferences;
+  pendingPreferenceUpdates?: PendingPreferenceUpdate[];
+  savedRecipes?: SavedRecipe[];
 }
 
+/**
+ * Top-level kitchen state persisted across agent interactions -- the
+ * merged view of the current room's state and the speaking user's state.
+ */
+export interface KitchenState extends RoomKitchenState, UserKitchenState {}
+
 /**
  * User-specific dietary and cooking preferences.
  */
@@ -145,9 +255,232 @@ export interface UserPreferences {
   dietaryRestrictions?: string[];
   allergies?: string[];
   cuisinePreferences?: string[];
+  dislikes?: string[];
   servingSize?: number;
   budget?: 'budget' | 'moderate' | 'premium';
   cookingSkill?: 'beginner' | 'intermediate' | 'advanced';
+  /** How quantities and temperatures are written (defaults to US). */
+  measurementLocale?: MeasurementLocale;
+  /** Oven temperatures are given for this kind of oven (defaults to conventional). */
+  ovenType?: OvenType;
+  /** The people the user cooks for, each with their own restrictions. */
+  household?: HouseholdMember[];
+  /** Daily calorie and macro goals that meal plans are built to hit. */
+  nutritionTargets?: NutritionTargets;
+  /** Whether optional and garnish ingredients go into Instacart carts (defaults to yes). */
+  optionalInCart?: boolean;
+  /**
+   * The appliances the user cooks with ("stovetop", "air fryer", ...).
+   * Unset means a standard kitchen; once set, recipes use only these.
+   */
+  equipment?: string[];
+}
+
+/**
+ * Measurement conventions: US customary (cups, °F), metric, or the UK and
+ * Australian variants of metric (°C; 15 ml vs 20 ml tablespoons).
+ */
+export type MeasurementLocale = 'us' | 'metric' | 'uk' | 'au';
+
+/** Fan (convection) ovens run hotter, so their recipes use lower temperatures. */
+export type OvenType = 'conventional' | 'fan';
+
+/**
+ * A named member of the user's household. Restrictions listed here apply
+ * whenever this person is eating the meal being generated.
+ */
+export interface HouseholdMember {
+  name: string;
+  allergies?: string[];
+  dietaryRestrictions?: string[];
+  dislikes?: string[];
+  /** Portion relative to a standard adult serving (e.g. 0.5 for a young child). */
+  portionSize?: number;
+}
+
+/** The list-valued fields of `UserPreferences` that support add / remove. */
+export type PreferenceListField =
+  | 'dietaryRestrictions'
+  | 'allergies'
+  | 'cuisinePreferences'
+  | 'dislikes'
+  | 'equipment';
+
+/**
+ * A set of changes to apply to `UserPreferences`, produced by parsing a
+ * statement such as "I'm no longer vegetarian, cooking for 2".
+ */
+export interface PreferenceChanges {
+  add: Partial<Record<PreferenceListField, string[]>>;
+  remove: Partial<Record<PreferenceListField, string[]>>;
+  /** Items to remove from whichever list currently contains them. */
+  removeAnywhere: string[];
+  set: Pick<
+    UserPreferences,
+    | 'servingSize'
+    | 'budget'
+    | 'cookingSkill'
+    | 'measurementLocale'
+    | 'ovenType'
+    | 'nutritionTargets'
+    | 'optionalInCart'
+  >;
+}
+
+/**
+ * A preference change inferred from conversation that is waiting for the
+ * user to confirm it before being applied.
+ */
+export interface PendingPreferenceUpdate {
+  id: string;
+  changes: PreferenceChanges;
+  /** Model (or heuristic) confidence between 0 and 1. */
+  confidence: number;
+  /** The message the change was inferred from. */
+  sourceText: string;
+  proposedAt: number;
+}
+
+/**
+ * One ingredient in a substitution. Amounts are either a `ratio` of the
+ * original quantity (in the original units) or, for counted ingredients
+ * like eggs, an amount `per` original item.
+ */
+export interface SubstitutionComponent {
+  name: string;
+  ratio?: number;
+  per?: InstacartMeasurement;
+}
+
+/**
+ * A way to replace a recipe ingredient, e.g. buttermilk -> milk plus
+ * lemon juice.
+ */
+export interface SubstitutionOption {
+  components: SubstitutionComponent[];
+  /** Preparation or expectation notes ("let stand 5 minutes"). */
+  note?: string;
+}
+
+/**
+ * Substitutions offered for an ingredient of the active recipe, waiting
+ * for the user to pick one.
+ */
+export interface PendingSubstitution {
+  /** Title of the recipe the ingredient belongs to. */
+  recipeTitle: string;
+  /** Name of the ingredient as it appears in the recipe. */
+  ingredient: string;
+  options: SubstitutionOption[];
+  proposedAt: number;
+}
+
+/**
+ * An ingredient that conflicts with one of the user's allergies or diets,
+ * found by the deterministic post-generation guard.
+ */
+export interface RestrictionViolation {
+  ingredient: string;
+  /** The allergy or diet as the user stated it (e.g. "peanuts", "vegan"). */
+  restriction: string;
+  kind: 'allergy' | 'diet';
+  /** The term in the ingredient name that triggered the match. */
+  matched: string;
+}
+
+// ---------------------------------------------------------------------------
+// Nutrition
+// ---------------------------------------------------------------------------
+
+/**
+ * Energy, macronutrients, fiber and sodium for an amount of food. Grams,
+ * except calories (kcal) and sodium (mg).
+ */
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+}
+
+/**
+ * Estimated nutrition for a recipe, computed from the bundled nutrient
+ * table rather than asked of the model.
+ */
+export interface RecipeNutrition {
+  perServing: NutritionFacts;
+  total: NutritionFacts;
+  servings: number;
+  /** Ingredients left out: not in the table, or with no amount we can weigh. */
+  unmatched: string[];
+}
+
+/**
+ * Estimated nutrition for one person over one day of a meal plan.
+ */
+export interface DayNutrition {
+  day: string;
+  nutrition: NutritionFacts;
+  /** Meals counted in the total. */
+  estimatedMeals: number;
+  /** Meals without an ingredient list, left out of the total. */
+  mealsWithoutIngredients: number;
+  unmatched: string[];
+}
+
+export interface MealPlanNutrition {
+  days: DayNutrition[];
+  /** Average over the days that have at least one estimated meal. */
+  dailyAverage: NutritionFacts;
+}
+
+/** Daily goals for one person: calories in kcal, macros in grams. */
+export type NutritionTargets = Partial<
+  Pick<NutritionFacts, 'calories' | 'protein' | 'carbs' | 'fat'>
+>;
+
+/** A meal plan day whose estimate falls outside the tolerance for a target. */
+export interface NutritionTargetMiss {
+  day: string;
+  nutrient: keyof NutritionTargets;
+  target: number;
+  actual: number;
+}
+
+// ---------------------------------------------------------------------------
+// Grocery cost
+// ---------------------------------------------------------------------------
+
+/**
+ * One product in a price catalog: `price` buys `quantity` (default 1) of
+ * `unit`, e.g. 3.99 for 12 each of eggs.
+ */
+export interface PriceEntry {
+  name: string;
+  price: number;
+  unit: string;
+  quantity?: number;
+  /** Grams in one `unit`, so a count-priced item can be bought by weight. */
+  grams?: number;
+  /** Other names the product goes by in ingredient lists. */
+  aliases?: string[];
+}
+
+/**
+ * Estimated grocery cost of a recipe or shopping list, for the amounts
+ * used rather than whole packages.
+ */
+export interface CostEstimate {
+  currency: string;
+  total: number;
+  servings?: number;
+  perServing?: number;
+  /** Priced items, most expensive first. */
+  items: { name: string; cost: number }[];
+  /** Items not in the catalog, or with no amount we can price. */
+  unpriced: string[];
 }
 
 // ---------------------------------------------------------------------------
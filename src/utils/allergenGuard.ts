@@ -0,0 +1,481 @@
+// ============================================================================
+// Kitchly - Allergy & dietary restriction guard
+//
+// Deterministic post-generation check that every ingredient in a generated
+// recipe or shopping list respects the user's allergies and diets. The LLM
+// is asked to avoid these too, but this guard is the safety net: it maps
+// allergens to their common derivatives (whey -> dairy, tahini -> sesame,
+// fish sauce -> fish) and reports every violation it finds.
+// ============================================================================
+
+import type {
+  MealPlan,
+  Recipe,
+  RestrictionViolation,
+  UserPreferences,
+} from '../types/index.js';
+import { singularize } from './preferences.js';
+
+/** How many times a generator may retry after a restriction violation. */
+export const MAX_RESTRICTION_ATTEMPTS = 3;
+
+// ---------------------------------------------------------------------------
+// Allergen & derivative map
+// ---------------------------------------------------------------------------
+
+/** Allergen category -> ingredient names that contain or derive from it. */
+const ALLERGEN_MAP: Record<string, string[]> = {
+  dairy: [
+    'milk',
+    'butter',
+    'buttermilk',
+    'cheese',
+    'cream',
+    'sour cream',
+    'creme fraiche',
+    'half-and-half',
+    'half and half',
+    'yogurt',
+    'yoghurt',
+    'kefir',
+    'whey',
+    'casein',
+    'caseinate',
+    'lactose',
+    'ghee',
+    'custard',
+    'parmesan',
+    'parmigiano',
+    'pecorino',
+    'mozzarella',
+    'ricotta',
+    'cheddar',
+    'feta',
+    'brie',
+    'gouda',
+    'gruyere',
+    'mascarpone',
+    'paneer',
+    'queso',
+    'burrata',
+    'ice cream',
+  ],
+  egg: ['egg', 'egg white', 'egg yolk', 'mayonnaise', 'mayo', 'aioli', 'meringue', 'albumin', 'hollandaise', 'custard'],
+  peanut: ['peanut', 'peanut butter', 'peanut oil', 'groundnut', 'arachis', 'satay'],
+  'tree nut': [
+    'almond',
+    'walnut',
+    'cashew',
+    'pecan',
+    'pistachio',
+    'hazelnut',
+    'macadamia',
+    'brazil nut',
+    'pine nut',
+    'chestnut',
+    'praline',
+    'marzipan',
+    'frangipane',
+    'nutella',
+    'gianduja',
+    'amaretto',
+    // Classic pesto is made with pine nuts
+    'pesto',
+  ],
+  soy: ['soy', 'soya', 'soy sauce', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari', 'shoyu', 'natto'],
+  wheat: [
+    'wheat',
+    'flour',
+    'bread',
+    'breadcrumb',
+    'panko',
+    'pasta',
+    'spaghetti',
+    'linguine',
+    'fettuccine',
+    'penne',
+    'macaroni',
+    'lasagna',
+    'orzo',
+    'noodle',
+    'udon',
+    'ramen',
+    'couscous',
+    'bulgur',
+    'semolina',
+    'durum',
+    'farro',
+    'spelt',
+    'seitan',
+    'tortilla',
+    'pita',
+    'naan',
+    'cracker',
+    'crouton',
+    'pie crust',
+    'puff pastry',
+    'phyllo',
+    'soy sauce',
+  ],
+  fish: [
+    'fish',
+    'fish sauce',
+    'salmon',
+    'tuna',
+    'cod',
+    'codfish',
+    'salt cod',
+    'bacalao',
+    'bacalhau',
+    'baccala',
+    'anchovy',
+    'anchovies',
+    'sardine',
+    'tilapia',
+    'halibut',
+    'trout',
+    'mackerel',
+    'snapper',
+    'haddock',
+    'sea bass',
+    'swordfish',
+    'bonito',
+    'dashi',
+    'worcestershire',
+    'caesar dressing',
+  ],
+  shellfish: [
+    'shellfish',
+    'shrimp',
+    'prawn',
+    'crab',
+    'lobster',
+    'scallop',
+    'clam',
+    'mussel',
+    'oyster',
+    'oyster sauce',
+    'crawfish',
+    'crayfish',
+    'langoustine',
+    'shrimp paste',
+  ],
+  sesame: ['sesame', 'sesame oil', 'sesame seed', 'tahini', 'halva', 'halvah', 'gomasio', 'furikake', "za'atar", 'hummus'],
+  mustard: ['mustard', 'dijon', 'dijonnaise', 'wholegrain mustard'],
+  celery: ['celery', 'celeriac'],
+};
+
+// Gluten is wheat plus the other gluten grains.
+ALLERGEN_MAP.gluten = [...ALLERGEN_MAP.wheat, 'barley', 'rye', 'malt', 'beer', 'brewer\'s yeast'];
+
+const MEAT_TERMS = [
+  'meat',
+  'chicken',
+  'beef',
+  'steak',
+  'ground beef',
+  'pork',
+  'bacon',
+  'ham',
+  'prosciutto',
+  'pancetta',
+  'chorizo',
+  'salami',
+  'pepperoni',
+  'sausage',
+  'hot dog',
+  'lamb',
+  'mutton',
+  'veal',
+  'venison',
+  'goat',
+  'duck',
+  'turkey',
+  'meatball',
+  'gelatin',
+  'lard',
+  'suet',
+  'chicken broth',
+  'chicken stock',
+  'beef broth',
+  'beef stock',
+  'bone broth',
+];
+
+const PORK_TERMS = ['pork', 'bacon', 'ham', 'prosciutto', 'pancetta', 'chorizo', 'salami', 'pepperoni', 'lard', 'gelatin'];
+const ALCOHOL_TERMS = ['wine', 'beer', 'rum', 'vodka', 'whiskey', 'bourbon', 'brandy', 'sherry', 'sake', 'mirin', 'liqueur'];
+
+/** Diet -> ingredient names it forbids. Diets not listed here are soft preferences. */
+const DIET_RULES: Record<string, string[]> = {
+  vegetarian: [...MEAT_TERMS, ...ALLERGEN_MAP.fish, ...ALLERGEN_MAP.shellfish],
+  pescatarian: MEAT_TERMS,
+  vegan: [
+    ...MEAT_TERMS,
+    ...ALLERGEN_MAP.fish,
+    ...ALLERGEN_MAP.shellfish,
+    ...ALLERGEN_MAP.dairy,
+    ...ALLERGEN_MAP.egg,
+    'honey',
+  ],
+  'dairy-free': ALLERGEN_MAP.dairy,
+  'gluten-free': ALLERGEN_MAP.gluten,
+  halal: [...PORK_TERMS, ...ALCOHOL_TERMS],
+  kosher: [...PORK_TERMS, ...ALLERGEN_MAP.shellfish],
+};
+
+/** How users commonly name an allergy -> the allergen categories it covers. */
+const ALLERGY_ALIASES: Record<string, string[]> = {
+  milk: ['dairy'],
+  lactose: ['dairy'],
+  eggs: ['egg'],
+  peanuts: ['peanut'],
+  nut: ['peanut', 'tree nut'],
+  nuts: ['peanut', 'tree nut'],
+  'tree nuts': ['tree nut'],
+  seafood: ['fish', 'shellfish'],
+  crustacean: ['shellfish'],
+  crustaceans: ['shellfish'],
+  soya: ['soy'],
+  'soy beans': ['soy'],
+  coeliac: ['gluten'],
+  celiac: ['gluten'],
+};
+
+/**
+ * Names that look like a forbidden term but are safe for that category
+ * ("coconut milk" is not dairy, "almond flour" is not wheat).
+ */
+const SAFE_NAMES: Record<string, string[]> = {
+  dairy: [
+    'coconut milk',
+    'coconut cream',
+    'almond milk',
+    'oat milk',
+    'soy milk',
+    'rice milk',
+    'cashew milk',
+    'cocoa butter',
+    'peanut butter',
+    'almond butter',
+    'cashew butter',
+    'sunflower butter',
+    'apple butter',
+    'nut butter',
+    'cream of tartar',
+    'vegan butter',
+    'plant butter',
+    'coconut yogurt',
+  ],
+  wheat: [
+    'almond flour',
+    'rice flour',
+    'coconut flour',
+    'chickpea flour',
+    'corn flour',
+    'cornflour',
+    'tapioca flour',
+    'potato flour',
+    'cassava flour',
+    'buckwheat',
+    'corn tortilla',
+    'rice noodle',
+    'glass noodle',
+    'zucchini noodle',
+    'shirataki',
+    'rice pasta',
+    'chickpea pasta',
+    'lentil pasta',
+  ],
+  egg: ['eggplant', 'flax egg', 'vegan mayo'],
+  fish: ['vegan fish sauce', 'vegan worcestershire'],
+  meat: ['vegetable broth', 'vegetable stock', 'mushroom broth'],
+};
+SAFE_NAMES.gluten = SAFE_NAMES.wheat;
+
+/**
+ * Words that make the ingredient they describe safe for a category
+ * ("vegan butter", "meatless crumbles"). A generic "<category>-free"
+ * qualifier is always accepted too.
+ */
+const SAFE_QUALIFIERS: Record<string, string[]> = {
+  dairy: ['non-dairy', 'vegan'],
+  meat: ['vegan', 'plant-based', 'meatless', 'veggie'],
+};
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word match in the singular or plural ("egg" matches "eggs",
+ * "strawberry" matches "strawberries").
+ */
+function containsTerm(name: string, term: string): boolean {
+  const plural = /[^aeiou]y$/.test(term) ? `|${escapeRegExp(term.slice(0, -1))}ies` : '';
+  return new RegExp(`\\b(?:${escapeRegExp(term)}(?:e?s)?${plural})\\b`, 'i').test(name);
+}
+
+/**
+ * `name` with the parts that are safe for `category` blanked out: safe
+ * names ("peanut butter" for dairy) and whatever a qualifier describes, up
+ * to the next "and"/"or" ("vegan butter", "dairy-free cream cheese"). A
+ * forbidden term left over is still a violation -- "butter (or peanut
+ * butter)" is dairy.
+ */
+function withoutSafeParts(name: string, category: string): string {
+  let rest = name.toLowerCase();
+  const qualifiers = [`${category}-free`, `${category} free`, ...(SAFE_QUALIFIERS[category] || [])];
+  for (const qualifier of qualifiers) {
+    rest = rest.replace(
+      new RegExp(`\\b${escapeRegExp(qualifier)}\\b.*?(?=\\b(?:and|or|with|plus)\\b|[,;()&/+]|$)`, 'g'),
+      ' ',
+    );
+  }
+  for (const safe of SAFE_NAMES[category] || []) {
+    rest = rest.replace(new RegExp(`\\b${escapeRegExp(safe)}(?:e?s)?\\b`, 'g'), ' ');
+  }
+  return rest;
+}
+
+/** "Brussels sprouts" -> "brussels sprout": only the last word of a name is plural. */
+function singularName(name: string): string {
+  const words = name.split(' ');
+  words.push(singularize(words.pop() || ''));
+  return words.join(' ');
+}
+
+/** "Sesame seeds", "peanut allergy", "dairy products" -> "sesame", "peanut", "dairy". */
+function normalizeAllergy(allergy: string): string {
+  return allergy
+    .toLowerCase()
+    .replace(/\b(?:allerg(?:y|ies)|intoleran(?:ce|t)|products?|seeds?)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Resolve a user's allergy ("peanuts", "milk", "nuts") to allergen categories. */
+function resolveAllergy(allergy: string): string[] {
+  const key = normalizeAllergy(allergy);
+  if (!key) return [];
+  for (const name of [key, singularName(key)]) {
+    if (ALLERGY_ALIASES[name]) return ALLERGY_ALIASES[name];
+    if (ALLERGEN_MAP[name]) return [name];
+  }
+  return [];
+}
+
+/** The forbidden terms for an allergy -- its derivative map, or the word itself. */
+function termsForAllergy(allergy: string): { category: string; terms: string[] }[] {
+  const categories = resolveAllergy(allergy);
+  if (categories.length === 0) {
+    const term = singularName(allergy.toLowerCase().trim());
+    return [{ category: term, terms: [term] }];
+  }
+  return categories.map((category) => ({ category, terms: ALLERGEN_MAP[category] }));
+}
+
+/** The category to use for SAFE_NAMES lookups when a diet term matches. */
+function safeCategoryForDiet(diet: string, term: string): string {
+  for (const category of ['dairy', 'egg', 'wheat', 'gluten', 'fish']) {
+    if (ALLERGEN_MAP[category].includes(term)) return category;
+  }
+  return diet === 'gluten-free' ? 'gluten' : 'meat';
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Check a list of ingredient names against the user's allergies and diets.
+ * Returns one violation per (ingredient, restriction) pair.
+ */
+export function findRestrictionViolations(
+  names: string[],
+  prefs: UserPreferences | undefined,
+): RestrictionViolation[] {
+  if (!prefs) return [];
+  const violations: RestrictionViolation[] = [];
+
+  for (const name of names) {
+    if (!name) continue;
+
+    for (const allergy of prefs.allergies || []) {
+      for (const { category, terms } of termsForAllergy(allergy)) {
+        const rest = withoutSafeParts(name, category);
+        const matched = terms.find((term) => containsTerm(rest, term));
+        if (matched) {
+          violations.push({ ingredient: name, restriction: allergy, kind: 'allergy', matched });
+          break;
+        }
+      }
+    }
+
+    for (const diet of prefs.dietaryRestrictions || []) {
+      const terms = DIET_RULES[diet.toLowerCase()];
+      if (!terms) continue;
+      const matched = terms.find((term) =>
+        containsTerm(withoutSafeParts(name, safeCategoryForDiet(diet, term)), term),
+      );
+      if (matched) {
+        violations.push({ ingredient: name, restriction: diet, kind: 'diet', matched });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/** Check every ingredient name in a recipe. */
+export function checkRecipeRestrictions(
+  recipe: Recipe,
+  prefs: UserPreferences | undefined,
+): RestrictionViolation[] {
+  return findRestrictionViolations(
+    recipe.ingredients.map((ing) => ing.name),
+    prefs,
+  );
+}
+
+/**
+ * Check a meal plan: every consolidated shopping-list item and meal
+ * ingredient, plus the meal names themselves ("Shrimp Scampi" is a
+ * problem even if the list is fine).
+ */
+export function checkMealPlanRestrictions(
+  plan: MealPlan,
+  prefs: UserPreferences | undefined,
+): RestrictionViolation[] {
+  const names = new Set([
+    ...plan.consolidatedList.map((item) => item.name),
+    ...plan.days.flatMap((day) => day.meals.map((meal) => meal.recipe)),
+    ...plan.days.flatMap((day) =>
+      day.meals.flatMap((meal) => (meal.ingredients || []).map((ing) => ing.name)),
+    ),
+  ]);
+  return findRestrictionViolations([...names], prefs);
+}
+
+/** Render violations as bullet lines, e.g. `- "whey protein" contains dairy (allergy)`. */
+export function formatViolations(violations: RestrictionViolation[]): string {
+  return violations
+    .map(
+      (v) =>
+        `- "${v.ingredient}" conflicts with ${v.kind === 'allergy' ? 'the allergy' : 'the diet'} "${v.restriction}" (matched "${v.matched}")`,
+    )
+    .join('\n');
+}
+
+/**
+ * Feedback appended to a generation prompt when the previous attempt
+ * violated a restriction, so the model can regenerate a compliant result.
+ */
+export function buildViolationFeedback(violations: RestrictionViolation[]): string {
+  return `\n\nYOUR PREVIOUS ATTEMPT WAS REJECTED because it used ingredients the user cannot have:\n${formatViolations(
+    violations,
+  )}\nRegenerate the result WITHOUT these ingredients or anything derived from them. Use safe substitutes instead.`;
+}
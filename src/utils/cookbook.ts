@@ -0,0 +1,232 @@
+// ============================================================================
+// Kitchly - Personal cookbook helpers
+//
+// Parsing, searching and formatting for the user's saved-recipe library.
+// Recipes are keyed by title, so saving the same dish again updates the
+// existing entry instead of adding a duplicate.
+// ============================================================================
+
+import type { Recipe, SavedRecipe } from '../types/index.js';
+
+// ---------------------------------------------------------------------------
+// Parsing save requests
+// ---------------------------------------------------------------------------
+
+/** Tags, notes and favourite flag mentioned in a save request. */
+export interface SaveDetails {
+  tags: string[];
+  notes?: string;
+  favorite?: boolean;
+}
+
+const FAVORITE_PATTERN = /\b(?:fav(?:ou?rite)?s?|star(?:red)?|loved? (?:it|this|that))\b/i;
+
+function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/^#/, '')
+    .replace(/[.!?]+$/, '')
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * Read tags ("tag it weeknight and kid-friendly", "#comfortfood"), a note
+ * ("note: less salt next time") and a favourite flag from a message.
+ */
+export function parseSaveDetails(text: string): SaveDetails {
+  const tags: string[] = [];
+  for (const m of text.matchAll(/(?:^|\s)#([\w-]+)/g)) tags.push(normalizeTag(m[1]));
+
+  const tagged = text.match(
+    /\btag(?:ged)?(?: it| this)?(?: as| with)?\s+(.+?)(?=\s*(?:[.;]|\bnotes?\b|\bwith a note\b|$))/i,
+  );
+  if (tagged) {
+    for (const tag of tagged[1].split(/\s*(?:,|\band\b|&)\s*/i)) {
+      // "tag it weeknight, favourite" -- the favourite flag is not a tag
+      if (!tag.trim() || tag.trim().startsWith('#') || FAVORITE_PATTERN.test(tag)) continue;
+      tags.push(normalizeTag(tag));
+    }
+  }
+
+  const note = text.match(/\b(?:notes?|with a note)\s*(?::|-|that|saying)?\s*(.+)$/i);
+
+  let favorite: boolean | undefined;
+  if (/\b(?:un-?fav(?:ou?rite)?|not a fav(?:ou?rite)?|remove from fav(?:ou?rite)?s)\b/i.test(text)) {
+    favorite = false;
+  } else if (FAVORITE_PATTERN.test(text)) {
+    favorite = true;
+  }
+
+  return {
+    tags: [...new Set(tags.filter(Boolean))],
+    notes: note?.[1]?.trim().replace(/^["']|["']$/g, '') || undefined,
+    favorite,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Library operations
+// ---------------------------------------------------------------------------
+
+function sameTitle(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Tags a recipe starts with: its cuisine and dietary tags. */
+function defaultTags(recipe: Recipe): string[] {
+  return [recipe.cuisine, ...(recipe.dietaryTags || [])]
+    .filter((t): t is string => !!t)
+    .map(normalizeTag);
+}
+
+/**
+ * Save a recipe into the library, or update the entry with the same
+ * title: the recipe itself is refreshed, tags are merged, and a new note
+ * or favourite flag replaces the old one. Returns the new library and the
+ * saved entry.
+ */
+export function saveToCookbook(
+  saved: SavedRecipe[] | undefined,
+  recipe: Recipe,
+  details: SaveDetails,
+  now: number = Date.now(),
+): { savedRecipes: SavedRecipe[]; entry: SavedRecipe; isNew: boolean } {
+  const list = [...(saved || [])];
+  const index = list.findIndex((s) => sameTitle(s.recipe.title, recipe.title));
+  const existing = index >= 0 ? list[index] : undefined;
+
+  const entry: SavedRecipe = {
+    id: existing?.id ?? `recipe_${now}_${Math.random().toString(36).substring(2, 9)}`,
+    recipe,
+    tags: [...new Set([...(existing?.tags ?? defaultTags(recipe)), ...details.tags])],
+    notes: details.notes ?? existing?.notes,
+    favorite: details.favorite ?? existing?.favorite ?? false,
+    savedAt: existing?.savedAt ?? now,
+    updatedAt: now,
+    lastOpenedAt: existing?.lastOpenedAt,
+  };
+  if (!entry.notes) delete entry.notes;
+  if (entry.lastOpenedAt === undefined) delete entry.lastOpenedAt;
+
+  if (existing) {
+    list[index] = entry;
+  } else {
+    list.push(entry);
+  }
+  return { savedRecipes: list, entry, isNew: !existing };
+}
+
+/** Favourites first, then most recently saved or changed. */
+export function sortCookbook(saved: SavedRecipe[]): SavedRecipe[] {
+  return [...saved].sort(
+    (a, b) => Number(b.favorite) - Number(a.favorite) || b.updatedAt - a.updatedAt,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Searching
+// ---------------------------------------------------------------------------
+
+/** Words that say what the user wants rather than what they are looking for. */
+const QUERY_STOPWORDS = new Set([
+  'show', 'list', 'find', 'search', 'open', 'load', 'pull', 'up', 'get', 'bring', 'back', 'reopen',
+  'me', 'my', 'our', 'i', 'we', 'the', 'a', 'an', 'all', 'any', 'some', 'of', 'for', 'with', 'in',
+  'that', 'this', 'those', 'what', 'which', 'do', 'have', 'saved', 'save', 'recipe', 'recipes',
+  'cookbook', 'library', 'collection', 'again', 'please', 'can', 'you', 'one', 'tagged', 'tag',
+  'tags', 'from', 'last', 'week', 'made', 'make', 'cook', 'to', 'it', 'is', 'are', 'let', "let's",
+  'favorite', 'favorites', 'favourite', 'favourites', 'starred', 'anything', 'everything',
+  'something', 'got', 'there', 'did', "i've", 'how', 'many', 'look', 'at', 'need', 'want',
+]);
+
+/** Search terms left in a message once request words are removed. */
+export function searchTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s'-]/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 1 && !QUERY_STOPWORDS.has(w));
+}
+
+function haystack(entry: SavedRecipe): string {
+  const r = entry.recipe;
+  return [
+    r.title,
+    r.cuisine,
+    ...(r.dietaryTags || []),
+    ...entry.tags,
+    entry.notes,
+    ...r.ingredients.map((ing) => ing.name),
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+}
+
+/**
+ * Filter the library for a request like "my favourite chicken recipes" or
+ * "recipes tagged weeknight": every search term must match the title,
+ * tags, notes, cuisine or an ingredient.
+ */
+export function searchCookbook(saved: SavedRecipe[] | undefined, text: string): SavedRecipe[] {
+  const onlyFavorites = /\b(?:fav(?:ou?rite)?s?|starred)\b/i.test(text);
+  const terms = searchTerms(text);
+
+  return sortCookbook(saved || []).filter((entry) => {
+    if (onlyFavorites && !entry.favorite) return false;
+    const hay = haystack(entry);
+    return terms.every((term) => hay.includes(term) || hay.includes(term.replace(/s$/, '')));
+  });
+}
+
+/**
+ * Find the saved recipe a message refers to: an exact title mention wins,
+ * otherwise the entry matching the most search terms in its title (ties
+ * go to favourites and recent entries).
+ */
+export function findSavedRecipe(
+  saved: SavedRecipe[] | undefined,
+  text: string,
+): SavedRecipe | undefined {
+  const sorted = sortCookbook(saved || []);
+  const lower = text.toLowerCase();
+  const exact = sorted.find((s) => lower.includes(s.recipe.title.toLowerCase()));
+  if (exact) return exact;
+
+  const terms = searchTerms(text);
+  if (terms.length === 0) return undefined;
+
+  let best: SavedRecipe | undefined;
+  let bestScore = 0;
+  for (const entry of sorted) {
+    const title = entry.recipe.title.toLowerCase();
+    const hay = haystack(entry);
+    const score = terms.reduce(
+      (sum, term) => sum + (title.includes(term) ? 2 : hay.includes(term) ? 1 : 0),
+      0,
+    );
+    if (score > bestScore) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/** One line per saved recipe, e.g. "★ Chicken Parmesan -- italian, weeknight · saved Mar 3". */
+export function formatSavedRecipe(entry: SavedRecipe): string {
+  const parts = [`${entry.favorite ? '★ ' : ''}**${entry.recipe.title}**`];
+  if (entry.tags.length) parts.push(`-- ${entry.tags.join(', ')}`);
+  parts.push(`· saved ${formatDate(entry.savedAt)}`);
+  let line = parts.join(' ');
+  if (entry.notes) line += `\n  _Note: ${entry.notes}_`;
+  return line;
+}
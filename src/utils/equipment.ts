@@ -0,0 +1,284 @@
+// ============================================================================
+// Kitchly - Kitchen equipment
+//
+// Users can say what they cook with ("no oven", "just an air fryer", "a
+// dorm microwave"). Generation prompts are limited to that equipment, and
+// this module reads the appliances each step needs -- named outright ("in
+// the air fryer") or implied by the technique ("bake", "simmer") -- so
+// steps needing something the user doesn't own can be flagged.
+// ============================================================================
+
+import type { MealPlan, Recipe, UserPreferences } from '../types/index.js';
+
+/** What a kitchen has when the user hasn't said otherwise. */
+export const STANDARD_EQUIPMENT = ['stovetop', 'oven', 'microwave'];
+
+/** A step that needs equipment the user doesn't have. */
+export interface EquipmentIssue {
+  /** Zero-based index of the step. */
+  step: number;
+  text: string;
+  missing: string[];
+}
+
+/** A planned meal whose name or description needs equipment the user doesn't have. */
+export interface MealEquipmentIssue {
+  day: string;
+  meal: string;
+  missing: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Vocabulary
+// ---------------------------------------------------------------------------
+
+interface Appliance {
+  name: string;
+  /** How the user refers to it when saying what they have. */
+  owned: RegExp;
+  /** How a step names it outright. */
+  step: RegExp;
+  /** Cooks food, so a step naming it says where the cooking happens. */
+  heat: boolean;
+}
+
+// Compound names come before the ones they contain ("toaster oven" before
+// "oven"), since each match is blanked out before the next is tried
+const APPLIANCES: Appliance[] = [
+  {
+    name: 'toaster oven',
+    owned: /\btoaster ovens?\b/,
+    step: /\btoaster ovens?\b/g,
+    heat: true,
+  },
+  {
+    name: 'air fryer',
+    owned: /\bair[- ]?fryers?\b/,
+    step: /\bair[- ]?fr(?:yer|ying|y)s?\b/g,
+    heat: true,
+  },
+  {
+    name: 'pressure cooker',
+    owned: /\binstant ?pots?\b|\bpressure cookers?\b|\bmulti[- ]?cookers?\b/,
+    step: /\binstant ?pots?\b|\bpressure[- ]cook(?:er|ing)?s?\b|\bmulti[- ]?cookers?\b/g,
+    heat: true,
+  },
+  {
+    name: 'slow cooker',
+    owned: /\bslow cookers?\b|\bcrock[- ]?pots?\b/,
+    step: /\bslow[- ]cook(?:er|ing)?s?\b|\bcrock[- ]?pots?\b/g,
+    heat: true,
+  },
+  {
+    name: 'rice cooker',
+    owned: /\brice cookers?\b/,
+    step: /\brice cookers?\b/g,
+    heat: true,
+  },
+  {
+    name: 'microwave',
+    owned: /\bmicrowaves?\b/,
+    step: /\bmicrowav(?:e|ed|ing|able|e-safe)s?\b/g,
+    heat: true,
+  },
+  {
+    name: 'grill',
+    owned: /\b(?:grill|bbq|barbecue)s?\b/,
+    step: /\bgrill(?:s|ed|ing)?\b|\bbarbecue\b/g,
+    heat: true,
+  },
+  {
+    name: 'oven',
+    owned: /\bovens?\b/,
+    step: /\bovens?\b/g,
+    heat: true,
+  },
+  {
+    name: 'stovetop',
+    owned: /\b(?:stove|stovetop|hob|cooktop|burner|hot ?plate)s?\b/,
+    step: /\b(?:stove|stovetop|hob|cooktop|burner)s?\b/g,
+    heat: true,
+  },
+  {
+    name: 'food processor',
+    owned: /\bfood processors?\b/,
+    step: /\bfood processors?\b/g,
+    heat: false,
+  },
+  {
+    name: 'blender',
+    owned: /\bblenders?\b/,
+    step: /\b(?:immersion |stick )?blenders?\b|\bblend until smooth\b|\bblitz\b/g,
+    heat: false,
+  },
+];
+
+/** Techniques that need an appliance the step doesn't name. */
+const IMPLIED: [string, RegExp][] = [
+  ['oven', /\b(?:bake[sd]?|baking|roast(?:s|ed|ing)?|broil(?:s|ed|ing)?|preheat)\b/],
+  [
+    'stovetop',
+    /\b(?:skillet|saucepan|frying pan|wok|stockpot|saut[eé](?:s|ed|ing)?|simmer(?:s|ed|ing)?|boil(?:s|ed|ing)?|sear(?:s|ed|ing)?|(?:pan|deep|stir)[- ]fr(?:y|ied|ying)|fry|fried|frying)\b/,
+  ],
+];
+
+/** "Dutch oven" is a pot and "oven mitts" aren't an appliance. */
+function normalizeStep(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\bdutch ovens?\b/g, 'pot')
+    .replace(/\boven[- ]?(?:mitts?|gloves?|proof|safe)\b/g, '');
+}
+
+/** The canonical appliance for a user's phrasing ("Instant Pot" -> "pressure cooker"). */
+export function canonicalEquipment(text: string): string | undefined {
+  const t = text.toLowerCase().trim();
+  return APPLIANCES.find((a) => a.owned.test(t))?.name;
+}
+
+/** Every appliance named in a statement about the user's kitchen. */
+export function equipmentIn(text: string): string[] {
+  let t = text.toLowerCase();
+  const found: string[] = [];
+  for (const appliance of APPLIANCES) {
+    if (!appliance.owned.test(t)) continue;
+    found.push(appliance.name);
+    t = t.replace(new RegExp(appliance.owned.source, 'g'), ' ');
+  }
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Checking steps
+// ---------------------------------------------------------------------------
+
+/** The appliances one step needs. */
+export function stepEquipment(step: string): string[] {
+  let text = normalizeStep(step);
+  const found: string[] = [];
+  let namesHeat = false;
+  for (const appliance of APPLIANCES) {
+    appliance.step.lastIndex = 0;
+    if (!appliance.step.test(text)) continue;
+    found.push(appliance.name);
+    namesHeat ||= appliance.heat;
+    text = text.replace(appliance.step, ' ');
+  }
+  // "Roast for 12 minutes" in an air fryer step means the air fryer
+  if (!namesHeat) {
+    for (const [name, pattern] of IMPLIED) {
+      if (pattern.test(text) && !found.includes(name)) found.push(name);
+    }
+  }
+  return found;
+}
+
+/** Whether a step cooks something: it needs the stove, oven or another heating appliance. */
+export function isCookingStep(step: string): boolean {
+  return stepEquipment(step).some((name) => APPLIANCES.find((a) => a.name === name)?.heat);
+}
+
+/** Every appliance a recipe's steps need, in the order they come up. */
+export function requiredEquipment(instructions: string[]): string[] {
+  const needed: string[] = [];
+  for (const step of instructions) {
+    for (const name of stepEquipment(step)) {
+      if (!needed.includes(name)) needed.push(name);
+    }
+  }
+  return needed;
+}
+
+/**
+ * The recipe's equipment list: what the model listed plus any appliance
+ * its steps need that the list leaves out.
+ */
+export function withEquipment<T extends Pick<Recipe, 'instructions' | 'equipment'>>(recipe: T): T {
+  const equipment = (recipe.equipment ?? [])
+    .map((e) => e.trim())
+    .filter(Boolean);
+  const listed = equipment.map((e) => canonicalEquipment(e) ?? e.toLowerCase());
+  for (const name of requiredEquipment(recipe.instructions)) {
+    if (!listed.includes(name)) {
+      equipment.push(name);
+      listed.push(name);
+    }
+  }
+  return { ...recipe, equipment };
+}
+
+/**
+ * Steps that need equipment the user doesn't own. Nothing is flagged for
+ * users who haven't said what they have.
+ */
+export function checkRecipeEquipment(
+  recipe: Pick<Recipe, 'instructions'>,
+  prefs: UserPreferences | undefined,
+): EquipmentIssue[] {
+  const owned = prefs?.equipment;
+  if (!owned) return [];
+  const issues: EquipmentIssue[] = [];
+  recipe.instructions.forEach((text, step) => {
+    const missing = stepEquipment(text).filter((name) => !owned.includes(name));
+    if (missing.length) issues.push({ step, text, missing });
+  });
+  return issues;
+}
+
+/** Planned meals whose name or description needs equipment the user doesn't own. */
+export function checkMealPlanEquipment(
+  plan: Pick<MealPlan, 'days'>,
+  prefs: UserPreferences | undefined,
+): MealEquipmentIssue[] {
+  const owned = prefs?.equipment;
+  if (!owned) return [];
+  const issues: MealEquipmentIssue[] = [];
+  for (const day of plan.days) {
+    for (const meal of day.meals) {
+      const missing = stepEquipment(`${meal.recipe}. ${meal.description ?? ''}`).filter(
+        (name) => !owned.includes(name),
+      );
+      if (missing.length) issues.push({ day: day.day, meal: meal.recipe, missing });
+    }
+  }
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function withArticle(name: string): string {
+  return /^[aeiou]/.test(name) ? `an ${name}` : `a ${name}`;
+}
+
+/** "an oven and a blender" */
+export function formatEquipmentNames(names: string[]): string {
+  const items = names.map(withArticle);
+  return items.length <= 1
+    ? items.join('')
+    : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/** `- Step 3 needs an oven` lines. */
+export function formatEquipmentIssues(issues: EquipmentIssue[]): string {
+  return issues.map((i) => `- Step ${i.step + 1} needs ${formatEquipmentNames(i.missing)}`).join('\n');
+}
+
+/** "Sheet-Pan Salmon (Monday) needs an oven" */
+export function formatMealEquipmentIssues(issues: MealEquipmentIssue[]): string {
+  return issues.map((i) => `${i.meal} (${i.day}) needs ${formatEquipmentNames(i.missing)}`).join('; ');
+}
+
+/**
+ * Feedback appended to a generation prompt when the previous attempt used
+ * equipment the user doesn't have.
+ */
+export function buildEquipmentFeedback(
+  issues: EquipmentIssue[],
+  prefs: UserPreferences | undefined,
+): string {
+  return `\n\nYOUR PREVIOUS ATTEMPT WAS REJECTED because some steps need equipment the user doesn't have:\n${formatEquipmentIssues(
+    issues,
+  )}\nRewrite the recipe so every step uses only: ${(prefs?.equipment ?? []).join(', ') || 'no appliances'}.`;
+}
@@ -0,0 +1,195 @@
+// ============================================================================
+// Kitchly - Household helpers
+//
+// Works out who is eating a given meal and folds their individual
+// restrictions into a single effective `UserPreferences` for generation
+// and for the allergy guard.
+// ============================================================================
+
+import type { HouseholdMember, PreferenceChanges, UserPreferences } from '../types/index.js';
+import { applyPreferenceChanges, parsePreferenceStatement } from './preferences.js';
+
+// ---------------------------------------------------------------------------
+// Diner resolution
+// ---------------------------------------------------------------------------
+
+const EVERYONE_PATTERN = /\b(?:everyone|everybody|whole (?:family|household)|all of us|the family)\b/i;
+
+/** Relationship words we accept as a member name when no proper name is given. */
+const RELATION_PATTERN =
+  /\bmy\s+(daughter|son|kid|child|baby|toddler|partner|husband|wife|boyfriend|girlfriend|roommate|mom|mum|dad|mother|father|grandma|grandpa|sister|brother)\b/i;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Find a member by name, case-insensitively. */
+export function findMember(
+  household: HouseholdMember[] | undefined,
+  name: string,
+): HouseholdMember | undefined {
+  const key = name.trim().toLowerCase();
+  return household?.find((m) => m.name.toLowerCase() === key);
+}
+
+/**
+ * Work out which household members are eating, based on the names mentioned
+ * in the request. With no names (or "everyone") the whole household eats.
+ */
+export function resolveDiners(prefs: UserPreferences | undefined, text: string): HouseholdMember[] {
+  const household = prefs?.household || [];
+  if (household.length === 0) return [];
+  if (EVERYONE_PATTERN.test(text)) return household;
+
+  const named = household.filter((m) =>
+    new RegExp(`\\b${escapeRegExp(m.name)}\\b`, 'i').test(text),
+  );
+  return named.length ? named : household;
+}
+
+function union(...lists: (string[] | undefined)[]): string[] | undefined {
+  const merged: string[] = [];
+  for (const list of lists) {
+    for (const item of list || []) {
+      if (!merged.includes(item)) merged.push(item);
+    }
+  }
+  return merged.length ? merged : undefined;
+}
+
+/**
+ * The preferences to generate a meal with: the user's own restrictions plus
+ * the union of every diner's allergies, diets and dislikes. Servings become
+ * the sum of the diners' portions. The returned `household` lists only the
+ * diners, so prompts can name who is eating.
+ */
+export function preferencesForMeal(
+  prefs: UserPreferences | undefined,
+  text: string,
+): UserPreferences | undefined {
+  if (!prefs) return undefined;
+  const diners = resolveDiners(prefs, text);
+  if (diners.length === 0) return prefs;
+
+  const portions = diners.reduce((sum, m) => sum + (m.portionSize ?? 1), 0);
+
+  return {
+    ...prefs,
+    allergies: union(prefs.allergies, ...diners.map((m) => m.allergies)),
+    dietaryRestrictions: union(
+      prefs.dietaryRestrictions,
+      ...diners.map((m) => m.dietaryRestrictions),
+    ),
+    dislikes: union(prefs.dislikes, ...diners.map((m) => m.dislikes)),
+    servingSize: Math.max(1, Math.ceil(portions)),
+    household: diners,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing member statements
+// ---------------------------------------------------------------------------
+
+/** A parsed request to add, update or remove a household member. */
+export interface HouseholdChange {
+  action: 'add' | 'update' | 'remove';
+  name: string;
+  /** Restriction changes for this member (cuisine and scalar settings are ignored). */
+  changes: PreferenceChanges;
+  portionSize?: number;
+}
+
+function parsePortionSize(text: string): number | undefined {
+  const t = text.toLowerCase();
+  if (/\b(?:half|small|kid'?s?|child'?s?) portions?\b|\beats? half\b/.test(t)) return 0.5;
+  if (/\b(?:double|two) portions?\b|\beats? double\b/.test(t)) return 2;
+  if (/\b(?:big|large|hearty) (?:portions?|eater)\b/.test(t)) return 1.5;
+  const m = t.match(/\b(\d+(?:\.\d+)?)\s*(?:x|times)\s*(?:a\s+)?portions?\b/);
+  if (m) return parseFloat(m[1]);
+  return undefined;
+}
+
+/**
+ * Parse statements such as "add my daughter Emma, she's allergic to dairy
+ * and eats half portions", "Sam is vegetarian now" or "remove Alex from the
+ * household". Returns `null` when no member can be identified.
+ */
+export function parseHouseholdStatement(
+  text: string,
+  household: HouseholdMember[] | undefined,
+): HouseholdChange | null {
+  const removing =
+    /\b(?:remove|delete|drop|take)\b.*\b(?:from|off|out of)\b.*\b(?:household|family|list)\b|\bno longer (?:lives|eats) with\b|\bmoved out\b/i.test(
+      text,
+    );
+
+  // An existing member mentioned by name is an update (or removal)
+  const existing = household?.find((m) =>
+    new RegExp(`\\b${escapeRegExp(m.name)}\\b`, 'i').test(text),
+  );
+
+  let name: string | undefined = existing?.name;
+  if (!name) {
+    const relation = text.match(RELATION_PATTERN);
+    // "my daughter Emma" -> Emma; "add Sam" -> Sam; "my partner" -> partner
+    const afterRelation = relation
+      ? text.slice((relation.index ?? 0) + relation[0].length).match(/^\s*,?\s*([A-Z][a-z]+)\b/)
+      : null;
+    const added = text.match(/\b(?:add|include)\s+([A-Z][a-z]+)\b/);
+    name = afterRelation?.[1] || added?.[1] || relation?.[1]?.toLowerCase();
+  }
+  if (!name) return null;
+
+  if (removing) {
+    return {
+      action: 'remove',
+      name,
+      changes: { add: {}, remove: {}, removeAnywhere: [], set: {} },
+    };
+  }
+
+  return {
+    action: existing ? 'update' : 'add',
+    name,
+    changes: parsePreferenceStatement(text),
+    portionSize: parsePortionSize(text),
+  };
+}
+
+/** Apply a parsed change to the household list, returning a new list. */
+export function applyHouseholdChange(
+  household: HouseholdMember[] | undefined,
+  change: HouseholdChange,
+): HouseholdMember[] {
+  const list = [...(household || [])];
+  const index = list.findIndex((m) => m.name.toLowerCase() === change.name.toLowerCase());
+
+  if (change.action === 'remove') {
+    if (index >= 0) list.splice(index, 1);
+    return list;
+  }
+
+  const current: HouseholdMember = index >= 0 ? list[index] : { name: change.name };
+  const restrictions = applyPreferenceChanges(
+    {
+      allergies: current.allergies,
+      dietaryRestrictions: current.dietaryRestrictions,
+      dislikes: current.dislikes,
+    },
+    change.changes,
+  );
+
+  const next: HouseholdMember = { name: current.name };
+  if (restrictions.allergies) next.allergies = restrictions.allergies;
+  if (restrictions.dietaryRestrictions) next.dietaryRestrictions = restrictions.dietaryRestrictions;
+  if (restrictions.dislikes) next.dislikes = restrictions.dislikes;
+  const portionSize = change.portionSize ?? current.portionSize;
+  if (portionSize !== undefined) next.portionSize = portionSize;
+
+  if (index >= 0) {
+    list[index] = next;
+  } else {
+    list.push(next);
+  }
+  return list;
+}
@@ -0,0 +1,85 @@
+// ============================================================================
+// Kitchly - Ingredient groups and optional items
+//
+// Bigger recipes split their ingredients into parts ("For the sauce", "For
+// the dough") and mark some as optional or only for garnish. These helpers
+// lay a flat ingredient list out by group and decide which ingredients go
+// into an Instacart cart.
+// ============================================================================
+
+import type { InstacartIngredient } from '../types/index.js';
+
+export interface IngredientGroup {
+  /** Heading of the group; `undefined` for ingredients outside any group. */
+  name?: string;
+  ingredients: InstacartIngredient[];
+}
+
+/** "For the sauce:" -> "For the sauce" */
+function groupName(ingredient: InstacartIngredient): string | undefined {
+  const name = ingredient.group?.trim().replace(/:$/, '').trim();
+  return name || undefined;
+}
+
+export function hasIngredientGroups(ingredients: InstacartIngredient[]): boolean {
+  return ingredients.some((ing) => groupName(ing) !== undefined);
+}
+
+/**
+ * Ingredients gathered by group, groups in the order they first appear.
+ * Ungrouped ingredients stay together where the first of them appears.
+ */
+export function groupIngredients(ingredients: InstacartIngredient[]): IngredientGroup[] {
+  const groups: IngredientGroup[] = [];
+  for (const ing of ingredients) {
+    const name = groupName(ing);
+    const group = groups.find((g) => g.name === name);
+    if (group) group.ingredients.push(ing);
+    else groups.push({ name, ingredients: [ing] });
+  }
+  return groups;
+}
+
+/** Whether an ingredient can be left out of the dish. */
+export function isOptionalIngredient(ingredient: InstacartIngredient): boolean {
+  return !!(ingredient.optional || ingredient.garnish);
+}
+
+/** An ingredient line with "(optional)" or "(for garnish)" added unless it already says so. */
+export function withIngredientFlags(text: string, ingredient: InstacartIngredient): string {
+  const flags: string[] = [];
+  if (ingredient.optional && !/\boptional\b/i.test(text)) flags.push('optional');
+  if (ingredient.garnish && !/\bgarnish/i.test(text)) flags.push('for garnish');
+  return flags.length ? `${text} (${flags.join(', ')})` : text;
+}
+
+/**
+ * Lines for an ingredient list: each group's heading followed by its
+ * ingredients, or just the ingredients when the recipe has no groups.
+ */
+export function groupedIngredientLines(
+  ingredients: InstacartIngredient[],
+  line: (ingredient: InstacartIngredient) => string,
+  heading: (name: string) => string,
+): string[] {
+  if (!hasIngredientGroups(ingredients)) return ingredients.map(line);
+  const lines: string[] = [];
+  for (const group of groupIngredients(ingredients)) {
+    lines.push(heading(group.name ?? 'Other ingredients'));
+    lines.push(...group.ingredients.map(line));
+  }
+  return lines;
+}
+
+/**
+ * The ingredients to put in an Instacart cart. Optional and garnish items
+ * are left out when the user asked for that, unless nothing would be left.
+ */
+export function cartIngredients(
+  ingredients: InstacartIngredient[],
+  includeOptional = true,
+): InstacartIngredient[] {
+  if (includeOptional) return ingredients;
+  const required = ingredients.filter((ing) => !isOptionalIngredient(ing));
+  return required.length ? required : ingredients;
+}
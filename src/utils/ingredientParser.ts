@@ -0,0 +1,317 @@
+// ============================================================================
+// Kitchly - Ingredient line parser
+//
+// Reads a free-text ingredient line ("2 1/2 cups all-purpose flour, sifted",
+// "1 (14 oz) can diced tomatoes, drained") into its parts: the amount or
+// range, the unit, any package size or alternate measurement, the
+// ingredient's name, a preparation note, and whether it is optional. The
+// parser is deterministic, so the amounts we shop for come from what the
+// recipe actually says rather than from the model's own measurements.
+// ============================================================================
+
+import type { InstacartIngredient, InstacartMeasurement } from '../types/index.js';
+import {
+  canonicalizeMeasurement,
+  canonicalizeUnit,
+  convertMeasurement,
+  isUnit,
+  normalizeMeasurements,
+  parseQuantity,
+} from './units.js';
+
+/** An ingredient line broken into its parts. */
+export interface ParsedIngredientLine {
+  /** The line as written, tidied onto one line. */
+  text: string;
+  name: string;
+  /** The amount, or the low end of a range ("2-3 cloves" -> 2). */
+  quantity?: number;
+  /** The high end of a range. */
+  quantityMax?: number;
+  /** Canonical unit of `quantity`; `each` when the amount counts the item itself. */
+  unit?: string;
+  /**
+   * The amount as measurements: the primary one first, then the package
+   * size ("2 (14 oz) cans" -> 28 oz) or alternate ("1 cup (240 ml)").
+   */
+  measurements: InstacartMeasurement[];
+  /** How the ingredient is prepared or used ("sifted", "drained", "to taste"). */
+  preparation?: string;
+  optional: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Patterns
+// ---------------------------------------------------------------------------
+
+const FRACTIONS = '½¼¾⅓⅔⅛⅜⅝⅞';
+
+/** One written amount: "2", "1 1/2", "1/2", "2.5", "1,5", "½", "1½". */
+const AMOUNT = `(?:\\d+\\s*[${FRACTIONS}]|[${FRACTIONS}]|\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?)`;
+
+/** Amounts written as words. "A few" and "a little" are not amounts. */
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  half: 0.5,
+  dozen: 12,
+};
+const NUMBER_WORD = `(?:${Object.keys(NUMBER_WORDS).join('|')})\\b(?!\\s+(?:few|little|bit|couple)\\b)`;
+
+/** Leading amount or range: "2", "2-3", "1/2 to 3/4", "two or three". */
+const LEADING_AMOUNT = new RegExp(
+  `^(${AMOUNT}|${NUMBER_WORD})(?:\\s*(?:-|–|—|to|or)\\s*(${AMOUNT}|${NUMBER_WORD}))?(?=[\\s(a-z]|$)`,
+  'i',
+);
+
+/** A unit word, e.g. "cups", "fl. oz", "T", "tbsp.". */
+const UNIT = `(?:fl\\.?\\s*oz\\.?|fluid ounces?|[a-z]+\\.?)`;
+
+/** A package size before the unit: "(14 oz)", "(about 1 lb)", "14.5-ounce". */
+const PACKAGE_SIZE = new RegExp(
+  `^(?:\\(\\s*(?:about|approx\\.?|approximately|roughly|~)?\\s*(${AMOUNT})\\s*-?\\s*(${UNIT})\\s*\\)|(${AMOUNT})-(${UNIT}))\\s*`,
+  'i',
+);
+
+/** An alternate measurement after the unit: "(240 ml)", "(about 2 cups)", "/ 200 g". */
+const ALTERNATE = new RegExp(
+  `^(?:\\(\\s*(?:about|approx\\.?|approximately|roughly|~)?\\s*(${AMOUNT})\\s*(${UNIT})\\s*\\)|\\/\\s*(${AMOUNT})\\s*(${UNIT}))\\s*`,
+  'i',
+);
+
+/** A pack count before the pack size: "2 x 400g tins" -> 2 tins of 400 g. */
+const MULTIPLIED_SIZE = new RegExp(`^[x×]\\s*(${AMOUNT})\\s*-?\\s*(${UNIT})(?=[\\s,)/]|$)\\s*`, 'i');
+
+/** A second amount added to the first: "1 cup plus 2 tbsp". */
+const ADDED_AMOUNT = new RegExp(`^(?:plus|\\+)\\s*(${AMOUNT})\\s*(${UNIT})(?=[\\s,)/]|$)\\s*`, 'i');
+
+/** The part of a fruit a recipe uses: "juice of 1 lemon" shops for the lemon. */
+const PART_OF = /^((?:(?:finely )?grated )?(?:juice|zest|rind)(?: and (?:juice|zest))?) of\s+/i;
+
+/** Written amounts that leave anything here in the name, so the model's measurements win. */
+const UNREAD_AMOUNT = /^(?:plus|and|or|x|×|\+)\b|\d/i;
+
+const UNIT_WORD = new RegExp(`^(${UNIT})(?=[\\s,)/]|$)`, 'i');
+
+/** Words that qualify a unit ("1 heaping tablespoon") rather than the ingredient. */
+const UNIT_QUALIFIER = /^(?:heaping|heaped|level|scant|generous|rounded|good)\s+/i;
+
+/** Count units that read as part of the ingredient's name ("2 large eggs"). */
+const NAME_WORD_UNITS = new Set([
+  'each',
+  'large',
+  'medium',
+  'small',
+  'whole',
+  'egg',
+  'piece',
+  'slice',
+  'leaf',
+  'stalk',
+  'head',
+]);
+
+const OPTIONAL_MARKER = /\s*\(\s*optional\s*\)|,?\s*\boptional\b:?/gi;
+
+/** How an ingredient is used, written after its name ("salt to taste"). */
+const TRAILING_USAGE =
+  /\s+((?:to taste|as needed|if needed|for (?:garnish(?:ing)?|serving|dusting|drizzling|greasing|frying|brushing|decorating|topping|the \w+))\b.*)$/i;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function amountValue(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const word = NUMBER_WORDS[text.trim().toLowerCase()];
+  return word ?? parseQuantity(text);
+}
+
+/** A measurement from an amount and unit word, or `undefined` if the unit is unknown. */
+function measurementOf(
+  amount: string | undefined,
+  unit: string | undefined,
+  multiplier = 1,
+): InstacartMeasurement | undefined {
+  const quantity = amountValue(amount);
+  if (!quantity || !unit || !isUnit(unit)) return undefined;
+  return canonicalizeMeasurement({ quantity: quantity * multiplier, unit });
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/⁄/g, '/')
+    .replace(/^\s*(?:[-*•·▪]|\[\s?[x ]?\])\s+/i, '')
+    .replace(/^(\d+)-(\d+\/\d+)/, '$1 $2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse an ingredient line. Lines without an amount ("salt to taste")
+ * still yield a name and preparation note, just no measurements.
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  const text = tidy(line);
+  let rest = text;
+
+  // Optional markers can appear anywhere: "(optional)", ", optional", "optional:"
+  const optional = /\boptional\b/i.test(rest);
+  if (optional) rest = rest.replace(OPTIONAL_MARKER, '').replace(/\s+/g, ' ').trim();
+
+  const part = rest.match(PART_OF);
+  if (part) rest = rest.slice(part[0].length);
+
+  const measurements: InstacartMeasurement[] = [];
+  let quantity: number | undefined;
+  let quantityMax: number | undefined;
+  let unit: string | undefined;
+
+  // ------------------------------------------------------------------
+  // 1. Amount, package size, unit and alternate measurement
+  // ------------------------------------------------------------------
+  const lead = rest.match(LEADING_AMOUNT);
+  const low = amountValue(lead?.[1]);
+  if (lead && low && low > 0) {
+    // "1/2 an onion", "half a lemon"
+    rest = rest.slice(lead[0].length).trimStart().replace(/^(?:an?|the)\s+/i, '');
+    const high = amountValue(lead[2]);
+
+    let packageSize: InstacartMeasurement | undefined;
+    const size = rest.match(PACKAGE_SIZE) ?? rest.match(MULTIPLIED_SIZE);
+    const sizeMeasurement = size
+      ? measurementOf(size[1] ?? size[3], size[2] ?? size[4], low)
+      : undefined;
+    if (size && sizeMeasurement) {
+      packageSize = sizeMeasurement;
+      rest = rest.slice(size[0].length);
+    }
+
+    const qualifier = rest.match(UNIT_QUALIFIER);
+    const afterQualifier = qualifier ? rest.slice(qualifier[0].length) : rest;
+    const unitWord = afterQualifier.match(UNIT_WORD);
+    if (unitWord && isUnit(unitWord[1])) {
+      unit = unitWord[1];
+      // Size words and "eggs" stay in the name: "2 large eggs" shops for large eggs
+      if (!NAME_WORD_UNITS.has(canonicalizeUnit(unit))) {
+        rest = afterQualifier.slice(unitWord[0].length).trimStart().replace(/^of\s+/i, '');
+      }
+    }
+
+    let total = low;
+    const added = unit ? rest.match(ADDED_AMOUNT) : null;
+    const addedAmount = added ? amountValue(added[1]) : undefined;
+    const addedMeasurement =
+      added && addedAmount && unit && isUnit(added[2])
+        ? convertMeasurement({ quantity: addedAmount, unit: added[2] }, unit)
+        : null;
+    if (added && addedMeasurement) {
+      total += addedMeasurement.quantity;
+      rest = rest.slice(added[0].length);
+    }
+
+    const primary = canonicalizeMeasurement({ quantity: total, unit: unit ?? 'each' });
+    quantity = primary.quantity;
+    unit = primary.unit;
+    if (high && high > low) quantityMax = (high / low) * primary.quantity;
+    measurements.push(primary);
+    if (packageSize) measurements.push(packageSize);
+
+    const alternate = rest.match(ALTERNATE);
+    const alternateMeasurement = alternate
+      ? measurementOf(alternate[1] ?? alternate[3], alternate[2] ?? alternate[4])
+      : undefined;
+    if (alternate && alternateMeasurement) {
+      measurements.push(alternateMeasurement);
+      rest = rest.slice(alternate[0].length);
+    }
+  }
+
+  // ------------------------------------------------------------------
+  // 2. Name and preparation note
+  // ------------------------------------------------------------------
+  const notes: string[] = [];
+  rest = rest.replace(/\s*\(([^)]*)\)/g, (_, inner: string) => {
+    if (inner.trim()) notes.push(inner.trim());
+    return '';
+  });
+
+  const comma = rest.indexOf(',');
+  let name = comma >= 0 ? rest.slice(0, comma) : rest;
+  if (comma >= 0) notes.unshift(rest.slice(comma + 1).trim());
+
+  const usage = name.match(TRAILING_USAGE);
+  if (usage) {
+    notes.unshift(usage[1].trim());
+    name = name.slice(0, usage.index);
+  }
+  if (part) notes.unshift(part[1].toLowerCase());
+  name = name.replace(/^of\s+/i, '').replace(/[\s,;:.-]+$/, '').trim();
+
+  const preparation = notes
+    .map((n) => n.replace(/^[\s,;]+|[\s,;.]+$/g, ''))
+    .filter(Boolean)
+    .join(', ');
+
+  const parsed: ParsedIngredientLine = {
+    text,
+    name: name || text,
+    measurements,
+    optional,
+  };
+  if (quantity !== undefined) {
+    parsed.quantity = quantity;
+    parsed.unit = unit;
+  }
+  if (quantityMax !== undefined) parsed.quantityMax = quantityMax;
+  if (preparation) parsed.preparation = preparation;
+  return parsed;
+}
+
+// ---------------------------------------------------------------------------
+// Ingredients
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn an ingredient line into an ingredient with canonical measurements,
+ * e.g. from a recipe page's `recipeIngredient` list or a pasted recipe.
+ */
+export function ingredientFromLine(line: string): InstacartIngredient {
+  const parsed = parseIngredientLine(line);
+  const ingredient: InstacartIngredient = {
+    name: parsed.name,
+    display_text: parsed.text,
+    measurements: normalizeMeasurements(parsed.measurements, parsed.text),
+  };
+  if (parsed.optional) ingredient.optional = true;
+  return ingredient;
+}
+
+/**
+ * Measurements for an ingredient or line item the model wrote. The display
+ * text is what the cook reads, so when it states an amount the parser
+ * reads in full, that amount wins over the model's `measurements`;
+ * otherwise the model's measurements are cleaned up as usual.
+ */
+export function measurementsFromDisplayText(
+  displayText: string | undefined,
+  measurements: InstacartMeasurement[] | undefined,
+): InstacartMeasurement[] {
+  const parsed = displayText?.trim() ? parseIngredientLine(displayText) : undefined;
+  if (parsed?.measurements.length && !UNREAD_AMOUNT.test(parsed.name)) {
+    return parsed.measurements;
+  }
+  return normalizeMeasurements(measurements, displayText);
+}
@@ -0,0 +1,142 @@
+// ============================================================================
+// Kitchly - LLM response helpers
+// ============================================================================
+
+import { ModelType } from '@elizaos/core';
+import type { IAgentRuntime } from '@elizaos/core';
+import { formatSchemaIssues, validate } from './schema.js';
+import type { Schema, SchemaIssue, SchemaResult } from './schema.js';
+
+/**
+ * Extract and parse a JSON payload from a model response, tolerating
+ * markdown code fences around it. Returns `null` when the payload is not
+ * valid JSON.
+ */
+export function parseJsonResponse<T = unknown>(raw: string): T | null {
+  let jsonStr = raw.trim();
+  const fenceMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenceMatch) {
+    jsonStr = fenceMatch[1].trim();
+  }
+
+  try {
+    return JSON.parse(jsonStr) as T;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Schema-checked generation with self-repair
+// ---------------------------------------------------------------------------
+
+/** Model calls per request, counting the first: one try and two repairs. */
+export const MAX_REPAIR_ATTEMPTS = 3;
+
+/** How often one kind of structured output needed repairing. */
+export interface RepairMetrics {
+  /** Requests made (not model calls). */
+  requests: number;
+  /** Requests whose first response was valid. */
+  validFirstTry: number;
+  /** Requests that needed at least one repair and got a valid response. */
+  repaired: number;
+  /** Requests that ran out of attempts. */
+  failed: number;
+  /** Repair prompts sent in total. */
+  repairAttempts: number;
+  /** The most recent issues that triggered a repair, for debugging prompts. */
+  lastIssues?: string[];
+}
+
+const repairMetrics = new Map<string, RepairMetrics>();
+
+function recordRepairOutcome(label: string, attempts: number, ok: boolean, issues: string[]): void {
+  const metrics = repairMetrics.get(label) ?? {
+    requests: 0,
+    validFirstTry: 0,
+    repaired: 0,
+    failed: 0,
+    repairAttempts: 0,
+  };
+  metrics.requests++;
+  metrics.repairAttempts += attempts - 1;
+  if (!ok) metrics.failed++;
+  else if (attempts === 1) metrics.validFirstTry++;
+  else metrics.repaired++;
+  if (issues.length) metrics.lastIssues = issues;
+  repairMetrics.set(label, metrics);
+}
+
+/** Repair counts per kind of output since the agent started. */
+export function getRepairMetrics(): Record<string, RepairMetrics> {
+  return Object.fromEntries(
+    [...repairMetrics].map(([label, metrics]) => [label, { ...metrics }]),
+  );
+}
+
+export function resetRepairMetrics(): void {
+  repairMetrics.clear();
+}
+
+/** Repairs show the model at most this much of its previous answer. */
+const MAX_ECHOED_RESPONSE = 4000;
+
+function buildRepairFeedback(issues: SchemaIssue[], previous: string): string {
+  const echoed =
+    previous.length > MAX_ECHOED_RESPONSE
+      ? `${previous.slice(0, MAX_ECHOED_RESPONSE)}\n... (truncated)`
+      : previous;
+  return `\n\nYOUR PREVIOUS RESPONSE WAS REJECTED. It did not match the required JSON schema:\n${formatSchemaIssues(
+    issues,
+  )}\n\nPrevious response:\n${echoed}\n\nRespond again with the complete JSON, fixing every problem listed above and keeping everything else the same.`;
+}
+
+export interface StructuredRequest<T> {
+  prompt: string;
+  schema: Schema<T>;
+  /** Name the repair metrics are kept under, e.g. `recipe`. */
+  label: string;
+  modelType?: typeof ModelType.TEXT_SMALL | typeof ModelType.TEXT_LARGE;
+  maxAttempts?: number;
+}
+
+/**
+ * Ask the model for JSON and check it against `schema`. Invalid responses
+ * are sent back with the exact problems until one passes or the attempts
+ * run out, in which case this returns `null`.
+ */
+export async function generateStructured<T>(
+  runtime: IAgentRuntime,
+  request: StructuredRequest<T>,
+): Promise<T | null> {
+  const maxAttempts = request.maxAttempts ?? MAX_REPAIR_ATTEMPTS;
+  let feedback = '';
+  let seen: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const raw = (await runtime.useModel(request.modelType ?? ModelType.TEXT_LARGE, {
+      prompt: request.prompt + feedback,
+    })) as string;
+
+    const parsed = parseJsonResponse(raw);
+    const result: SchemaResult<T> =
+      parsed === null
+        ? { ok: false, issues: [{ path: '', message: 'expected JSON, got text that does not parse' }] }
+        : validate(request.schema, parsed);
+
+    if (result.ok) {
+      recordRepairOutcome(request.label, attempt, true, seen);
+      return result.value;
+    }
+
+    seen = result.issues.map((i) => `${i.path || '(response)'}: ${i.message}`);
+    console.warn(
+      `[Kitchly] Invalid ${request.label} JSON from the model (attempt ${attempt} of ${maxAttempts}):\n${formatSchemaIssues(result.issues)}`,
+    );
+    feedback = buildRepairFeedback(result.issues, raw.trim());
+  }
+
+  recordRepairOutcome(request.label, maxAttempts, false, seen);
+  return null;
+}
@@ -0,0 +1,344 @@
+// ============================================================================
+// Kitchly - Measurement locale
+//
+// Turns the user's measurement-locale and oven-type preferences into
+// generation rules, and converts recipes and shopping lists deterministically
+// -- quantities through the units engine, oven temperatures by rewriting
+// °F / °C (and the fan-oven offset) in the instructions -- so switching
+// locale never needs a regeneration.
+// ============================================================================
+
+import type {
+  InstacartIngredient,
+  InstacartLineItem,
+  InstacartMeasurement,
+  KitchenState,
+  MealPlan,
+  MeasurementLocale,
+  Menu,
+  OvenType,
+  Recipe,
+  UserPreferences,
+} from '../types/index.js';
+import {
+  convertMeasurement,
+  expressInUnits,
+  mapIngredientMeasurements,
+  unitKind,
+  unitSystem,
+} from './units.js';
+
+// ---------------------------------------------------------------------------
+// Locale profiles
+// ---------------------------------------------------------------------------
+
+type TemperatureScale = 'F' | 'C';
+
+interface LocaleProfile {
+  temperature: TemperatureScale;
+  /** Volume units for amounts of 60 ml and up, largest first. */
+  volumeUnits: string[];
+  /** Volume units for small amounts (spoon measures). */
+  spoonUnits: string[];
+  weightUnits: string[];
+  /** Weigh dry ingredients (flour, sugar, butter) rather than measuring cups of them. */
+  weighDryGoods: boolean;
+  /** Instruction line for generation prompts. */
+  rule: string;
+}
+
+const LOCALE_PROFILES: Record<MeasurementLocale, LocaleProfile> = {
+  us: {
+    temperature: 'F',
+    volumeUnits: ['cup', 'tablespoon', 'teaspoon'],
+    spoonUnits: ['tablespoon', 'teaspoon'],
+    weightUnits: ['pound', 'ounce'],
+    weighDryGoods: false,
+    rule: 'Use standard US measurements (cups, tablespoons, teaspoons, ounces, pounds) and oven temperatures in °F.',
+  },
+  metric: {
+    temperature: 'C',
+    volumeUnits: ['liter', 'milliliter'],
+    spoonUnits: ['tablespoon', 'teaspoon'],
+    weightUnits: ['kilogram', 'gram'],
+    weighDryGoods: true,
+    rule: 'Use metric measurements: grams and kilograms for solids, millilitres and litres for liquids, teaspoons and tablespoons only for small amounts. Oven temperatures in °C.',
+  },
+  uk: {
+    temperature: 'C',
+    volumeUnits: ['liter', 'milliliter'],
+    spoonUnits: ['tablespoon', 'teaspoon'],
+    weightUnits: ['kilogram', 'gram'],
+    weighDryGoods: true,
+    rule: 'Use UK measurements: weigh solids in grams and kilograms (including flour, sugar and butter), measure liquids in millilitres and litres, and use 15 ml tablespoons and 5 ml teaspoons for small amounts. Never use cups. Oven temperatures in °C.',
+  },
+  au: {
+    temperature: 'C',
+    volumeUnits: ['liter', 'milliliter'],
+    // Australian tablespoons are 20 ml, so small amounts read as teaspoons
+    spoonUnits: ['teaspoon'],
+    weightUnits: ['kilogram', 'gram'],
+    weighDryGoods: true,
+    rule: 'Use Australian measurements: grams and kilograms for solids, millilitres and litres for liquids. An Australian tablespoon is 20 ml, so give small amounts in teaspoons or millilitres rather than tablespoons. Oven temperatures in °C.',
+  },
+};
+
+/** Below this volume, amounts are given in spoon measures. */
+const SPOON_LIMIT_ML = 60;
+
+/** Fan ovens are set this much lower than conventional ones. */
+const FAN_OFFSET_C = 20;
+
+/** Ingredients measured by volume even where dry goods are weighed. */
+const LIQUID_PATTERN =
+  /\b(?:water|milk|buttermilk|stock|broth|oil|cream|juice|wine|beer|vinegar|sauce|syrup|honey|extract)\b/i;
+
+/** Steps whose temperatures are oven settings (and so depend on the oven type). */
+const OVEN_STEP_PATTERN = /\b(?:oven|preheat|bake|baking|roast|roasting)\b/i;
+
+/** "425°F", "220 °C", "350 degrees F", "180 degrees Celsius", "425F". */
+const TEMPERATURE_PATTERN =
+  /(\d{2,3})(?:\s*(?:°|º|degrees?)\s*([FC])(?:ahrenheit|elsius)?|([FC])\b)/gi;
+
+function targetLocale(prefs: UserPreferences | undefined): MeasurementLocale {
+  return prefs?.measurementLocale ?? 'us';
+}
+
+function targetOven(prefs: UserPreferences | undefined): OvenType {
+  return prefs?.ovenType ?? 'conventional';
+}
+
+/** True when neither the user nor the item has ever chosen a locale or oven. */
+function isUnlocalized(
+  prefs: UserPreferences | undefined,
+  item: { locale?: MeasurementLocale; ovenType?: OvenType },
+): boolean {
+  return !prefs?.measurementLocale && !prefs?.ovenType && !item.locale && !item.ovenType;
+}
+
+// ---------------------------------------------------------------------------
+// Prompt rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the "Measurements" block appended to generation prompts, covering
+ * the unit system, temperature scale and oven type.
+ */
+export function formatLocaleForPrompt(prefs: UserPreferences | undefined): string {
+  let rule = LOCALE_PROFILES[targetLocale(prefs)].rule;
+  if (targetOven(prefs) === 'fan') {
+    rule +=
+      ' The cook has a fan (convection) oven: give fan-oven temperatures, about 20°C / 25°F lower than for a conventional oven.';
+  }
+  return `\n\nMeasurements: ${rule}`;
+}
+
+// ---------------------------------------------------------------------------
+// Quantities
+// ---------------------------------------------------------------------------
+
+/**
+ * Re-express one measurement for a locale: spoon measures for small
+ * volumes, weights for dry goods where the locale weighs them, and the
+ * locale's units otherwise.
+ */
+function localizeMeasurement(
+  measurement: InstacartMeasurement,
+  ingredientName: string,
+  profile: LocaleProfile,
+): InstacartMeasurement {
+  const kind = unitKind(measurement.unit);
+
+  if (kind === 'volume') {
+    const ml = convertMeasurement(measurement, 'milliliter')?.quantity ?? 0;
+    if (ml < SPOON_LIMIT_ML) return expressInUnits(measurement, profile.spoonUnits);
+    if (profile.weighDryGoods && !LIQUID_PATTERN.test(ingredientName)) {
+      const grams = convertMeasurement(measurement, 'gram', ingredientName);
+      if (grams) return expressInUnits(grams, profile.weightUnits);
+    }
+    return expressInUnits(measurement, profile.volumeUnits);
+  }
+
+  if (kind === 'weight') {
+    // Metric weights of dry goods go back to cups where cups are the norm
+    if (!profile.weighDryGoods && unitSystem(measurement.unit) === 'metric') {
+      const ml = convertMeasurement(measurement, 'milliliter', ingredientName);
+      if (ml && ml.quantity >= SPOON_LIMIT_ML) return expressInUnits(ml, profile.volumeUnits);
+    }
+    return expressInUnits(measurement, profile.weightUnits);
+  }
+  return measurement;
+}
+
+function localizeIngredient(
+  ingredient: InstacartIngredient,
+  profile: LocaleProfile,
+): InstacartIngredient {
+  return mapIngredientMeasurements(ingredient, (m) =>
+    localizeMeasurement(m, ingredient.name, profile),
+  );
+}
+
+function localizeLineItem(item: InstacartLineItem, profile: LocaleProfile): InstacartLineItem {
+  const { measurements, ...rest } = localizeIngredient(
+    { name: item.name, display_text: item.display_text, measurements: item.line_item_measurements },
+    profile,
+  );
+  return { ...item, ...rest, line_item_measurements: measurements };
+}
+
+// ---------------------------------------------------------------------------
+// Temperatures
+// ---------------------------------------------------------------------------
+
+/** Oven dials step in 25°F / 10°C; other temperatures round to 5 degrees. */
+function roundTemperature(value: number, scale: TemperatureScale, isOvenStep: boolean): number {
+  const step = isOvenStep ? (scale === 'F' ? 25 : 10) : 5;
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Rewrite the temperatures in one instruction for a scale and oven type.
+ * The scale of each temperature is read from the text; the oven offset
+ * is only applied to oven settings, and only when the oven type changes.
+ */
+function localizeTemperatures(
+  step: string,
+  scale: TemperatureScale,
+  fromOven: OvenType,
+  toOven: OvenType,
+): string {
+  const isOvenStep = OVEN_STEP_PATTERN.test(step);
+
+  return step.replace(TEMPERATURE_PATTERN, (match, digits: string, unit?: string, bare?: string) => {
+    const from = (unit || bare || '').toUpperCase() as TemperatureScale;
+    const value = parseInt(digits, 10);
+    // A bare "F"/"C" after a small number is more likely a size or a cup count
+    if (bare && value < 100) return match;
+
+    let celsius = from === 'F' ? ((value - 32) * 5) / 9 : value;
+    if (isOvenStep && fromOven !== toOven) {
+      celsius += toOven === 'fan' ? -FAN_OFFSET_C : FAN_OFFSET_C;
+    }
+    if (from === scale && !(isOvenStep && fromOven !== toOven)) return match;
+
+    const converted = scale === 'F' ? (celsius * 9) / 5 + 32 : celsius;
+    return `${roundTemperature(converted, scale, isOvenStep)}°${scale}`;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Recipes, meal plans and state
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a recipe to the user's measurement locale and oven type without
+ * regenerating it. Recipes record the locale and oven they are written
+ * for, so converting twice is a no-op. Recipes nobody has localized are
+ * left untouched while the user has no locale preference.
+ */
+export function localizeRecipe(recipe: Recipe, prefs: UserPreferences | undefined): Recipe {
+  if (isUnlocalized(prefs, recipe)) return recipe;
+
+  const locale = targetLocale(prefs);
+  const ovenType = targetOven(prefs);
+  if (recipe.locale === locale && (recipe.ovenType ?? 'conventional') === ovenType) {
+    return recipe;
+  }
+
+  const profile = LOCALE_PROFILES[locale];
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients.map((ing) => localizeIngredient(ing, profile)),
+    instructions: recipe.instructions.map((step) =>
+      localizeTemperatures(step, profile.temperature, recipe.ovenType ?? 'conventional', ovenType),
+    ),
+    locale,
+    ovenType,
+  };
+}
+
+/**
+ * Convert a meal plan's shopping list, and the full recipes written for
+ * its meals, to the user's measurement locale and oven type.
+ */
+export function localizeMealPlan(plan: MealPlan, prefs: UserPreferences | undefined): MealPlan {
+  if (isUnlocalized(prefs, plan)) return plan;
+
+  const days = plan.days.map((day) => {
+    const meals = day.meals.map((meal) => {
+      if (!meal.fullRecipe) return meal;
+      const fullRecipe = localizeRecipe(meal.fullRecipe, prefs);
+      return fullRecipe === meal.fullRecipe ? meal : { ...meal, fullRecipe };
+    });
+    return meals.every((m, i) => m === day.meals[i]) ? day : { ...day, meals };
+  });
+  const locale = targetLocale(prefs);
+  const listChanged = plan.locale !== locale;
+  if (!listChanged && days.every((d, i) => d === plan.days[i])) return plan;
+
+  const profile = LOCALE_PROFILES[locale];
+  return {
+    ...plan,
+    days,
+    consolidatedList: listChanged
+      ? plan.consolidatedList.map((item) => localizeLineItem(item, profile))
+      : plan.consolidatedList,
+    locale,
+  };
+}
+
+/** Convert a menu's courses and combined shopping list to the user's locale and oven type. */
+export function localizeMenu(menu: Menu, prefs: UserPreferences | undefined): Menu {
+  if (isUnlocalized(prefs, menu)) return menu;
+
+  const courses = menu.courses.map((c) => {
+    const recipe = localizeRecipe(c.recipe, prefs);
+    return recipe === c.recipe ? c : { ...c, recipe };
+  });
+  const locale = targetLocale(prefs);
+  const listChanged = menu.locale !== locale;
+  if (!listChanged && courses.every((c, i) => c === menu.courses[i])) return menu;
+
+  const profile = LOCALE_PROFILES[locale];
+  return {
+    ...menu,
+    courses,
+    shoppingList: listChanged
+      ? menu.shoppingList.map((item) => localizeLineItem(item, profile))
+      : menu.shoppingList,
+    locale,
+  };
+}
+
+/**
+ * The state updates needed to bring the active recipe, cook-along, meal
+ * plan and menu into the user's (possibly just changed) locale and oven type.
+ */
+export function localizeKitchenState(
+  state: KitchenState,
+  prefs: UserPreferences | undefined,
+): Partial<KitchenState> {
+  const updates: Partial<KitchenState> = {};
+
+  if (state.currentRecipe) {
+    const recipe = localizeRecipe(state.currentRecipe, prefs);
+    if (recipe !== state.currentRecipe) updates.currentRecipe = recipe;
+  }
+  if (state.cookingSession) {
+    const recipe = localizeRecipe(state.cookingSession.recipe, prefs);
+    if (recipe !== state.cookingSession.recipe) {
+      updates.cookingSession = { ...state.cookingSession, recipe };
+    }
+  }
+  if (state.currentMealPlan) {
+    const plan = localizeMealPlan(state.currentMealPlan, prefs);
+    if (plan !== state.currentMealPlan) updates.currentMealPlan = plan;
+  }
+  if (state.currentMenu) {
+    const menu = localizeMenu(state.currentMenu, prefs);
+    if (menu !== state.currentMenu) updates.currentMenu = menu;
+  }
+
+  return updates;
+}
@@ -0,0 +1,211 @@
+// ============================================================================
+// Kitchly - Meal plan lookups
+//
+// Finds the day or meal of the active plan a message is about -- "Wednesday
+// dinner", "tomorrow's lunch", "day 3", "the salmon" -- and keeps the plan
+// in step when its meals change: the plain-text summary stored with it and
+// the full recipes written for its meals.
+// ============================================================================
+
+import type { MealPlan, MealPlanDay, Recipe } from '../types/index.js';
+
+export type PlannedMeal = MealPlanDay['meals'][number];
+export type MealType = PlannedMeal['type'];
+
+/** A day of the plan, and one of its meals when the message names one. */
+export interface PlanSlot {
+  day: number;
+  meal?: number;
+}
+
+// How plans label their days: "Monday", "Mon", "Tues"
+const WEEKDAY_LABELS = [
+  /\bsun(?:day)?\b/,
+  /\bmon(?:day)?\b/,
+  /\btue(?:s|sday)?\b/,
+  /\bwed(?:nesday)?\b/,
+  /\bthu(?:rs?|rsday)?\b/,
+  /\bfri(?:day)?\b/,
+  /\bsat(?:urday)?\b/,
+];
+
+// How users name them -- no "sun", "sat" or "mon", which turn up in
+// recipe names ("sun-dried tomato pasta")
+const WEEKDAY_WORDS = [
+  /\bsunday\b/,
+  /\bmonday\b/,
+  /\btue(?:s|sday)?\b/,
+  /\bwed(?:s|nesday)?\b/,
+  /\bthu(?:rs?|rsday)?\b/,
+  /\bfri(?:day)?\b/,
+  /\bsaturday\b/,
+];
+
+const MEAL_TYPE_PATTERNS: [MealType, RegExp][] = [
+  ['breakfast', /\bbreakfast\b/],
+  ['lunch', /\blunch\b/],
+  ['dinner', /\b(?:dinner|supper|tonight'?s?)\b/],
+  ['snack', /\bsnacks?\b/],
+];
+
+// Words too common in recipe names to pick a meal out by
+const STOP_WORDS = new Set([
+  'with', 'and', 'the', 'for', 'easy', 'quick', 'simple', 'style', 'homemade', 'classic',
+]);
+
+/** The meal type a message names, if any. */
+export function parseMealType(text: string): MealType | undefined {
+  const lower = text.toLowerCase();
+  return MEAL_TYPE_PATTERNS.find(([, pattern]) => pattern.test(lower))?.[0];
+}
+
+/** Which weekday a plan day is, for plans whose days are named "Monday", "Tue", ... */
+function planWeekday(day: MealPlanDay): number {
+  const lower = day.day.toLowerCase();
+  return WEEKDAY_LABELS.findIndex((pattern) => pattern.test(lower));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The plan day a message names: a weekday, "day 3", the plan's own label
+ * for the day, or "today"/"tonight"/"tomorrow" (for plans laid out by
+ * weekday, or counted from the first day otherwise).
+ */
+export function findPlanDay(plan: MealPlan, text: string, now = new Date()): number | undefined {
+  const lower = text.toLowerCase();
+
+  const labelled = plan.days.findIndex((d) =>
+    new RegExp(`\\b${escapeRegExp(d.day.toLowerCase())}\\b`).test(lower),
+  );
+  if (labelled >= 0) return labelled;
+
+  const dayNumber = lower.match(/\bday\s+(\d{1,2})\b/);
+  if (dayNumber) {
+    const index = parseInt(dayNumber[1], 10) - 1;
+    return index >= 0 && index < plan.days.length ? index : undefined;
+  }
+
+  let weekday = WEEKDAY_WORDS.findIndex((pattern) => pattern.test(lower));
+  let offset: number | undefined;
+  if (/\btomorrow\b/.test(lower)) offset = 1;
+  else if (/\b(?:today|tonight)\b/.test(lower)) offset = 0;
+  if (weekday < 0 && offset !== undefined) {
+    if (plan.days.every((d) => planWeekday(d) < 0)) {
+      return offset < plan.days.length ? offset : undefined;
+    }
+    weekday = (now.getDay() + offset) % 7;
+  }
+  if (weekday < 0) return undefined;
+  const index = plan.days.findIndex((d) => planWeekday(d) === weekday);
+  return index >= 0 ? index : undefined;
+}
+
+/** Significant words of a recipe name: "Honey Garlic Salmon" -> honey, garlic, salmon. */
+function nameWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+}
+
+/** The one meal whose recipe name the message mentions most of, if it's clear which. */
+function findMealByName(plan: MealPlan, text: string, days: number[]): PlanSlot | undefined {
+  const words = new Set(text.toLowerCase().split(/[^a-z]+/));
+  let best: PlanSlot | undefined;
+  let bestScore = 0;
+  let tied = false;
+  for (const day of days) {
+    plan.days[day].meals.forEach((meal, index) => {
+      const score = nameWords(meal.recipe).filter((w) => words.has(w)).length;
+      if (score > bestScore) {
+        best = { day, meal: index };
+        bestScore = score;
+        tied = false;
+      } else if (score > 0 && score === bestScore) {
+        tied = true;
+      }
+    });
+  }
+  return tied ? undefined : best;
+}
+
+/**
+ * The day, or the meal, of the plan a message is about. A day and a meal
+ * type ("Wednesday dinner") pick one meal; a day alone picks the whole
+ * day; a meal type alone only works when the plan has one day with that
+ * meal. Failing those, a meal is picked by its recipe name ("the salmon").
+ */
+export function findPlanSlot(plan: MealPlan, text: string, now = new Date()): PlanSlot | undefined {
+  const day = findPlanDay(plan, text, now);
+  const type = parseMealType(text);
+  const days = day !== undefined ? [day] : plan.days.map((_, i) => i);
+
+  if (type) {
+    const matches = days.flatMap((d) => {
+      const meal = plan.days[d].meals.findIndex((m) => m.type === type);
+      return meal >= 0 ? [{ day: d, meal }] : [];
+    });
+    if (matches.length === 1) return matches[0];
+  }
+
+  const byName = findMealByName(plan, text, days);
+  if (byName) return byName;
+  return day !== undefined && !type ? { day } : undefined;
+}
+
+/**
+ * The one meal a message clearly points at, for when a loose match would
+ * hijack a request about something else ("cook the chicken parmesan" is
+ * not the plan's chicken stir fry): it must name a day or meal type, or
+ * the meal's whole recipe name.
+ */
+export function findPlanMeal(
+  plan: MealPlan,
+  text: string,
+  now = new Date(),
+): Required<PlanSlot> | undefined {
+  const slot = findPlanSlot(plan, text, now);
+  if (slot?.meal === undefined) return undefined;
+  const found = { day: slot.day, meal: slot.meal };
+  if (findPlanDay(plan, text, now) !== undefined || parseMealType(text)) return found;
+
+  const words = new Set(text.toLowerCase().split(/[^a-z]+/));
+  const name = nameWords(plan.days[slot.day].meals[slot.meal].recipe);
+  return name.length && name.every((w) => words.has(w)) ? found : undefined;
+}
+
+/** The plan with `recipe` stored as the full recipe for the meal at `slot`. */
+export function withPlanRecipe(plan: MealPlan, slot: PlanSlot, recipe: Recipe): MealPlan {
+  return {
+    ...plan,
+    days: plan.days.map((day, i) =>
+      i !== slot.day
+        ? day
+        : {
+            ...day,
+            meals: day.meals.map((meal, j) => (j === slot.meal ? { ...meal, fullRecipe: recipe } : meal)),
+          },
+    ),
+  };
+}
+
+/** "Wednesday dinner" / "Wednesday" -- how a slot is named back to the user. */
+export function formatPlanSlot(plan: MealPlan, slot: PlanSlot): string {
+  const day = plan.days[slot.day];
+  return slot.meal === undefined ? day.day : `${day.day} ${day.meals[slot.meal].type}`;
+}
+
+/** The plan's meals as plain text, one line per meal under each day. */
+export function formatMealPlanText(days: MealPlanDay[]): string {
+  const lines: string[] = [];
+  for (const day of days) {
+    lines.push(day.day + ':');
+    for (const meal of day.meals) {
+      lines.push(`  ${meal.type}: ${meal.recipe}`);
+    }
+  }
+  return lines.join('\n');
+}
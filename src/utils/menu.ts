@@ -0,0 +1,375 @@
+// ============================================================================
+// Kitchly - Multi-course menus
+//
+// Reads a menu request ("starter, main and dessert for 6 at 7pm"), merges
+// the courses' ingredients into one shopping list, and schedules every
+// step back from the serving time using each recipe's prep and cook
+// durations: prep steps fill the prep window, steps at the stove or oven
+// fill the cook window that ends when the course is served, and preheating
+// happens just before the cooking starts.
+// ============================================================================
+
+import type {
+  InstacartLineItem,
+  Menu,
+  MenuCourse,
+  MenuTimelineEntry,
+  Recipe,
+} from '../types/index.js';
+import { addToShoppingList } from './shoppingList.js';
+import { cartIngredients } from './ingredientGroups.js';
+import { isCookingStep } from './equipment.js';
+import { durationMinutes } from './recipeExport.js';
+import { formatDuration } from './recipeImport.js';
+
+/** Minutes between courses served one after another. */
+export const COURSE_INTERVAL_MINUTES = 30;
+
+/** Prep time assumed for a recipe that doesn't give one. */
+const DEFAULT_PREP_MINUTES = 15;
+
+/** How long before the cooking starts the oven goes on. */
+const PREHEAT_MINUTES = 15;
+
+/** Least time given to a cooking step that doesn't say how long it takes. */
+const MIN_STEP_MINUTES = 5;
+
+/** Serving time when the request doesn't give one. */
+export const DEFAULT_SERVE_AT = 19 * 60;
+
+const PREHEAT = /\bpreheat\b/i;
+
+// ---------------------------------------------------------------------------
+// Reading the request
+// ---------------------------------------------------------------------------
+
+interface CourseKind {
+  name: string;
+  pattern: RegExp;
+  /** Serving order; courses sharing a slot come out together. */
+  slot: number;
+}
+
+const COURSES: CourseKind[] = [
+  {
+    name: 'starter',
+    pattern: /\b(?:starters?|appeti[sz]ers?|hors d'?oeuvres?|canap[eé]s?|first course)\b/,
+    slot: 0,
+  },
+  { name: 'soup', pattern: /\bsoups?\b/, slot: 1 },
+  { name: 'salad', pattern: /\bsalads?\b/, slot: 2 },
+  { name: 'main', pattern: /\b(?:mains?|main (?:course|dish)|entr[eé]es?)\b/, slot: 3 },
+  { name: 'side', pattern: /\b(?:side dish(?:es)?|sides)\b|\ba side\b/, slot: 3 },
+  { name: 'dessert', pattern: /\b(?:desserts?|puddings?|sweets)\b/, slot: 4 },
+];
+
+/** The courses of an "N-course" menu. */
+const COURSES_BY_COUNT: Record<number, string[]> = {
+  2: ['main', 'dessert'],
+  3: ['starter', 'main', 'dessert'],
+  4: ['starter', 'salad', 'main', 'dessert'],
+  5: ['starter', 'soup', 'salad', 'main', 'dessert'],
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12,
+};
+
+const COUNT = `(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+function countValue(text: string): number {
+  return NUMBER_WORDS[text] ?? parseInt(text, 10);
+}
+
+function courseKind(course: string): CourseKind | undefined {
+  const name = course.toLowerCase().trim();
+  return COURSES.find((c) => c.name === name) ?? COURSES.find((c) => c.pattern.test(name));
+}
+
+/** "Appetizer" -> "starter"; unknown courses are kept as written. */
+export function canonicalCourse(course: string): string {
+  return courseKind(course)?.name ?? course.toLowerCase().trim();
+}
+
+export function courseLabel(course: string): string {
+  return course.charAt(0).toUpperCase() + course.slice(1);
+}
+
+/** Courses in serving order; unknown ones keep their place after the course before them. */
+export function sortCourses<T extends { course: string }>(courses: T[]): T[] {
+  let previous = -1;
+  const slots = courses.map((c) => {
+    previous = courseKind(c.course)?.slot ?? previous + 0.5;
+    return previous;
+  });
+  return courses
+    .map((c, i) => ({ c, slot: slots[i], i }))
+    .sort((a, b) => a.slot - b.slot || a.i - b.i)
+    .map(({ c }) => c);
+}
+
+/** The courses a request names, in serving order: "starter, main and dessert". */
+export function parseCourses(text: string): string[] {
+  const t = text.toLowerCase();
+  const named = COURSES.filter((c) => c.pattern.test(t)).map((c) => c.name);
+  if (named.length) return named;
+  const count = t.match(new RegExp(`\\b${COUNT}[- ]courses?\\b`));
+  return COURSES_BY_COUNT[count ? countValue(count[1]) : 3] ?? COURSES_BY_COUNT[3];
+}
+
+/** How many people a request is for: "for 6", "eight guests". */
+export function parseGuestCount(text: string): number | undefined {
+  const t = text.toLowerCase();
+  const match =
+    t.match(new RegExp(`\\b${COUNT}\\s+(?:people|guests|persons|adults|of us)\\b`)) ??
+    t.match(new RegExp(`\\bfor\\s+${COUNT}\\b(?!\\s*(?:[:.]\\d|[ap]\\.?m\\b|o'?clock|-course|courses?\\b))`));
+  const count = match ? countValue(match[1]) : NaN;
+  return count > 0 ? count : undefined;
+}
+
+/**
+ * When the first course is served, in minutes after midnight: "at 7pm",
+ * "7:30 p.m.", "at 19:00". An evening hour is assumed for "at 7".
+ */
+export function parseServeTime(text: string): number | undefined {
+  const t = text.toLowerCase();
+  if (/\bnoon\b/.test(t)) return 12 * 60;
+
+  const meridiem = t.match(/\b(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?m\b/);
+  if (meridiem) {
+    const hour = parseInt(meridiem[1], 10) % 12;
+    if (hour > 11) return undefined;
+    return (hour + (meridiem[3] === 'p' ? 12 : 0)) * 60 + parseInt(meridiem[2] ?? '0', 10);
+  }
+
+  const clock = t.match(
+    /\b(?:at|by|around|about)\s+(\d{1,2})(?:[:.](\d{2}))?\b(?!\s*(?:people|guests|persons|of\b|-course|courses?\b))/,
+  );
+  if (!clock) return undefined;
+  let hour = parseInt(clock[1], 10);
+  if (hour > 23) return undefined;
+  // "at 7" for a dinner means the evening
+  if (hour >= 1 && hour <= 10) hour += 12;
+  return hour * 60 + parseInt(clock[2] ?? '0', 10);
+}
+
+/** "7:00 PM", or "11:30 PM (the day before)" for times before midnight of the day. */
+export function formatClock(minutes: number): string {
+  const inDay = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  const hour = Math.floor(inDay / 60);
+  const clock = `${hour % 12 || 12}:${String(inDay % 60).padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`;
+  return minutes < 0 ? `${clock} (the day before)` : clock;
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+function roundDown(minutes: number): number {
+  return Math.floor(minutes / 5) * 5;
+}
+
+/**
+ * The time each course is served: the first at `serveAt`, then one
+ * interval per course after it. Courses sharing a slot (a main and its
+ * side) come out together.
+ */
+function courseServeTimes(courses: string[], serveAt: number): number[] {
+  let rank = -1;
+  let previousSlot: number | undefined;
+  return courses.map((course, i) => {
+    const slot = courseKind(course)?.slot;
+    if (i === 0 || slot === undefined || slot !== previousSlot) rank++;
+    previousSlot = slot;
+    return serveAt + rank * COURSE_INTERVAL_MINUTES;
+  });
+}
+
+/**
+ * How long each cooking step takes: the time it names ("braise for 2
+ * hours", "rest 10 minutes"), with the steps that name none sharing what
+ * is left of the cook time. Scaled down when the steps add up to more.
+ */
+function cookStepMinutes(steps: string[], cookMinutes: number): number[] {
+  const stated = steps.map((s) => durationMinutes(s));
+  const statedTotal = stated.reduce<number>((sum, m) => sum + (m ?? 0), 0);
+  const unstated = stated.filter((m) => m === undefined).length;
+  const share = unstated
+    ? Math.max((cookMinutes - statedTotal) / unstated, MIN_STEP_MINUTES)
+    : 0;
+  const minutes = stated.map((m) => m ?? share);
+  const total = minutes.reduce((sum, m) => sum + m, 0);
+  return total > cookMinutes && total > 0
+    ? minutes.map((m) => (m * cookMinutes) / total)
+    : minutes;
+}
+
+/** One course's steps, scheduled back from when it is served, plus serving it. */
+function scheduleCourse(recipe: Recipe, serveAt: number, course: number): MenuTimelineEntry[] {
+  const cookMinutes = durationMinutes(recipe.cookTime) ?? 0;
+  const prepMinutes = durationMinutes(recipe.prepTime) ?? DEFAULT_PREP_MINUTES;
+  const cookStart = serveAt - cookMinutes;
+  const prepStart = cookStart - prepMinutes;
+
+  // Steps before the first one at the stove or oven are prep; with no such
+  // step (a salad, a chilled dessert) every step is
+  const steps = recipe.instructions;
+  const firstCooking = steps.findIndex((s) => !PREHEAT.test(s) && isCookingStep(s));
+  const split = firstCooking < 0 ? steps.length : firstCooking;
+  const prepSteps = steps.slice(0, split).filter((s) => !PREHEAT.test(s)).length;
+  const cookSteps = cookStepMinutes(steps.slice(split), cookMinutes);
+
+  const entries: MenuTimelineEntry[] = [];
+  let prepIndex = 0;
+  let cookAt = cookStart;
+  steps.forEach((text, step) => {
+    let at: number;
+    if (PREHEAT.test(text)) {
+      at = Math.max(prepStart, cookStart - PREHEAT_MINUTES);
+    } else if (step < split) {
+      at = prepStart + ((cookStart - prepStart) * prepIndex++) / prepSteps;
+    } else {
+      at = cookAt;
+      cookAt += cookSteps[step - split];
+    }
+    entries.push({ at: roundDown(at), course, step });
+  });
+  entries.push({ at: serveAt, course });
+  return entries;
+}
+
+/**
+ * Give each course its serving time and build the menu's timeline, in
+ * time order. Steps come before serving at the same minute, and each
+ * course's steps stay in recipe order.
+ */
+export function scheduleMenu(
+  courses: { course: string; recipe: Recipe }[],
+  serveAt: number,
+): { courses: MenuCourse[]; timeline: MenuTimelineEntry[] } {
+  const times = courseServeTimes(
+    courses.map((c) => c.course),
+    serveAt,
+  );
+  const scheduled = courses.map((c, i) => ({ ...c, serveAt: times[i] }));
+  const timeline = scheduled
+    .flatMap((c, i) => scheduleCourse(c.recipe, c.serveAt, i))
+    .sort(
+      (a, b) =>
+        a.at - b.at ||
+        Number(a.step === undefined) - Number(b.step === undefined) ||
+        a.course - b.course ||
+        (a.step ?? 0) - (b.step ?? 0),
+    );
+  return { courses: scheduled, timeline };
+}
+
+// ---------------------------------------------------------------------------
+// Shopping list
+// ---------------------------------------------------------------------------
+
+/**
+ * One shopping list for several recipes. The same grocery is listed once
+ * with its amounts added up, unless the amounts can't be added (cloves
+ * and grams of garlic), in which case each is listed.
+ */
+export function combineShoppingList(
+  recipes: Recipe[],
+  includeOptional = true,
+): InstacartLineItem[] {
+  return addToShoppingList(
+    [],
+    recipes.flatMap((recipe) => cartIngredients(recipe.ingredients, includeOptional)),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Cooking the menu
+// ---------------------------------------------------------------------------
+
+/** Whether a message is about the whole menu rather than one dish. */
+export function refersToMenu(text: string): boolean {
+  return /\b(?:menu|dinner party|(?:all|every|each) (?:of )?(?:the |three |four |five )?courses?|whole (?:meal|dinner|thing))\b/i.test(
+    text,
+  );
+}
+
+/** The course a message names, by course ("the dessert") or by dish. */
+export function findMenuCourse(menu: Menu, text: string): number | undefined {
+  const t = text.toLowerCase();
+  const byTitle = menu.courses.findIndex((c) => t.includes(c.recipe.title.toLowerCase()));
+  if (byTitle >= 0) return byTitle;
+  const byCourse = menu.courses.findIndex((c) => {
+    const kind = courseKind(c.course);
+    return kind ? kind.pattern.test(t) : t.includes(c.course);
+  });
+  return byCourse >= 0 ? byCourse : undefined;
+}
+
+/** "6:15 PM -- Main (Braised Short Ribs): Preheat the oven to 350°F." */
+export function formatTimelineEntry(menu: Menu, entry: MenuTimelineEntry): string {
+  const { course, recipe } = menu.courses[entry.course];
+  const text =
+    entry.step === undefined
+      ? `Serve the ${course}: ${recipe.title}.`
+      : `${courseLabel(course)} (${recipe.title}): ${recipe.instructions[entry.step]}`;
+  return `${formatClock(entry.at)} -- ${text}`;
+}
+
+/**
+ * The whole menu as one recipe for a cook-along: the timeline is its
+ * steps, and every course's ingredients are grouped by course.
+ */
+export function menuSessionRecipe(menu: Menu): Recipe {
+  const first = menu.courses[0]?.recipe;
+  const start = menu.timeline[0]?.at ?? menu.serveAt;
+  const end = Math.max(...menu.courses.map((c) => c.serveAt), menu.serveAt);
+  return {
+    title: menu.title,
+    servings: menu.servings,
+    ingredients: menu.courses.flatMap(({ course, recipe }) =>
+      recipe.ingredients.map((ing) => ({
+        ...ing,
+        group: ing.group ? `${courseLabel(course)}: ${ing.group}` : courseLabel(course),
+      })),
+    ),
+    instructions: menu.timeline.map((entry) => formatTimelineEntry(menu, entry)),
+    cookTime: formatDuration(Math.max(end - start, 0)),
+    equipment: [...new Set(menu.courses.flatMap((c) => c.recipe.equipment ?? []))],
+    locale: first?.locale,
+    ovenType: first?.ovenType,
+  };
+}
+
+/** The menu as markdown: courses with serving times, the timeline and the shopping list. */
+export function formatMenu(menu: Menu): string {
+  const lines: string[] = [`# ${menu.title}`, ''];
+  const start = menu.timeline[0]?.at ?? menu.serveAt;
+  lines.push(
+    `**Serves:** ${menu.servings} | **First course:** ${formatClock(menu.serveAt)} | **Start cooking:** ${formatClock(start)}`,
+    '',
+  );
+
+  lines.push('## Courses', '');
+  for (const { course, recipe, serveAt } of menu.courses) {
+    const times = [
+      recipe.prepTime ? `${recipe.prepTime} prep` : undefined,
+      recipe.cookTime ? `${recipe.cookTime} cooking` : undefined,
+    ].filter(Boolean);
+    lines.push(
+      `- **${courseLabel(course)}** (${formatClock(serveAt)}): ${recipe.title}${
+        times.length ? ` -- ${times.join(', ')}` : ''
+      }`,
+    );
+  }
+  lines.push('');
+
+  lines.push('## Timeline', '');
+  for (const entry of menu.timeline) lines.push(`- ${formatTimelineEntry(menu, entry)}`);
+  lines.push('');
+
+  lines.push(`## Shopping List (${menu.shoppingList.length} items)`, '');
+  for (const item of menu.shoppingList) lines.push(`- ${item.display_text || item.name}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,563 @@
+// ============================================================================
+// Kitchly - Nutrition estimates
+//
+// Estimates calories, macros, fiber and sodium for recipes and meal plans
+// from a bundled table of per-100 g values (USDA-style, raw unless the
+// name says otherwise). Amounts are weighed with the unit-conversion and
+// density data, so "2 cups flour" and "250 g flour" come out the same.
+// Ingredients the table does not know are left out and reported, never
+// guessed.
+// ============================================================================
+
+import type {
+  DayNutrition,
+  InstacartIngredient,
+  InstacartMeasurement,
+  MealPlan,
+  MealPlanNutrition,
+  NutritionFacts,
+  NutritionTargetMiss,
+  NutritionTargets,
+  Recipe,
+  RecipeNutrition,
+} from '../types/index.js';
+import { canonicalizeUnit, convertMeasurement, densityFor, unitKind } from './units.js';
+
+// ---------------------------------------------------------------------------
+// Nutrient table
+// ---------------------------------------------------------------------------
+
+interface NutrientEntry {
+  /** Per 100 g. */
+  per100g: NutritionFacts;
+  /** Grams in one medium item, for counted ingredients ("2 onions"). */
+  each?: number;
+  /** Grams per US cup, where the density table is missing or too general ("cooked rice"). */
+  cup?: number;
+}
+
+function per100g(
+  calories: number,
+  protein: number,
+  carbs: number,
+  fat: number,
+  fiber: number,
+  sodium: number,
+  extra: Omit<NutrientEntry, 'per100g'> = {},
+): NutrientEntry {
+  return { per100g: { calories, protein, carbs, fat, fiber, sodium }, ...extra };
+}
+
+/**
+ * Common ingredients and their nutrients. More specific patterns come
+ * first ("peanut butter" before "butter", "bell pepper" before "pepper").
+ */
+const NUTRIENTS: [RegExp, NutrientEntry][] = [
+  // Seasonings, sauces and liquids -- first, since their names often
+  // contain another ingredient ("chicken stock", "rice vinegar")
+  [/\bwater\b|\bice\b(?! cream)/, per100g(0, 0, 0, 0, 0, 0)],
+  [/\bbaking soda\b/, per100g(0, 0, 0, 0, 0, 27360)],
+  [/\bbaking powder\b/, per100g(53, 0, 28, 0, 0.2, 10600)],
+  [/\bsalt\b/, per100g(0, 0, 0, 0, 0, 38758)],
+  [/\bvinegar\b/, per100g(18, 0, 0.04, 0, 0, 2)],
+  [/\bsoy sauce\b|\btamari\b/, per100g(53, 8.1, 4.9, 0.6, 0.8, 5493)],
+  [/\bfish sauce\b/, per100g(35, 5, 3.6, 0, 0, 7851)],
+  [/\bketchup\b/, per100g(101, 1, 27, 0.1, 0.3, 907)],
+  [/\bmustard\b/, per100g(60, 3.7, 5.8, 3.3, 4, 1135)],
+  [/\bsalsa\b/, per100g(36, 1.5, 7, 0.2, 1.8, 711)],
+  [/\btomato paste\b/, per100g(82, 4.3, 19, 0.5, 4.1, 59)],
+  [/\b(?:tomato sauce|marinara|pasta sauce|passata)\b/, per100g(29, 1.3, 5.6, 0.4, 1.5, 437)],
+  [/\b(?:broth|stock|bouillon)\b/, per100g(7, 1, 0.5, 0.2, 0, 343)],
+  [/\bwine\b/, per100g(85, 0.1, 2.6, 0, 0, 5)],
+  [/\bbeer\b/, per100g(43, 0.5, 3.6, 0, 0, 4)],
+  // Poultry, meat and fish
+  [/\bchicken breasts?\b/, per100g(120, 22.5, 0, 2.6, 0, 45, { each: 175 })],
+  [/\bchicken thighs?\b/, per100g(150, 18.6, 0, 8.4, 0, 84, { each: 115 })],
+  [/\b(?:ground )?turkey\b/, per100g(150, 19.7, 0, 8.3, 0, 70)],
+  [/\bchicken\b/, per100g(143, 17.4, 0, 8.1, 0, 70, { each: 1500 })],
+  [/\bbacon\b/, per100g(458, 11.6, 0.7, 45, 0, 751)],
+  [/\b(?:sausages?|chorizo)\b/, per100g(301, 12, 2, 27, 0, 750, { each: 75 })],
+  [/\bham\b/, per100g(145, 21, 1.5, 5.5, 0, 1200)],
+  [/\bground (?:beef|chuck)\b|\bhamburger\b/, per100g(215, 18.6, 0, 15, 0, 66)],
+  [/\b(?:beef|steak|sirloin|brisket|chuck)\b/, per100g(200, 20, 0, 13, 0, 60)],
+  [/\b(?:pork|lamb)\b/, per100g(180, 20, 0, 11, 0, 55)],
+  [/\bsalmon\b/, per100g(208, 20, 0, 13, 0, 59, { each: 170 })],
+  [/\btuna\b/, per100g(116, 25.5, 0, 0.8, 0, 338)],
+  [/\b(?:shrimp|prawns?)\b/, per100g(85, 20, 0.9, 0.5, 0, 119)],
+  [/\b(?:cod|tilapia|halibut|haddock|white fish|fish fillets?)\b/, per100g(82, 18, 0, 0.7, 0, 54, { each: 170 })],
+  // Vegetarian proteins
+  [/\btofu\b/, per100g(144, 17.3, 2.8, 8.7, 2.3, 14)],
+  [/\btempeh\b/, per100g(192, 20, 7.6, 11, 0, 9)],
+  [/\begg whites?\b/, per100g(52, 10.9, 0.7, 0.2, 0, 166, { each: 33 })],
+  [/\beggs?\b(?! noodles)|\begg yolks?\b/, per100g(143, 12.6, 0.7, 9.5, 0, 142, { each: 44 })],
+  [/\blentils?\b/, per100g(352, 24.6, 63, 1.1, 10.7, 6, { cup: 190 })],
+  [/\bdried (?:\w+ )?(?:beans|chickpeas)\b/, per100g(340, 21, 62, 1.4, 15.5, 5, { cup: 185 })],
+  [/\b(?<!green )(?:beans|chickpeas|garbanzos?)\b/, per100g(120, 7.5, 21, 0.5, 7, 300, { cup: 170 })],
+  // Dairy
+  [/\bbuttermilk\b/, per100g(40, 3.3, 4.8, 0.9, 0, 105)],
+  [/\b(?:almond|soy|oat|rice) milk\b/, per100g(30, 0.8, 3.5, 1.4, 0.4, 60)],
+  [/\bcoconut milk\b/, per100g(197, 2, 2.8, 21, 0, 13, { cup: 226 })],
+  [/\bwhole milk\b/, per100g(61, 3.2, 4.8, 3.3, 0, 43)],
+  [/\b(?:skim|fat-free|nonfat) milk\b/, per100g(34, 3.4, 5, 0.1, 0, 42)],
+  [/\bmilk\b/, per100g(50, 3.3, 4.8, 2, 0, 47)],
+  [/\bsour cream\b/, per100g(198, 2.4, 4.6, 19, 0, 31)],
+  [/\bcream cheese\b/, per100g(342, 6, 5.5, 34, 0, 321)],
+  [/\b(?:heavy|whipping|double) cream\b|\bcream\b/, per100g(340, 2.8, 2.7, 36, 0, 27)],
+  [/\bgreek yog(?:h)?urt\b/, per100g(97, 9, 3.9, 5, 0, 36)],
+  [/\byog(?:h)?urt\b/, per100g(61, 3.5, 4.7, 3.3, 0, 46)],
+  [/\bpeanut butter\b/, per100g(588, 25, 20, 50, 6, 459)],
+  [/\bunsalted butter\b/, per100g(717, 0.9, 0.1, 81, 0, 11)],
+  [/\bbutter\b/, per100g(717, 0.9, 0.1, 81, 0, 576)],
+  [/\bparmesan\b|\bpecorino\b/, per100g(431, 38, 4.1, 29, 0, 1529, { cup: 100 })],
+  [/\bmozzarella\b/, per100g(280, 28, 3.1, 17, 0, 627)],
+  [/\bfeta\b/, per100g(264, 14, 4.1, 21, 0, 1116, { cup: 150 })],
+  [/\bricotta\b/, per100g(174, 11.3, 3, 13, 0, 84, { cup: 246 })],
+  [/\bcheese\b|\bcheddar\b/, per100g(403, 24.9, 1.3, 33, 0, 621)],
+  // Fats and oils
+  [/\bmayo(?:nnaise)?\b/, per100g(680, 1, 0.6, 75, 0, 635, { cup: 220 })],
+  [/\boil\b|\bshortening\b|\blard\b|\bghee\b/, per100g(884, 0, 0, 100, 0, 0)],
+  // Grains and starches
+  [/\btortillas?\b/, per100g(312, 8, 52, 8, 3, 736, { each: 45 })],
+  [/\balmond (?:flour|meal)\b/, per100g(571, 21, 21, 50, 10.7, 0)],
+  [/\bwhole[- ]wheat flour\b/, per100g(340, 13.2, 72, 2.5, 10.7, 2)],
+  [/\b(?:corn ?starch|corn ?flour)\b/, per100g(381, 0.3, 91, 0.1, 0.9, 9)],
+  [/\bflour\b/, per100g(364, 10.3, 76, 1, 2.7, 2)],
+  [/\bcooked (?:\w+ )?rice\b/, per100g(130, 2.7, 28, 0.3, 0.4, 1, { cup: 158 })],
+  [/\bbrown rice\b/, per100g(367, 7.5, 76, 2.7, 3.5, 4)],
+  [/\brice\b/, per100g(365, 7.1, 80, 0.7, 1.3, 5)],
+  [/\bquinoa\b/, per100g(368, 14, 64, 6, 7, 5, { cup: 170 })],
+  [/\boats\b|\boatmeal\b/, per100g(389, 16.9, 66, 6.9, 10.6, 2)],
+  [/\bbread ?crumbs\b|\bpanko\b/, per100g(395, 13, 72, 5, 4.5, 732, { cup: 108 })],
+  [/\b(?:bread|buns?|rolls?|baguette|pita|naan)\b/, per100g(265, 9, 49, 3.2, 2.7, 491, { each: 60 })],
+  [
+    /\b(?:pasta|spaghetti|penne|fusilli|linguine|fettuccine|macaroni|rigatoni|noodles?|lasagna|orzo)\b/,
+    per100g(371, 13, 75, 1.5, 3.2, 6, { cup: 100 }),
+  ],
+  // Sugars and sweeteners
+  [/\bbrown sugar\b/, per100g(380, 0.1, 98, 0, 0, 28)],
+  [/\bsugar\b/, per100g(387, 0, 100, 0, 0, 1)],
+  [/\bhoney\b/, per100g(304, 0.3, 82, 0, 0.2, 4)],
+  [/\bmaple syrup\b/, per100g(260, 0, 67, 0.1, 0, 12)],
+  [/\bcocoa\b/, per100g(228, 19.6, 58, 13.7, 37, 21)],
+  [/\bchocolate\b/, per100g(546, 4.9, 61, 31, 7, 24, { cup: 170 })],
+  [/\bvanilla\b/, per100g(288, 0.1, 12.7, 0.1, 0, 9)],
+  // Vegetables
+  [/\bsweet potato(?:es)?\b/, per100g(86, 1.6, 20, 0.1, 3, 55, { each: 130, cup: 133 })],
+  [/\bpotato(?:es)?\b/, per100g(77, 2, 17, 0.1, 2.2, 6, { each: 213, cup: 150 })],
+  [/\b(?:green onions?|scallions?|spring onions?)\b/, per100g(32, 1.8, 7.3, 0.2, 2.6, 16, { each: 15, cup: 100 })],
+  [/\bshallots?\b/, per100g(72, 2.5, 17, 0.1, 3.2, 12, { each: 25, cup: 160 })],
+  [/\bonions?\b/, per100g(40, 1.1, 9.3, 0.1, 1.7, 4, { each: 110, cup: 160 })],
+  [/\bgarlic\b/, per100g(149, 6.4, 33, 0.5, 2.1, 17, { each: 5, cup: 136 })],
+  [/\bginger\b/, per100g(80, 1.8, 18, 0.8, 2, 13, { cup: 96 })],
+  [/\b(?:canned|diced|crushed|whole peeled) tomatoes\b/, per100g(32, 1.6, 7.3, 0.3, 1.9, 186, { cup: 240 })],
+  [/\btomato(?:es)?\b/, per100g(18, 0.9, 3.9, 0.2, 1.2, 5, { each: 123, cup: 180 })],
+  [/\bcarrots?\b/, per100g(41, 0.9, 9.6, 0.2, 2.8, 69, { each: 61, cup: 128 })],
+  [/\bcelery\b/, per100g(16, 0.7, 3, 0.2, 1.6, 80, { each: 40, cup: 101 })],
+  [
+    /\bbell peppers?\b|\b(?:red|green|yellow|orange) peppers?\b(?! flakes)|\bpeppers\b/,
+    per100g(31, 1, 6, 0.3, 2.1, 4, { each: 120, cup: 149 }),
+  ],
+  [/\b(?:jalape[nñ]os?|chil(?:e|i|li)(?:e?s)?)\b(?! (?:powder|flakes|sauce))/, per100g(29, 0.9, 6.5, 0.4, 2.8, 3, { each: 14 })],
+  [/\bbroccoli\b/, per100g(34, 2.8, 6.6, 0.4, 2.6, 33, { each: 225, cup: 91 })],
+  [/\bcauliflower\b/, per100g(25, 1.9, 5, 0.3, 2, 30, { each: 575, cup: 107 })],
+  [/\bspinach\b/, per100g(23, 2.9, 3.6, 0.4, 2.2, 79, { cup: 30 })],
+  [/\bkale\b/, per100g(35, 2.9, 4.4, 1.5, 4.1, 53, { cup: 21 })],
+  [/\b(?:lettuce|greens|arugula|rocket|romaine)\b/, per100g(15, 1.4, 2.9, 0.2, 1.3, 28, { each: 360, cup: 47 })],
+  [/\bcabbage\b/, per100g(25, 1.3, 5.8, 0.1, 2.5, 18, { each: 900, cup: 89 })],
+  [/\bmushrooms?\b/, per100g(22, 3.1, 3.3, 0.3, 1, 5, { each: 18, cup: 70 })],
+  [/\b(?:zucchini|courgettes?)\b/, per100g(17, 1.2, 3.1, 0.3, 1, 8, { each: 196, cup: 124 })],
+  [/\b(?:eggplant|aubergine)s?\b/, per100g(25, 1, 5.9, 0.2, 3, 2, { each: 458, cup: 82 })],
+  [/\bcucumbers?\b/, per100g(15, 0.7, 3.6, 0.1, 0.5, 2, { each: 300, cup: 119 })],
+  [/\bgreen beans\b/, per100g(31, 1.8, 7, 0.2, 2.7, 6, { cup: 100 })],
+  [/\bpeas\b/, per100g(81, 5.4, 14.5, 0.4, 5.1, 5, { cup: 145 })],
+  [/\bcorn\b/, per100g(86, 3.3, 19, 1.4, 2, 15, { each: 90, cup: 145 })],
+  [/\bavocados?\b/, per100g(160, 2, 8.5, 14.7, 6.7, 7, { each: 150, cup: 150 })],
+  // Fruit
+  [/\b(?:lemon|lime) juice\b/, per100g(22, 0.4, 6.9, 0.2, 0.3, 1)],
+  [/\b(?:lemons?|limes?)\b/, per100g(29, 1.1, 9.3, 0.3, 2.8, 2, { each: 65 })],
+  [/\bapples?\b/, per100g(52, 0.3, 14, 0.2, 2.4, 1, { each: 182, cup: 125 })],
+  [/\bbananas?\b/, per100g(89, 1.1, 23, 0.3, 2.6, 1, { each: 118, cup: 225 })],
+  [/\b(?:berries|strawberries|blueberries|raspberries)\b/, per100g(50, 0.7, 12, 0.3, 2.4, 1, { cup: 148 })],
+  [/\boranges?\b/, per100g(47, 0.9, 12, 0.1, 2.4, 0, { each: 131 })],
+  // Nuts and seeds
+  [/\bpeanuts?\b/, per100g(567, 26, 16, 49, 8.5, 18, { cup: 146 })],
+  [/\bwalnuts?\b|\bpecans?\b/, per100g(654, 15, 14, 65, 6.7, 2, { cup: 117 })],
+  [/\balmonds?\b|\bcashews?\b|\bnuts\b|\bpine nuts\b/, per100g(579, 21, 22, 50, 12.5, 1, { cup: 143 })],
+  [/\b(?:chia|sesame|sunflower|pumpkin|flax) ?seeds?\b/, per100g(540, 19, 24, 44, 22, 10, { cup: 150 })],
+  // Herbs and spices -- small amounts, so one generic entry is close enough
+  [
+    /\b(?:basil|parsley|cilantro|coriander|mint|dill|chives|rosemary|thyme|sage|oregano)\b/,
+    per100g(40, 3, 7, 0.7, 4, 30, { cup: 25 }),
+  ],
+  [
+    /\b(?:pepper|paprika|cumin|cinnamon|nutmeg|turmeric|chil(?:e|i|li) (?:powder|flakes)|curry|garam masala|cayenne|spices?|seasoning|bay lea(?:f|ves)|cloves)\b/,
+    per100g(300, 11, 60, 9, 30, 60, { cup: 110 }),
+  ],
+];
+
+/** Grams in one of each counted unit, before falling back to the item's own weight. */
+const COUNT_GRAMS: Record<string, number> = {
+  pinch: 0.4,
+  dash: 0.6,
+  clove: 5,
+  stick: 113,
+  slice: 28,
+  sprig: 1,
+  leaf: 0.5,
+  stalk: 40,
+  bunch: 100,
+  head: 500,
+  can: 400,
+  jar: 340,
+  bottle: 350,
+  package: 300,
+};
+
+/** How size words scale an item's medium weight. */
+const SIZE_FACTORS: Record<string, number> = {
+  small: 0.75,
+  medium: 1,
+  large: 1.25,
+  whole: 1,
+  each: 1,
+  egg: 1,
+  piece: 1,
+};
+
+/** Water's density, for liquids and anything else measured by volume we have no density for. */
+const DEFAULT_GRAMS_PER_ML = 1;
+
+const ML_PER_CUP = 236.588;
+
+function lookupNutrients(name: string): NutrientEntry | undefined {
+  const lower = name.toLowerCase();
+  return NUTRIENTS.find(([pattern]) => pattern.test(lower))?.[1];
+}
+
+// ---------------------------------------------------------------------------
+// Weighing ingredients
+// ---------------------------------------------------------------------------
+
+/** Weight of one measurement of an ingredient in grams, if we can tell. */
+function gramsOf(
+  measurement: InstacartMeasurement,
+  name: string,
+  entry: NutrientEntry,
+): number | undefined {
+  const kind = unitKind(measurement.unit);
+  if (kind === 'weight' || (kind === 'volume' && !entry.cup && densityFor(name))) {
+    return convertMeasurement(measurement, 'gram', name)?.quantity;
+  }
+  if (kind === 'volume') {
+    const ml = convertMeasurement(measurement, 'milliliter')?.quantity;
+    if (ml === undefined) return undefined;
+    return entry.cup ? (ml / ML_PER_CUP) * entry.cup : ml * DEFAULT_GRAMS_PER_ML;
+  }
+  if (kind === 'count') {
+    const unit = canonicalizeUnit(measurement.unit);
+    const grams = COUNT_GRAMS[unit] ?? (entry.each ? entry.each * (SIZE_FACTORS[unit] ?? 1) : undefined);
+    return grams !== undefined ? measurement.quantity * grams : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Weight of an ingredient in grams. A package size or alternate weight
+ * ("1 (14 oz) can") is more precise than a count, so weights and volumes
+ * are tried first.
+ */
+function ingredientGrams(ingredient: InstacartIngredient, entry: NutrientEntry): number | undefined {
+  const measurements = ingredient.measurements || [];
+  const ordered = [
+    ...measurements.filter((m) => unitKind(m.unit) === 'weight'),
+    ...measurements.filter((m) => unitKind(m.unit) === 'volume'),
+    ...measurements.filter((m) => unitKind(m.unit) === 'count'),
+  ];
+  for (const m of ordered) {
+    const grams = gramsOf(m, ingredient.name, entry);
+    if (grams !== undefined && grams > 0) return grams;
+  }
+  return undefined;
+}
+
+/**
+ * Weight of an ingredient in grams, using the table's item and cup weights
+ * when it knows the ingredient and plain unit conversions otherwise.
+ */
+export function ingredientWeight(ingredient: InstacartIngredient): number | undefined {
+  const entry = lookupNutrients(ingredient.name) ?? { per100g: emptyNutrition() };
+  return ingredientGrams(ingredient, entry);
+}
+
+// ---------------------------------------------------------------------------
+// Arithmetic
+// ---------------------------------------------------------------------------
+
+export function emptyNutrition(): NutritionFacts {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sodium: 0 };
+}
+
+export function addNutrition(a: NutritionFacts, b: NutritionFacts): NutritionFacts {
+  return {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    carbs: a.carbs + b.carbs,
+    fat: a.fat + b.fat,
+    fiber: a.fiber + b.fiber,
+    sodium: a.sodium + b.sodium,
+  };
+}
+
+export function scaleNutrition(facts: NutritionFacts, factor: number): NutritionFacts {
+  return {
+    calories: facts.calories * factor,
+    protein: facts.protein * factor,
+    carbs: facts.carbs * factor,
+    fat: facts.fat * factor,
+    fiber: facts.fiber * factor,
+    sodium: facts.sodium * factor,
+  };
+}
+
+/** Round to what a nutrition label shows: whole kcal and mg, grams to one place under 10. */
+function roundNutrition(facts: NutritionFacts): NutritionFacts {
+  const grams = (g: number) => (g < 10 ? Math.round(g * 10) / 10 : Math.round(g));
+  return {
+    calories: Math.round(facts.calories),
+    protein: grams(facts.protein),
+    carbs: grams(facts.carbs),
+    fat: grams(facts.fat),
+    fiber: grams(facts.fiber),
+    sodium: Math.round(facts.sodium),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Recipes and meal plans
+// ---------------------------------------------------------------------------
+
+/** Estimated nutrition of a single ingredient, or `undefined` if we cannot tell. */
+export function ingredientNutrition(ingredient: InstacartIngredient): NutritionFacts | undefined {
+  const entry = lookupNutrients(ingredient.name) ?? lookupNutrients(ingredient.display_text || '');
+  if (!entry) return undefined;
+  const grams = ingredientGrams(ingredient, entry);
+  if (grams === undefined) return undefined;
+  return scaleNutrition(entry.per100g, grams / 100);
+}
+
+/** Estimate a recipe's nutrition, in total and per serving. */
+export function recipeNutrition(recipe: Pick<Recipe, 'ingredients' | 'servings'>): RecipeNutrition {
+  let total = emptyNutrition();
+  const unmatched: string[] = [];
+  for (const ingredient of recipe.ingredients) {
+    const facts = ingredientNutrition(ingredient);
+    if (facts) {
+      total = addNutrition(total, facts);
+    } else {
+      unmatched.push(ingredient.name);
+    }
+  }
+  const servings = recipe.servings && recipe.servings > 0 ? recipe.servings : 1;
+  return {
+    perServing: roundNutrition(scaleNutrition(total, 1 / servings)),
+    total: roundNutrition(total),
+    servings,
+    unmatched,
+  };
+}
+
+/**
+ * Estimate what one person eats each day of a meal plan: one serving of
+ * every meal that lists its ingredients. Returns `undefined` for plans
+ * with no ingredient lists at all.
+ */
+export function mealPlanNutrition(plan: MealPlan): MealPlanNutrition | undefined {
+  const days: DayNutrition[] = plan.days.map((day) => {
+    let nutrition = emptyNutrition();
+    let estimatedMeals = 0;
+    const unmatched: string[] = [];
+    for (const meal of day.meals) {
+      if (!meal.ingredients?.length) continue;
+      const estimate = recipeNutrition({ ingredients: meal.ingredients, servings: meal.servings });
+      nutrition = addNutrition(nutrition, estimate.perServing);
+      unmatched.push(...estimate.unmatched);
+      estimatedMeals++;
+    }
+    return {
+      day: day.day,
+      nutrition: roundNutrition(nutrition),
+      estimatedMeals,
+      mealsWithoutIngredients: day.meals.length - estimatedMeals,
+      unmatched: [...new Set(unmatched)],
+    };
+  });
+
+  const estimated = days.filter((d) => d.estimatedMeals > 0);
+  if (estimated.length === 0) return undefined;
+  const sum = estimated.reduce((acc, d) => addNutrition(acc, d.nutrition), emptyNutrition());
+  return { days, dailyAverage: roundNutrition(scaleNutrition(sum, 1 / estimated.length)) };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** "520 kcal · 32 g protein · 45 g carbs · 22 g fat · 6 g fiber · 890 mg sodium" */
+export function formatNutrition(facts: NutritionFacts): string {
+  return [
+    `${facts.calories} kcal`,
+    `${facts.protein} g protein`,
+    `${facts.carbs} g carbs`,
+    `${facts.fat} g fat`,
+    `${facts.fiber} g fiber`,
+    `${facts.sodium} mg sodium`,
+  ].join(' · ');
+}
+
+/** A note on what an estimate leaves out, or '' when everything was counted. */
+export function formatUnmatched(unmatched: string[]): string {
+  if (unmatched.length === 0) return '';
+  return `Estimate leaves out ${unmatched.join(', ')}.`;
+}
+
+/** Markdown table of a meal plan's daily nutrition per person. */
+export function formatMealPlanNutritionTable(nutrition: MealPlanNutrition): string[] {
+  const lines = [
+    '| Day | Calories | Protein | Carbs | Fat | Fiber | Sodium |',
+    '| --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+  ];
+  for (const { day, nutrition: n, estimatedMeals, mealsWithoutIngredients } of nutrition.days) {
+    const note = mealsWithoutIngredients ? '*' : '';
+    if (estimatedMeals === 0) {
+      lines.push(`| ${day}${note} | — | — | — | — | — | — |`);
+      continue;
+    }
+    lines.push(
+      `| ${day}${note} | ${n.calories} | ${n.protein} g | ${n.carbs} g | ${n.fat} g | ${n.fiber} g | ${n.sodium} mg |`,
+    );
+  }
+  if (nutrition.days.some((d) => d.mealsWithoutIngredients)) {
+    lines.push('', '\\* Some meals on this day have no ingredient list and are not counted.');
+  }
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Daily targets
+// ---------------------------------------------------------------------------
+
+/** How many times to regenerate a meal plan that misses the user's targets. */
+export const MAX_TARGET_ATTEMPTS = 3;
+
+/** How far a day's estimate may stray from each target, as a fraction of it. */
+export const NUTRITION_TARGET_TOLERANCE: Record<keyof NutritionTargets, number> = {
+  calories: 0.1,
+  protein: 0.15,
+  carbs: 0.15,
+  fat: 0.15,
+};
+
+const TARGET_LABELS: Record<keyof NutritionTargets, { name: string; unit: string }> = {
+  calories: { name: 'Calories', unit: 'kcal' },
+  protein: { name: 'Protein', unit: 'g' },
+  carbs: { name: 'Carbs', unit: 'g' },
+  fat: { name: 'Fat', unit: 'g' },
+};
+
+/** The targets that are set, in display order. */
+function activeTargets(targets: NutritionTargets): [keyof NutritionTargets, number][] {
+  return (Object.keys(TARGET_LABELS) as (keyof NutritionTargets)[])
+    .filter((key) => (targets[key] ?? 0) > 0)
+    .map((key) => [key, targets[key]!]);
+}
+
+export function hasNutritionTargets(targets: NutritionTargets | undefined): targets is NutritionTargets {
+  return !!targets && activeTargets(targets).length > 0;
+}
+
+/** "2000 kcal", "150 g protein" */
+function formatAmount(nutrient: keyof NutritionTargets, value: number): string {
+  return nutrient === 'calories' ? `${Math.round(value)} kcal` : `${Math.round(value)} g ${nutrient}`;
+}
+
+function withinTarget(nutrient: keyof NutritionTargets, actual: number, target: number): boolean {
+  return Math.abs(actual - target) <= target * NUTRITION_TARGET_TOLERANCE[nutrient];
+}
+
+/**
+ * Check every day of a plan against the targets, using our own estimate
+ * rather than anything the model claims. Days we cannot estimate count as
+ * missing every target.
+ */
+export function checkNutritionTargets(
+  plan: MealPlan,
+  targets: NutritionTargets,
+): NutritionTargetMiss[] {
+  const nutrition = mealPlanNutrition(plan);
+  const misses: NutritionTargetMiss[] = [];
+  plan.days.forEach((day, i) => {
+    const facts = nutrition?.days[i]?.nutrition ?? emptyNutrition();
+    for (const [nutrient, target] of activeTargets(targets)) {
+      if (!withinTarget(nutrient, facts[nutrient], target)) {
+        misses.push({ day: day.day, nutrient, target, actual: facts[nutrient] });
+      }
+    }
+  });
+  return misses;
+}
+
+/** Targets and tolerances as a line for generation prompts. */
+export function formatTargetsForPrompt(targets: NutritionTargets | undefined): string {
+  if (!hasNutritionTargets(targets)) return '';
+  const parts = activeTargets(targets).map(
+    ([nutrient, target]) =>
+      `${formatAmount(nutrient, target)} (±${Math.round(NUTRITION_TARGET_TOLERANCE[nutrient] * 100)}%)`,
+  );
+  return `\n\nDaily nutrition targets: one serving of every meal in a day must add up to ${parts.join(
+    ', ',
+  )}. These will be checked against the ingredient quantities, so size the servings and quantities to hit them.`;
+}
+
+/**
+ * Prompt feedback for a plan that missed its targets: which days were off,
+ * by how much, and a request to rework only those days.
+ */
+export function buildTargetFeedback(misses: NutritionTargetMiss[]): string {
+  const byDay = new Map<string, string[]>();
+  for (const miss of misses) {
+    const list = byDay.get(miss.day) ?? [];
+    list.push(`${formatAmount(miss.nutrient, miss.actual)} (target ${miss.target})`);
+    byDay.set(miss.day, list);
+  }
+  const lines = [...byDay].map(([day, parts]) => `- ${day}: ${parts.join('; ')}`);
+  return `\n\nYOUR PREVIOUS ATTEMPT MISSED THE USER'S DAILY NUTRITION TARGETS. Computed from its ingredient quantities, one person's day came to:\n${lines.join(
+    '\n',
+  )}\nRegenerate the plan, keeping the days not listed here and reworking the listed days -- adjust portions, ingredient quantities or meals -- so each lands within the targets. Update the consolidated list to match.`;
+}
+
+/** Markdown table of each day's estimate against the targets, marking misses. */
+export function formatNutritionTargetTable(
+  nutrition: MealPlanNutrition,
+  targets: NutritionTargets,
+): string[] {
+  const active = activeTargets(targets);
+  const lines = [
+    `| Day | ${active.map(([n]) => TARGET_LABELS[n].name).join(' | ')} |`,
+    `| --- |${' ---: |'.repeat(active.length)}`,
+  ];
+  for (const { day, nutrition: n, estimatedMeals } of nutrition.days) {
+    const cells = active.map(([nutrient, target]) => {
+      if (estimatedMeals === 0) return `— / ${target} ${TARGET_LABELS[nutrient].unit}`;
+      const mark = withinTarget(nutrient, n[nutrient], target) ? '✓' : '✗';
+      return `${Math.round(n[nutrient])} / ${target} ${TARGET_LABELS[nutrient].unit} ${mark}`;
+    });
+    lines.push(`| ${day} | ${cells.join(' | ')} |`);
+  }
+  lines.push(
+    '',
+    `Estimated / target per person. ✓ within ±${Math.round(
+      NUTRITION_TARGET_TOLERANCE.calories * 100,
+    )}% for calories and ±${Math.round(NUTRITION_TARGET_TOLERANCE.protein * 100)}% for macros.`,
+  );
+  return lines;
+}
@@ -0,0 +1,164 @@
+// ============================================================================
+// Kitchly - Full recipes for meal plan entries
+//
+// A meal plan only names each meal and lists its groceries. The full
+// recipe -- steps, times, equipment -- is written the first time a meal is
+// needed (e.g. "let's cook Tuesday's dinner") from the meal's name,
+// servings and the ingredients already on the plan's shopping list, and
+// is then kept on the meal so it's only written once.
+// ============================================================================
+
+import type { IAgentRuntime } from '@elizaos/core';
+import type {
+  InstacartIngredient,
+  Recipe,
+  RestrictionViolation,
+  UserPreferences,
+} from '../types/index.js';
+import type { PlannedMeal } from './mealPlan.js';
+import { formatPreferencesForPrompt } from './preferences.js';
+import { formatLocaleForPrompt, localizeRecipe } from './locale.js';
+import { measurementsFromDisplayText } from './ingredientParser.js';
+import { generateStructured } from './llm.js';
+import { RECIPE_SCHEMA } from './schema.js';
+import { formatConsistencyFixes, isConsistent, reconcileRecipe } from './recipeConsistency.js';
+import {
+  buildEquipmentFeedback,
+  checkRecipeEquipment,
+  formatEquipmentIssues,
+  withEquipment,
+} from './equipment.js';
+import type { EquipmentIssue } from './equipment.js';
+import {
+  buildViolationFeedback,
+  checkRecipeRestrictions,
+  formatViolations,
+  MAX_RESTRICTION_ATTEMPTS,
+} from './allergenGuard.js';
+
+const PLAN_RECIPE_PROMPT = `You are a professional chef and recipe writer. Write the full recipe for a meal from the user's meal plan, described under "Meal" below, in strict JSON format.
+
+IMPORTANT RULES:
+- Use the meal's recipe name as the title and make the number of servings given.
+- Cook with the ingredients listed under "Meal" -- the user has already bought them -- in the amounts given. Only add pantry staples (salt, pepper, oil, water) the list leaves out.
+- All ingredient quantities MUST be greater than 0.
+- Use the measurement conventions and oven temperatures given under "Measurements" below.
+- Instructions must be clear, numbered steps, short enough to read aloud.
+- For recipes with distinct parts (a sauce, a dough, a topping), give each ingredient a "group" such as "For the sauce"; otherwise leave "group" out.
+- Set "optional": true for ingredients the dish works without, and "garnish": true for ones only used to garnish or serve.
+- If the user preferences list kitchen equipment, every step must use ONLY that equipment. List every appliance and special tool the steps use under "equipment".
+
+Respond with ONLY valid JSON matching this schema (no markdown fencing, no extra text):
+
+{
+  "title": "string",
+  "servings": number,
+  "prepTime": "string (e.g. 15 minutes)",
+  "cookTime": "string (e.g. 30 minutes)",
+  "cuisine": "string or null",
+  "dietaryTags": ["string"],
+  "equipment": ["string"],
+  "ingredients": [
+    {
+      "name": "ingredient name",
+      "display_text": "2 cups all-purpose flour",
+      "measurements": [{ "quantity": number, "unit": "string" }],
+      "group": "For the sauce",
+      "optional": false,
+      "garnish": false
+    }
+  ],
+  "instructions": ["Step 1 text", "Step 2 text"]
+}`;
+
+function validateIngredients(ingredients: InstacartIngredient[]): InstacartIngredient[] {
+  return ingredients.map((ing) => ({
+    ...ing,
+    measurements: measurementsFromDisplayText(ing.display_text, ing.measurements),
+  }));
+}
+
+function mealContext(meal: PlannedMeal, slotName: string): string {
+  const lines = [
+    `\n\nMeal (${slotName}):`,
+    `- Recipe: ${meal.recipe}${meal.description ? ` -- ${meal.description}` : ''}`,
+  ];
+  if (meal.servings) lines.push(`- Servings: ${meal.servings}`);
+  if (meal.ingredients?.length) {
+    lines.push('- Ingredients:');
+    for (const ing of meal.ingredients) lines.push(`  - ${ing.display_text || ing.name}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The full recipe for a planned meal: the one already written for it, or
+ * a new one. `undefined` when no recipe could be written that is safe for
+ * the user's restrictions; one needing equipment they lack is still
+ * returned if nothing better turns up.
+ */
+export async function planMealRecipe(
+  runtime: IAgentRuntime,
+  meal: PlannedMeal,
+  slotName: string,
+  preferences: UserPreferences | undefined,
+): Promise<Recipe | undefined> {
+  if (meal.fullRecipe) return meal.fullRecipe;
+
+  const preferencesContext =
+    formatPreferencesForPrompt(preferences) + formatLocaleForPrompt(preferences);
+  let violations: RestrictionViolation[] = [];
+  let equipmentIssues: EquipmentIssue[] = [];
+  let fallback: Recipe | undefined;
+
+  for (let attempt = 0; attempt < MAX_RESTRICTION_ATTEMPTS; attempt++) {
+    const feedback =
+      (violations.length ? buildViolationFeedback(violations) : '') +
+      (equipmentIssues.length ? buildEquipmentFeedback(equipmentIssues, preferences) : '');
+    const recipeData = await generateStructured(runtime, {
+      prompt: `${PLAN_RECIPE_PROMPT}${preferencesContext}${mealContext(meal, slotName)}${feedback}`,
+      schema: RECIPE_SCHEMA,
+      label: 'planRecipe',
+    });
+    if (!recipeData) break;
+
+    const { recipe: reconciled, report } = reconcileRecipe<Recipe>({
+      // Keep the plan's name so the meal and its recipe stay matched
+      title: meal.recipe,
+      ingredients: validateIngredients(recipeData.ingredients),
+      instructions: recipeData.instructions,
+      servings: recipeData.servings || meal.servings || 4,
+      prepTime: recipeData.prepTime,
+      cookTime: recipeData.cookTime,
+      cuisine: recipeData.cuisine || undefined,
+      dietaryTags: recipeData.dietaryTags ?? [],
+      equipment: recipeData.equipment,
+      // The prompt asked for temperatures for the user's oven
+      ovenType: preferences?.ovenType,
+    });
+    const candidate = withEquipment(reconciled);
+    if (!isConsistent(report)) {
+      console.warn(
+        `[Kitchly] Plan recipe "${candidate.title}" ingredients did not match its steps: ${formatConsistencyFixes(report)}`,
+      );
+    }
+
+    violations = checkRecipeRestrictions(candidate, preferences);
+    equipmentIssues = checkRecipeEquipment(candidate, preferences);
+    if (violations.length === 0 && equipmentIssues.length === 0) {
+      return localizeRecipe(candidate, preferences);
+    }
+    if (violations.length === 0) {
+      fallback ??= candidate;
+      console.warn(
+        `[Kitchly] Plan recipe "${candidate.title}" needs equipment the user doesn't have (attempt ${attempt + 1}):\n${formatEquipmentIssues(equipmentIssues)}`,
+      );
+    } else {
+      console.warn(
+        `[Kitchly] Plan recipe "${candidate.title}" violates user restrictions (attempt ${attempt + 1}):\n${formatViolations(violations)}`,
+      );
+    }
+  }
+
+  return fallback && localizeRecipe(fallback, preferences);
+}
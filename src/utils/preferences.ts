@@ -0,0 +1,919 @@
+// ============================================================================
+// Kitchly - User preference helpers
+//
+// Deterministic parsing of spoken preference statements ("I'm vegetarian,
+// allergic to peanuts, cooking for 4 on a budget") into `UserPreferences`
+// updates, plus shared formatting for the provider and generation prompts.
+// ============================================================================
+
+import type {
+  HouseholdMember,
+  MeasurementLocale,
+  NutritionTargets,
+  PendingPreferenceUpdate,
+  PreferenceChanges,
+  PreferenceListField,
+  UserPreferences,
+} from '../types/index.js';
+import { canonicalEquipment, equipmentIn, STANDARD_EQUIPMENT } from './equipment.js';
+
+// ---------------------------------------------------------------------------
+// Vocabulary
+// ---------------------------------------------------------------------------
+
+export const PREFERENCE_LIST_FIELDS: PreferenceListField[] = [
+  'dietaryRestrictions',
+  'allergies',
+  'cuisinePreferences',
+  'dislikes',
+  'equipment',
+];
+
+/** Known diets, keyed by their canonical name, with the phrasings that map to them. */
+const DIET_PATTERNS: Record<string, RegExp> = {
+  vegetarian: /\bvegetarian\b|\bveggie\b|\bdon'?t eat meat\b|\bno meat\b/,
+  vegan: /\bvegan\b|\bplant[- ]based\b/,
+  pescatarian: /\bpesc[ae]tarian\b/,
+  keto: /\bketo(?:genic)?\b/,
+  paleo: /\bpaleo\b/,
+  whole30: /\bwhole ?30\b/,
+  'gluten-free': /\bgluten[- ]free\b|\bceliac\b|\bcoeliac\b|\bno gluten\b/,
+  'dairy-free': /\bdairy[- ]free\b|\bno dairy\b/,
+  'low-carb': /\blow[- ]carb\b/,
+  'low-fodmap': /\blow[- ]fodmap\b/,
+  'low-sodium': /\blow[- ](?:sodium|salt)\b/,
+  halal: /\bhalal\b/,
+  kosher: /\bkosher\b/,
+};
+
+const CUISINES = [
+  'italian',
+  'mexican',
+  'thai',
+  'indian',
+  'chinese',
+  'japanese',
+  'korean',
+  'french',
+  'greek',
+  'mediterranean',
+  'vietnamese',
+  'middle eastern',
+  'spanish',
+  'american',
+  'cajun',
+  'caribbean',
+  'ethiopian',
+  'moroccan',
+  'turkish',
+  'lebanese',
+  'brazilian',
+  'peruvian',
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+};
+
+const REMOVAL_PATTERN =
+  /\b(?:no longer|not\b.*\banymore|anymore|remove|forget|stop|drop|delete|take off|can (?:eat|have))\b/;
+
+// Denies a diet or allergy ("I'm not vegetarian", "never been allergic to
+// shellfish"); "don't eat meat" and "don't like" state one instead
+const NEGATION_PATTERN = /\b(?:not|never|don'?t|do not)\b(?!\s+(?:eat|like)\b)/;
+
+// Words that make a clause a sentence of its own rather than more of an
+// allergy list ("allergic to peanuts, make me dinner")
+const STATEMENT_WORDS =
+  /\b(?:i|i'm|i've|me|my|we|we're|our|you|your|he|she|they|it|it's|is|are|am|was|be|do|does|did|can|could|will|would|should|want|need|make|give|cook|find|show|tell|let's|what|what's|how|when|where|why|which|please|tonight|today|tomorrow|for)\b/;
+
+const ALLERGY_PATTERNS: RegExp[] = [
+  /\ballergic to (.+)/,
+  /\bintolerant to (.+)/,
+  /\b(?:can'?t|cannot) (?:have|eat|do) (.+)/,
+];
+
+// "avoid" is as often about cooking ("avoid frying today"), so it only names
+// an allergy when what follows is a plain list of foods
+const AVOID_PATTERN = /\b(?:must |have to )?avoid (?:eating |having )?(.+)/;
+
+const COOKING_METHODS =
+  /\b(?:fr(?:y|ying|ied)|bak(?:e|ing)|roast(?:ing)?|grill(?:ing)?|boil(?:ing)?|steam(?:ing)?|saut[eé](?:e?ing)?|broil(?:ing)?|microwav(?:e|ing)|cooking|ovens?|stoves?)\b/;
+
+// Matched repeatedly: "peanut allergy and my son has a dairy intolerance"
+const ALLERGY_NOUN_PATTERN = /(.+?)\s+(?:allergy|allergies|intolerance)\b/g;
+
+/** "I'm allergic" with nothing after it, pointing at foods named next to it. */
+const BARE_ALLERGY_PATTERN = /\b(?:allergic|intolerant)(?:\s+to\s+(?:it|them|that|those))?$/;
+
+/** "no nuts please", "hold the shrimp" */
+const FOOD_REFUSAL_PATTERN =
+  /^(?:so\s+|please\s+)?(?:no|without|hold the|leave out)\s+(.+?)(?:\s+please)?$/;
+
+/** Servings are only saved from a standing statement about who the user cooks for. */
+const HOUSEHOLD_CUE =
+  /\b(?:cook(?:ing)? for|feed(?:ing)?|family of|household of|of us|just (?:me|myself)|solo|usually|normally|always)\b/;
+
+/** "remove peanuts from my allergies", "add thai to my cuisines" */
+const EXPLICIT_FIELD_PATTERN =
+  /\b(add|put|remove|drop|delete|take)\s+(.+?)\s+(?:to|on|onto|from|off|out of)\s+(?:my|our|the)\s+(allerg|diet|restriction|cuisine|favou?rite)/;
+
+const EXPLICIT_FIELDS: Record<string, PreferenceListField> = {
+  allerg: 'allergies',
+  diet: 'dietaryRestrictions',
+  restriction: 'dietaryRestrictions',
+  cuisine: 'cuisinePreferences',
+  favourite: 'cuisinePreferences',
+  favorite: 'cuisinePreferences',
+};
+
+const DISLIKE_PATTERN =
+  /\b(?:hates?|dislikes?|can'?t stand|(?:don'?t|doesn'?t) (?:like|love|care for)|not a (?:big )?fan of|not into|gross(?:ed)? out by)\s+(.+)/;
+
+/** Only read numbers as daily targets when the statement is about daily intake or goals. */
+const TARGET_CUE =
+  /\b(?:a day|per day|daily|each day|every day|targets?|goals?|aim(?:ing)?|macros?|tracking|counting|hit)\b/;
+
+const CALORIE_PATTERNS: RegExp[] = [
+  /\b(\d{1,2},?\d{3}|\d{3})\s*-?\s*(?:k?cals?|kilocalories?|calories?)\b/,
+  /\b(?:calories?|kcals?)\s*(?:target|goal|limit)?\s*(?:of|at|to|is|=|:)?\s*(\d{1,2},?\d{3}|\d{3})\b/,
+];
+
+const MACRO_NAME = '(protein|carb(?:ohydrate)?s?|fats?)';
+
+const MACRO_PATTERNS: RegExp[] = [
+  new RegExp(`\\b(\\d{1,3})\\s*(?:g|grams?)\\s+(?:of\\s+)?${MACRO_NAME}\\b`, 'g'),
+  new RegExp(
+    `\\b${MACRO_NAME}\\s*(?:target|goal)?\\s*(?:of|at|to|is|=|:)?\\s*(\\d{1,3})\\s*(?:g|grams?)\\b`,
+    'g',
+  ),
+];
+
+const CUISINE_CUE = /\b(?:love|like|prefer|enjoy|into|fan of|favou?rite|cuisine|food)\b/;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Lower-case and trim an item, stripping leading articles and filler. */
+function normalizeItem(item: string): string {
+  return item
+    .toLowerCase()
+    .replace(/\b(?:anymore|now|please|too|also|as well|any|all)\b/g, '')
+    .replace(/^\s*(?:the|a|an|my|of|to)\s+/, '')
+    .replace(/\b(?:severe|mild|bad|slight)\b/g, '')
+    .replace(/[^a-z0-9\s'-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Split "peanuts, tree nuts and shellfish" into individual items. */
+function splitItems(list: string): string[] {
+  return list
+    .split(/,|\band\b|\bor\b|&|\//)
+    .map(normalizeItem)
+    .filter((s) => s.length > 1 && s.length < 40);
+}
+
+/** Cut "dairy and eats half portions" back to "dairy". */
+function truncateAtNextStatement(phrase: string): string {
+  return phrase.split(
+    /\b(?:and |but )?(?:she|he|they|who|eats?|is|has|likes?|loves?|hates?|cooks?)\b|\b(?:and|but) (?:my|our)\b/,
+  )[0];
+}
+
+/** Drop the subject of "I have a peanut allergy" / "my son has a dairy intolerance". */
+function stripLeadIn(phrase: string): string {
+  return phrase.replace(/^.*\b(?:i'?m|i am|we'?re|we are|have|has|with|got)\s+(?:an?\s+)?/, '');
+}
+
+/** Whether a clause is nothing but a list of foods ("tree nuts and shellfish"). */
+function isBareList(clause: string): boolean {
+  if (STATEMENT_WORDS.test(clause)) return false;
+  const items = splitItems(clause);
+  return items.length > 0 && items.every((item) => item.split(' ').length <= 3);
+}
+
+/** The foods in a clause that is only a list of them ("tree nuts and shellfish"), else none. */
+function bareListItems(clause: string): string[] {
+  return isBareList(clause) ? splitItems(clause) : [];
+}
+
+/** "strawberries" -> "strawberry", "tomatoes" -> "tomato", "peanuts" -> "peanut". */
+export function singularize(word: string): string {
+  if (/[^aeiou]ies$/.test(word)) return word.slice(0, -3) + 'y';
+  if (/(?:oes|[sxz]es|[cs]hes)$/.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function pushUnique(target: string[], items: string[]): void {
+  for (const item of items) {
+    if (!target.includes(item)) target.push(item);
+  }
+}
+
+export function parseServingSize(text: string): number | undefined {
+  if (/\bjust (?:me|myself)\b|\bfor one\b|\bsolo\b/.test(text)) return 1;
+  const match = text.match(
+    /\b(?:cooking for|cook for|feeding|feed|for|serves?|family of|household of|party of)\s+(\d+|one|two|three|four|five|six|seven|eight|nine|ten|twelve)\b(?!\s*(?:minutes?|mins?|hours?|days?|weeks?))/,
+  );
+  if (!match) return undefined;
+  const n = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : NUMBER_WORDS[match[1]];
+  return n > 0 && n <= 50 ? n : undefined;
+}
+
+function parseBudget(text: string): UserPreferences['budget'] | undefined {
+  if (/\b(?:premium|splurge|high[- ]end|no budget|money is no object)\b/.test(text)) {
+    return 'premium';
+  }
+  if (/\b(?:moderate|mid[- ]range|middle of the road)\b/.test(text)) return 'moderate';
+  if (/\b(?:on a budget|budget|cheap|inexpensive|affordable|frugal)\b/.test(text)) {
+    return 'budget';
+  }
+  return undefined;
+}
+
+function parseCookingSkill(text: string): UserPreferences['cookingSkill'] | undefined {
+  if (/\b(?:beginner|novice|new to cooking|not much of a cook|can'?t cook)\b/.test(text)) {
+    return 'beginner';
+  }
+  if (/\b(?:intermediate|decent cook|comfortable in the kitchen)\b/.test(text)) {
+    return 'intermediate';
+  }
+  if (/\b(?:advanced|experienced cook|expert|professional cook)\b/.test(text)) {
+    return 'advanced';
+  }
+  return undefined;
+}
+
+function parseMeasurementLocale(text: string): UserPreferences['measurementLocale'] | undefined {
+  if (/\b(?:australian|aussie|in australia)\b/.test(text)) return 'au';
+  if (/\b(?:uk|british|in (?:the uk|britain|england|scotland|wales|ireland))\b/.test(text)) return 'uk';
+  if (/\bmetric\b|\b(?:celsius|centigrade)\b|\bgrams? (?:and|or) (?:millilit|ml)/.test(text)) return 'metric';
+  if (/\b(?:imperial|us customary|fahrenheit)\b|\b(?:us|u\.s\.|american) (?:measurements|units)\b|\bcups and (?:ounces|spoons)\b/.test(text)) {
+    return 'us';
+  }
+  return undefined;
+}
+
+function parseOvenType(text: string): UserPreferences['ovenType'] | undefined {
+  if (/\b(?:fan|fan[- ]forced|fan[- ]assisted|convection)(?: oven)?\b.*\boven\b|\b(?:fan|fan[- ]forced|fan[- ]assisted|convection) oven\b|\boven is (?:a )?(?:fan|convection)\b/.test(text)) {
+    return 'fan';
+  }
+  if (/\b(?:conventional|regular|standard|normal|non[- ]fan|static|gas) oven\b/.test(text)) {
+    return 'conventional';
+  }
+  return undefined;
+}
+
+/**
+ * Whether optional and garnish ingredients should go into the Instacart
+ * cart: "leave optional ingredients out of my cart", "include garnishes".
+ */
+function parseOptionalInCart(text: string): boolean | undefined {
+  if (!/\b(?:optional|garnish)/.test(text)) return undefined;
+  if (/\b(?:skip|leave|don'?t|do not|never|no|without|exclude|drop)\b/.test(text)) return false;
+  if (/\b(?:include|add|buy|keep|want|always)\b/.test(text)) return true;
+  return undefined;
+}
+
+/**
+ * What the user cooks with: "I don't have an oven", "I just got an Instant
+ * Pot", "air fryer only", "all I have is a dorm microwave". Saying "only"
+ * also takes away the standard appliances the statement doesn't name.
+ */
+function parseEquipment(text: string): { add: string[]; remove: string[] } | undefined {
+  const named = equipmentIn(text);
+  if (!named.length) return undefined;
+  if (
+    /\b(?:no|don'?t have|do not have|haven'?t got|without|lack|broken|(?:doesn'?t|does not|don'?t) work|got rid of)\b/.test(
+      text,
+    )
+  ) {
+    return { add: [], remove: named };
+  }
+  if (
+    /\bonly\b|\bjust (?:have |use )?(?:an? |my |the |one )|\ball (?:i|we) (?:have|'ve got|use) is\b|\bnothing but\b|\bdorm\b/.test(
+      text,
+    )
+  ) {
+    return { add: named, remove: STANDARD_EQUIPMENT.filter((name) => !named.includes(name)) };
+  }
+  if (/\b(?:have|got|own|bought|use|using|cook with)\b/.test(text)) {
+    return { add: named, remove: [] };
+  }
+  return undefined;
+}
+
+/**
+ * Daily calorie and macro targets, e.g. "2,000 calories a day with 150g
+ * protein". Calories outside 800-6000 kcal are ignored as not a daily figure.
+ */
+export function parseNutritionTargets(text: string): NutritionTargets | undefined {
+  if (!TARGET_CUE.test(text)) return undefined;
+  const targets: NutritionTargets = {};
+
+  for (const pattern of CALORIE_PATTERNS) {
+    const m = text.match(pattern);
+    if (!m) continue;
+    const calories = parseInt(m[1].replace(',', ''), 10);
+    if (calories >= 800 && calories <= 6000) targets.calories = calories;
+    break;
+  }
+
+  for (const pattern of MACRO_PATTERNS) {
+    for (const m of text.matchAll(pattern)) {
+      const [amount, name] = /^\d/.test(m[1]) ? [m[1], m[2]] : [m[2], m[1]];
+      const grams = parseInt(amount, 10);
+      if (grams <= 0) continue;
+      const key = name.startsWith('carb') ? 'carbs' : name.startsWith('fat') ? 'fat' : 'protein';
+      targets[key] ??= grams;
+    }
+  }
+
+  return Object.keys(targets).length ? targets : undefined;
+}
+
+/**
+ * Parse a free-form preference statement into add / remove / set changes.
+ *
+ * The statement is split into clauses; each clause is checked for diets,
+ * allergies, cuisines and scalar settings. A clause denying a diet or
+ * allergy ("I'm not vegetarian") takes it off rather than adding it. A
+ * clause that is only a list of foods and directly follows an allergy
+ * clause in the same sentence continues that list ("allergic to peanuts,
+ * tree nuts and shellfish"). Serving size is only saved from a statement
+ * about who the user cooks for, not a one-off "dinner for 2".
+ */
+export function parsePreferenceStatement(text: string): PreferenceChanges {
+  const changes: PreferenceChanges = { add: {}, remove: {}, removeAnywhere: [], set: {} };
+  // Drop thousands separators so "2,000 calories" survives the clause split
+  const lower = text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/(\d),(\d{3})\b/g, '$1$2');
+
+  // Each sentence starts with an empty clause, where an allergy list ends
+  const clauses = lower.split(/[.!?\n]/).flatMap((sentence) => [
+    '',
+    ...sentence
+      .split(/;|,|\bbut\b/)
+      .map((c) => c.trim())
+      .filter(Boolean),
+  ]);
+
+  let continuation: PreferenceListField | null = null;
+  let continuationRemoves = false;
+  let refused: string[] = [];
+  let awaitingRefusal = false;
+
+  const record = (field: PreferenceListField, items: string[], removing: boolean) => {
+    const bucket = removing ? changes.remove : changes.add;
+    const list = (bucket[field] ??= []);
+    pushUnique(list, items);
+  };
+
+  for (const clause of clauses) {
+    if (!clause) {
+      continuation = null;
+      refused = [];
+      awaitingRefusal = false;
+      continue;
+    }
+
+    const explicit = clause.match(EXPLICIT_FIELD_PATTERN);
+    if (explicit) {
+      const field = EXPLICIT_FIELDS[explicit[3]];
+      const removing = !/^(?:add|put)$/.test(explicit[1]);
+      record(field, splitItems(explicit[2]), removing);
+      continuation = null;
+      continue;
+    }
+
+    const removing = REMOVAL_PATTERN.test(clause);
+    const denied = removing || (NEGATION_PATTERN.test(clause) && !DISLIKE_PATTERN.test(clause));
+    let matched = false;
+
+    // Diets
+    for (const [diet, pattern] of Object.entries(DIET_PATTERNS)) {
+      if (pattern.test(clause)) {
+        record('dietaryRestrictions', [diet], denied);
+        matched = true;
+      }
+    }
+
+    // Allergies
+    const allergies: string[] = [];
+    const stated = ALLERGY_PATTERNS.map((pattern) => clause.match(pattern)).find(Boolean);
+    if (stated) {
+      allergies.push(...splitItems(truncateAtNextStatement(stripLeadIn(stated[1]))));
+    } else {
+      const avoid = clause.match(AVOID_PATTERN);
+      if (avoid && !COOKING_METHODS.test(avoid[1])) allergies.push(...bareListItems(avoid[1]));
+    }
+    for (const m of clause.matchAll(ALLERGY_NOUN_PATTERN)) {
+      pushUnique(allergies, splitItems(truncateAtNextStatement(stripLeadIn(m[1]))));
+    }
+    if (!allergies.length && !denied && BARE_ALLERGY_PATTERN.test(clause)) {
+      // "No nuts please, I'm allergic" / "I'm allergic, so no nuts"
+      if (refused.length) allergies.push(...refused);
+      else awaitingRefusal = true;
+    }
+    if (allergies.length) {
+      record('allergies', allergies, denied);
+      continuation = 'allergies';
+      continuationRemoves = denied;
+      matched = true;
+    }
+
+    // Cuisines (only when the clause expresses a liking, to avoid noise)
+    if (CUISINE_CUE.test(clause)) {
+      const cuisines = CUISINES.filter((c) => new RegExp(`\\b${c}\\b`).test(clause));
+      if (cuisines.length) {
+        record('cuisinePreferences', cuisines, removing || /\b(?:don'?t|do not|hate)\b/.test(clause));
+        matched = true;
+      }
+    }
+
+    // Equipment ("no oven", "air fryer only")
+    const equipment = parseEquipment(clause);
+    if (equipment) {
+      if (equipment.add.length) record('equipment', equipment.add, false);
+      if (equipment.remove.length) record('equipment', equipment.remove, true);
+      matched = true;
+    }
+
+    // Dislikes ("ugh, I hate cilantro") -- unless the clause was about a cuisine
+    const dislike = !matched && clause.match(DISLIKE_PATTERN);
+    if (dislike) {
+      const items = splitItems(truncateAtNextStatement(dislike[1]));
+      if (items.length) {
+        record('dislikes', items, removing);
+        matched = true;
+      }
+    }
+
+    // Scalar settings
+    const servingSize = HOUSEHOLD_CUE.test(clause) ? parseServingSize(clause) : undefined;
+    if (servingSize) {
+      changes.set.servingSize = servingSize;
+      matched = true;
+    }
+    const budget = parseBudget(clause);
+    if (budget) {
+      changes.set.budget = budget;
+      matched = true;
+    }
+    const locale = parseMeasurementLocale(clause);
+    if (locale) {
+      changes.set.measurementLocale = locale;
+      matched = true;
+    }
+    const ovenType = parseOvenType(clause);
+    if (ovenType) {
+      changes.set.ovenType = ovenType;
+      matched = true;
+    }
+    const skill = parseCookingSkill(clause);
+    if (skill) {
+      changes.set.cookingSkill = skill;
+      matched = true;
+    }
+    const optionalInCart = parseOptionalInCart(clause);
+    if (optionalInCart !== undefined) {
+      changes.set.optionalInCart = optionalInCart;
+      matched = true;
+    }
+
+    // Generic removals: "remove peanuts", "forget about shellfish"
+    if (!matched && removing) {
+      const target = clause
+        .replace(/.*?\b(?:remove|forget(?: about)?|drop|delete|take off|can (?:eat|have))\b/, '')
+        .replace(/\b(?:from|off) my .*$/, '');
+      const items = splitItems(target);
+      if (items.length) {
+        pushUnique(changes.removeAnywhere, items);
+        matched = true;
+      }
+    }
+
+    // Foods turned down next to a bare "I'm allergic"
+    const refusal = clause.match(FOOD_REFUSAL_PATTERN);
+    if (refusal) {
+      refused = bareListItems(refusal[1]);
+      if (awaitingRefusal && refused.length) {
+        record('allergies', refused, false);
+        awaitingRefusal = false;
+        matched = true;
+      }
+    }
+
+    if (matched) {
+      if (!allergies.length) continuation = null;
+      continue;
+    }
+
+    // Continuation of a preceding allergy list
+    if (continuation && isBareList(clause)) {
+      record(continuation, splitItems(clause), continuationRemoves);
+    } else {
+      continuation = null;
+    }
+  }
+
+  // Targets are read from the whole statement, as they often span clauses
+  const targets = parseNutritionTargets(lower);
+  if (targets) changes.set.nutritionTargets = targets;
+
+  return changes;
+}
+
+/**
+ * Convert a model's JSON extraction (`{ add, remove, servingSize, budget,
+ * cookingSkill, measurementLocale, ovenType, nutritionTargets,
+ * optionalInCart }`) into a `PreferenceChanges` object, ignoring anything
+ * malformed.
+ */
+export function preferenceChangesFromJson(data: any): PreferenceChanges {
+  const changes: PreferenceChanges = { add: {}, remove: {}, removeAnywhere: [], set: {} };
+  if (!data || typeof data !== 'object') return changes;
+
+  const clean = (list: unknown): string[] =>
+    Array.isArray(list)
+      ? list
+          .filter((s): s is string => typeof s === 'string' && s.trim().length > 0)
+          .map((s) => s.trim().toLowerCase())
+      : [];
+
+  for (const field of PREFERENCE_LIST_FIELDS) {
+    // "Instant Pot" is saved as the pressure cooker the steps are checked for
+    const canonical = (list: string[]) =>
+      field === 'equipment' ? list.map((item) => canonicalEquipment(item) ?? item) : list;
+    const added = canonical(clean(data.add?.[field]));
+    if (added.length) changes.add[field] = added;
+    const removed = canonical(clean(data.remove?.[field]));
+    if (removed.length) changes.remove[field] = removed;
+  }
+  if (typeof data.servingSize === 'number' && data.servingSize > 0) {
+    changes.set.servingSize = Math.round(data.servingSize);
+  }
+  if (['budget', 'moderate', 'premium'].includes(data.budget)) {
+    changes.set.budget = data.budget;
+  }
+  if (['beginner', 'intermediate', 'advanced'].includes(data.cookingSkill)) {
+    changes.set.cookingSkill = data.cookingSkill;
+  }
+  if (['us', 'metric', 'uk', 'au'].includes(data.measurementLocale)) {
+    changes.set.measurementLocale = data.measurementLocale;
+  }
+  if (['conventional', 'fan'].includes(data.ovenType)) {
+    changes.set.ovenType = data.ovenType;
+  }
+  if (data.nutritionTargets && typeof data.nutritionTargets === 'object') {
+    const targets: NutritionTargets = {};
+    for (const key of ['calories', 'protein', 'carbs', 'fat'] as const) {
+      const value = data.nutritionTargets[key];
+      if (typeof value === 'number' && value > 0) targets[key] = Math.round(value);
+    }
+    if (Object.keys(targets).length) changes.set.nutritionTargets = targets;
+  }
+  if (typeof data.optionalInCart === 'boolean') {
+    changes.set.optionalInCart = data.optionalInCart;
+  }
+  return changes;
+}
+
+/** True when a `PreferenceChanges` object would change anything. */
+export function hasPreferenceChanges(changes: PreferenceChanges): boolean {
+  const listChanges = [...Object.values(changes.add), ...Object.values(changes.remove)];
+  return (
+    listChanges.some((l) => l && l.length > 0) ||
+    changes.removeAnywhere.length > 0 ||
+    Object.values(changes.set).some((v) => v !== undefined)
+  );
+}
+
+/**
+ * Whether a saved list item is the one a change names. Restrictions match
+ * in the singular or plural ("peanut" is "peanuts") but never in part, so
+ * taking off "nuts" leaves "peanuts" and "tree nuts" alone; appliances
+ * match exactly, as the "oven" is not the "toaster oven".
+ */
+function covers(field: PreferenceListField, saved: string, named: string): boolean {
+  if (saved === named) return true;
+  if (field === 'equipment') return false;
+  const singular = (item: string) => item.split(' ').map(singularize).join(' ');
+  return singular(saved) === singular(named);
+}
+
+/** A saved list; equipment starts from a standard kitchen when the user hasn't said. */
+function savedList(prefs: UserPreferences, field: PreferenceListField): string[] {
+  return prefs[field] ?? (field === 'equipment' ? STANDARD_EQUIPMENT : []);
+}
+
+/**
+ * Drop the parts of `changes` that are already reflected in `current`
+ * (adding an allergy that is already saved, removing one that is not).
+ */
+export function pruneNoopChanges(
+  current: UserPreferences | undefined,
+  changes: PreferenceChanges,
+): PreferenceChanges {
+  const prefs = current || {};
+  const pruned: PreferenceChanges = { add: {}, remove: {}, removeAnywhere: [], set: {} };
+
+  for (const field of PREFERENCE_LIST_FIELDS) {
+    const existing = savedList(prefs, field);
+    const added = (changes.add[field] || []).filter((item) => !existing.includes(item));
+    if (added.length) pruned.add[field] = added;
+    const removed = (changes.remove[field] || []).filter((item) =>
+      existing.some((e) => covers(field, e, item)),
+    );
+    if (removed.length) pruned.remove[field] = removed;
+  }
+
+  pruned.removeAnywhere = changes.removeAnywhere.filter((item) =>
+    PREFERENCE_LIST_FIELDS.some((f) => (prefs[f] || []).some((e) => covers(f, e, item))),
+  );
+
+  for (const key of [
+    'servingSize',
+    'budget',
+    'cookingSkill',
+    'measurementLocale',
+    'ovenType',
+    'optionalInCart',
+  ] as const) {
+    if (changes.set[key] !== undefined && changes.set[key] !== prefs[key]) {
+      (pruned.set as Record<string, unknown>)[key] = changes.set[key];
+    }
+  }
+
+  const targets = Object.entries(changes.set.nutritionTargets || {}).filter(
+    ([key, value]) => prefs.nutritionTargets?.[key as keyof NutritionTargets] !== value,
+  );
+  if (targets.length) pruned.set.nutritionTargets = Object.fromEntries(targets);
+
+  return pruned;
+}
+
+/**
+ * Split changes into the ones that could make generated food unsafe --
+ * removing an allergy or diet -- and the rest. The unsafe ones always need
+ * the user's explicit confirmation before they are applied.
+ */
+export function splitSafetyRelaxing(
+  current: UserPreferences | undefined,
+  changes: PreferenceChanges,
+): { safe: PreferenceChanges; relaxing: PreferenceChanges } {
+  const { allergies, dietaryRestrictions, ...otherRemovals } = changes.remove;
+  const guarded = (item: string) =>
+    (current?.allergies || []).some((a) => covers('allergies', a, item)) ||
+    (current?.dietaryRestrictions || []).some((d) => covers('dietaryRestrictions', d, item));
+
+  const relaxing: PreferenceChanges = {
+    add: {},
+    remove: {},
+    removeAnywhere: changes.removeAnywhere.filter(guarded),
+    set: {},
+  };
+  if (allergies?.length) relaxing.remove.allergies = allergies;
+  if (dietaryRestrictions?.length) relaxing.remove.dietaryRestrictions = dietaryRestrictions;
+
+  return {
+    safe: {
+      ...changes,
+      remove: otherRemovals,
+      removeAnywhere: changes.removeAnywhere.filter((item) => !guarded(item)),
+    },
+    relaxing,
+  };
+}
+
+/** True when a change could make generated food unsafe (see `splitSafetyRelaxing`). */
+export function isSafetyRelaxing(
+  current: UserPreferences | undefined,
+  changes: PreferenceChanges,
+): boolean {
+  return hasPreferenceChanges(splitSafetyRelaxing(current, changes).relaxing);
+}
+
+/** Cap on how many unconfirmed updates we keep around. */
+const MAX_PENDING_UPDATES = 5;
+
+/**
+ * `pending` with a new update held for confirmation. A message already
+ * waiting on an update is left as it is, so a statement that both
+ * SET_PREFERENCES and the preference evaluator pick up is asked about once.
+ */
+export function withPendingUpdate(
+  pending: PendingPreferenceUpdate[] | undefined,
+  changes: PreferenceChanges,
+  confidence: number,
+  sourceText: string,
+): PendingPreferenceUpdate[] {
+  if (pending?.some((p) => p.sourceText === sourceText)) return pending;
+  const update: PendingPreferenceUpdate = {
+    id: `pref_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    changes,
+    confidence,
+    sourceText,
+    proposedAt: Date.now(),
+  };
+  return [...(pending || []), update].slice(-MAX_PENDING_UPDATES);
+}
+
+/** Apply parsed changes to existing preferences, returning a new object. */
+export function applyPreferenceChanges(
+  current: UserPreferences | undefined,
+  changes: PreferenceChanges,
+): UserPreferences {
+  const next: UserPreferences = { ...(current || {}) };
+
+  for (const field of PREFERENCE_LIST_FIELDS) {
+    // Saying anything about equipment turns the standard kitchen into a list
+    const declared = !!(changes.add[field]?.length || changes.remove[field]?.length);
+    let list = [...(declared ? savedList(next, field) : next[field] || [])];
+    const toAdd = changes.add[field] || [];
+    const toRemove = [...(changes.remove[field] || []), ...changes.removeAnywhere];
+    pushUnique(list, toAdd);
+    if (toRemove.length) {
+      list = list.filter((item) => !toRemove.some((r) => covers(field, item, r)));
+    }
+    // An empty equipment list means no appliances at all, not a standard kitchen
+    if (list.length || (field === 'equipment' && (declared || next.equipment))) {
+      next[field] = list;
+    } else {
+      delete next[field];
+    }
+  }
+
+  if (changes.set.servingSize !== undefined) next.servingSize = changes.set.servingSize;
+  if (changes.set.budget !== undefined) next.budget = changes.set.budget;
+  if (changes.set.cookingSkill !== undefined) next.cookingSkill = changes.set.cookingSkill;
+  if (changes.set.measurementLocale !== undefined) {
+    next.measurementLocale = changes.set.measurementLocale;
+  }
+  if (changes.set.ovenType !== undefined) next.ovenType = changes.set.ovenType;
+  if (changes.set.optionalInCart !== undefined) next.optionalInCart = changes.set.optionalInCart;
+  // Targets merge, so "make that 160g protein" keeps the calorie goal
+  if (changes.set.nutritionTargets !== undefined) {
+    next.nutritionTargets = { ...next.nutritionTargets, ...changes.set.nutritionTargets };
+  }
+
+  return next;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+const FIELD_LABELS: Record<PreferenceListField, string> = {
+  dietaryRestrictions: 'diet',
+  allergies: 'allergies',
+  cuisinePreferences: 'favourite cuisines',
+  dislikes: 'dislikes',
+  equipment: 'kitchen equipment',
+};
+
+const LOCALE_LABELS: Record<MeasurementLocale, string> = {
+  us: 'US',
+  metric: 'metric',
+  uk: 'UK',
+  au: 'Australian',
+};
+
+/** Describe a set of changes in a short, voice-friendly sentence. */
+export function describePreferenceChanges(changes: PreferenceChanges): string {
+  const parts: string[] = [];
+  for (const field of PREFERENCE_LIST_FIELDS) {
+    const added = changes.add[field];
+    if (added?.length) parts.push(`added ${added.join(', ')} to your ${FIELD_LABELS[field]}`);
+    const removed = changes.remove[field];
+    if (removed?.length) {
+      parts.push(`removed ${removed.join(', ')} from your ${FIELD_LABELS[field]}`);
+    }
+  }
+  if (changes.removeAnywhere.length) parts.push(`removed ${changes.removeAnywhere.join(', ')}`);
+  if (changes.set.servingSize) parts.push(`set servings to ${changes.set.servingSize}`);
+  if (changes.set.budget) parts.push(`set your budget to ${changes.set.budget}`);
+  if (changes.set.cookingSkill) parts.push(`set your skill level to ${changes.set.cookingSkill}`);
+  if (changes.set.measurementLocale) {
+    parts.push(`switched to ${LOCALE_LABELS[changes.set.measurementLocale]} measurements`);
+  }
+  if (changes.set.ovenType) parts.push(`noted you have a ${changes.set.ovenType} oven`);
+  if (changes.set.nutritionTargets) {
+    parts.push(`set your daily targets to ${formatNutritionTargets(changes.set.nutritionTargets)}`);
+  }
+  if (changes.set.optionalInCart !== undefined) {
+    parts.push(
+      `${changes.set.optionalInCart ? "I'll include" : "I'll leave"} optional and garnish ingredients ${
+        changes.set.optionalInCart ? 'in' : 'out of'
+      } your Instacart cart`,
+    );
+  }
+  return parts.join('; ');
+}
+
+/** "2000 kcal, 150 g protein, 60 g fat" */
+export function formatNutritionTargets(targets: NutritionTargets): string {
+  const parts: string[] = [];
+  if (targets.calories) parts.push(`${targets.calories} kcal`);
+  if (targets.protein) parts.push(`${targets.protein} g protein`);
+  if (targets.carbs) parts.push(`${targets.carbs} g carbs`);
+  if (targets.fat) parts.push(`${targets.fat} g fat`);
+  return parts.join(', ');
+}
+
+/** One-line summary of a member, e.g. `Sam (allergies: dairy; half portion)`. */
+export function formatMember(member: HouseholdMember): string {
+  const details: string[] = [];
+  if (member.dietaryRestrictions?.length) details.push(member.dietaryRestrictions.join(', '));
+  if (member.allergies?.length) details.push(`allergies: ${member.allergies.join(', ')}`);
+  if (member.dislikes?.length) details.push(`dislikes: ${member.dislikes.join(', ')}`);
+  if (member.portionSize !== undefined && member.portionSize !== 1) {
+    details.push(member.portionSize === 0.5 ? 'half portion' : `${member.portionSize}x portion`);
+  }
+  return details.length ? `${member.name} (${details.join('; ')})` : member.name;
+}
+
+/** Short household summary, e.g. `3 people -- Sam (...); Alex; Jo (...)`. */
+export function formatHousehold(household: HouseholdMember[]): string {
+  return `${household.length} ${household.length === 1 ? 'person' : 'people'} -- ${household
+    .map(formatMember)
+    .join('; ')}`;
+}
+
+/**
+ * Render preferences as labelled lines. `forPrompt` marks allergies as
+ * hard constraints for generation prompts.
+ */
+export function formatPreferences(prefs: UserPreferences, forPrompt = false): string[] {
+  const lines: string[] = [];
+  if (prefs.dietaryRestrictions?.length)
+    lines.push(`Dietary restrictions: ${prefs.dietaryRestrictions.join(', ')}`);
+  if (prefs.allergies?.length)
+    lines.push(
+      `${forPrompt ? 'Allergies (MUST avoid)' : 'Allergies'}: ${prefs.allergies.join(', ')}`,
+    );
+  if (prefs.cuisinePreferences?.length)
+    lines.push(
+      `${forPrompt ? 'Preferred cuisines' : 'Cuisine preferences'}: ${prefs.cuisinePreferences.join(', ')}`,
+    );
+  if (prefs.dislikes?.length)
+    lines.push(
+      `${forPrompt ? 'Dislikes (avoid where possible)' : 'Dislikes'}: ${prefs.dislikes.join(', ')}`,
+    );
+  if (prefs.servingSize)
+    lines.push(
+      forPrompt
+        ? `Preferred serving size: ${prefs.servingSize} people`
+        : `Preferred servings: ${prefs.servingSize}`,
+    );
+  if (prefs.budget) lines.push(`${forPrompt ? 'Budget level' : 'Budget'}: ${prefs.budget}`);
+  if (prefs.cookingSkill)
+    lines.push(`${forPrompt ? 'Cooking skill' : 'Skill level'}: ${prefs.cookingSkill}`);
+  if (prefs.equipment)
+    lines.push(
+      forPrompt
+        ? `Kitchen equipment (use ONLY these appliances, nothing else): ${
+            prefs.equipment.join(', ') || 'none -- no-cook dishes only'
+          }`
+        : `Kitchen equipment: ${prefs.equipment.join(', ') || 'none'}`,
+    );
+  // Locale and oven reach prompts through their own measurement rules
+  if (!forPrompt && prefs.measurementLocale)
+    lines.push(`Measurements: ${LOCALE_LABELS[prefs.measurementLocale]}`);
+  if (!forPrompt && prefs.ovenType) lines.push(`Oven: ${prefs.ovenType}`);
+  // Meal planning states targets with their tolerances itself
+  if (!forPrompt && prefs.nutritionTargets && Object.keys(prefs.nutritionTargets).length)
+    lines.push(`Daily targets: ${formatNutritionTargets(prefs.nutritionTargets)}`);
+  if (!forPrompt && prefs.optionalInCart !== undefined)
+    lines.push(`Optional ingredients in cart: ${prefs.optionalInCart ? 'yes' : 'no'}`);
+  if (prefs.household?.length)
+    lines.push(
+      `${forPrompt ? 'Eating this meal' : 'Household'}: ${formatHousehold(prefs.household)}`,
+    );
+  return lines;
+}
+
+/**
+ * Build the "User preferences" block appended to generation prompts, or an
+ * empty string when there is nothing to add.
+ */
+export function formatPreferencesForPrompt(prefs: UserPreferences | undefined): string {
+  if (!prefs) return '';
+  const lines = formatPreferences(prefs, true);
+  return lines.length ? `\n\nUser preferences:\n${lines.join('\n')}` : '';
+}
@@ -0,0 +1,395 @@
+// ============================================================================
+// Kitchly - Grocery cost estimates
+//
+// Prices recipes and shopping lists from a catalog of typical supermarket
+// prices. A catalog is anything that can find the entry for an ingredient;
+// the bundled one (data/priceCatalog.json) can be overridden entry by entry
+// with a JSON or CSV file named in the KITCHLY_PRICE_CATALOG setting.
+// Costs are for the amounts used, not whole packages, and items the
+// catalog does not know are reported rather than guessed.
+// ============================================================================
+
+import { readFile } from 'node:fs/promises';
+import type { IAgentRuntime } from '@elizaos/core';
+import type {
+  CostEstimate,
+  InstacartIngredient,
+  InstacartLineItem,
+  MealPlan,
+  PriceEntry,
+  Recipe,
+} from '../types/index.js';
+import { convertMeasurement, canonicalizeUnit, unitKind } from './units.js';
+import { ingredientWeight } from './nutrition.js';
+import bundledCatalog from '../data/priceCatalog.json';
+
+/** How many times to regenerate a meal plan that goes over the user's budget. */
+export const MAX_BUDGET_ATTEMPTS = 3;
+
+/** Count units that all mean "one of the item" when buying it. */
+const ITEM_UNITS = new Set(['each', 'whole', 'large', 'medium', 'small', 'piece', 'egg']);
+
+// ---------------------------------------------------------------------------
+// Catalogs
+// ---------------------------------------------------------------------------
+
+export interface PriceCatalog {
+  /** ISO 4217 code the prices are in. */
+  currency: string;
+  /** The entry that prices an ingredient, if the catalog has one. */
+  find(name: string): PriceEntry | undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A catalog over a list of entries. The longest matching name wins, so
+ * "peanut butter" beats "butter" and "chicken thigh" beats "chicken".
+ */
+export function createPriceCatalog(entries: PriceEntry[], currency = 'USD'): PriceCatalog {
+  const names = entries
+    .flatMap((entry) =>
+      [entry.name, ...(entry.aliases || [])].map((name) => ({
+        entry,
+        length: name.length,
+        pattern: new RegExp(`\\b${escapeRegExp(name.toLowerCase())}(?:e?s)?\\b`),
+      })),
+    )
+    .sort((a, b) => b.length - a.length);
+
+  return {
+    currency,
+    find: (name) => {
+      const lower = name.toLowerCase();
+      return names.find(({ pattern }) => pattern.test(lower))?.entry;
+    },
+  };
+}
+
+/** Entries from parsed JSON: `{ currency, items: [...] }` or a bare array. */
+function entriesFromJson(data: unknown): { entries: PriceEntry[]; currency?: string } {
+  const wrapper = data as { currency?: unknown; items?: unknown } | undefined;
+  const list = Array.isArray(data) ? data : Array.isArray(wrapper?.items) ? wrapper.items : [];
+  const entries = (list as any[]).filter(
+    (e): e is PriceEntry =>
+      typeof e?.name === 'string' &&
+      typeof e.price === 'number' &&
+      e.price >= 0 &&
+      typeof e.unit === 'string',
+  );
+  const currency = typeof wrapper?.currency === 'string' ? wrapper.currency : undefined;
+  return { entries, currency };
+}
+
+/** Split one CSV line, honouring double-quoted fields. */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch !== '"') {
+        field += ch;
+      } else if (line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Entries from CSV with a header row naming the columns: `name`, `price`,
+ * `unit`, and optionally `quantity`, `grams` and `aliases` (separated by
+ * `|`). Quoted fields may contain commas.
+ */
+export function parsePriceCatalogCsv(text: string): PriceEntry[] {
+  const rows = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.trim().startsWith('#'))
+    .map(splitCsvLine);
+  if (rows.length < 2) return [];
+
+  const header = rows[0].map((h) => h.toLowerCase());
+  const column = (row: string[], key: string) => {
+    const i = header.indexOf(key);
+    return i >= 0 ? row[i] : undefined;
+  };
+
+  const entries: PriceEntry[] = [];
+  for (const row of rows.slice(1)) {
+    const name = column(row, 'name');
+    const price = parseFloat(column(row, 'price') ?? '');
+    const unit = column(row, 'unit');
+    if (!name || !unit || !(price >= 0)) continue;
+
+    const entry: PriceEntry = { name, price, unit };
+    const quantity = parseFloat(column(row, 'quantity') ?? '');
+    if (quantity > 0) entry.quantity = quantity;
+    const grams = parseFloat(column(row, 'grams') ?? '');
+    if (grams > 0) entry.grams = grams;
+    const aliases = column(row, 'aliases')
+      ?.split('|')
+      .map((a) => a.trim())
+      .filter(Boolean);
+    if (aliases?.length) entry.aliases = aliases;
+    entries.push(entry);
+  }
+  return entries;
+}
+
+const BUNDLED = entriesFromJson(bundledCatalog);
+
+/** The bundled catalog of typical US supermarket prices. */
+export const BUNDLED_PRICE_CATALOG: PriceCatalog = createPriceCatalog(
+  BUNDLED.entries,
+  BUNDLED.currency,
+);
+
+/**
+ * Load a JSON or CSV catalog file and lay it over the bundled one: its
+ * entries replace bundled entries of the same name and add new ones. A
+ * currency other than the bundled one replaces the bundled prices entirely.
+ */
+export async function loadPriceCatalog(path: string): Promise<PriceCatalog> {
+  const text = await readFile(path, 'utf8');
+  const { entries, currency } = /\.csv$/i.test(path)
+    ? { entries: parsePriceCatalogCsv(text), currency: undefined }
+    : entriesFromJson(JSON.parse(text));
+  if (entries.length === 0) throw new Error(`no valid price entries in ${path}`);
+
+  const target = currency ?? BUNDLED.currency ?? 'USD';
+  if (target !== BUNDLED.currency) return createPriceCatalog(entries, target);
+
+  const overridden = new Set(entries.map((e) => e.name.toLowerCase()));
+  return createPriceCatalog(
+    [...entries, ...BUNDLED.entries.filter((e) => !overridden.has(e.name.toLowerCase()))],
+    target,
+  );
+}
+
+const loadedCatalogs = new Map<string, Promise<PriceCatalog>>();
+
+/**
+ * The catalog to price with: the file named by KITCHLY_PRICE_CATALOG laid
+ * over the bundled prices, or the bundled prices alone. A file that cannot
+ * be read is reported once and skipped.
+ */
+export async function getPriceCatalog(runtime: IAgentRuntime): Promise<PriceCatalog> {
+  const path = runtime.getSetting('KITCHLY_PRICE_CATALOG') || process.env.KITCHLY_PRICE_CATALOG;
+  if (typeof path !== 'string' || !path.trim()) return BUNDLED_PRICE_CATALOG;
+
+  let catalog = loadedCatalogs.get(path);
+  if (!catalog) {
+    catalog = loadPriceCatalog(path.trim()).catch((err) => {
+      console.warn(
+        `[Kitchly] Could not load price catalog ${path}, using bundled prices:`,
+        err instanceof Error ? err.message : err,
+      );
+      return BUNDLED_PRICE_CATALOG;
+    });
+    loadedCatalogs.set(path, catalog);
+  }
+  return catalog;
+}
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+/** How many of an entry's priced units an ingredient uses, if we can tell. */
+function unitsNeeded(ingredient: InstacartIngredient, entry: PriceEntry): number | undefined {
+  const entryUnit = canonicalizeUnit(entry.unit);
+  const entryKind = unitKind(entryUnit);
+
+  for (const m of ingredient.measurements || []) {
+    const unit = canonicalizeUnit(m.unit);
+    if (entryKind === 'count' && unit === entryUnit) return m.quantity;
+    if (ITEM_UNITS.has(entryUnit) && ITEM_UNITS.has(unit)) return m.quantity;
+    const converted = convertMeasurement(m, entryUnit, ingredient.name);
+    if (converted) return converted.quantity;
+  }
+
+  // Otherwise go through the ingredient's weight: "1 onion" priced by the pound
+  const grams = ingredientWeight(ingredient);
+  if (grams === undefined || grams <= 0) return undefined;
+  if (entryKind === 'count') return entry.grams ? grams / entry.grams : undefined;
+  return convertMeasurement({ quantity: grams, unit: 'gram' }, entryUnit, ingredient.name)
+    ?.quantity;
+}
+
+/** Cost of the amount of an ingredient used, or `undefined` if we cannot price it. */
+export function ingredientCost(
+  ingredient: InstacartIngredient,
+  catalog: PriceCatalog = BUNDLED_PRICE_CATALOG,
+): number | undefined {
+  const entry = catalog.find(ingredient.name) ?? catalog.find(ingredient.display_text || '');
+  if (!entry) return undefined;
+  const needed = unitsNeeded(ingredient, entry);
+  if (needed === undefined || needed <= 0) return undefined;
+  return (needed / (entry.quantity ?? 1)) * entry.price;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function estimateCost(
+  ingredients: InstacartIngredient[],
+  catalog: PriceCatalog,
+  servings?: number,
+): CostEstimate {
+  const items: CostEstimate['items'] = [];
+  const unpriced: string[] = [];
+  for (const ingredient of ingredients) {
+    const cost = ingredientCost(ingredient, catalog);
+    if (cost === undefined) {
+      unpriced.push(ingredient.name);
+    } else {
+      items.push({ name: ingredient.name, cost: roundCents(cost) });
+    }
+  }
+  items.sort((a, b) => b.cost - a.cost);
+
+  const total = roundCents(items.reduce((sum, item) => sum + item.cost, 0));
+  const estimate: CostEstimate = { currency: catalog.currency, total, items, unpriced };
+  if (servings && servings > 0) {
+    estimate.servings = servings;
+    estimate.perServing = roundCents(total / servings);
+  }
+  return estimate;
+}
+
+/** Estimate what a recipe's ingredients cost, in total and per serving. */
+export function recipeCost(
+  recipe: Pick<Recipe, 'ingredients' | 'servings'>,
+  catalog: PriceCatalog = BUNDLED_PRICE_CATALOG,
+): CostEstimate {
+  return estimateCost(recipe.ingredients, catalog, recipe.servings);
+}
+
+/** Estimate a shopping list's cost, per serving when `servings` is given. */
+export function shoppingListCost(
+  items: InstacartLineItem[],
+  catalog: PriceCatalog = BUNDLED_PRICE_CATALOG,
+  servings?: number,
+): CostEstimate {
+  return estimateCost(
+    items.map((item) => ({
+      name: item.name,
+      display_text: item.display_text,
+      measurements: item.line_item_measurements,
+    })),
+    catalog,
+    servings,
+  );
+}
+
+/**
+ * Estimate a meal plan's consolidated shopping list. Servings are every
+ * serving the plan's meals make, for meals that say how many.
+ */
+export function mealPlanCost(
+  plan: MealPlan,
+  catalog: PriceCatalog = BUNDLED_PRICE_CATALOG,
+): CostEstimate {
+  const servings = plan.days.reduce(
+    (sum, day) => sum + day.meals.reduce((n, meal) => n + (meal.servings ?? 0), 0),
+    0,
+  );
+  return shoppingListCost(plan.consolidatedList, catalog, servings || undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Budgets
+// ---------------------------------------------------------------------------
+
+const BUDGET_PATTERNS: RegExp[] = [
+  /\b(?:under|below|less than|no more than|at most|max(?:imum)?|within|cap(?:ped)? at|keep (?:it|this|the \w+) (?:under|below|to))\s*(?:a budget of\s*)?[$£€]\s*(\d+(?:\.\d+)?)/,
+  /\b(?:under|below|less than|no more than|at most|within)\s*(\d+(?:\.\d+)?)\s*(?:dollars|bucks|pounds|euros)\b/,
+  /\bbudget (?:of|is|at)\s*[$£€]?\s*(\d+(?:\.\d+)?)/,
+  /[$£€]\s*(\d+(?:\.\d+)?)\s*(?:budget|or less|max(?:imum)?|tops)\b/,
+];
+
+/**
+ * A spending cap stated in a request, e.g. "keep this week under $80" or
+ * "with a budget of 60 dollars".
+ */
+export function parseBudgetLimit(text: string): number | undefined {
+  const lower = text.toLowerCase().replace(/(\d),(\d{3})\b/g, '$1$2');
+  for (const pattern of BUDGET_PATTERNS) {
+    const m = lower.match(pattern);
+    if (!m) continue;
+    const amount = parseFloat(m[1]);
+    if (amount > 0) return amount;
+  }
+  return undefined;
+}
+
+/** The cap as a line for generation prompts. */
+export function formatBudgetForPrompt(limit: number | undefined, currency: string): string {
+  if (!limit) return '';
+  return `\n\nGrocery budget: the consolidated shopping list must cost no more than ${formatCost(
+    limit,
+    currency,
+  )} at typical supermarket prices. It will be priced from the ingredient quantities, so favour inexpensive staples, reuse ingredients across meals, and keep quantities no larger than needed.`;
+}
+
+/**
+ * Prompt feedback for a plan that went over budget, naming the items that
+ * cost the most.
+ */
+export function buildBudgetFeedback(estimate: CostEstimate, limit: number): string {
+  const priciest = estimate.items
+    .slice(0, 5)
+    .map((item) => `- ${item.name}: ${formatCost(item.cost, estimate.currency)}`)
+    .join('\n');
+  return `\n\nYOUR PREVIOUS ATTEMPT WENT OVER THE GROCERY BUDGET: its shopping list came to about ${formatCost(
+    estimate.total,
+    estimate.currency,
+  )} against a budget of ${formatCost(limit, estimate.currency)}. The most expensive items were:\n${priciest}\nRegenerate the plan for less -- swap in cheaper ingredients, share ingredients between meals, or use smaller amounts -- and update the consolidated list to match.`;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** "$12.40" in the catalog's currency. */
+export function formatCost(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/** "$12.40 total · $3.10 per serving (4 servings)" */
+export function formatCostEstimate(estimate: CostEstimate): string {
+  const parts = [`${formatCost(estimate.total, estimate.currency)} total`];
+  if (estimate.perServing !== undefined) {
+    parts.push(
+      `${formatCost(estimate.perServing, estimate.currency)} per serving (${estimate.servings} servings)`,
+    );
+  }
+  return parts.join(' · ');
+}
+
+/** A note on what an estimate leaves out, or '' when everything was priced. */
+export function formatUnpriced(unpriced: string[]): string {
+  if (unpriced.length === 0) return '';
+  return `Cost leaves out ${unpriced.join(', ')}.`;
+}
@@ -0,0 +1,288 @@
+// ============================================================================
+// Kitchly - Ingredient / instruction consistency
+//
+// Generated recipes sometimes tell the cook to "add the shallots" when no
+// shallots are listed, or list an ingredient no step ever uses. Both end
+// up wrong in the Instacart cart. This cross-references the ingredient
+// list against the steps using the grocery vocabulary of the bundled price
+// catalog (plus common items it doesn't price), and reconciles the list:
+// ingredients the steps need are added, ones they never use are dropped.
+//
+// Matching is word-based and deliberately lenient about what counts as
+// "used" -- "season to taste" uses the salt, "the dry ingredients" the
+// flour -- so only clear gaps are changed.
+// ============================================================================
+
+import type { InstacartIngredient, Recipe } from '../types/index.js';
+import { measurementsFromDisplayText } from './ingredientParser.js';
+import { isOptionalIngredient } from './ingredientGroups.js';
+import bundledCatalog from '../data/priceCatalog.json';
+
+/** An ingredient the steps use but the list leaves out. */
+export interface MissingIngredient {
+  name: string;
+  /** Zero-based indexes of the steps that mention it. */
+  steps: number[];
+}
+
+export interface ConsistencyReport {
+  missing: MissingIngredient[];
+  unused: InstacartIngredient[];
+}
+
+// ---------------------------------------------------------------------------
+// Vocabulary
+// ---------------------------------------------------------------------------
+
+/** Groceries steps often name that the price catalog doesn't carry. */
+const EXTRA_TERMS = [
+  'shallots', 'leeks', 'scallions', 'capers', 'olives', 'anchovies', 'thyme', 'rosemary',
+  'sage', 'dill', 'mint', 'chives', 'bay leaves', 'nutmeg', 'turmeric', 'cardamom',
+  'cayenne', 'saffron', 'pine nuts', 'pecans', 'pistachios', 'raisins', 'peas',
+  'lemongrass', 'miso', 'tahini', 'sriracha', 'worcestershire sauce', 'panko', 'gnocchi',
+  'couscous', 'pancetta', 'prosciutto', 'chorizo', 'lamb', 'turkey', 'tuna', 'oranges',
+  'pears', 'peaches', 'mango', 'pineapple', 'radishes', 'beets', 'arugula', 'bok choy',
+  'chard', 'edamame', 'hummus', 'pesto', 'gruyere', 'goat cheese', 'mascarpone',
+];
+
+/** Different names for the same grocery. */
+const SYNONYMS = [
+  ['green onion', 'scallion', 'spring onion'],
+  ['cilantro', 'coriander leaves'],
+  ['chickpea', 'garbanzo bean'],
+  ['zucchini', 'courgette'],
+  ['eggplant', 'aubergine'],
+  ['shrimp', 'prawn'],
+  ['arugula', 'rocket'],
+];
+
+/** Words that describe an ingredient rather than name it. */
+const DESCRIPTORS = new Set([
+  'fresh', 'dried', 'ground', 'chopped', 'minced', 'diced', 'sliced', 'grated', 'shredded',
+  'crushed', 'large', 'small', 'medium', 'boneless', 'skinless', 'extra', 'virgin', 'all',
+  'purpose', 'unsalted', 'salted', 'kosher', 'sea', 'whole', 'low', 'sodium', 'reduced',
+  'fat', 'free', 'plain', 'granulated', 'light', 'dark', 'packed', 'frozen', 'canned',
+  'raw', 'ripe', 'optional', 'of', 'and', 'or', 'for', 'to', 'taste', 'a', 'the', 'cold',
+  'warm', 'room', 'temperature', 'finely', 'roughly', 'thinly', 'cup', 'can', 'jar',
+]);
+
+/**
+ * Phrases in a step that use a whole family of ingredients at once. Each
+ * maps to words that mark an ingredient as part of the family.
+ */
+const GROUP_REFERENCES: [RegExp, string[]][] = [
+  [
+    /\b(?:season|seasoning|seasonings|spice|spices|spice mix)\b/,
+    ['salt', 'pepper', 'peppercorn', 'cumin', 'paprika', 'chili', 'oregano', 'cinnamon', 'powder',
+      'nutmeg', 'turmeric', 'coriander', 'cardamom', 'cayenne', 'flake', 'seasoning', 'allspice',
+      'clove', 'thyme', 'garam', 'masala', 'spice'],
+  ],
+  [
+    /\bherbs?\b/,
+    ['parsley', 'cilantro', 'basil', 'thyme', 'rosemary', 'dill', 'mint', 'chive', 'oregano',
+      'sage', 'tarragon', 'herb'],
+  ],
+  [
+    /\bdry ingredients\b/,
+    ['flour', 'sugar', 'baking', 'soda', 'powder', 'salt', 'cocoa', 'cornstarch', 'yeast', 'oat',
+      'cinnamon', 'nutmeg'],
+  ],
+  [
+    /\bwet ingredients\b/,
+    ['milk', 'egg', 'butter', 'oil', 'vanilla', 'buttermilk', 'yogurt', 'honey', 'cream', 'water'],
+  ],
+  [
+    /\b(?:vegetables|veggies|veg)\b/,
+    ['onion', 'garlic', 'carrot', 'celery', 'pepper', 'broccoli', 'cauliflower', 'zucchini',
+      'mushroom', 'spinach', 'kale', 'cabbage', 'pea', 'bean', 'corn', 'potato', 'tomato',
+      'eggplant', 'squash', 'asparagus', 'leek', 'shallot', 'scallion', 'cucumber', 'lettuce'],
+  ],
+];
+
+/** Steps that use everything left ("add the remaining ingredients"). */
+const ALL_INGREDIENTS = /\b(?:remaining|rest of the|all (?:of )?the|all) ingredients\b|\beverything\b/;
+
+/** "tomatoes" -> "tomato", "berries" -> "berry", "leaves" -> "leaf". */
+function singular(word: string): string {
+  if (word.length <= 3 || word.endsWith('ss') || word.endsWith('us')) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('ves')) return `${word.slice(0, -3)}f`;
+  if (/(?:oes|ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  return word.endsWith('s') ? word.slice(0, -1) : word;
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .map(singular);
+}
+
+interface Term {
+  /** The grocery as it would be listed, e.g. "shallots". */
+  name: string;
+  words: string[];
+}
+
+const TERMS: Term[] = (() => {
+  const names = new Set<string>(EXTRA_TERMS);
+  for (const item of bundledCatalog.items as { name: string; aliases?: string[] }[]) {
+    names.add(item.name);
+    for (const alias of item.aliases ?? []) names.add(alias);
+  }
+  // Longest first, so "olive oil" wins over "oil" and "brown sugar" over "sugar"
+  return [...names]
+    .map((name) => ({ name, words: words(name) }))
+    .filter((t) => t.words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length);
+})();
+
+const SYNONYM_WORDS = SYNONYMS.map((group) => group.map((name) => words(name).join(' ')));
+
+/** The groceries named in a step, longest match first, each once. */
+function termsIn(stepWords: string[]): Term[] {
+  const found: Term[] = [];
+  let i = 0;
+  while (i < stepWords.length) {
+    const term = TERMS.find((t) => t.words.every((w, k) => stepWords[i + k] === w));
+    if (term) {
+      if (!found.includes(term)) found.push(term);
+      i += term.words.length;
+    } else {
+      i++;
+    }
+  }
+  return found;
+}
+
+/**
+ * Every way an ingredient list could name a term: its synonyms, without
+ * descriptions ("ground pepper" is listed as "black pepper").
+ */
+function spellings(term: Term): string[][] {
+  const joined = term.words.join(' ');
+  const group = SYNONYM_WORDS.find((g) => g.includes(joined));
+  return (group ?? [joined]).map((s) => {
+    const all = s.split(' ');
+    const significant = all.filter((w) => !DESCRIPTORS.has(w));
+    return significant.length ? significant : all;
+  });
+}
+
+function containsAll(haystack: Set<string>, needles: string[]): boolean {
+  return needles.every((w) => haystack.has(w));
+}
+
+/** The words that name an ingredient, without amounts and descriptions. */
+function nameWords(ingredient: InstacartIngredient): string[] {
+  const all = words(ingredient.name);
+  const significant = all.filter((w) => !DESCRIPTORS.has(w));
+  return significant.length ? significant : all;
+}
+
+// ---------------------------------------------------------------------------
+// Checking and reconciling
+// ---------------------------------------------------------------------------
+
+/** Ingredients the steps need but the list lacks, and listed ones no step uses. */
+export function checkRecipeConsistency(
+  recipe: Pick<Recipe, 'ingredients' | 'instructions'>,
+): ConsistencyReport {
+  const listed = recipe.ingredients.map(
+    (ing) => new Set(words(`${ing.name} ${ing.display_text ?? ''}`)),
+  );
+  const stepWords = recipe.instructions.map(words);
+
+  const missing: MissingIngredient[] = [];
+  const covering = new Set<number>();
+  stepWords.forEach((sw, index) => {
+    for (const term of termsIn(sw)) {
+      let covered = false;
+      for (const spelling of spellings(term)) {
+        listed.forEach((ingredientWords, i) => {
+          if (containsAll(ingredientWords, spelling)) {
+            covering.add(i);
+            covered = true;
+          }
+        });
+      }
+      if (covered) continue;
+      const known = missing.find((m) => m.name === term.name);
+      if (known) known.steps.push(index);
+      else missing.push({ name: term.name, steps: [index] });
+    }
+  });
+
+  const stepText = recipe.instructions.join(' ').toLowerCase();
+  const usedWords = new Set(stepWords.flat());
+  const groupWords = new Set(
+    GROUP_REFERENCES.filter(([pattern]) => pattern.test(stepText)).flatMap(([, w]) => w),
+  );
+  const unused = ALL_INGREDIENTS.test(stepText)
+    ? []
+    : recipe.ingredients.filter(
+        (ing, i) =>
+          // Optional extras and garnishes are often left to the cook's judgement
+          !isOptionalIngredient(ing) &&
+          !covering.has(i) &&
+          !nameWords(ing).some((w) => usedWords.has(w) || groupWords.has(w)),
+      );
+
+  return { missing, unused };
+}
+
+export function isConsistent(report: ConsistencyReport): boolean {
+  return report.missing.length === 0 && report.unused.length === 0;
+}
+
+/**
+ * The recipe with its ingredient list matched to its steps: anything the
+ * steps use but the list leaves out is added (amount unknown, so one of
+ * it), and anything no step uses is dropped. Returns the report of what
+ * changed alongside.
+ */
+export function reconcileRecipe<T extends Pick<Recipe, 'ingredients' | 'instructions'>>(
+  recipe: T,
+): { recipe: T; report: ConsistencyReport } {
+  const report = checkRecipeConsistency(recipe);
+  if (isConsistent(report)) return { recipe, report };
+
+  const ingredients = [
+    ...recipe.ingredients.filter((ing) => !report.unused.includes(ing)),
+    ...report.missing.map((m) => ({
+      name: m.name,
+      display_text: m.name,
+      measurements: measurementsFromDisplayText(m.name, undefined),
+    })),
+  ];
+  return { recipe: { ...recipe, ingredients }, report };
+}
+
+function stepList(steps: number[]): string {
+  const numbers = steps.map((s) => s + 1);
+  return numbers.length === 1 ? `step ${numbers[0]}` : `steps ${numbers.join(', ')}`;
+}
+
+/** "Added shallots (step 4) to the ingredients. Dropped parsley -- no step uses it." */
+export function formatConsistencyFixes(report: ConsistencyReport): string {
+  const parts: string[] = [];
+  if (report.missing.length) {
+    parts.push(
+      `Added ${report.missing
+        .map((m) => `${m.name} (${stepList(m.steps)})`)
+        .join(', ')} to the ingredients.`,
+    );
+  }
+  if (report.unused.length) {
+    const names = report.unused.map((ing) => ing.name);
+    parts.push(
+      `Dropped ${names.join(', ')} -- no step uses ${names.length === 1 ? 'it' : 'them'}.`,
+    );
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,442 @@
+// ============================================================================
+// Kitchly - Recipe export
+//
+// Renders a `Recipe` in formats other apps understand: schema.org JSON-LD,
+// Markdown, plain text, Paprika-compatible JSON and a printable HTML page.
+// Unlike the chat formatting in the actions, exports carry no Instacart
+// links or chat prompts -- just the recipe. Export links for the HTTP route
+// are signed, so they only open the recipe they were issued for.
+// ============================================================================
+
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import type { InstacartIngredient, Recipe } from '../types/index.js';
+import { formatMeasurement } from './units.js';
+import { groupedIngredientLines, withIngredientFlags } from './ingredientGroups.js';
+import { SCHEMA_DIETS, formatDuration, parseIsoDuration } from './recipeImport.js';
+import { isPublicImageUrl } from './recipeImage.js';
+
+export type ExportFormat = 'jsonld' | 'markdown' | 'text' | 'paprika' | 'html';
+
+/** A rendered export, ready to send as a file or a chat message. */
+export interface ExportedRecipe {
+  format: ExportFormat;
+  content: string;
+  contentType: string;
+  filename: string;
+}
+
+interface FormatInfo {
+  label: string;
+  extension: string;
+  contentType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatInfo> = {
+  jsonld: { label: 'schema.org JSON-LD', extension: 'jsonld', contentType: 'application/ld+json' },
+  markdown: { label: 'Markdown', extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  text: { label: 'plain text', extension: 'txt', contentType: 'text/plain; charset=utf-8' },
+  paprika: { label: 'Paprika JSON', extension: 'paprika.json', contentType: 'application/json' },
+  html: { label: 'a printable web page', extension: 'html', contentType: 'text/html; charset=utf-8' },
+};
+
+/** Read the format a user asked for ("as markdown", "for Paprika", "printable"). */
+export function parseExportFormat(text: string): ExportFormat | undefined {
+  const t = text.toLowerCase();
+  if (/\bjson[- ]?ld\b|\bschema(?:\.org)?\b|\bstructured data\b/.test(t)) return 'jsonld';
+  if (/\bpaprika\b/.test(t)) return 'paprika';
+  if (/\bhtml\b|\bprint(?:able|out)?\b|\bweb ?page\b/.test(t)) return 'html';
+  if (/\bmarkdown\b|\bmd\b/.test(t)) return 'markdown';
+  if (/\bplain text\b|\btext file\b|\btxt\b|\bas text\b/.test(t)) return 'text';
+  return undefined;
+}
+
+/** Accept a format name from an HTTP request ("json-ld", "md", "txt" ...). */
+export function exportFormatFrom(value: unknown): ExportFormat | undefined {
+  if (typeof value !== 'string') return undefined;
+  const v = value.trim().toLowerCase().replace(/[^a-z]/g, '');
+  const aliases: Record<string, ExportFormat> = {
+    jsonld: 'jsonld',
+    schema: 'jsonld',
+    markdown: 'markdown',
+    md: 'markdown',
+    text: 'text',
+    txt: 'text',
+    plain: 'text',
+    paprika: 'paprika',
+    paprikarecipe: 'paprika',
+    paprikarecipes: 'paprika',
+    html: 'html',
+    print: 'html',
+  };
+  return aliases[v];
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function ingredientLine(ing: InstacartIngredient): string {
+  const measurement = ing.measurements?.[0];
+  const text =
+    ing.display_text?.trim() ||
+    (measurement ? `${formatMeasurement(measurement)} ${ing.name}` : ing.name);
+  return withIngredientFlags(text, ing);
+}
+
+/** Minutes in a written duration: "1 hour 30 minutes", "45 min", "PT20M". */
+export function durationMinutes(value: string | undefined): number | undefined {
+  if (!value?.trim()) return undefined;
+  const iso = parseIsoDuration(value);
+  if (iso !== undefined) return iso;
+  const hours = value.match(/(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)\b/i);
+  const minutes = value.match(/(\d+)\s*(?:m|mins?|minutes?)\b/i);
+  const total =
+    (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+  return total > 0 ? Math.round(total) : undefined;
+}
+
+function isoDuration(minutes: number | undefined): string | undefined {
+  if (!minutes) return undefined;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ''}${rest ? `${rest}M` : ''}`;
+}
+
+function totalMinutes(recipe: Recipe): number | undefined {
+  const prep = durationMinutes(recipe.prepTime);
+  const cook = durationMinutes(recipe.cookTime);
+  return prep !== undefined || cook !== undefined ? (prep ?? 0) + (cook ?? 0) : undefined;
+}
+
+/** Label and value rows for servings, times, cuisine, tags and equipment, in display order. */
+function details(recipe: Recipe): [string, string][] {
+  const rows: [string, string][] = [];
+  if (recipe.servings) rows.push(['Servings', String(recipe.servings)]);
+  if (recipe.prepTime) rows.push(['Prep Time', recipe.prepTime]);
+  if (recipe.cookTime) rows.push(['Cook Time', recipe.cookTime]);
+  const total = totalMinutes(recipe);
+  if (total && recipe.prepTime && recipe.cookTime) rows.push(['Total Time', formatDuration(total)]);
+  if (recipe.cuisine) rows.push(['Cuisine', recipe.cuisine]);
+  if (recipe.dietaryTags?.length) rows.push(['Tags', recipe.dietaryTags.join(', ')]);
+  if (recipe.equipment?.length) rows.push(['Equipment', recipe.equipment.join(', ')]);
+  return rows;
+}
+
+/**
+ * The recipe's own photo when it is hosted somewhere a file opened
+ * elsewhere can load. Exports never use the placeholder.
+ */
+function exportImage(recipe: Recipe): string | undefined {
+  return isPublicImageUrl(recipe.imageUrl) ? recipe.imageUrl.trim() : undefined;
+}
+
+/** The recipe's source page, when it's a web link safe to put in an export. */
+function exportSourceUrl(recipe: Recipe): string | undefined {
+  if (!recipe.sourceUrl) return undefined;
+  try {
+    const { protocol } = new URL(recipe.sourceUrl.trim());
+    return protocol === 'http:' || protocol === 'https:' ? recipe.sourceUrl.trim() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function slugify(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'recipe'
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ---------------------------------------------------------------------------
+// Formats
+// ---------------------------------------------------------------------------
+
+/** A schema.org `Recipe` object, as Google, recipe managers and our own importer read it. */
+export function recipeToJsonLd(recipe: Recipe): Record<string, unknown> {
+  const dietUrls = Object.entries(SCHEMA_DIETS)
+    .filter(([, tag]) => recipe.dietaryTags?.some((t) => t.toLowerCase() === tag))
+    .map(([diet]) => `https://schema.org/${diet}`);
+
+  const node: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.title,
+    recipeIngredient: recipe.ingredients.map(ingredientLine),
+    recipeInstructions: recipe.instructions.map((text) => ({ '@type': 'HowToStep', text })),
+  };
+  if (recipe.servings) node.recipeYield = `${recipe.servings} servings`;
+  const prep = isoDuration(durationMinutes(recipe.prepTime));
+  const cook = isoDuration(durationMinutes(recipe.cookTime));
+  if (prep) node.prepTime = prep;
+  if (cook) node.cookTime = cook;
+  if (prep && cook) node.totalTime = isoDuration(totalMinutes(recipe));
+  if (recipe.cuisine) node.recipeCuisine = recipe.cuisine;
+  if (recipe.dietaryTags?.length) node.keywords = recipe.dietaryTags.join(', ');
+  if (dietUrls.length) node.suitableForDiet = dietUrls;
+  if (recipe.equipment?.length) {
+    node.tool = recipe.equipment.map((name) => ({ '@type': 'HowToTool', name }));
+  }
+  const image = exportImage(recipe);
+  if (image) node.image = image;
+  const sourceUrl = exportSourceUrl(recipe);
+  if (sourceUrl) node.url = sourceUrl;
+  return node;
+}
+
+export function recipeToMarkdown(recipe: Recipe): string {
+  const lines: string[] = [`# ${recipe.title}`, ''];
+  const image = exportImage(recipe);
+  if (image) lines.push(`![${recipe.title}](${image})`, '');
+  const rows = details(recipe);
+  if (rows.length) {
+    lines.push(...rows.map(([label, value]) => `- **${label}:** ${value}`), '');
+  }
+  lines.push('## Ingredients', '');
+  lines.push(
+    ...groupedIngredientLines(
+      recipe.ingredients,
+      (ing) => `- ${ingredientLine(ing)}`,
+      (name) => `### ${name}`,
+    ),
+    '',
+  );
+  lines.push('## Instructions', '');
+  lines.push(...recipe.instructions.map((step, i) => `${i + 1}. ${step}`));
+  const sourceUrl = exportSourceUrl(recipe);
+  if (sourceUrl) lines.push('', `Source: <${sourceUrl}>`);
+  return lines.join('\n') + '\n';
+}
+
+export function recipeToText(recipe: Recipe): string {
+  const title = recipe.title.toUpperCase();
+  const lines: string[] = [title, '='.repeat(title.length), ''];
+  const rows = details(recipe);
+  if (rows.length) lines.push(...rows.map(([label, value]) => `${label}: ${value}`), '');
+  const image = exportImage(recipe);
+  if (image) lines.push(`Photo: ${image}`, '');
+  lines.push('INGREDIENTS', '');
+  lines.push(
+    ...groupedIngredientLines(
+      recipe.ingredients,
+      (ing) => `- ${ingredientLine(ing)}`,
+      (name) => `${name}:`,
+    ),
+    '',
+  );
+  lines.push('INSTRUCTIONS', '');
+  lines.push(...recipe.instructions.map((step, i) => `${i + 1}. ${step}`));
+  const sourceUrl = exportSourceUrl(recipe);
+  if (sourceUrl) lines.push('', `Source: ${sourceUrl}`);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * A recipe in Paprika's JSON shape -- the document a `.paprikarecipe`
+ * file holds (gzipped), and one entry of a `.paprikarecipes` archive.
+ */
+export function recipeToPaprika(recipe: Recipe, now: Date = new Date()): Record<string, unknown> {
+  const sourceUrl = exportSourceUrl(recipe);
+  const source = sourceUrl ? new URL(sourceUrl).hostname.replace(/^www\./, '') : 'Kitchly';
+  const total = totalMinutes(recipe);
+
+  const paprika: Record<string, unknown> = {
+    uid: randomUUID().toUpperCase(),
+    name: recipe.title,
+    ingredients: recipe.ingredients.map(ingredientLine).join('\n'),
+    directions: recipe.instructions.join('\n\n'),
+    servings: recipe.servings ? String(recipe.servings) : '',
+    prep_time: recipe.prepTime ?? '',
+    cook_time: recipe.cookTime ?? '',
+    total_time: total && recipe.prepTime && recipe.cookTime ? formatDuration(total) : '',
+    categories: [recipe.cuisine, ...(recipe.dietaryTags || [])].filter(Boolean),
+    source,
+    source_url: sourceUrl ?? '',
+    notes: '',
+    description: '',
+    nutritional_info: '',
+    difficulty: '',
+    rating: 0,
+    image_url: exportImage(recipe) ?? '',
+    photo: '',
+    photo_data: null,
+    photo_hash: '',
+    created: now.toISOString().slice(0, 19).replace('T', ' '),
+  };
+  paprika.hash = createHash('sha256').update(JSON.stringify(paprika)).digest('hex');
+  return paprika;
+}
+
+/** A self-contained page that prints cleanly, with JSON-LD so it can be re-imported. */
+export function recipeToHtml(recipe: Recipe): string {
+  const rows = details(recipe)
+    .map(([label, value]) => `<li><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</li>`)
+    .join('');
+  const ingredients = groupedIngredientLines(
+    recipe.ingredients,
+    (ing) => `      <li>${escapeHtml(ingredientLine(ing))}</li>`,
+    (name) => `      <li class="group">${escapeHtml(name)}</li>`,
+  ).join('\n');
+  const steps = recipe.instructions
+    .map((step) => `      <li>${escapeHtml(step)}</li>`)
+    .join('\n');
+  const image = exportImage(recipe);
+  const photo = image
+    ? `\n    <img class="photo" src="${escapeHtml(image)}" alt="${escapeHtml(recipe.title)}">`
+    : '';
+  const sourceUrl = exportSourceUrl(recipe);
+  const source = sourceUrl
+    ? `\n    <p class="source">Source: <a href="${escapeHtml(sourceUrl)}">${escapeHtml(sourceUrl)}</a></p>`
+    : '';
+  // "</" cannot appear inside a script element
+  const jsonLd = JSON.stringify(recipeToJsonLd(recipe), null, 2).replace(/<\//g, '<\\/');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(recipe.title)}</title>
+  <script type="application/ld+json">
+${jsonLd}
+  </script>
+  <style>
+    body { font-family: Georgia, 'Times New Roman', serif; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.5; }
+    h1 { margin-bottom: 0.25rem; }
+    .details { list-style: none; padding: 0; display: flex; flex-wrap: wrap; gap: 0.25rem 1.5rem; color: #555; }
+    .photo { display: block; width: 100%; max-height: 24rem; object-fit: cover; border-radius: 0.5rem; margin: 1rem 0; }
+    h2 { border-bottom: 1px solid #ddd; padding-bottom: 0.25rem; margin-top: 2rem; }
+    ol li { margin-bottom: 0.75rem; }
+    li.group { list-style: none; margin: 0.75rem 0 0.25rem -1.25rem; font-weight: bold; }
+    .source { margin-top: 2rem; font-size: 0.875rem; color: #555; }
+    @media print { body { margin: 0; max-width: none; } a { color: inherit; text-decoration: none; } }
+  </style>
+</head>
+<body>
+  <article>
+    <h1>${escapeHtml(recipe.title)}</h1>${photo}
+    ${rows ? `<ul class="details">${rows}</ul>` : ''}
+    <h2>Ingredients</h2>
+    <ul>
+${ingredients}
+    </ul>
+    <h2>Instructions</h2>
+    <ol>
+${steps}
+    </ol>${source}
+  </article>
+</body>
+</html>
+`;
+}
+
+/** Render a recipe in the given format, with the file name and content type to serve it as. */
+export function exportRecipe(recipe: Recipe, format: ExportFormat): ExportedRecipe {
+  const info = EXPORT_FORMATS[format];
+  let content: string;
+  switch (format) {
+    case 'jsonld':
+      content = JSON.stringify(recipeToJsonLd(recipe), null, 2);
+      break;
+    case 'paprika':
+      content = JSON.stringify(recipeToPaprika(recipe), null, 2);
+      break;
+    case 'markdown':
+      content = recipeToMarkdown(recipe);
+      break;
+    case 'text':
+      content = recipeToText(recipe);
+      break;
+    case 'html':
+      content = recipeToHtml(recipe);
+      break;
+  }
+  return {
+    format,
+    content,
+    contentType: info.contentType,
+    filename: `${slugify(recipe.title)}.${info.extension}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Signed export links
+// ---------------------------------------------------------------------------
+
+/** How long an export link keeps working. */
+export const EXPORT_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Which recipe an export link opens: the active one in a room, or one the user saved. */
+export interface ExportTokenClaims {
+  roomId: UUID;
+  entityId: UUID;
+  savedRecipeId?: string;
+  /** Milliseconds since the epoch. */
+  expiresAt: number;
+}
+
+/** The secret export links are signed with. Without one, no links are issued or accepted. */
+export function getExportSecret(runtime: IAgentRuntime): string | undefined {
+  const secret = runtime.getSetting('KITCHLY_EXPORT_SECRET') || process.env.KITCHLY_EXPORT_SECRET;
+  return typeof secret === 'string' && secret ? secret : undefined;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/** A token for the export route that opens one user's recipe until it expires. */
+export function createExportToken(
+  claims: Omit<ExportTokenClaims, 'expiresAt'>,
+  secret: string,
+  now: number = Date.now(),
+): string {
+  const payload = Buffer.from(
+    JSON.stringify({ ...claims, expiresAt: now + EXPORT_TOKEN_TTL_MS }),
+  ).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/** The claims of an export token, or `null` when it is forged, malformed or expired. */
+export function verifyExportToken(
+  token: string,
+  secret: string,
+  now: number = Date.now(),
+): ExportTokenClaims | null {
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+  const expected = Buffer.from(sign(payload, secret));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (
+      typeof claims?.roomId !== 'string' ||
+      typeof claims.entityId !== 'string' ||
+      (claims.savedRecipeId !== undefined && typeof claims.savedRecipeId !== 'string') ||
+      typeof claims.expiresAt !== 'number' ||
+      claims.expiresAt <= now
+    ) {
+      return null;
+    }
+    return claims as ExportTokenClaims;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,284 @@
+// ============================================================================
+// Kitchly - Recipe versions and diffs
+//
+// Keeps a short history of edits to the active recipe so the user can go
+// back to an earlier version, and describes what changed between two
+// versions in words: ingredients added, removed or re-measured, and steps
+// added, removed or rewritten.
+// ============================================================================
+
+import type {
+  InstacartIngredient,
+  KitchenState,
+  Recipe,
+  RecipeVersion,
+} from '../types/index.js';
+import { formatMeasurement } from './units.js';
+import { withIngredientFlags } from './ingredientGroups.js';
+
+/** Versions kept per recipe; the original is never dropped. */
+export const MAX_RECIPE_VERSIONS = 10;
+
+// ---------------------------------------------------------------------------
+// Diffs
+// ---------------------------------------------------------------------------
+
+export interface IngredientChange {
+  from: InstacartIngredient;
+  to: InstacartIngredient;
+}
+
+/**
+ * A change to the steps. `index` is the step's position in the recipe it
+ * appears in: the old one for removals, the new one otherwise.
+ */
+export interface StepChange {
+  index: number;
+  from?: string;
+  to?: string;
+}
+
+export interface RecipeDiff {
+  title?: { from: string; to: string };
+  servings?: { from?: number; to?: number };
+  addedIngredients: InstacartIngredient[];
+  removedIngredients: InstacartIngredient[];
+  changedIngredients: IngredientChange[];
+  steps: StepChange[];
+}
+
+/** Match key for an ingredient: "Fresh Tomatoes" and "fresh tomato" are the same thing. */
+function ingredientKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/(?:es|s)$/, '');
+}
+
+/** An ingredient as the user reads it. */
+export function ingredientText(ingredient: InstacartIngredient): string {
+  const measurements = ingredient.measurements?.map(formatMeasurement).join(', ');
+  const text =
+    ingredient.display_text ||
+    (measurements ? `${measurements} ${ingredient.name}` : ingredient.name);
+  return withIngredientFlags(text, ingredient);
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/** Edit script turning `before` into `after`, from their longest common subsequence. */
+function stepOperations(before: string[], after: string[]): ('keep' | 'remove' | 'add')[] {
+  const a = before.map(normalizeText);
+  const b = after.map(normalizeText);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: ('keep' | 'remove' | 'add')[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push('keep');
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      ops.push('add');
+      j++;
+    } else {
+      ops.push('remove');
+      i++;
+    }
+  }
+  return ops;
+}
+
+/**
+ * Step changes between two instruction lists. A run of removed steps next
+ * to a run of added ones is read as those steps being rewritten.
+ */
+function diffSteps(before: string[], after: string[]): StepChange[] {
+  const ops = stepOperations(before, after);
+  const changes: StepChange[] = [];
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k] === 'keep') {
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (k < ops.length && ops[k] !== 'keep') {
+      if (ops[k] === 'remove') removed.push(i++);
+      else added.push(j++);
+      k++;
+    }
+    const rewritten = Math.min(removed.length, added.length);
+    for (let n = 0; n < rewritten; n++) {
+      changes.push({ index: added[n], from: before[removed[n]], to: after[added[n]] });
+    }
+    for (const r of removed.slice(rewritten)) changes.push({ index: r, from: before[r] });
+    for (const a of added.slice(rewritten)) changes.push({ index: a, to: after[a] });
+  }
+  return changes;
+}
+
+/** What changed from one version of a recipe to another. */
+export function diffRecipes(before: Recipe, after: Recipe): RecipeDiff {
+  const diff: RecipeDiff = {
+    addedIngredients: [],
+    removedIngredients: [],
+    changedIngredients: [],
+    steps: diffSteps(before.instructions, after.instructions),
+  };
+  if (before.title !== after.title) diff.title = { from: before.title, to: after.title };
+  if (before.servings !== after.servings) {
+    diff.servings = { from: before.servings, to: after.servings };
+  }
+
+  const remaining = new Map(before.ingredients.map((ing) => [ingredientKey(ing.name), ing]));
+  for (const ing of after.ingredients) {
+    const key = ingredientKey(ing.name);
+    const previous = remaining.get(key);
+    if (!previous) {
+      diff.addedIngredients.push(ing);
+      continue;
+    }
+    remaining.delete(key);
+    if (normalizeText(ingredientText(previous)) !== normalizeText(ingredientText(ing))) {
+      diff.changedIngredients.push({ from: previous, to: ing });
+    }
+  }
+  diff.removedIngredients = [...remaining.values()];
+  return diff;
+}
+
+/** Whether the shopping list would change. */
+export function ingredientsChanged(diff: RecipeDiff): boolean {
+  return (
+    diff.addedIngredients.length > 0 ||
+    diff.removedIngredients.length > 0 ||
+    diff.changedIngredients.length > 0
+  );
+}
+
+export function isEmptyDiff(diff: RecipeDiff): boolean {
+  return !diff.title && !diff.servings && !ingredientsChanged(diff) && diff.steps.length === 0;
+}
+
+/** The diff as markdown, grouped into ingredients and steps. */
+export function formatRecipeDiff(diff: RecipeDiff): string {
+  const lines: string[] = [];
+  if (diff.title) lines.push(`**Renamed:** ${diff.title.from} → ${diff.title.to}`);
+  if (diff.servings) {
+    lines.push(`**Servings:** ${diff.servings.from ?? '?'} → ${diff.servings.to ?? '?'}`);
+  }
+
+  if (ingredientsChanged(diff)) {
+    if (lines.length) lines.push('');
+    lines.push('**Ingredients**');
+    for (const ing of diff.addedIngredients) lines.push(`- Added: ${ingredientText(ing)}`);
+    for (const ing of diff.removedIngredients) lines.push(`- Removed: ${ingredientText(ing)}`);
+    for (const { from, to } of diff.changedIngredients) {
+      lines.push(`- Changed: ${ingredientText(from)} → ${ingredientText(to)}`);
+    }
+  }
+
+  if (diff.steps.length) {
+    if (lines.length) lines.push('');
+    lines.push('**Steps**');
+    for (const step of diff.steps) {
+      if (step.from !== undefined && step.to !== undefined) {
+        lines.push(`- Step ${step.index + 1} now: ${step.to}`);
+      } else if (step.to !== undefined) {
+        lines.push(`- New step ${step.index + 1}: ${step.to}`);
+      } else {
+        lines.push(`- Dropped old step ${step.index + 1}: ${step.from}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Versions
+// ---------------------------------------------------------------------------
+
+function sameRecipe(a: Recipe, b: Recipe): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * The version history of `current`, or `undefined` when the stored history
+ * belongs to some other recipe (one created or opened since).
+ */
+export function activeRecipeVersions(
+  kitchenState: Pick<KitchenState, 'recipeVersions'>,
+  current: Recipe,
+): RecipeVersion[] | undefined {
+  const versions = kitchenState.recipeVersions;
+  if (!versions?.length || !sameRecipe(versions[versions.length - 1].recipe, current)) {
+    return undefined;
+  }
+  return versions;
+}
+
+/**
+ * The history after `previous` became `next`: starts one with `previous`
+ * as the original if there is none, and drops the oldest edits (never
+ * the original) beyond `MAX_RECIPE_VERSIONS`.
+ */
+export function addRecipeVersion(
+  kitchenState: Pick<KitchenState, 'recipeVersions'>,
+  previous: Recipe,
+  next: Recipe,
+  label: string,
+): RecipeVersion[] {
+  const now = Date.now();
+  const versions = [
+    ...(activeRecipeVersions(kitchenState, previous) ?? [
+      { recipe: previous, label: 'original', createdAt: now },
+    ]),
+    { recipe: next, label, createdAt: now },
+  ];
+  while (versions.length > MAX_RECIPE_VERSIONS) versions.splice(1, 1);
+  return versions;
+}
+
+/**
+ * Which version the user wants back, as an index into `versions`:
+ * "the original", "version 2", or the one before the current ("undo
+ * that", "go back").
+ */
+export function parseVersionRequest(text: string, versions: RecipeVersion[]): number | undefined {
+  const t = text.toLowerCase();
+  const numbered = t.match(/\b(?:version|v)\s*#?(\d+)\b/);
+  if (numbered) {
+    const index = parseInt(numbered[1], 10) - 1;
+    return index >= 0 && index < versions.length ? index : undefined;
+  }
+  if (/\b(?:original|first (?:version|one)|how it was|start(?:ed)? with)\b/.test(t)) return 0;
+  if (/\b(?:undo|previous|go back|revert|before that|last version|change it back|put it back)\b/.test(t)) {
+    return versions.length >= 2 ? versions.length - 2 : undefined;
+  }
+  return undefined;
+}
+
+/** "1. original · 2. spicier with chipotle · 3. one-pan (current)" */
+export function formatVersionList(versions: RecipeVersion[]): string {
+  return versions
+    .map((v, i) => `${i + 1}. ${v.label}${i === versions.length - 1 ? ' (current)' : ''}`)
+    .join(' · ');
+}
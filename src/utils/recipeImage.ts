@@ -0,0 +1,85 @@
+// ============================================================================
+// Kitchly - Recipe images
+//
+// A recipe's photo comes from the page it was imported from, a picture the
+// user sends, or -- when the agent has an image model configured -- one
+// generated for it. Anything that needs a picture and has none (the
+// Instacart recipe page, the web client's recipe card) uses the Kitchly
+// placeholder.
+// ============================================================================
+
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { ModelType } from '@elizaos/core';
+import type { Recipe } from '../types/index.js';
+
+/** Shown wherever a recipe has no photo of its own. */
+export const PLACEHOLDER_IMAGE_URL = 'https://www.kitchly.app/images/instakitchly.png';
+
+const IMAGE_EXTENSION = /\.(?:jpe?g|png|gif|webp|avif|heic)(?:[?#]|$)/i;
+
+/** Whether a URL can be handed to other services: http(s), not a data or blob URL. */
+export function isPublicImageUrl(url: string | undefined): url is string {
+  return !!url && /^https?:\/\/\S+$/i.test(url.trim());
+}
+
+/** The recipe's photo, or the placeholder when it has none that others can load. */
+export function recipeImageUrl(recipe: Pick<Recipe, 'imageUrl'>): string {
+  return isPublicImageUrl(recipe.imageUrl) ? recipe.imageUrl.trim() : PLACEHOLDER_IMAGE_URL;
+}
+
+/** The first image attached to a message, e.g. a photo of the finished dish. */
+export function imageAttachmentUrl(message: Memory): string | undefined {
+  for (const media of message.content?.attachments ?? []) {
+    const type = String(media.contentType ?? '').toLowerCase();
+    if (!media.url) continue;
+    if (type === 'image' || type.startsWith('image/') || IMAGE_EXTENSION.test(media.url)) {
+      return media.url;
+    }
+  }
+  return undefined;
+}
+
+function imagePrompt(recipe: Recipe): string {
+  const mainIngredients = recipe.ingredients
+    .filter((ing) => !ing.optional && !ing.garnish)
+    .slice(0, 5)
+    .map((ing) => ing.name)
+    .join(', ');
+  return `Appetizing overhead food photograph of ${recipe.title}${
+    recipe.cuisine ? `, ${recipe.cuisine} cuisine` : ''
+  }, made with ${mainIngredients}. Plated on a simple table in natural light. No text, no people.`;
+}
+
+/**
+ * Generate a photo for a recipe with the runtime's image model. Returns
+ * `undefined` when no image model is configured or generation fails --
+ * a missing photo never stops a recipe.
+ */
+export async function generateRecipeImage(
+  runtime: IAgentRuntime,
+  recipe: Recipe,
+): Promise<string | undefined> {
+  if (!runtime.getModel(ModelType.IMAGE)) return undefined;
+  try {
+    const images = await runtime.useModel(ModelType.IMAGE, {
+      prompt: imagePrompt(recipe),
+      size: '1024x1024',
+      count: 1,
+    });
+    const url = Array.isArray(images) ? images[0]?.url : undefined;
+    return typeof url === 'string' && url ? url : undefined;
+  } catch (err) {
+    console.warn(
+      '[Kitchly] Failed to generate recipe image:',
+      err instanceof Error ? err.message : err,
+    );
+    return undefined;
+  }
+}
+
+/** The recipe with a generated photo, unless it already has one. */
+export async function withRecipeImage(runtime: IAgentRuntime, recipe: Recipe): Promise<Recipe> {
+  if (recipe.imageUrl) return recipe;
+  const imageUrl = await generateRecipeImage(runtime, recipe);
+  return imageUrl ? { ...recipe, imageUrl } : recipe;
+}
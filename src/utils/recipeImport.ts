@@ -0,0 +1,466 @@
+// ============================================================================
+// Kitchly - Recipe import
+//
+// Extracts a schema.org `Recipe` from a web page -- JSON-LD first, then
+// microdata -- and maps it onto our `Recipe` type. Everything here works on
+// HTML the user pasted or saved; `fetchRecipePage` is an optional layer for
+// pulling the HTML from a URL.
+// ============================================================================
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import type { InstacartIngredient, Recipe } from '../types/index.js';
+import { ingredientFromLine } from './ingredientParser.js';
+import { withEquipment } from './equipment.js';
+
+/** How long to wait for a recipe page before giving up. */
+const FETCH_TIMEOUT_MS = 10_000;
+
+/** Most of a recipe page we read; the recipe markup is well within it. */
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+
+/** How many redirects to follow before giving up. */
+const MAX_REDIRECTS = 5;
+
+// ---------------------------------------------------------------------------
+// HTML text helpers
+// ---------------------------------------------------------------------------
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  frac12: '½',
+  frac14: '¼',
+  frac34: '¾',
+  frac13: '⅓',
+  frac23: '⅔',
+  frac18: '⅛',
+  deg: '°',
+  ndash: '–',
+  mdash: '—',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  hellip: '…',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n =
+        code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+/** Plain text from an HTML fragment: tags dropped, entities decoded, whitespace collapsed. */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(?:br|\/p|\/li|\/div)\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, ' '),
+  )
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ ([.,;:!?])/g, '$1')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+function oneLine(text: string): string {
+  return htmlToText(text).replace(/\s+/g, ' ').trim();
+}
+
+// ---------------------------------------------------------------------------
+// ISO-8601 durations
+// ---------------------------------------------------------------------------
+
+/** Minutes in an ISO-8601 duration such as "PT1H30M" or "P0DT45M". */
+export function parseIsoDuration(value: string | undefined): number | undefined {
+  const num = '(\\d+(?:\\.\\d+)?)';
+  const m = value
+    ?.trim()
+    .match(new RegExp(`^P(?:${num}D)?(?:T(?:${num}H)?(?:${num}M)?(?:${num}S)?)?$`, 'i'));
+  if (!m || m[0] === 'P' || m[0] === 'PT') return undefined;
+  const [, days, hours, minutes, seconds] = m.map((v) => (v ? parseFloat(v) : 0));
+  const total = days * 24 * 60 + hours * 60 + minutes + seconds / 60;
+  return total > 0 ? Math.round(total) : undefined;
+}
+
+/** "90" -> "1 hour 30 minutes", in the style the generators use. */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const parts: string[] = [];
+  if (hours) parts.push(`${hours} hour${hours === 1 ? '' : 's'}`);
+  if (rest || !hours) parts.push(`${rest} minute${rest === 1 ? '' : 's'}`);
+  return parts.join(' ');
+}
+
+/** Normalize a schema.org time to a readable duration, keeping free text as-is. */
+function normalizeDuration(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const minutes = parseIsoDuration(value);
+  if (minutes !== undefined) return formatDuration(minutes);
+  return /^P/i.test(value.trim()) ? undefined : value.trim();
+}
+
+// ---------------------------------------------------------------------------
+// schema.org value helpers
+// ---------------------------------------------------------------------------
+
+type SchemaNode = Record<string, any>;
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function firstText(value: unknown): string | undefined {
+  for (const v of asArray(value as unknown)) {
+    if (typeof v === 'string' && v.trim()) return oneLine(v);
+    if (typeof v === 'number') return String(v);
+    if (v && typeof v === 'object') {
+      const named = (v as SchemaNode).name ?? (v as SchemaNode)['@value'];
+      if (typeof named === 'string' && named.trim()) return oneLine(named);
+    }
+  }
+  return undefined;
+}
+
+function isRecipeNode(node: unknown): node is SchemaNode {
+  if (!node || typeof node !== 'object') return false;
+  return asArray((node as SchemaNode)['@type']).some(
+    (t) => typeof t === 'string' && /(?:^|[/:])Recipe$/i.test(t),
+  );
+}
+
+/** Depth-first search for a Recipe node through arrays, `@graph` and nested objects. */
+function findRecipeNode(value: unknown, depth = 0): SchemaNode | undefined {
+  if (depth > 8 || !value || typeof value !== 'object') return undefined;
+  if (isRecipeNode(value)) return value;
+  const children = Array.isArray(value) ? value : Object.values(value as SchemaNode);
+  for (const child of children) {
+    const found = findRecipeNode(child, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** Flatten recipeInstructions: text, HowToStep, HowToSection or nested lists of them. */
+function instructionSteps(value: unknown): string[] {
+  const steps: string[] = [];
+  for (const item of asArray(value as unknown)) {
+    if (typeof item === 'string') {
+      steps.push(...htmlToText(item).split('\n'));
+    } else if (item && typeof item === 'object') {
+      const node = item as SchemaNode;
+      if (node.itemListElement) {
+        steps.push(...instructionSteps(node.itemListElement));
+      } else {
+        const text = node.text ?? node.name ?? node.description;
+        if (typeof text === 'string') steps.push(oneLine(text));
+      }
+    }
+  }
+  return steps
+    .map((s) => s.replace(/^\s*(?:step\s*)?\d+[.):]\s*/i, '').trim())
+    .filter(Boolean);
+}
+
+function servingsFrom(value: unknown): number | undefined {
+  for (const v of asArray(value as unknown)) {
+    const n = typeof v === 'number' ? v : parseInt(String(v).match(/\d+/)?.[0] ?? '', 10);
+    if (Number.isFinite(n) && n > 0) return n;
+  }
+  return undefined;
+}
+
+/** schema.org `RestrictedDiet` values and the dietary tags they map to. */
+export const SCHEMA_DIETS: Record<string, string> = {
+  VeganDiet: 'vegan',
+  VegetarianDiet: 'vegetarian',
+  GlutenFreeDiet: 'gluten-free',
+  LowLactoseDiet: 'low-lactose',
+  LowFatDiet: 'low-fat',
+  LowSaltDiet: 'low-salt',
+  LowCalorieDiet: 'low-calorie',
+  DiabeticDiet: 'diabetic',
+  HalalDiet: 'halal',
+  KosherDiet: 'kosher',
+  HinduDiet: 'hindu',
+};
+
+/** HowTo `tool`: plain names or HowToTool nodes. */
+function toolNames(value: unknown): string[] {
+  return asArray(value as unknown)
+    .map(firstText)
+    .filter((t): t is string => !!t);
+}
+
+/**
+ * The recipe's photo: a URL, an ImageObject, or a list of either (the
+ * first is taken). Relative URLs are resolved against the page.
+ */
+function imageFrom(value: unknown, sourceUrl?: string): string | undefined {
+  for (const v of asArray(value as unknown)) {
+    const url =
+      typeof v === 'string'
+        ? v
+        : v && typeof v === 'object'
+          ? ((v as SchemaNode).url ?? (v as SchemaNode).contentUrl)
+          : undefined;
+    if (typeof url !== 'string' || !url.trim()) continue;
+    try {
+      return new URL(url.trim(), sourceUrl).href;
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+function dietaryTagsFrom(value: unknown): string[] {
+  return asArray(value as unknown)
+    .map((v) => (typeof v === 'string' ? SCHEMA_DIETS[v.split(/[/:]/).pop() || ''] : undefined))
+    .filter((t): t is string => !!t);
+}
+
+// ---------------------------------------------------------------------------
+// Mapping onto our Recipe type
+// ---------------------------------------------------------------------------
+
+/** Map a schema.org Recipe node onto our `Recipe`, or `null` if it lacks the essentials. */
+export function recipeFromSchema(node: SchemaNode, sourceUrl?: string): Recipe | null {
+  const title = firstText(node.name) ?? firstText(node.headline);
+  const ingredientLines = asArray(node.recipeIngredient ?? node.ingredients)
+    .filter((line): line is string => typeof line === 'string' && !!line.trim());
+  const instructions = instructionSteps(node.recipeInstructions);
+
+  if (!title || ingredientLines.length === 0 || instructions.length === 0) return null;
+
+  const recipe: Recipe = {
+    title,
+    ingredients: ingredientLines.map(ingredientFromLine),
+    instructions,
+    servings: servingsFrom(node.recipeYield ?? node.yield),
+    prepTime: normalizeDuration(node.prepTime),
+    cookTime: normalizeDuration(node.cookTime) ?? normalizeDuration(node.totalTime),
+    cuisine: firstText(node.recipeCuisine),
+    dietaryTags: dietaryTagsFrom(node.suitableForDiet),
+    equipment: toolNames(node.tool),
+  };
+  if (sourceUrl) recipe.sourceUrl = sourceUrl;
+  const imageUrl = imageFrom(node.image ?? node.thumbnailUrl, sourceUrl);
+  if (imageUrl) recipe.imageUrl = imageUrl;
+  // Pages rarely list their tools, so add the appliances the steps name
+  return withEquipment(recipe);
+}
+
+// ---------------------------------------------------------------------------
+// JSON-LD and microdata extraction
+// ---------------------------------------------------------------------------
+
+function recipeNodeFromJsonLd(html: string): SchemaNode | undefined {
+  const blocks = html.matchAll(
+    /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi,
+  );
+  for (const [, raw] of blocks) {
+    const json = raw.replace(/^\s*(?:<!\[CDATA\[|<!--)|(?:\]\]>|-->)\s*$/g, '').trim();
+    try {
+      const found = findRecipeNode(JSON.parse(json));
+      if (found) return found;
+    } catch {
+      // Sites ship broken JSON-LD surprisingly often -- try the next block
+    }
+  }
+  return undefined;
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const m = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return m ? decodeEntities(m[1] ?? m[2]) : undefined;
+}
+
+/**
+ * Read a microdata Recipe (`itemtype="https://schema.org/Recipe"`) into a
+ * node shaped like JSON-LD. Values come from `content`/`datetime`
+ * attributes where present, otherwise from the element's text.
+ */
+function recipeNodeFromMicrodata(html: string): SchemaNode | undefined {
+  const start = html.search(/itemtype\s*=\s*["']https?:\/\/schema\.org\/Recipe["']/i);
+  if (start < 0) return undefined;
+  const scope = html.slice(start);
+
+  const node: SchemaNode = { '@type': 'Recipe' };
+  const props = scope.matchAll(/<(\w+)\b([^>]*\bitemprop\s*=\s*["']([^"']+)["'][^>]*)>/gi);
+  for (const match of props) {
+    const [full, tagName, attrs, propList] = match;
+    let value =
+      attribute(attrs, 'content') ?? attribute(attrs, 'datetime') ?? attribute(attrs, 'href') ??
+      attribute(attrs, 'src');
+    if (value === undefined && !/^(?:meta|link|img)$/i.test(tagName)) {
+      const rest = scope.slice((match.index ?? 0) + full.length);
+      const close = rest.search(new RegExp(`</${tagName}\\s*>`, 'i'));
+      value = htmlToText(close >= 0 ? rest.slice(0, close) : rest.slice(0, 500));
+    }
+    if (!value) continue;
+
+    for (const prop of propList.split(/\s+/)) {
+      // Step text nested inside a HowToStep is collected with the step itself
+      if (prop === 'text' || prop === 'itemListElement') continue;
+      if (node[prop] === undefined) {
+        node[prop] = value;
+      } else {
+        node[prop] = [...asArray(node[prop]), value];
+      }
+    }
+  }
+  return node;
+}
+
+/** Extract a recipe from a page's HTML, or `null` when none is marked up. */
+export function extractRecipeFromHtml(html: string, sourceUrl?: string): Recipe | null {
+  const node = recipeNodeFromJsonLd(html) ?? recipeNodeFromMicrodata(html);
+  return node ? recipeFromSchema(node, sourceUrl) : null;
+}
+
+/** Whether a message looks like pasted HTML rather than a URL or chat. */
+export function looksLikeHtml(text: string): boolean {
+  return /<(?:html|head|body|script|div|article)\b|itemtype\s*=|application\/ld\+json/i.test(text);
+}
+
+/** The first http(s) URL in a message. */
+export function findUrl(text: string): string | undefined {
+  return text.match(/https?:\/\/[^\s<>"')\]]+/i)?.[0];
+}
+
+// ---------------------------------------------------------------------------
+// Fetching (optional)
+// ---------------------------------------------------------------------------
+
+/** Dotted IPv4 address -> its four octets. */
+function ipv4Octets(address: string): number[] {
+  return address.split('.').map((part) => parseInt(part, 10));
+}
+
+/**
+ * Whether an IP address is one a public web page can't live at: loopback,
+ * private, link-local (including cloud metadata at 169.254.169.254),
+ * carrier-grade NAT, multicast or unspecified.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const lower = address.toLowerCase();
+  if (isIP(lower) === 6) {
+    // IPv4-mapped, written dotted (::ffff:127.0.0.1) or in hex (::ffff:7f00:1)
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+      const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return (
+      lower === '::' ||
+      lower === '::1' ||
+      /^f[cd]/.test(lower) || // unique local fc00::/7
+      /^fe[89ab]/.test(lower) || // link-local fe80::/10
+      /^ff/.test(lower) // multicast
+    );
+  }
+  const [a, b] = ipv4Octets(lower);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+/**
+ * Throw unless `url` is an http(s) URL whose host resolves only to public
+ * addresses, so a pasted link can't reach the server's own network.
+ */
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch private address for ${url.hostname}`);
+  }
+}
+
+/** A response body as text, cut off after `MAX_PAGE_BYTES`. */
+async function readLimited(response: Response): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (total < MAX_PAGE_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.byteLength;
+  }
+  if (total >= MAX_PAGE_BYTES) await reader.cancel();
+
+  const bytes = new Uint8Array(Math.min(total, MAX_PAGE_BYTES));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Download a recipe page's HTML. Only public http(s) hosts are fetched --
+ * checked again on every redirect -- and only the first `MAX_PAGE_BYTES`
+ * are read. Throws on network errors, refused hosts and non-2xx responses.
+ */
+export async function fetchRecipePage(url: string): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    let target = new URL(url);
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicUrl(target);
+      const response = await fetch(target, {
+        headers: {
+          Accept: 'text/html,application/xhtml+xml',
+          'User-Agent': 'Mozilla/5.0 (compatible; Kitchly recipe importer)',
+        },
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects');
+        await response.body?.cancel();
+        target = new URL(location, target);
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      return await readLimited(response);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,262 @@
+// ============================================================================
+// Kitchly - Runtime schemas for model output
+//
+// The models are asked for JSON in a fixed shape, but nothing stops them
+// from leaving out a field, returning a number as a string or nesting a
+// list one level too deep. These small schemas check a parsed payload and
+// describe every problem by its path ("days[2].meals[0].type: expected one
+// of breakfast, lunch, dinner, snack, got "brunch""), so the model can be
+// asked to fix exactly that.
+// ============================================================================
+
+export interface SchemaIssue {
+  /** Where the problem is, e.g. `ingredients[3].name`; empty for the root. */
+  path: string;
+  message: string;
+}
+
+/**
+ * Checks a value, pushing any problems onto `issues`, and returns it with
+ * `null` optionals read as missing.
+ */
+export interface Schema<T> {
+  check(value: unknown, path: string, issues: SchemaIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export interface ObjectSchema<T> extends Schema<T> {
+  shape: { [K in keyof T]: Schema<T[K]> };
+}
+
+export type SchemaResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+// ---------------------------------------------------------------------------
+// Building blocks
+// ---------------------------------------------------------------------------
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  }
+  if (value === undefined) return 'nothing';
+  return String(value);
+}
+
+function fail(issues: SchemaIssue[], path: string, expected: string, value: unknown): void {
+  issues.push({ path, message: `expected ${expected}, got ${describeValue(value)}` });
+}
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'string') {
+        fail(issues, path, 'a string', value);
+      } else if (options.nonEmpty && !value.trim()) {
+        fail(issues, path, 'a non-empty string', value);
+      }
+      return value as string;
+    },
+  };
+}
+
+/** An absolute http(s) URL -- never a `javascript:` or `data:` link. */
+export function httpUrl(): Schema<string> {
+  return {
+    check(value, path, issues) {
+      let protocol: string | undefined;
+      try {
+        protocol = typeof value === 'string' ? new URL(value.trim()).protocol : undefined;
+      } catch {
+        // Not a URL at all
+      }
+      if (protocol !== 'http:' && protocol !== 'https:') fail(issues, path, 'an http(s) URL', value);
+      return value as string;
+    },
+  };
+}
+
+export function number(options: { positive?: boolean } = {}): Schema<number> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(issues, path, 'a number', value);
+      } else if (options.positive && value <= 0) {
+        fail(issues, path, 'a number greater than 0', value);
+      }
+      return value as number;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'boolean') fail(issues, path, 'true or false', value);
+      return value as boolean;
+    },
+  };
+}
+
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (!values.includes(value as T)) fail(issues, path, `one of ${values.join(', ')}`, value);
+      return value as T;
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { minItems?: number } = {}): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        fail(issues, path, 'an array', value);
+        return [];
+      }
+      if (options.minItems && value.length < options.minItems) {
+        issues.push({
+          path,
+          message: `expected at least ${options.minItems} item${options.minItems === 1 ? '' : 's'}, got ${value.length}`,
+        });
+      }
+      return value.map((v, i) => item.check(v, `${path}[${i}]`, issues));
+    },
+  };
+}
+
+/** A field that may be left out or `null`; both read as `undefined`. */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, path, issues) {
+      return value === undefined || value === null ? undefined : schema.check(value, path, issues);
+    },
+  };
+}
+
+/** An object with (at least) these fields. Extra fields are kept as they are. */
+export function object<T>(shape: { [K in keyof T]: Schema<T[K]> }): ObjectSchema<T> {
+  return {
+    shape,
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail(issues, path, 'an object', value);
+        return {} as T;
+      }
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...source };
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        result[key] = shape[key].check(source[key], path ? `${path}.${key}` : key, issues);
+      }
+      return result as T;
+    },
+  };
+}
+
+/** Check a parsed payload against a schema. */
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaResult<T> {
+  const issues: SchemaIssue[] = [];
+  const checked = schema.check(value, '', issues);
+  return issues.length ? { ok: false, issues } : { ok: true, value: checked };
+}
+
+/** One issue per line, ready to show the model. */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((i) => `- ${i.path || '(response)'}: ${i.message}`).join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Kitchly shapes
+// ---------------------------------------------------------------------------
+
+// Amounts are only type-checked here: measurementsFromDisplayText
+// re-reads them from the display text and fixes zero quantities itself.
+const MEASUREMENT_SCHEMA = object({
+  quantity: number(),
+  unit: string(),
+});
+
+export const INGREDIENT_SCHEMA = object({
+  name: string({ nonEmpty: true }),
+  display_text: optional(string()),
+  measurements: optional(array(MEASUREMENT_SCHEMA)),
+  group: optional(string()),
+  optional: optional(boolean()),
+  garnish: optional(boolean()),
+});
+
+export const LINE_ITEM_SCHEMA = object({
+  name: string({ nonEmpty: true }),
+  display_text: optional(string()),
+  line_item_measurements: optional(array(MEASUREMENT_SCHEMA)),
+});
+
+/** A generated recipe, as every recipe prompt asks for it. */
+export const RECIPE_SCHEMA = object({
+  title: string({ nonEmpty: true }),
+  servings: optional(number({ positive: true })),
+  prepTime: optional(string()),
+  cookTime: optional(string()),
+  cuisine: optional(string()),
+  dietaryTags: optional(array(string())),
+  equipment: optional(array(string())),
+  ingredients: array(INGREDIENT_SCHEMA, { minItems: 1 }),
+  instructions: array(string({ nonEmpty: true }), { minItems: 1 }),
+});
+
+export type RecipeJson = Infer<typeof RECIPE_SCHEMA>;
+
+/** A recipe sent in for export, which may carry the page it came from. */
+export const EXPORT_RECIPE_SCHEMA = object({
+  ...RECIPE_SCHEMA.shape,
+  sourceUrl: optional(httpUrl()),
+});
+
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+export const PLANNED_MEAL_SCHEMA = object({
+  type: oneOf(MEAL_TYPES),
+  recipe: string({ nonEmpty: true }),
+  description: optional(string()),
+  servings: optional(number({ positive: true })),
+  ingredients: optional(array(INGREDIENT_SCHEMA)),
+});
+
+/** A generated meal plan with its consolidated shopping list. */
+export const MEAL_PLAN_SCHEMA = object({
+  title: string({ nonEmpty: true }),
+  days: array(
+    object({
+      day: string({ nonEmpty: true }),
+      meals: array(PLANNED_MEAL_SCHEMA, { minItems: 1 }),
+    }),
+    { minItems: 1 },
+  ),
+  consolidatedList: array(LINE_ITEM_SCHEMA, { minItems: 1 }),
+});
+
+export type MealPlanJson = Infer<typeof MEAL_PLAN_SCHEMA>;
+
+/** Replacement meals for one slot or day of an existing meal plan. */
+export const MEAL_SWAP_SCHEMA = object({
+  meals: array(PLANNED_MEAL_SCHEMA, { minItems: 1 }),
+});
+
+/** A generated multi-course menu: one recipe per course, in serving order. */
+export const MENU_SCHEMA = object({
+  title: string({ nonEmpty: true }),
+  courses: array(
+    object({
+      course: string({ nonEmpty: true }),
+      ...RECIPE_SCHEMA.shape,
+    }),
+    { minItems: 1 },
+  ),
+});
+
+export type MenuJson = Infer<typeof MENU_SCHEMA>;
@@ -0,0 +1,159 @@
+// ============================================================================
+// Kitchly - Shopping list arithmetic
+//
+// Adds ingredients to a shopping list and takes them back off, so a list
+// can follow its recipes: merging a menu's courses into one list, or
+// swapping a meal out of a plan without rebuilding the rest. The same
+// grocery is one line, its amounts added up when their units convert;
+// amounts that can't be added (cloves and grams of garlic) stay as
+// separate lines.
+// ============================================================================
+
+import type { InstacartIngredient, InstacartLineItem } from '../types/index.js';
+import { convertMeasurement, formatMeasurement } from './units.js';
+
+/** Match key for a grocery: "Yellow Onions" and "yellow onion" are one item. */
+export function shoppingItemKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/(?:es|s)$/, '');
+}
+
+/** The line for `ingredient`'s grocery whose amount it can be added to or taken from. */
+function findLine(list: InstacartLineItem[], ingredient: InstacartIngredient): number {
+  const key = shoppingItemKey(ingredient.name);
+  const measurement = ingredient.measurements?.[0];
+  return list.findIndex((item) => {
+    if (shoppingItemKey(item.name) !== key) return false;
+    const current = item.line_item_measurements?.[0];
+    return (
+      !measurement || !current || !!convertMeasurement(measurement, current.unit, ingredient.name)
+    );
+  });
+}
+
+function withQuantity(item: InstacartLineItem, quantity: number, unit: string): InstacartLineItem {
+  const total = { quantity, unit };
+  return {
+    name: item.name,
+    display_text: `${formatMeasurement(total)} ${item.name}`,
+    line_item_measurements: [total],
+  };
+}
+
+/** `list` with `ingredients` added: merged into matching lines, new lines for the rest. */
+export function addToShoppingList(
+  list: InstacartLineItem[],
+  ingredients: InstacartIngredient[],
+): InstacartLineItem[] {
+  const items = [...list];
+  for (const ing of ingredients) {
+    const measurement = ing.measurements?.[0];
+    const index = findLine(items, ing);
+    if (index < 0) {
+      items.push({
+        name: ing.name,
+        display_text: ing.display_text || ing.name,
+        line_item_measurements: measurement ? [measurement] : undefined,
+      });
+      continue;
+    }
+
+    const item = items[index];
+    const current = item.line_item_measurements?.[0];
+    if (!measurement) continue;
+    if (!current) {
+      items[index] = { ...item, line_item_measurements: [measurement] };
+      continue;
+    }
+    const converted = convertMeasurement(measurement, current.unit, ing.name);
+    if (!converted) continue;
+    items[index] = withQuantity(item, current.quantity + converted.quantity, current.unit);
+  }
+  return items;
+}
+
+/**
+ * `list` with `ingredients` taken off. A line whose amount runs out is
+ * dropped, or set to what `keep` (the recipes still on the list) needs
+ * when they use that grocery too; lines for unmeasured groceries (salt,
+ * pepper) go only when nothing in `keep` uses them.
+ */
+export function removeFromShoppingList(
+  list: InstacartLineItem[],
+  ingredients: InstacartIngredient[],
+  keep: InstacartIngredient[] = [],
+): InstacartLineItem[] {
+  const kept = new Set(keep.map((ing) => shoppingItemKey(ing.name)));
+  const keptList = addToShoppingList([], keep);
+  const items = [...list];
+  for (const ing of ingredients) {
+    const index = findLine(items, ing);
+    if (index < 0) continue;
+    const item = items[index];
+    const stillUsed = kept.has(shoppingItemKey(item.name));
+    const current = item.line_item_measurements?.[0];
+    const measurement = ing.measurements?.[0];
+
+    if (!current || !measurement) {
+      if (!stillUsed) items.splice(index, 1);
+      continue;
+    }
+    const converted = convertMeasurement(measurement, current.unit, ing.name);
+    if (!converted) continue;
+    const remaining = current.quantity - converted.quantity;
+    if (remaining > 1e-6) {
+      items[index] = withQuantity(item, remaining, current.unit);
+    } else if (!stillUsed) {
+      items.splice(index, 1);
+    } else {
+      const needed = keptList.find(
+        (k) => shoppingItemKey(k.name) === shoppingItemKey(item.name),
+      )?.line_item_measurements?.[0];
+      const inUnit = needed && convertMeasurement(needed, current.unit, item.name);
+      if (inUnit) items[index] = withQuantity(item, inUnit.quantity, current.unit);
+    }
+  }
+  return items;
+}
+
+/** What differs between two versions of a shopping list. */
+export interface ShoppingListChanges {
+  added: InstacartLineItem[];
+  removed: InstacartLineItem[];
+  changed: { before: InstacartLineItem; after: InstacartLineItem }[];
+}
+
+/** Same amount of the same grocery, however the line happens to be worded. */
+function sameAmount(a: InstacartLineItem, b: InstacartLineItem): boolean {
+  const ma = a.line_item_measurements?.[0];
+  const mb = b.line_item_measurements?.[0];
+  if (!ma || !mb) return (a.display_text || a.name) === (b.display_text || b.name);
+  const converted = convertMeasurement(mb, ma.unit, b.name);
+  return !!converted && Math.abs(converted.quantity - ma.quantity) < 1e-6;
+}
+
+export function diffShoppingLists(
+  before: InstacartLineItem[],
+  after: InstacartLineItem[],
+): ShoppingListChanges {
+  const text = (item: InstacartLineItem) => item.display_text || item.name;
+  const unmatched = [...before];
+  const changes: ShoppingListChanges = { added: [], removed: [], changed: [] };
+  for (const item of after) {
+    const key = shoppingItemKey(item.name);
+    const same = unmatched.findIndex((b) => text(b) === text(item));
+    const index = same >= 0 ? same : unmatched.findIndex((b) => shoppingItemKey(b.name) === key);
+    if (index < 0) {
+      changes.added.push(item);
+      continue;
+    }
+    const [previous] = unmatched.splice(index, 1);
+    if (!sameAmount(previous, item)) changes.changed.push({ before: previous, after: item });
+  }
+  changes.removed = unmatched;
+  return changes;
+}
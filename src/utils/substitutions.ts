@@ -0,0 +1,470 @@
+// ============================================================================
+// Kitchly - Ingredient substitutions
+//
+// A local table of common kitchen swaps with quantity ratios, plus helpers
+// to find the ingredient a user is asking about, pick the option they
+// accepted, and patch the recipe (ingredient list and instruction text).
+// ============================================================================
+
+import type {
+  InstacartIngredient,
+  InstacartMeasurement,
+  Recipe,
+  SubstitutionComponent,
+  SubstitutionOption,
+  UserPreferences,
+} from '../types/index.js';
+import { findRestrictionViolations } from './allergenGuard.js';
+import { formatMeasurement, scaleMeasurement, unitKind } from './units.js';
+
+// ---------------------------------------------------------------------------
+// Substitution table
+// ---------------------------------------------------------------------------
+
+/** Fresh herbs that can be swapped for dried at a third of the amount. */
+const HERBS = 'thyme|oregano|rosemary|basil|parsley|dill|sage|tarragon|marjoram|mint|cilantro';
+
+/**
+ * Ingredient pattern -> substitution options, most common first. Ratios are
+ * relative to the original amount; `$1` in a component name is filled from
+ * the pattern's first capture group.
+ */
+const SUBSTITUTIONS: [RegExp, SubstitutionOption[]][] = [
+  [
+    /\bbuttermilk\b/,
+    [
+      {
+        components: [
+          { name: 'milk', ratio: 1 },
+          { name: 'lemon juice', ratio: 1 / 16 },
+        ],
+        note: 'stir the lemon juice into the milk and let it stand 5 minutes',
+      },
+      {
+        components: [
+          { name: 'plain yogurt', ratio: 3 / 4 },
+          { name: 'milk', ratio: 1 / 4 },
+        ],
+        note: 'whisk until smooth',
+      },
+    ],
+  ],
+  [
+    /\bsour cream\b/,
+    [
+      { components: [{ name: 'plain Greek yogurt', ratio: 1 }] },
+      { components: [{ name: 'crème fraîche', ratio: 1 }] },
+    ],
+  ],
+  [
+    /\b(?:heavy|whipping|double) cream\b/,
+    [
+      {
+        components: [
+          { name: 'whole milk', ratio: 3 / 4 },
+          { name: 'melted butter', ratio: 1 / 4 },
+        ],
+        note: "fine for cooking and baking, but it won't whip",
+      },
+      {
+        components: [{ name: 'full-fat coconut milk', ratio: 1 }],
+        note: 'dairy-free; adds a light coconut flavour',
+      },
+    ],
+  ],
+  [
+    /\b(?:greek )?yogh?urt\b/,
+    [{ components: [{ name: 'sour cream', ratio: 1 }] }],
+  ],
+  [
+    /^(?!.*\b(?:peanut|almond|cashew|apple)\b).*\bbutter\b/,
+    [
+      {
+        components: [{ name: 'olive oil', ratio: 3 / 4 }],
+        note: 'best for sautéing and savoury dishes',
+      },
+      {
+        components: [{ name: 'coconut oil', ratio: 1 }],
+        note: 'dairy-free; works well in baking',
+      },
+    ],
+  ],
+  [
+    /\bmilk\b/,
+    [
+      { components: [{ name: 'unsweetened oat milk', ratio: 1 }] },
+      { components: [{ name: 'unsweetened soy milk', ratio: 1 }] },
+      {
+        components: [
+          { name: 'evaporated milk', ratio: 1 / 2 },
+          { name: 'water', ratio: 1 / 2 },
+        ],
+      },
+    ],
+  ],
+  [
+    /\beggs?\b/,
+    [
+      {
+        components: [
+          { name: 'ground flaxseed', per: { quantity: 1, unit: 'tablespoon' } },
+          { name: 'water', per: { quantity: 3, unit: 'tablespoon' } },
+        ],
+        note: 'mix and let it gel for 5 minutes; best in baking',
+      },
+      {
+        components: [{ name: 'unsweetened applesauce', per: { quantity: 0.25, unit: 'cup' } }],
+        note: 'best in cakes and quick breads',
+      },
+    ],
+  ],
+  [
+    /\bself[- ](?:rising|risen|raising)\b/,
+    [
+      {
+        components: [
+          { name: 'all-purpose flour', ratio: 1 },
+          { name: 'baking powder', ratio: 1 / 32 },
+          { name: 'salt', ratio: 1 / 192 },
+        ],
+      },
+    ],
+  ],
+  [
+    /\bcake flour\b/,
+    [
+      {
+        components: [
+          { name: 'all-purpose flour', ratio: 7 / 8 },
+          { name: 'cornstarch', ratio: 1 / 8 },
+        ],
+        note: 'sift together twice',
+      },
+    ],
+  ],
+  [
+    /\bbrown sugar\b/,
+    [
+      {
+        components: [
+          { name: 'granulated sugar', ratio: 1 },
+          { name: 'molasses', ratio: 1 / 16 },
+        ],
+      },
+      { components: [{ name: 'coconut sugar', ratio: 1 }] },
+    ],
+  ],
+  [
+    /\bhoney\b/,
+    [
+      { components: [{ name: 'maple syrup', ratio: 1 }] },
+      { components: [{ name: 'agave syrup', ratio: 1 }] },
+    ],
+  ],
+  [/\bmaple syrup\b/, [{ components: [{ name: 'honey', ratio: 1 }] }]],
+  [
+    /\bbaking powder\b/,
+    [
+      {
+        components: [
+          { name: 'baking soda', ratio: 1 / 4 },
+          { name: 'cream of tartar', ratio: 1 / 2 },
+        ],
+      },
+    ],
+  ],
+  [
+    /\b(?:cornstarch|cornflour)\b/,
+    [
+      {
+        components: [{ name: 'all-purpose flour', ratio: 2 }],
+        note: 'cook a minute longer to lose the raw flour taste',
+      },
+      { components: [{ name: 'arrowroot powder', ratio: 1 }] },
+    ],
+  ],
+  [
+    /\bsoy sauce\b/,
+    [
+      { components: [{ name: 'tamari', ratio: 1 }], note: 'usually gluten-free' },
+      {
+        components: [{ name: 'coconut aminos', ratio: 1 }],
+        note: 'soy-free and a little sweeter',
+      },
+    ],
+  ],
+  [
+    /\b(?:dry )?(?:white|red) wine\b/,
+    [
+      {
+        components: [
+          { name: 'chicken or vegetable broth', ratio: 1 },
+          { name: 'red or white wine vinegar', ratio: 1 / 16 },
+        ],
+      },
+    ],
+  ],
+  [
+    /\blemon juice\b/,
+    [
+      { components: [{ name: 'lime juice', ratio: 1 }] },
+      { components: [{ name: 'white wine vinegar', ratio: 1 / 2 }] },
+    ],
+  ],
+  [/\blime juice\b/, [{ components: [{ name: 'lemon juice', ratio: 1 }] }]],
+  [
+    /\bmayonnaise\b/,
+    [{ components: [{ name: 'plain Greek yogurt', ratio: 1 }], note: 'tangier and lighter' }],
+  ],
+  [
+    /\bparmesan\b/,
+    [
+      { components: [{ name: 'pecorino romano', ratio: 1 }] },
+      { components: [{ name: 'nutritional yeast', ratio: 1 / 2 }], note: 'dairy-free' },
+    ],
+  ],
+  [
+    /\b(?:panko|bread ?crumbs?)\b/,
+    [
+      { components: [{ name: 'crushed crackers', ratio: 1 }] },
+      { components: [{ name: 'rolled oats', ratio: 1 }] },
+    ],
+  ],
+  [
+    /\bshallots?\b/,
+    [
+      {
+        components: [{ name: 'onion', ratio: 1 }],
+        note: 'use about half as much if the onion is large',
+      },
+    ],
+  ],
+  [
+    /\bgarlic\b(?! powder)/,
+    [{ components: [{ name: 'garlic powder', per: { quantity: 0.125, unit: 'teaspoon' } }] }],
+  ],
+  [
+    new RegExp(`\\bfresh (${HERBS})\\b`),
+    [
+      {
+        components: [{ name: 'dried $1', ratio: 1 / 3 }],
+        note: 'add it earlier in the cooking',
+      },
+    ],
+  ],
+  [
+    /\brice vinegar\b/,
+    [{ components: [{ name: 'apple cider vinegar', ratio: 1 }] }],
+  ],
+];
+
+/** The table's substitution options for an ingredient, or an empty list. */
+export function lookupSubstitutions(ingredientName: string): SubstitutionOption[] {
+  const name = ingredientName.toLowerCase();
+  for (const [pattern, options] of SUBSTITUTIONS) {
+    const match = name.match(pattern);
+    if (!match) continue;
+    return options.map((option) => ({
+      ...option,
+      components: option.components.map((c) => ({
+        ...c,
+        name: c.name.replace(/\$(\d)/g, (_, i: string) => match[parseInt(i, 10)] ?? ''),
+      })),
+    }));
+  }
+  return [];
+}
+
+/** Drop options that would break one of the user's allergies or diets. */
+export function filterSafeOptions(
+  options: SubstitutionOption[],
+  prefs: UserPreferences | undefined,
+): SubstitutionOption[] {
+  return options.filter(
+    (option) =>
+      findRestrictionViolations(
+        option.components.map((c) => c.name),
+        prefs,
+      ).length === 0,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Finding the ingredient
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentions(text: string, phrase: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(phrase)}s?\\b`, 'i').test(text);
+}
+
+/** The last word of an ingredient name ("unsalted butter" -> "butter"). */
+function headNoun(name: string): string {
+  return name.trim().split(/\s+/).pop() || name;
+}
+
+/**
+ * Find the recipe ingredient a message is about, preferring a full-name
+ * match ("unsalted butter") over a head-noun match ("butter").
+ */
+export function findRecipeIngredient(
+  recipe: Recipe,
+  text: string,
+): InstacartIngredient | undefined {
+  const byLength = [...recipe.ingredients].sort((a, b) => b.name.length - a.name.length);
+  return (
+    byLength.find((ing) => mentions(text, ing.name)) ??
+    byLength.find((ing) => mentions(text, headNoun(ing.name)))
+  );
+}
+
+/**
+ * Parse a direct swap like "use yogurt instead of buttermilk" or "swap the
+ * butter for olive oil". Whichever side names a recipe ingredient is the
+ * original; the other side is the replacement.
+ */
+export function parseDirectSwap(
+  text: string,
+  recipe: Recipe,
+): { ingredient: InstacartIngredient; replacement: string } | null {
+  const m = text.match(
+    /\b(?:use|swap|replace|substitute|sub|try)\s+(?:the\s+|some\s+)?(.+?)\s+(?:instead of|rather than|in place of|for|with)\s+(?:the\s+|some\s+)?(.+?)(?:\s+instead)?\s*(?:[.?!,;]|$)/i,
+  );
+  if (!m) return null;
+
+  const [, first, second] = m;
+  const firstMatch = findRecipeIngredient(recipe, first);
+  const secondMatch = findRecipeIngredient(recipe, second);
+
+  if (secondMatch && !firstMatch) return { ingredient: secondMatch, replacement: first.trim() };
+  if (firstMatch && !secondMatch) return { ingredient: firstMatch, replacement: second.trim() };
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Choosing an option
+// ---------------------------------------------------------------------------
+
+const ORDINALS: [RegExp, number][] = [
+  [/\b(?:first|1st|(?:option|number) (?:1|one))\b|#1\b/, 0],
+  [/\b(?:second|2nd|(?:option|number) (?:2|two))\b|#2\b/, 1],
+  [/\b(?:third|3rd|(?:option|number) (?:3|three))\b|#3\b/, 2],
+];
+
+/**
+ * Work out which offered option the user picked: by ordinal ("the second
+ * one"), by naming one of its ingredients, or -- with a single option -- by
+ * simply agreeing. Returns `undefined` when the message picks nothing.
+ */
+export function chooseOption(text: string, options: SubstitutionOption[]): number | undefined {
+  const t = text.toLowerCase();
+
+  for (const [pattern, index] of ORDINALS) {
+    if (pattern.test(t) && index < options.length) return index;
+  }
+
+  const named = options.findIndex((option) =>
+    option.components.some((c) => mentions(t, c.name) || mentions(t, headNoun(c.name))),
+  );
+  if (named >= 0) return named;
+
+  const agreed =
+    /\b(?:yes|yeah|yep|sure|ok(?:ay)?|do it|sounds good|let'?s do (?:it|that)|go (?:for it|ahead))\b/.test(t);
+  if (options.length === 1 && agreed) return 0;
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Applying a substitution
+// ---------------------------------------------------------------------------
+
+function componentMeasurement(
+  original: InstacartMeasurement,
+  component: SubstitutionComponent,
+): InstacartMeasurement {
+  if (component.per && unitKind(original.unit) === 'count') {
+    return scaleMeasurement(component.per, original.quantity);
+  }
+  if (component.per) return component.per;
+  return scaleMeasurement(original, component.ratio ?? 1);
+}
+
+/** The ingredients that replace `original` under an option. */
+export function substitutionIngredients(
+  original: InstacartIngredient,
+  option: SubstitutionOption,
+): InstacartIngredient[] {
+  const base = original.measurements?.[0] ?? { quantity: 1, unit: 'each' };
+  return option.components.map((component) => {
+    const measurement = componentMeasurement(base, component);
+    return {
+      name: component.name,
+      display_text: `${formatMeasurement(measurement)} ${component.name}`,
+      measurements: [measurement],
+      // The swap takes the original's place in the recipe
+      group: original.group,
+      optional: original.optional,
+      garnish: original.garnish,
+    };
+  });
+}
+
+/** Short label for an option, e.g. "milk and lemon juice". */
+export function describeOption(option: SubstitutionOption): string {
+  const names = option.components.map((c) => c.name);
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : names[0];
+}
+
+/** An option with amounts for a specific ingredient, e.g. "1 cup milk + 1 tbsp lemon juice". */
+export function formatOption(original: InstacartIngredient, option: SubstitutionOption): string {
+  const amounts = substitutionIngredients(original, option)
+    .map((ing) => ing.display_text)
+    .join(' + ');
+  return option.note ? `${amounts} (${option.note})` : amounts;
+}
+
+/**
+ * Replace an ingredient in a recipe: the ingredient list gets the option's
+ * components in its place, and instructions that mention the ingredient
+ * name the replacement instead. The option's note is added to the first
+ * step that uses it.
+ */
+export function applySubstitution(
+  recipe: Recipe,
+  ingredientName: string,
+  option: SubstitutionOption,
+): Recipe {
+  const index = recipe.ingredients.findIndex((ing) => ing.name === ingredientName);
+  if (index < 0) return recipe;
+
+  const original = recipe.ingredients[index];
+  const ingredients = [
+    ...recipe.ingredients.slice(0, index),
+    ...substitutionIngredients(original, option),
+    ...recipe.ingredients.slice(index + 1),
+  ];
+
+  const label = describeOption(option);
+  const fullName = new RegExp(`\\b${escapeRegExp(original.name)}\\b`, 'i');
+  const shortName = new RegExp(`\\b${escapeRegExp(headNoun(original.name))}\\b`, 'i');
+  let noted = !option.note;
+
+  const instructions = recipe.instructions.map((step) => {
+    const pattern = fullName.test(step) ? fullName : shortName.test(step) ? shortName : null;
+    if (!pattern) return step;
+
+    let patched = step.replace(new RegExp(pattern.source, 'gi'), label);
+    if (!noted) {
+      patched = `${patched.replace(/\.?\s*$/, '')} (${option.note}).`;
+      noted = true;
+    }
+    return patched;
+  });
+
+  return { ...recipe, ingredients, instructions };
+}
@@ -0,0 +1,670 @@
+// ============================================================================
+// Kitchly - Measurement units
+//
+// Understands the units recipes are written in (US and metric volume,
+// weight, and counts), canonicalises free-text unit strings before they
+// reach Instacart, converts measurements between units and systems --
+// across volume and weight for ingredients with a known density -- and
+// re-expresses scaled amounts in the unit a cook would actually reach for
+// (24 tsp -> 1/2 cup, 2.5 eggs -> 3 eggs).
+// ============================================================================
+
+import type { InstacartIngredient, InstacartMeasurement } from '../types/index.js';
+
+// ---------------------------------------------------------------------------
+// Unit table
+// ---------------------------------------------------------------------------
+
+export type UnitKind = 'volume' | 'weight' | 'count';
+export type UnitSystem = 'us' | 'metric';
+
+interface UnitInfo {
+  kind: UnitKind;
+  /** Counts have no system; they read the same everywhere. */
+  system?: UnitSystem;
+  /** Size in the kind's base unit (millilitres for volume, grams for weight). */
+  size: number;
+  singular: string;
+  plural: string;
+}
+
+/**
+ * Every unit we understand, keyed by its canonical name -- the form sent
+ * to Instacart and stored on measurements.
+ */
+const UNITS: Record<string, UnitInfo> = {
+  // US volume
+  teaspoon: { kind: 'volume', system: 'us', size: 4.92892, singular: 'tsp', plural: 'tsp' },
+  tablespoon: { kind: 'volume', system: 'us', size: 14.7868, singular: 'tbsp', plural: 'tbsp' },
+  'fl oz': { kind: 'volume', system: 'us', size: 29.5735, singular: 'fl oz', plural: 'fl oz' },
+  cup: { kind: 'volume', system: 'us', size: 236.588, singular: 'cup', plural: 'cups' },
+  pint: { kind: 'volume', system: 'us', size: 473.176, singular: 'pint', plural: 'pints' },
+  quart: { kind: 'volume', system: 'us', size: 946.353, singular: 'quart', plural: 'quarts' },
+  gallon: { kind: 'volume', system: 'us', size: 3785.41, singular: 'gallon', plural: 'gallons' },
+  // Metric volume
+  milliliter: { kind: 'volume', system: 'metric', size: 1, singular: 'ml', plural: 'ml' },
+  liter: { kind: 'volume', system: 'metric', size: 1000, singular: 'l', plural: 'l' },
+  // US weight
+  ounce: { kind: 'weight', system: 'us', size: 28.3495, singular: 'oz', plural: 'oz' },
+  pound: { kind: 'weight', system: 'us', size: 453.592, singular: 'lb', plural: 'lb' },
+  // Metric weight
+  gram: { kind: 'weight', system: 'metric', size: 1, singular: 'g', plural: 'g' },
+  kilogram: { kind: 'weight', system: 'metric', size: 1000, singular: 'kg', plural: 'kg' },
+  // Counts -- size words ("large") stand in for the item itself
+  each: { kind: 'count', size: 1, singular: 'each', plural: 'each' },
+  large: { kind: 'count', size: 1, singular: 'large', plural: 'large' },
+  medium: { kind: 'count', size: 1, singular: 'medium', plural: 'medium' },
+  small: { kind: 'count', size: 1, singular: 'small', plural: 'small' },
+  whole: { kind: 'count', size: 1, singular: 'whole', plural: 'whole' },
+  clove: { kind: 'count', size: 1, singular: 'clove', plural: 'cloves' },
+  can: { kind: 'count', size: 1, singular: 'can', plural: 'cans' },
+  jar: { kind: 'count', size: 1, singular: 'jar', plural: 'jars' },
+  bottle: { kind: 'count', size: 1, singular: 'bottle', plural: 'bottles' },
+  egg: { kind: 'count', size: 1, singular: 'egg', plural: 'eggs' },
+  piece: { kind: 'count', size: 1, singular: 'piece', plural: 'pieces' },
+  slice: { kind: 'count', size: 1, singular: 'slice', plural: 'slices' },
+  stalk: { kind: 'count', size: 1, singular: 'stalk', plural: 'stalks' },
+  sprig: { kind: 'count', size: 1, singular: 'sprig', plural: 'sprigs' },
+  leaf: { kind: 'count', size: 1, singular: 'leaf', plural: 'leaves' },
+  head: { kind: 'count', size: 1, singular: 'head', plural: 'heads' },
+  bunch: { kind: 'count', size: 1, singular: 'bunch', plural: 'bunches' },
+  package: { kind: 'count', size: 1, singular: 'package', plural: 'packages' },
+  stick: { kind: 'count', size: 1, singular: 'stick', plural: 'sticks' },
+  pinch: { kind: 'count', size: 1, singular: 'pinch', plural: 'pinches' },
+  dash: { kind: 'count', size: 1, singular: 'dash', plural: 'dashes' },
+};
+
+/**
+ * Abbreviations whose meaning depends on case: a capital "T" is a
+ * tablespoon, a lowercase "t" a teaspoon.
+ */
+const CASE_SENSITIVE_ALIASES: Record<string, string> = {
+  T: 'tablespoon',
+  Tb: 'tablespoon',
+  Tbs: 'tablespoon',
+  TB: 'tablespoon',
+  TBS: 'tablespoon',
+  TBSP: 'tablespoon',
+  t: 'teaspoon',
+  ts: 'teaspoon',
+};
+
+/** Lowercase spellings, abbreviations and plurals, mapped to canonical names. */
+const UNIT_ALIASES: Record<string, string> = {
+  tsp: 'teaspoon',
+  tsps: 'teaspoon',
+  teaspoons: 'teaspoon',
+  tbsp: 'tablespoon',
+  tbsps: 'tablespoon',
+  tbs: 'tablespoon',
+  tbl: 'tablespoon',
+  tablespoons: 'tablespoon',
+  floz: 'fl oz',
+  'fluid ounce': 'fl oz',
+  'fluid ounces': 'fl oz',
+  c: 'cup',
+  pt: 'pint',
+  qt: 'quart',
+  gal: 'gallon',
+  ml: 'milliliter',
+  milliliters: 'milliliter',
+  millilitre: 'milliliter',
+  millilitres: 'milliliter',
+  cc: 'milliliter',
+  l: 'liter',
+  liters: 'liter',
+  litre: 'liter',
+  litres: 'liter',
+  oz: 'ounce',
+  ounces: 'ounce',
+  lb: 'pound',
+  lbs: 'pound',
+  pounds: 'pound',
+  g: 'gram',
+  gr: 'gram',
+  gm: 'gram',
+  grams: 'gram',
+  gramme: 'gram',
+  grammes: 'gram',
+  kg: 'kilogram',
+  kgs: 'kilogram',
+  kilo: 'kilogram',
+  kilos: 'kilogram',
+  kilograms: 'kilogram',
+  unit: 'each',
+  units: 'each',
+  ea: 'each',
+  eggs: 'egg',
+  pc: 'piece',
+  pcs: 'piece',
+  pkg: 'package',
+  pkgs: 'package',
+  packet: 'package',
+  packets: 'package',
+  tin: 'can',
+  tins: 'can',
+};
+
+/** Metric sub-units folded into millilitres / grams on the way in. */
+const METRIC_MULTIPLES: Record<string, { unit: string; factor: number }> = {
+  cl: { unit: 'milliliter', factor: 10 },
+  centiliter: { unit: 'milliliter', factor: 10 },
+  centilitre: { unit: 'milliliter', factor: 10 },
+  dl: { unit: 'milliliter', factor: 100 },
+  deciliter: { unit: 'milliliter', factor: 100 },
+  decilitre: { unit: 'milliliter', factor: 100 },
+  mg: { unit: 'gram', factor: 0.001 },
+  milligram: { unit: 'gram', factor: 0.001 },
+  milligrams: { unit: 'gram', factor: 0.001 },
+};
+
+// Every canonical name and its plural resolve to the canonical name
+for (const [name, info] of Object.entries(UNITS)) {
+  UNIT_ALIASES[name] ??= name;
+  if (info.kind === 'count') UNIT_ALIASES[info.plural] ??= name;
+}
+for (const name of ['cup', 'pint', 'quart', 'gallon']) {
+  UNIT_ALIASES[`${name}s`] ??= name;
+}
+
+function cleanUnit(unit: string): string {
+  return unit.trim().replace(/\.(?=\s|$)/g, '').replace(/\s+/g, ' ');
+}
+
+/** Resolve any spelling of a unit to its canonical name, if we know it. */
+function resolveUnit(unit: string): string | undefined {
+  const cleaned = cleanUnit(unit);
+  return CASE_SENSITIVE_ALIASES[cleaned] ?? UNIT_ALIASES[cleaned.toLowerCase()];
+}
+
+function lookupUnit(unit: string): UnitInfo | undefined {
+  const name = resolveUnit(unit);
+  return name ? UNITS[name] : undefined;
+}
+
+function isCountUnit(unit: string): boolean {
+  return lookupUnit(unit)?.kind === 'count';
+}
+
+/**
+ * Canonical name for a unit string ("Tbsp", "tablespoons", "T" ->
+ * "tablespoon"). Units we do not recognise are returned trimmed and
+ * lowercased so at least the spelling is consistent.
+ */
+export function canonicalizeUnit(unit: string): string {
+  return resolveUnit(unit) ?? cleanUnit(unit).toLowerCase();
+}
+
+/** Whether a word is a unit we understand, including metric sub-units ("dl", "mg"). */
+export function isUnit(word: string): boolean {
+  return !!(resolveUnit(word) || METRIC_MULTIPLES[cleanUnit(word).toLowerCase()]);
+}
+
+/** What a unit measures, or `undefined` for units we do not recognise. */
+export function unitKind(unit: string): UnitKind | undefined {
+  return lookupUnit(unit)?.kind;
+}
+
+/** The system a unit belongs to; counts and unknown units have none. */
+export function unitSystem(unit: string): UnitSystem | undefined {
+  return lookupUnit(unit)?.system;
+}
+
+// ---------------------------------------------------------------------------
+// Ingredient densities
+// ---------------------------------------------------------------------------
+
+/**
+ * Grams per US cup for common ingredients, used to move between volume and
+ * weight. More specific patterns come first ("brown sugar" before "sugar").
+ */
+const GRAMS_PER_CUP: [RegExp, number][] = [
+  [/\balmond (?:flour|meal)\b/, 96],
+  [/\bcoconut flour\b/, 112],
+  [/\bcake flour\b/, 114],
+  [/\bbread flour\b/, 127],
+  [/\bwhole[- ]wheat flour\b/, 120],
+  [/\b(?:corn ?starch|corn ?flour)\b/, 128],
+  [/\bflour\b/, 125],
+  [/\b(?:powdered|confectioners'?|icing) sugar\b/, 120],
+  [/\bbrown sugar\b/, 213],
+  [/\bsugar\b/, 200],
+  [/\bpeanut butter\b/, 258],
+  [/\bbutter\b(?!milk)/, 227],
+  [/\bhoney\b/, 340],
+  [/\bmaple syrup\b/, 322],
+  [/\bcocoa\b/, 85],
+  [/\bbaking soda\b/, 230],
+  [/\bbaking powder\b/, 192],
+  [/\bkosher salt\b/, 150],
+  [/\bsalt\b/, 288],
+  [/\boats\b/, 90],
+  [/\brice\b/, 185],
+  [/\b(?:shredded|grated) (?:cheddar|mozzarella|cheese)\b/, 113],
+  [/\bparmesan\b/, 100],
+  [/\byog(?:h)?urt\b/, 245],
+  [/\bcream\b/, 238],
+  [/\bmilk\b/, 240],
+  [/\boil\b/, 218],
+  [/\b(?:water|stock|broth)\b/, 237],
+];
+
+/** Density of an ingredient in grams per millilitre, if we know it. */
+export function densityFor(ingredientName: string): number | undefined {
+  const name = ingredientName.toLowerCase();
+  const match = GRAMS_PER_CUP.find(([pattern]) => pattern.test(name));
+  return match ? match[1] / UNITS.cup.size : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Quantities
+// ---------------------------------------------------------------------------
+
+/** Fractions cooks actually measure with. */
+const NICE_FRACTIONS: [number, string][] = [
+  [0, ''],
+  [1 / 8, '1/8'],
+  [1 / 4, '1/4'],
+  [1 / 3, '1/3'],
+  [1 / 2, '1/2'],
+  [2 / 3, '2/3'],
+  [3 / 4, '3/4'],
+  [1, ''],
+];
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '⅛': 1 / 8,
+  '⅜': 3 / 8,
+  '⅝': 5 / 8,
+  '⅞': 7 / 8,
+};
+
+/** Leading amount in a display string: "2", "1 1/2", "1/2", "2.5", "½", "2-3". */
+const LEADING_QUANTITY =
+  /^\s*(?:\d+\s*[½¼¾⅓⅔⅛⅜⅝⅞]|[½¼¾⅓⅔⅛⅜⅝⅞]|\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?)(?:\s*(?:-|–|to)\s*(?:\d+\/\d+|\d+(?:[.,]\d+)?))?\s*/;
+
+/** A unit word right after the amount, e.g. "cups", "fl. oz", "T". */
+const UNIT_WORD = /^(fl\.?\s*oz\.?|fluid ounces?|[a-z]+\.?)(?=\s|$|\))/i;
+
+/** Round to the nearest fraction a cook can measure (1/8, 1/4, 1/3, ...). */
+function roundToNiceFraction(quantity: number): number {
+  const whole = Math.floor(quantity);
+  const rest = quantity - whole;
+  let best = NICE_FRACTIONS[0][0];
+  for (const [value] of NICE_FRACTIONS) {
+    if (Math.abs(rest - value) < Math.abs(rest - best)) best = value;
+  }
+  return whole + best;
+}
+
+/** Round a metric amount the way a scale or jug reads (5 g steps past 50 g). */
+function roundMetric(quantity: number): number {
+  if (quantity >= 50) return Math.round(quantity / 5) * 5;
+  if (quantity >= 10) return Math.round(quantity);
+  return Math.round(quantity * 10) / 10;
+}
+
+/**
+ * Parse a written amount: "2", "1 1/2", "1/2", "2.5", "1,5", "½", "1½".
+ * Ranges ("2-3") read as their lower bound.
+ */
+export function parseQuantity(text: string): number | undefined {
+  const t = text.trim();
+  let m = t.match(/^(\d+)\s*([½¼¾⅓⅔⅛⅜⅝⅞])/);
+  if (m) return parseInt(m[1], 10) + UNICODE_FRACTIONS[m[2]];
+  m = t.match(/^([½¼¾⅓⅔⅛⅜⅝⅞])/);
+  if (m) return UNICODE_FRACTIONS[m[1]];
+  m = t.match(/^(\d+)\s+(\d+)\/(\d+)/);
+  if (m && parseInt(m[3], 10) > 0) {
+    return parseInt(m[1], 10) + parseInt(m[2], 10) / parseInt(m[3], 10);
+  }
+  m = t.match(/^(\d+)\/(\d+)/);
+  if (m && parseInt(m[2], 10) > 0) return parseInt(m[1], 10) / parseInt(m[2], 10);
+  m = t.match(/^(\d+(?:[.,]\d+)?)/);
+  if (m) return parseFloat(m[1].replace(',', '.'));
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** Format a quantity as a kitchen-friendly string, e.g. 1.5 -> "1 1/2". */
+export function formatQuantity(quantity: number): string {
+  if (quantity >= 10) {
+    return String(Math.round(quantity * 10) / 10);
+  }
+  const whole = Math.floor(quantity);
+  const rest = quantity - whole;
+  const match = NICE_FRACTIONS.find(([value]) => Math.abs(rest - value) < 0.01);
+  if (match) {
+    if (match[0] === 1) return String(whole + 1);
+    if (!match[1]) return String(whole);
+    return whole > 0 ? `${whole} ${match[1]}` : match[1];
+  }
+  return String(Math.round(quantity * 100) / 100);
+}
+
+/** The label to print after a quantity, e.g. "cups" for 2 cups. */
+function unitLabel(unit: string, quantity: number): string {
+  const info = lookupUnit(unit);
+  if (info) return quantity > 1 ? info.plural : info.singular;
+  return unit;
+}
+
+/** Format a measurement for display, e.g. "1 1/2 cups". */
+export function formatMeasurement(measurement: InstacartMeasurement): string {
+  const quantity = formatQuantity(measurement.quantity);
+  return canonicalizeUnit(measurement.unit) === 'each'
+    ? quantity
+    : `${quantity} ${unitLabel(measurement.unit, measurement.quantity)}`;
+}
+
+/** Naive English plural / singular, good enough for ingredient nouns. */
+function inflect(word: string, quantity: number): string {
+  const lower = word.toLowerCase();
+  if (quantity > 1) {
+    if (/s$/.test(lower)) return word;
+    if (/[^aeiou]y$/.test(lower)) return `${word.slice(0, -1)}ies`;
+    if (/(?:ch|sh|x|[^aeiou]o)$/.test(lower)) return `${word}es`;
+    return `${word}s`;
+  }
+  if (/[^aeiou]ies$/.test(lower)) return `${word.slice(0, -3)}y`;
+  if (/(?:ches|shes|xes|[^aeiou]oes)$/.test(lower)) return word.slice(0, -2);
+  if (/[^s]s$/.test(lower)) return word.slice(0, -1);
+  return word;
+}
+
+/** Inflect the noun ending the first phrase ("medium onion, diced"). */
+function inflectHead(text: string, quantity: number): string {
+  return text.replace(/^([^,(]*?)([A-Za-z]+)(?=\s*(?:[,(]|$))/, (_, before: string, noun: string) =>
+    `${before}${inflect(noun, quantity)}`,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+/** Each system's units for volume and weight, largest first. */
+const UNIT_LADDERS: Record<UnitSystem, Record<'volume' | 'weight', string[]>> = {
+  us: {
+    volume: ['cup', 'tablespoon', 'teaspoon'],
+    weight: ['pound', 'ounce'],
+  },
+  metric: {
+    volume: ['liter', 'milliliter'],
+    weight: ['kilogram', 'gram'],
+  },
+};
+
+/** How far rounding to a measurable amount may drift before we try a smaller unit. */
+const MAX_ROUNDING_ERROR = 0.05;
+
+/** Looser tolerance when changing systems, where exact equivalents never exist. */
+const MAX_CONVERSION_ROUNDING_ERROR = 0.1;
+
+/** Smallest amount (in base units) worth expressing in a unit: a whole one, or 1/4 cup. */
+function minimumFor(unit: string): number {
+  return unit === 'cup' ? UNITS.cup.size / 4 : UNITS[unit].size;
+}
+
+/**
+ * Express an amount (in base units) in the most natural of `units`
+ * (largest first): the largest unit that reads as a measurable amount
+ * without drifting (6 tbsp stays 6 tbsp rather than becoming 1/3 cup).
+ * US units round to kitchen fractions, metric units to scale readings.
+ */
+function bestUnit(
+  base: number,
+  units: string[],
+  tolerance = MAX_ROUNDING_ERROR,
+): InstacartMeasurement {
+  const roundFor = (unit: string) =>
+    UNITS[unit].system === 'metric' ? roundMetric : roundToNiceFraction;
+
+  for (const unit of units) {
+    if (base < minimumFor(unit) && unit !== units[units.length - 1]) continue;
+    const exact = base / UNITS[unit].size;
+    const rounded = roundFor(unit)(exact);
+    if (rounded > 0 && Math.abs(rounded - exact) / exact <= tolerance) {
+      return { quantity: rounded, unit };
+    }
+  }
+
+  const smallest = units[units.length - 1];
+  return { quantity: roundFor(smallest)(base / UNITS[smallest].size), unit: smallest };
+}
+
+/**
+ * Convert a measurement to another unit. Volume and weight convert into
+ * each other only when the ingredient's density is known; counts and
+ * unrecognised units only "convert" to themselves. Returns `null` when
+ * the conversion is not possible.
+ */
+export function convertMeasurement(
+  measurement: InstacartMeasurement,
+  toUnit: string,
+  ingredientName?: string,
+): InstacartMeasurement | null {
+  const target = canonicalizeUnit(toUnit);
+  if (canonicalizeUnit(measurement.unit) === target) {
+    return { quantity: measurement.quantity, unit: target };
+  }
+
+  const from = lookupUnit(measurement.unit);
+  const to = UNITS[target];
+  if (!from || !to || from.kind === 'count' || to.kind === 'count') return null;
+
+  let base = measurement.quantity * from.size;
+  if (from.kind !== to.kind) {
+    const density = ingredientName ? densityFor(ingredientName) : undefined;
+    if (!density) return null;
+    base = from.kind === 'volume' ? base * density : base / density;
+  }
+  return { quantity: base / to.size, unit: target };
+}
+
+/**
+ * Re-express a measurement in whichever of `units` reads most naturally
+ * (largest first), keeping its kind: volume stays volume and weight stays
+ * weight. Counts, unrecognised units, and measurements with no matching
+ * unit in the list are returned unchanged apart from canonicalising the
+ * unit.
+ */
+export function expressInUnits(
+  measurement: InstacartMeasurement,
+  units: string[],
+): InstacartMeasurement {
+  const info = lookupUnit(measurement.unit);
+  const candidates = units.map(canonicalizeUnit).filter((u) => UNITS[u]?.kind === info?.kind);
+  if (!info || info.kind === 'count' || candidates.length === 0) {
+    return canonicalizeMeasurement(measurement);
+  }
+  return bestUnit(measurement.quantity * info.size, candidates, MAX_CONVERSION_ROUNDING_ERROR);
+}
+
+/**
+ * Re-express a measurement in the US or metric system, picking the most
+ * natural unit there (250 ml -> 1 cup, 1 1/2 lb -> 680 g). Volume stays
+ * volume and weight stays weight; counts and unrecognised units are
+ * returned unchanged apart from canonicalising the unit.
+ */
+export function convertToSystem(
+  measurement: InstacartMeasurement,
+  system: UnitSystem,
+): InstacartMeasurement {
+  const kind = unitKind(measurement.unit);
+  if (kind !== 'volume' && kind !== 'weight') return canonicalizeMeasurement(measurement);
+  return expressInUnits(measurement, UNIT_LADDERS[system][kind]);
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Canonicalise a unit, folding metric sub-units (cl, dl, mg) into their base unit. */
+function normalizeUnitAmount(quantity: number, unit: string): InstacartMeasurement {
+  const multiple = METRIC_MULTIPLES[cleanUnit(unit).toLowerCase()];
+  if (multiple) return { quantity: quantity * multiple.factor, unit: multiple.unit };
+  return { quantity, unit: canonicalizeUnit(unit) };
+}
+
+/** A measurement with its unit in canonical form ("3 Tbsp" -> 3 tablespoon, "2 dl" -> 200 milliliter). */
+export function canonicalizeMeasurement(measurement: InstacartMeasurement): InstacartMeasurement {
+  return normalizeUnitAmount(measurement.quantity, measurement.unit);
+}
+
+/**
+ * Read a measurement from the start of a display string
+ * ("2 Tbsp olive oil" -> 2 tablespoon, "3 eggs" -> 3 each).
+ */
+export function measurementFromText(text: string | undefined): InstacartMeasurement | undefined {
+  const trimmed = text?.trim();
+  const lead = trimmed?.match(LEADING_QUANTITY);
+  if (!trimmed || !lead) return undefined;
+
+  const quantity = parseQuantity(lead[0]);
+  if (!quantity || quantity <= 0) return undefined;
+
+  const unitWord = trimmed.slice(lead[0].length).match(UNIT_WORD);
+  const unit =
+    unitWord && (resolveUnit(unitWord[1]) || METRIC_MULTIPLES[cleanUnit(unitWord[1]).toLowerCase()])
+      ? unitWord[1]
+      : 'each';
+  return normalizeUnitAmount(quantity, unit);
+}
+
+/**
+ * Clean up measurements from a model or import before they reach
+ * Instacart: every quantity positive, every unit canonical. When none are
+ * given, the amount is read from the display text, and only as a last
+ * resort assumed to be one item.
+ */
+export function normalizeMeasurements(
+  measurements: InstacartMeasurement[] | undefined,
+  displayText?: string,
+): InstacartMeasurement[] {
+  const normalized = (Array.isArray(measurements) ? measurements : [])
+    .filter((m) => m && typeof m === 'object')
+    .map((m) => {
+      const quantity = typeof m.quantity === 'number' && m.quantity > 0 ? m.quantity : 1;
+      const unit = typeof m.unit === 'string' && m.unit.trim() ? m.unit : 'each';
+      return normalizeUnitAmount(quantity, unit);
+    });
+
+  if (normalized.length === 0) {
+    normalized.push(measurementFromText(displayText) ?? { quantity: 1, unit: 'each' });
+  }
+  return normalized;
+}
+
+// ---------------------------------------------------------------------------
+// Scaling
+// ---------------------------------------------------------------------------
+
+/**
+ * Multiply a measurement by `factor` and re-express it sensibly in the
+ * same system. Whole items are rounded to whole numbers (never below
+ * one); unknown units are scaled and rounded to a measurable fraction.
+ * Pints, quarts and gallons are left alone -- they are how liquids are
+ * bought.
+ */
+export function scaleMeasurement(
+  measurement: InstacartMeasurement,
+  factor: number,
+): InstacartMeasurement {
+  const scaled = measurement.quantity * factor;
+  const unit = canonicalizeUnit(measurement.unit);
+  const info = UNITS[unit];
+
+  if (info?.kind === 'count') {
+    return { quantity: Math.max(1, Math.round(scaled)), unit };
+  }
+
+  let result: InstacartMeasurement;
+  if (!info) {
+    result = { quantity: roundToNiceFraction(scaled), unit };
+  } else if (info.kind === 'volume' && info.system === 'us' && info.size > UNITS.cup.size) {
+    result = { quantity: roundToNiceFraction(scaled), unit };
+  } else {
+    result = bestUnit(scaled * info.size, UNIT_LADDERS[info.system ?? 'us'][info.kind]);
+  }
+
+  // Never round a real amount away entirely
+  if (result.quantity <= 0) result.quantity = info?.system === 'metric' ? 0.1 : 1 / 8;
+  return result;
+}
+
+/**
+ * Rewrite an ingredient's display text for a new measurement, keeping the
+ * rest of the original wording ("2 cups all-purpose flour, sifted").
+ */
+function rewriteDisplayText(
+  ingredient: InstacartIngredient,
+  measurement: InstacartMeasurement,
+): string {
+  const original = ingredient.display_text?.trim();
+  const lead = original?.match(LEADING_QUANTITY);
+
+  if (!original || !lead) {
+    return `${formatMeasurement(measurement)} ${ingredient.name}`.trim();
+  }
+
+  let rest = original.slice(lead[0].length);
+  const quantity = formatQuantity(measurement.quantity);
+
+  // Replace the old unit word, if the text had one
+  const unitWord = rest.match(UNIT_WORD);
+  const wordInfo = unitWord ? lookupUnit(unitWord[1]) : undefined;
+  if (unitWord && wordInfo) {
+    rest = rest.slice(unitWord[0].length).trimStart();
+    if (wordInfo.kind === 'count') {
+      // Size words ("large") describe the item that follows, so it is the
+      // noun that needs inflecting
+      if (wordInfo.singular === wordInfo.plural) {
+        return `${quantity} ${unitWord[1]} ${inflectHead(rest, measurement.quantity)}`.trim();
+      }
+      return `${quantity} ${inflect(unitWord[1], measurement.quantity)} ${rest}`.trim();
+    }
+    return `${formatMeasurement(measurement)} ${rest}`.trim();
+  }
+
+  // No unit in the text: the amount counts the ingredient itself ("1 egg")
+  if (isCountUnit(measurement.unit)) {
+    return `${quantity} ${inflectHead(rest, measurement.quantity)}`.trim();
+  }
+  return `${formatMeasurement(measurement)} ${rest}`.trim();
+}
+
+/**
+ * Replace every measurement of an ingredient via `fn` and refresh its
+ * display text to match. Only the first measurement drives the display
+ * text; alternates (e.g. a weight alongside a volume) are mapped the same
+ * way.
+ */
+export function mapIngredientMeasurements(
+  ingredient: InstacartIngredient,
+  fn: (measurement: InstacartMeasurement) => InstacartMeasurement,
+): InstacartIngredient {
+  if (!ingredient.measurements?.length) return { ...ingredient };
+  const measurements = ingredient.measurements.map(fn);
+  return {
+    ...ingredient,
+    measurements,
+    display_text: rewriteDisplayText(ingredient, measurements[0]),
+  };
+}
+
+/** Scale every measurement of an ingredient and refresh its display text. */
+export function scaleIngredient(
+  ingredient: InstacartIngredient,
+  factor: number,
+): InstacartIngredient {
+  return mapIngredientMeasurements(ingredient, (m) => scaleMeasurement(m, factor));
+}